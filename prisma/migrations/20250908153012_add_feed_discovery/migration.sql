@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "feedUrls" TEXT[],
+ADD COLUMN     "feedsCheckedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."DiscoveredUrl" ADD COLUMN     "publishedAt" TIMESTAMP(3),
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'crawl';
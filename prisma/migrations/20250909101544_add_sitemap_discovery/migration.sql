@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."DiscoveredUrl" ADD COLUMN     "lastModifiedAt" TIMESTAMP(3);
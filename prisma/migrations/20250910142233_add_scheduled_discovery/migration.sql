@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "discoverySchedule" TEXT,
+ADD COLUMN     "lastScheduledDiscoveryAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."DiscoverySession" ADD COLUMN     "trigger" TEXT NOT NULL DEFAULT 'manual',
+ADD COLUMN     "digest" JSONB;
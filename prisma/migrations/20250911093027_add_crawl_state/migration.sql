@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "public"."SeenUrl" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SeenUrl_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PageCrawlState" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "contentHash" TEXT,
+    "lastFetchedAt" TIMESTAMP(3) NOT NULL,
+    "lastChangedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PageCrawlState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SeenUrl_organizationId_url_key" ON "public"."SeenUrl"("organizationId", "url");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageCrawlState_organizationId_url_key" ON "public"."PageCrawlState"("organizationId", "url");
+
+-- AddForeignKey
+ALTER TABLE "public"."SeenUrl" ADD CONSTRAINT "SeenUrl_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PageCrawlState" ADD CONSTRAINT "PageCrawlState_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill seen URLs from earlier discovery sessions and existing articles
+INSERT INTO "public"."SeenUrl" ("id", "organizationId", "url", "firstSeenAt", "lastSeenAt")
+SELECT gen_random_uuid()::text, seen."organizationId", seen."url", MIN(seen."createdAt"), MAX(seen."createdAt")
+FROM (
+    SELECT ds."organizationId", du."url", du."createdAt"
+    FROM "public"."DiscoveredUrl" du
+    JOIN "public"."DiscoverySession" ds ON ds."id" = du."discoverySessionId"
+    UNION ALL
+    SELECT a."organizationId", a."url", a."createdAt"
+    FROM "public"."Article" a
+) seen
+GROUP BY seen."organizationId", seen."url";
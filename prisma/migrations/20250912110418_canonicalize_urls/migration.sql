@@ -0,0 +1,104 @@
+-- Canonicalize stored URLs and merge the duplicates this exposes.
+-- normalize_url mirrors normalizeUrl() in src/lib/canonicalUrl.ts (AMP cache unwrapping
+-- and rel=canonical following are left to the application).
+
+CREATE OR REPLACE FUNCTION "public"."normalize_url"(raw TEXT) RETURNS TEXT AS $$
+DECLARE
+  u TEXT;
+  host TEXT;
+  rest TEXT;
+  path TEXT;
+  query TEXT;
+  kept TEXT;
+BEGIN
+  IF raw IS NULL OR btrim(raw) !~* '^https?://' THEN
+    RETURN raw;
+  END IF;
+
+  u := regexp_replace(btrim(raw), '#.*$', '');
+  host := lower(substring(u FROM '^[a-zA-Z]+://([^/?]+)'));
+  rest := substring(u FROM '^[a-zA-Z]+://[^/?]+(.*)$');
+
+  host := regexp_replace(host, '^[^@]*@', '');
+  host := regexp_replace(host, ':(80|443)$', '');
+  host := regexp_replace(host, '^(www|amp)\.', '');
+
+  path := split_part(rest, '?', 1);
+  query := substring(rest FROM '\?(.*)$');
+
+  path := regexp_replace(path, '/amp/?$', '', 'i');
+  path := regexp_replace(path, '\.amp(\.html?)?$', '\1', 'i');
+  path := regexp_replace(path, '/+$', '');
+  IF path = '' THEN
+    path := '/';
+  END IF;
+
+  SELECT string_agg(param, '&' ORDER BY split_part(param, '=', 1) COLLATE "C", ord)
+  INTO kept
+  FROM unnest(string_to_array(query, '&')) WITH ORDINALITY AS p(param, ord)
+  WHERE param <> ''
+    AND lower(split_part(param, '=', 1)) !~ '^(utm_|mc_|_hs|oly_)'
+    AND lower(split_part(param, '=', 1)) NOT IN (
+      'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+      '_ga', '_gl', 'ref', 'ref_src', 'ref_url', 's_cid', 'cmpid', 'mkt_tok', 'vero_id',
+      'ck_subscriber_id', 'rb_clickid', 'wickedid', 'sr_share', 'ocid', 'hsctatracking', 'amp'
+    )
+    AND lower(param) <> 'outputtype=amp';
+
+  RETURN 'https://' || host || path || COALESCE('?' || kept, '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Articles: keep the published/featured/oldest row per canonical URL
+DELETE FROM "public"."Article" a
+USING (
+  SELECT "id", ROW_NUMBER() OVER (
+    PARTITION BY "public"."normalize_url"("url")
+    ORDER BY ("status" = 'published') DESC, "featured" DESC, "createdAt" ASC
+  ) AS rn
+  FROM "public"."Article"
+) ranked
+WHERE a."id" = ranked."id" AND ranked.rn > 1;
+
+UPDATE "public"."Article"
+SET "url" = "public"."normalize_url"("url"),
+    "canonicalUrl" = "public"."normalize_url"(COALESCE("canonicalUrl", "url"));
+
+-- Discovered URLs: within a session keep the scraped/selected/oldest row per canonical URL
+DELETE FROM "public"."DiscoveredUrl" d
+USING (
+  SELECT du."id", ROW_NUMBER() OVER (
+    PARTITION BY du."discoverySessionId", "public"."normalize_url"(du."url")
+    ORDER BY (sc."id" IS NOT NULL) DESC, du."selectedForScraping" DESC, du."createdAt" ASC
+  ) AS rn
+  FROM "public"."DiscoveredUrl" du
+  LEFT JOIN "public"."ScrapedContent" sc ON sc."discoveredUrlId" = du."id"
+) ranked
+WHERE d."id" = ranked."id" AND ranked.rn > 1;
+
+UPDATE "public"."DiscoveredUrl" SET "url" = "public"."normalize_url"("url");
+
+UPDATE "public"."DiscoverySession" s
+SET "totalUrls" = counts.total
+FROM (
+  SELECT "discoverySessionId", COUNT(*)::int AS total
+  FROM "public"."DiscoveredUrl"
+  GROUP BY "discoverySessionId"
+) counts
+WHERE s."id" = counts."discoverySessionId" AND s."totalUrls" <> counts.total;
+
+-- Seen URLs: merge first/last seen timestamps per canonical URL
+CREATE TEMP TABLE "_canonical_seen_urls" AS
+SELECT "organizationId", "public"."normalize_url"("url") AS "url", MIN("firstSeenAt") AS "firstSeenAt", MAX("lastSeenAt") AS "lastSeenAt"
+FROM "public"."SeenUrl"
+GROUP BY "organizationId", "public"."normalize_url"("url");
+
+DELETE FROM "public"."SeenUrl";
+
+INSERT INTO "public"."SeenUrl" ("id", "organizationId", "url", "firstSeenAt", "lastSeenAt")
+SELECT gen_random_uuid()::text, "organizationId", "url", "firstSeenAt", "lastSeenAt"
+FROM "_canonical_seen_urls";
+
+DROP TABLE "_canonical_seen_urls";
+
+DROP FUNCTION "public"."normalize_url"(TEXT);
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "simhash" TEXT,
+ADD COLUMN     "duplicateGroupId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DuplicateGroup" (
+    "id" TEXT NOT NULL,
+    "canonicalArticleId" TEXT,
+    "method" TEXT NOT NULL,
+    "similarity" DOUBLE PRECISION NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DuplicateGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Article_contentHash_idx" ON "public"."Article"("contentHash");
+
+-- CreateIndex
+CREATE INDEX "Article_duplicateGroupId_idx" ON "public"."Article"("duplicateGroupId");
+
+-- CreateIndex
+CREATE INDEX "DuplicateGroup_status_idx" ON "public"."DuplicateGroup"("status");
+
+-- AddForeignKey
+ALTER TABLE "public"."Article" ADD CONSTRAINT "Article_duplicateGroupId_fkey" FOREIGN KEY ("duplicateGroupId") REFERENCES "public"."DuplicateGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DuplicateGroup" ADD CONSTRAINT "DuplicateGroup_canonicalArticleId_fkey" FOREIGN KEY ("canonicalArticleId") REFERENCES "public"."Article"("id") ON DELETE SET NULL ON UPDATE CASCADE;
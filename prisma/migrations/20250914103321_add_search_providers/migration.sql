@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."DiscoveredUrl" ADD COLUMN     "searchProviders" TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."SearchProviderUsage" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "requests" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchProviderUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchProviderUsage_provider_day_key" ON "public"."SearchProviderUsage"("provider", "day");
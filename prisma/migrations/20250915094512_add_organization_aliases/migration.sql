@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "altNames" TEXT[],
+ADD COLUMN     "categories" TEXT[],
+ADD COLUMN     "impactAreas" TEXT[],
+ADD COLUMN     "tagline" TEXT;
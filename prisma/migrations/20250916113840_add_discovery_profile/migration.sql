@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "allowedDomains" TEXT[],
+ADD COLUMN     "blockedDomains" TEXT[],
+ADD COLUMN     "excludeUrlPatterns" TEXT[],
+ADD COLUMN     "includeUrlPatterns" TEXT[],
+ADD COLUMN     "preferredContentTypes" TEXT[],
+ADD COLUMN     "seedUrls" TEXT[];
+
+-- Move the International Justice Mission pages discovery used to hard-code into its profile
+UPDATE "public"."Organization"
+SET "seedUrls" = ARRAY['https://ijm.org/news', 'https://ijm.org/stories', 'https://ijm.org/impact']
+WHERE "name" ILIKE '%international justice mission%';
+
+UPDATE "public"."Organization"
+SET "altNames" = array_append(COALESCE("altNames", ARRAY[]::TEXT[]), 'IJM')
+WHERE "name" ILIKE '%international justice mission%'
+  AND NOT ('IJM' = ANY(COALESCE("altNames", ARRAY[]::TEXT[])));
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Organization" ADD COLUMN     "newsUrlConfidence" DOUBLE PRECISION,
+ADD COLUMN     "newsUrlStatus" TEXT,
+ADD COLUMN     "newsUrlVerifiedAt" TIMESTAMP(3);
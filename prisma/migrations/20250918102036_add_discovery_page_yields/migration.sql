@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."DiscoverySession" ADD COLUMN     "pageYields" JSONB,
+ADD COLUMN     "pagesCrawled" INTEGER NOT NULL DEFAULT 0;
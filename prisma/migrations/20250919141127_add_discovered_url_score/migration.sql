@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."DiscoveredUrl" ADD COLUMN     "classifiedBy" TEXT,
+ADD COLUMN     "urlScore" DOUBLE PRECISION;
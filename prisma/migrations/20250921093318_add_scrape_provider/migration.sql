@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."ScrapedContent" ADD COLUMN     "scrapeAttempts" JSONB,
+ADD COLUMN     "scrapeProvider" TEXT;
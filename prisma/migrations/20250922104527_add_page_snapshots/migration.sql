@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "snapshotId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ScrapedContent" ADD COLUMN     "snapshotId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PageSnapshot" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "finalUrl" TEXT,
+    "httpStatus" INTEGER,
+    "headers" JSONB,
+    "htmlHash" TEXT,
+    "markdownHash" TEXT,
+    "htmlBytes" INTEGER,
+    "markdownBytes" INTEGER,
+    "storage" TEXT NOT NULL,
+    "provider" TEXT,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PageSnapshot_url_idx" ON "public"."PageSnapshot"("url");
+
+-- CreateIndex
+CREATE INDEX "PageSnapshot_htmlHash_idx" ON "public"."PageSnapshot"("htmlHash");
+
+-- AddForeignKey
+ALTER TABLE "public"."Article" ADD CONSTRAINT "Article_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "public"."PageSnapshot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ScrapedContent" ADD CONSTRAINT "ScrapedContent_snapshotId_fkey" FOREIGN KEY ("snapshotId") REFERENCES "public"."PageSnapshot"("id") ON DELETE SET NULL ON UPDATE CASCADE;
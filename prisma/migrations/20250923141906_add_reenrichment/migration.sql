@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "public"."ReenrichmentRun" (
+    "id" TEXT NOT NULL,
+    "filters" JSONB NOT NULL,
+    "enrichers" TEXT[],
+    "concurrency" INTEGER NOT NULL DEFAULT 3,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "totalArticles" INTEGER NOT NULL DEFAULT 0,
+    "processedArticles" INTEGER NOT NULL DEFAULT 0,
+    "changedArticles" INTEGER NOT NULL DEFAULT 0,
+    "errorCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ReenrichmentRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ReenrichmentChange" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "enricher" TEXT NOT NULL,
+    "field" TEXT NOT NULL,
+    "oldValue" JSONB,
+    "newValue" JSONB,
+    "reasoning" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReenrichmentChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReenrichmentRun_createdAt_idx" ON "public"."ReenrichmentRun"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "ReenrichmentChange_runId_status_idx" ON "public"."ReenrichmentChange"("runId", "status");
+
+-- CreateIndex
+CREATE INDEX "ReenrichmentChange_articleId_idx" ON "public"."ReenrichmentChange"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReenrichmentChange" ADD CONSTRAINT "ReenrichmentChange_runId_fkey" FOREIGN KEY ("runId") REFERENCES "public"."ReenrichmentRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReenrichmentChange" ADD CONSTRAINT "ReenrichmentChange_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
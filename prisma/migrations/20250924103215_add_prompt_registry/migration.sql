@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "promptVersions" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."DiscoveredUrl" ADD COLUMN     "classifierPromptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ScrapedContent" ADD COLUMN     "sentimentPromptVersion" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ReenrichmentChange" ADD COLUMN     "promptVersion" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PromptLabel" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "promptName" TEXT NOT NULL,
+    "expected" JSONB NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromptLabel_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PromptEvaluation" (
+    "id" TEXT NOT NULL,
+    "promptName" TEXT NOT NULL,
+    "versionA" TEXT NOT NULL,
+    "versionB" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "limit" INTEGER,
+    "exampleCount" INTEGER NOT NULL DEFAULT 0,
+    "scoreA" DOUBLE PRECISION,
+    "scoreB" DOUBLE PRECISION,
+    "results" JSONB,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PromptEvaluation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptLabel_promptName_idx" ON "public"."PromptLabel"("promptName");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptLabel_articleId_promptName_key" ON "public"."PromptLabel"("articleId", "promptName");
+
+-- CreateIndex
+CREATE INDEX "PromptEvaluation_promptName_createdAt_idx" ON "public"."PromptEvaluation"("promptName", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."PromptLabel" ADD CONSTRAINT "PromptLabel_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
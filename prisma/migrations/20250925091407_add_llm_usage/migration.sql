@@ -0,0 +1,58 @@
+-- CreateTable
+CREATE TABLE "public"."LlmCall" (
+    "id" TEXT NOT NULL,
+    "task" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "durationMs" INTEGER NOT NULL DEFAULT 0,
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "success" BOOLEAN NOT NULL DEFAULT true,
+    "error" TEXT,
+    "organizationId" TEXT,
+    "discoverySessionId" TEXT,
+    "articleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmCall_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."LlmBudget" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "monthlyLimitUsd" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LlmBudget_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmCall_createdAt_idx" ON "public"."LlmCall"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "LlmCall_organizationId_createdAt_idx" ON "public"."LlmCall"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LlmCall_discoverySessionId_idx" ON "public"."LlmCall"("discoverySessionId");
+
+-- CreateIndex
+CREATE INDEX "LlmCall_articleId_idx" ON "public"."LlmCall"("articleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmBudget_organizationId_key" ON "public"."LlmBudget"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "public"."LlmCall" ADD CONSTRAINT "LlmCall_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LlmCall" ADD CONSTRAINT "LlmCall_discoverySessionId_fkey" FOREIGN KEY ("discoverySessionId") REFERENCES "public"."DiscoverySession"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LlmCall" ADD CONSTRAINT "LlmCall_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."LlmBudget" ADD CONSTRAINT "LlmBudget_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."LlmCacheEntry" (
+    "id" TEXT NOT NULL,
+    "promptName" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "output" JSONB NOT NULL,
+    "hitCount" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "expiresAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmCacheEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmCacheEntry_promptName_idx" ON "public"."LlmCacheEntry"("promptName");
+
+-- CreateIndex
+CREATE INDEX "LlmCacheEntry_expiresAt_idx" ON "public"."LlmCacheEntry"("expiresAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmCacheEntry_promptVersion_model_contentHash_key" ON "public"."LlmCacheEntry"("promptVersion", "model", "contentHash");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "qualityComponents" JSONB,
+ADD COLUMN     "qualityScore" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "Article_qualityScore_idx" ON "public"."Article"("qualityScore");
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "public"."DiscoveredUrl" ADD COLUMN     "triageAction" TEXT,
+ADD COLUMN     "triageRuleName" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."ScrapedContent" ADD COLUMN     "triageAction" TEXT,
+ADD COLUMN     "triageRuleName" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."TriageRule" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "name" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "conditions" JSONB NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TriageRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."TriageDecision" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "ruleName" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "discoverySessionId" TEXT NOT NULL,
+    "discoveredUrlId" TEXT,
+    "scrapedContentId" TEXT,
+    "url" TEXT NOT NULL,
+    "signals" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TriageDecision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TriageRule_organizationId_idx" ON "public"."TriageRule"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "TriageRule_stage_idx" ON "public"."TriageRule"("stage");
+
+-- CreateIndex
+CREATE INDEX "TriageDecision_discoverySessionId_idx" ON "public"."TriageDecision"("discoverySessionId");
+
+-- CreateIndex
+CREATE INDEX "TriageDecision_ruleId_idx" ON "public"."TriageDecision"("ruleId");
+
+-- AddForeignKey
+ALTER TABLE "public"."TriageRule" ADD CONSTRAINT "TriageRule_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TriageDecision" ADD CONSTRAINT "TriageDecision_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "public"."TriageRule"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TriageDecision" ADD CONSTRAINT "TriageDecision_discoverySessionId_fkey" FOREIGN KEY ("discoverySessionId") REFERENCES "public"."DiscoverySession"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TriageDecision" ADD CONSTRAINT "TriageDecision_discoveredUrlId_fkey" FOREIGN KEY ("discoveredUrlId") REFERENCES "public"."DiscoveredUrl"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TriageDecision" ADD CONSTRAINT "TriageDecision_scrapedContentId_fkey" FOREIGN KEY ("scrapedContentId") REFERENCES "public"."ScrapedContent"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "discoverySource" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."EditorialReview" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "organizationId" TEXT NOT NULL,
+    "outcome" TEXT NOT NULL,
+    "reason" TEXT,
+    "note" TEXT,
+    "signals" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EditorialReview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EditorialReview_articleId_idx" ON "public"."EditorialReview"("articleId");
+
+-- CreateIndex
+CREATE INDEX "EditorialReview_organizationId_createdAt_idx" ON "public"."EditorialReview"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "EditorialReview_createdAt_idx" ON "public"."EditorialReview"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."EditorialReview" ADD CONSTRAINT "EditorialReview_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EditorialReview" ADD CONSTRAINT "EditorialReview_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "public"."Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the discovery source of existing articles from the pipeline URL they were built from
+UPDATE "public"."Article" AS a
+SET "discoverySource" = d."source"
+FROM "public"."DiscoveredUrl" AS d
+WHERE d."url" = a."url" AND a."discoverySource" IS NULL;
@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "public"."Article" ADD COLUMN     "entitiesExtractedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."Entity" (
+    "id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "aliases" TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Entity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."ArticleEntity" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "mentions" INTEGER NOT NULL DEFAULT 1,
+    "context" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ArticleEntity_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Entity_slug_idx" ON "public"."Entity"("slug");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Entity_type_slug_key" ON "public"."Entity"("type", "slug");
+
+-- CreateIndex
+CREATE INDEX "ArticleEntity_entityId_idx" ON "public"."ArticleEntity"("entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ArticleEntity_articleId_entityId_key" ON "public"."ArticleEntity"("articleId", "entityId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ArticleEntity" ADD CONSTRAINT "ArticleEntity_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "public"."Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ArticleEntity" ADD CONSTRAINT "ArticleEntity_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "public"."Entity"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- Group articles that share a canonical URL key (e.g. stored before canonicalization as
+-- www/http/AMP variants) so editors can merge them in the duplicates review.
+-- The published/featured/oldest article of each group is its canonical article.
+CREATE TEMP TABLE "_url_duplicate_groups" AS
+SELECT
+  "canonicalUrl",
+  gen_random_uuid()::text AS "groupId",
+  (ARRAY_AGG("id" ORDER BY ("status" = 'published') DESC, "featured" DESC, "createdAt" ASC))[1] AS "canonicalArticleId"
+FROM "public"."Article"
+WHERE "canonicalUrl" IS NOT NULL AND "duplicateGroupId" IS NULL
+GROUP BY "canonicalUrl"
+HAVING COUNT(*) > 1;
+
+INSERT INTO "public"."DuplicateGroup" ("id", "canonicalArticleId", "method", "similarity", "status", "createdAt", "updatedAt")
+SELECT "groupId", "canonicalArticleId", 'url', 1, 'open', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "_url_duplicate_groups";
+
+UPDATE "public"."Article" a
+SET "duplicateGroupId" = g."groupId"
+FROM "_url_duplicate_groups" g
+WHERE a."canonicalUrl" = g."canonicalUrl" AND a."duplicateGroupId" IS NULL;
+
+DROP TABLE "_url_duplicate_groups";
@@ -0,0 +1,22 @@
+-- A NULL organizationId doesn't collide with another NULL under the unique index, so
+-- several global budgets could be created. Budgets now have a non-null scope key:
+-- "global" for the global budget and the organization id otherwise.
+
+-- AlterTable
+ALTER TABLE "public"."LlmBudget" ADD COLUMN     "scope" TEXT;
+
+UPDATE "public"."LlmBudget" SET "scope" = COALESCE("organizationId", 'global');
+
+-- Keep the most recently updated global budget, the one last set from the dashboard
+DELETE FROM "public"."LlmBudget" b
+USING (
+  SELECT "id", ROW_NUMBER() OVER (ORDER BY "updatedAt" DESC, "createdAt" DESC) AS rn
+  FROM "public"."LlmBudget"
+  WHERE "scope" = 'global'
+) ranked
+WHERE b."id" = ranked."id" AND ranked.rn > 1;
+
+ALTER TABLE "public"."LlmBudget" ALTER COLUMN "scope" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmBudget_scope_key" ON "public"."LlmBudget"("scope");
@@ -0,0 +1,49 @@
+-- Merge the open duplicate groups of articles that share a canonical URL key: an identical
+-- key is the same page, so these need no editor review. Same as mergeDuplicateGroup() in
+-- src/lib/duplicates.ts - the canonical article gains the others' keywords, images and
+-- og:image, the others are rejected with a pointer to it and the group is marked merged.
+
+-- Canonical articles: own values first, then the other members' in creation order
+UPDATE "public"."Article" c
+SET "keywords" = ARRAY(
+      SELECT u."value"
+      FROM "public"."Article" a
+      CROSS JOIN LATERAL unnest(a."keywords") WITH ORDINALITY AS u("value", "position")
+      WHERE a."duplicateGroupId" = g."id"
+      GROUP BY u."value"
+      ORDER BY MIN((a."id" <> c."id")::int), MIN(a."createdAt"), MIN(u."position")
+    ),
+    "images" = ARRAY(
+      SELECT u."value"
+      FROM "public"."Article" a
+      CROSS JOIN LATERAL unnest(a."images") WITH ORDINALITY AS u("value", "position")
+      WHERE a."duplicateGroupId" = g."id"
+      GROUP BY u."value"
+      ORDER BY MIN((a."id" <> c."id")::int), MIN(a."createdAt"), MIN(u."position")
+      LIMIT 10
+    ),
+    "ogImage" = COALESCE(c."ogImage", (
+      SELECT a."ogImage"
+      FROM "public"."Article" a
+      WHERE a."duplicateGroupId" = g."id" AND a."ogImage" IS NOT NULL
+      ORDER BY a."createdAt" ASC
+      LIMIT 1
+    )),
+    "updatedAt" = CURRENT_TIMESTAMP
+FROM "public"."DuplicateGroup" g
+WHERE c."id" = g."canonicalArticleId" AND g."method" = 'url' AND g."status" = 'open';
+
+-- The other members
+UPDATE "public"."Article" a
+SET "status" = 'rejected',
+    "featured" = false,
+    "validationReasons" = ARRAY['Duplicate of ' || c."url"],
+    "updatedAt" = CURRENT_TIMESTAMP
+FROM "public"."DuplicateGroup" g
+JOIN "public"."Article" c ON c."id" = g."canonicalArticleId"
+WHERE a."duplicateGroupId" = g."id" AND a."id" <> g."canonicalArticleId"
+  AND g."method" = 'url' AND g."status" = 'open';
+
+UPDATE "public"."DuplicateGroup"
+SET "status" = 'merged', "updatedAt" = CURRENT_TIMESTAMP
+WHERE "method" = 'url' AND "status" = 'open';
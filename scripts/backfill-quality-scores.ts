@@ -0,0 +1,23 @@
+#!/usr/bin/env tsx
+import { recomputeQualityScores } from '../src/lib/qualityScore'
+import { prisma } from '../src/lib/db'
+
+// Score the articles created before Article.qualityScore existed. Run once after deploying
+// the add_article_quality_score migration; articles that were already scored are skipped,
+// so it is safe to re-run. Pass --all to recompute every article instead.
+async function main() {
+  const all = process.argv.includes('--all')
+  console.log(all ? '📈 Recomputing quality scores for all articles...' : '📈 Scoring articles without a quality score...')
+
+  try {
+    const updated = await recomputeQualityScores({ unscoredOnly: !all })
+    console.log(`✅ Quality scores stored for ${updated} articles`)
+  } catch (error) {
+    console.error('❌ Quality score backfill failed:', error)
+    process.exit(1)
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main()
@@ -3,6 +3,7 @@
 import { writeFileSync } from 'fs'
 import { join } from 'path'
 import { prisma } from '../src/lib/db'
+import { loadSnapshot } from '../src/lib/snapshotStore'
 
 async function exportArticles() {
   console.log('📤 Exporting articles for seeding...')
@@ -13,26 +14,8 @@ async function exportArticles() {
         organization: {
           select: { name: true, website: true }
         },
-        rawDocument: {
-          select: {
-            text: true,
-            markdown: true,
-            html: true,
-            httpStatus: true,
-            fetchedAt: true
-          }
-        },
-        enrichment: {
-          select: {
-            title: true,
-            author: true,
-            publishedAt: true,
-            summary: true,
-            keywords: true,
-            sentiment: true,
-            entitiesJson: true,
-            canonicalUrl: true
-          }
+        entities: {
+          include: { entity: { select: { type: true, name: true } } }
         }
       },
       orderBy: { createdAt: 'asc' }
@@ -41,46 +24,47 @@ async function exportArticles() {
     console.log(`✅ Found ${articles.length} articles to export`)
 
     // Transform data for seeding (remove IDs and timestamps, but keep structure)
-    const seedData = articles.map(article => ({
-      // Article data
-      url: article.url,
-      title: article.title,
-      summary: article.summary,
-      content: article.content,
-      author: article.author,
-      publishedAt: article.publishedAt,
-      ogImage: article.ogImage,
-      sentiment: article.sentiment,
-      keywords: article.keywords,
-      status: article.status,
-      
-      // Organization reference (by name for lookup during seeding)
-      organization: {
-        name: article.organization.name,
-        website: article.organization.website
-      },
-      
-      // Raw document data
-      rawDocument: article.rawDocument ? {
-        url: article.rawDocument.text ? article.url : null, // Only if we have text
-        text: article.rawDocument.text,
-        markdown: article.rawDocument.markdown,
-        html: article.rawDocument.html,
-        httpStatus: article.rawDocument.httpStatus
-      } : null,
-      
-      // Enrichment data  
-      enrichment: article.enrichment ? {
-        title: article.enrichment.title,
-        author: article.enrichment.author,
-        publishedAt: article.enrichment.publishedAt,
-        summary: article.enrichment.summary,
-        keywords: article.enrichment.keywords,
-        sentiment: article.enrichment.sentiment,
-        entitiesJson: article.enrichment.entitiesJson,
-        canonicalUrl: article.enrichment.canonicalUrl
-      } : null
-    }))
+    const seedData = []
+    for (const article of articles) {
+      // Raw page from the snapshot archive the article was built from
+      const snapshot = article.snapshotId ? await loadSnapshot(article.snapshotId) : null
+
+      seedData.push({
+        // Article data
+        url: article.url,
+        title: article.title,
+        summary: article.summary,
+        content: article.content,
+        author: article.author,
+        publishedAt: article.publishedAt,
+        ogImage: article.ogImage,
+        sentiment: article.sentiment,
+        keywords: article.keywords,
+        status: article.status,
+        
+        // Extracted people, places, partner organizations and programs
+        entities: article.entities.map(link => ({
+          type: link.entity.type,
+          name: link.entity.name,
+          mentions: link.mentions
+        })),
+        
+        // Organization reference (by name for lookup during seeding)
+        organization: {
+          name: article.organization.name,
+          website: article.organization.website
+        },
+        
+        // Raw document data
+        rawDocument: snapshot ? {
+          url: snapshot.snapshot.finalUrl || article.url,
+          text: snapshot.markdown,
+          markdown: snapshot.markdown,
+          html: snapshot.html,
+          httpStatus: snapshot.snapshot.httpStatus
+        } : null
+      })
+    }
 
     // Write to JSON file
     const outputPath = join(process.cwd(), 'scripts', 'seed-data', 'articles.json')
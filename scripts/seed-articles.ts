@@ -3,6 +3,7 @@
 import { readFileSync } from 'fs'
 import { join } from 'path'
 import { prisma } from '../src/lib/db'
+import { saveSnapshot } from '../src/lib/snapshotStore'
 
 interface SeedArticle {
   url: string
@@ -26,16 +27,6 @@ interface SeedArticle {
     html?: string
     httpStatus?: number
   }
-  enrichment?: {
-    title?: string
-    author?: string
-    publishedAt?: Date
-    summary?: string
-    keywords?: string[]
-    sentiment?: string
-    entitiesJson?: any
-    canonicalUrl?: string
-  }
 }
 
 async function seedArticles() {
@@ -99,36 +90,22 @@ async function seedArticles() {
           }
         })
 
-        // Create raw document if data exists
-        if (articleData.rawDocument && articleData.rawDocument.text) {
-          await prisma.rawDocument.create({
-            data: {
-              articleId: article.id,
-              url: articleData.url,
-              text: articleData.rawDocument.text,
-              markdown: articleData.rawDocument.markdown,
-              html: articleData.rawDocument.html,
-              httpStatus: articleData.rawDocument.httpStatus || 200,
-              fetchedAt: new Date(),
-            }
-          })
-        }
-
-        // Create enrichment if data exists  
-        if (articleData.enrichment) {
-          await prisma.enrichment.create({
-            data: {
-              articleId: article.id,
-              title: articleData.enrichment.title,
-              author: articleData.enrichment.author,
-              publishedAt: articleData.enrichment.publishedAt ? new Date(articleData.enrichment.publishedAt) : null,
-              summary: articleData.enrichment.summary,
-              keywords: articleData.enrichment.keywords || [],
-              sentiment: articleData.enrichment.sentiment,
-              entitiesJson: articleData.enrichment.entitiesJson,
-              canonicalUrl: articleData.enrichment.canonicalUrl,
-            }
+        // Archive the raw document in the snapshot store and link it
+        if (articleData.rawDocument && (articleData.rawDocument.html || articleData.rawDocument.markdown || articleData.rawDocument.text)) {
+          const snapshotId = await saveSnapshot({
+            url: articleData.url,
+            finalUrl: articleData.rawDocument.url,
+            html: articleData.rawDocument.html,
+            markdown: articleData.rawDocument.markdown || articleData.rawDocument.text,
+            httpStatus: articleData.rawDocument.httpStatus || 200,
+            provider: 'seed'
           })
+          if (snapshotId) {
+            await prisma.article.update({
+              where: { id: article.id },
+              data: { snapshotId }
+            })
+          }
         }
 
         console.log(`✅ Created article: ${articleData.title}`)
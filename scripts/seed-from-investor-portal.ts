@@ -33,6 +33,20 @@ function extractWebsiteUrl(websiteUrl?: string): string | null {
 
 // Logo and banner image extraction functions removed - these fields no longer exist in schema
 
+function cleanList(values?: string[]): string[] {
+  return Array.from(new Set((values || []).map(value => value.trim()).filter(Boolean)));
+}
+
+// Aliases and descriptors used for search queries and relevance matching
+function extractIdentity(ministry: InvestorPortalOrg) {
+  return {
+    altNames: cleanList(ministry.altNames).filter(name => name.toLowerCase() !== ministry.name.toLowerCase()),
+    tagline: ministry.tagline?.trim() || null,
+    categories: cleanList(ministry.categories),
+    impactAreas: cleanList(ministry.impactAreas),
+  };
+}
+
 function combineTags(categories?: string[], impactAreas?: string[]): string[] {
   const allTags = new Set<string>();
   
@@ -57,6 +71,7 @@ async function seedFromInvestorPortal() {
   console.log(`🌱 Starting to seed ${ministries.length} organizations from investor portal data...`);
   
   let created = 0;
+  let updated = 0;
   let skipped = 0;
   let errors = 0;
   
@@ -68,8 +83,27 @@ async function seedFromInvestorPortal() {
       });
       
       if (existingOrg) {
-        console.log(`⏭️  Skipping "${ministry.name}" - already exists`);
-        skipped++;
+        // Backfill aliases/descriptors on orgs seeded before these fields existed
+        const identity = extractIdentity(ministry);
+        const hasIdentity = identity.altNames.length > 0 || identity.tagline || identity.categories.length > 0 || identity.impactAreas.length > 0;
+
+        if (hasIdentity) {
+          await prisma.organization.update({
+            where: { id: existingOrg.id },
+            data: {
+              // Keep aliases added by hand alongside the portal's
+              altNames: cleanList([...(existingOrg.altNames || []), ...identity.altNames]),
+              tagline: existingOrg.tagline || identity.tagline,
+              categories: identity.categories,
+              impactAreas: identity.impactAreas,
+            }
+          });
+          console.log(`🔄 Updated aliases for "${ministry.name}" - already exists`);
+          updated++;
+        } else {
+          console.log(`⏭️  Skipping "${ministry.name}" - already exists`);
+          skipped++;
+        }
         continue;
       }
       
@@ -81,6 +115,7 @@ async function seedFromInvestorPortal() {
         newsUrl: null, // Not available in source data
         tags: combineTags(ministry.categories, ministry.impactAreas),
         ein: ministry.ein || null,
+        ...extractIdentity(ministry),
       };
       
       // Create the organization
@@ -97,6 +132,7 @@ async function seedFromInvestorPortal() {
   
   console.log(`\n📊 Seeding completed:`);
   console.log(`   ✅ Created: ${created}`);
+  console.log(`   🔄 Updated: ${updated}`);
   console.log(`   ⏭️  Skipped: ${skipped}`);
   console.log(`   ❌ Errors: ${errors}`);
   console.log(`   📋 Total processed: ${ministries.length}`);
@@ -1,141 +1,40 @@
-import { openai } from '@/lib/openai'
-import { z } from 'zod'
+import { OrganizationIdentity, findOrganizationMentions } from '@/lib/organizationIdentity'
+import { getPrompt, promptRef, runPrompt } from '@/lib/prompts'
+import { rethrowIfBudgetExceeded } from '@/lib/llmUsage'
+import { SentimentPromptOutput } from '@/prompts/sentiment'
 
-const sentimentAnalysisSchema = z.object({
-  sentimentScore: z.number().int().min(-1).max(3).describe('Sentiment score from -1 to 3'),
-  reasoning: z.string().describe('Detailed explanation for the sentiment score'),
-  organizationMentions: z.array(z.string()).describe('Direct quotes or mentions of the organization'),
-  mainFocus: z.string().describe('What is the main focus/topic of the article'),
-  socialImpactIndicators: z.array(z.string()).describe('Evidence of social impact content if applicable')
-})
-
-export type SentimentAnalysisResult = z.infer<typeof sentimentAnalysisSchema>
+export type SentimentAnalysisResult = SentimentPromptOutput & {
+  promptVersion: string | null // null for the keyword fallback
+}
 
 export async function analyzeSentimentScale(
   content: string, 
-  organizationName: string,
-  title?: string
+  organizationOrName: OrganizationIdentity | string,
+  title?: string,
+  promptVersion?: string
 ): Promise<SentimentAnalysisResult> {
-  
-  const prompt = `
-You are analyzing an article about "${organizationName}" to determine organizational sentiment and relevance.
-
-SENTIMENT SCALE:
--1: Organization is mentioned NEGATIVELY (criticism, scandal, negative impact, problems caused by org)
- 0: Organization is NOT MENTIONED or only mentioned in passing/context
- 1: Organization is mentioned but NOT the main focus (brief mention, quoted source, etc.)
- 2: Organization IS the main focus and article is INFORMATIONAL (facts, updates, general news about org)
- 3: Organization IS the main focus and article is about their SOCIAL IMPACT (inspiring stories, impact work, positive change they're creating)
-
-ARTICLE TITLE: ${title || 'N/A'}
-
-ARTICLE CONTENT:
-${content}
-
-ANALYSIS INSTRUCTIONS:
-1. Look for direct mentions of "${organizationName}" in the content
-2. Determine if mentions are positive, negative, or neutral
-3. Assess if the organization is the main subject or just mentioned in passing
-4. For score 3: Look for evidence of social impact, positive change, inspiring stories, beneficiaries helped, etc.
-5. For score 2: Informational content about the org (leadership changes, financial reports, general updates)
-6. For score 1: Brief mentions, quotes from org representatives, or context mentions
-7. For score 0: No meaningful mention of the organization
-8. For score -1: Negative coverage, criticism, scandals, or problems
-
-Be STRICT with scoring:
-- Only use 3 if there's clear evidence of INSPIRING SOCIAL IMPACT content
-- Only use 2 if the org is clearly the MAIN FOCUS but it's informational
-- Use 1 for mentions that aren't the main focus
-- Use 0 if there's truly no meaningful mention
-- Use -1 only for genuinely negative coverage
-`
+  const organization = typeof organizationOrName === 'string' ? { name: organizationOrName } : organizationOrName
+  const organizationName = organization.name
+  const prompt = getPrompt('sentiment', promptVersion)
 
   try {
-    console.log(`🧠 Analyzing sentiment for ${organizationName}...`)
-    
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are an expert content analyst specializing in organizational sentiment analysis and social impact assessment. Always respond with valid JSON only.'
-        },
-        {
-          role: 'user', 
-          content: prompt + `
-
-REQUIRED OUTPUT FORMAT - Return ONLY a valid JSON object with exactly these fields:
-{
-  "sentimentScore": <number from -1 to 3>,
-  "reasoning": "<detailed explanation>",
-  "organizationMentions": ["<direct quote 1>", "<direct quote 2>"],
-  "mainFocus": "<what the article is mainly about>",
-  "socialImpactIndicators": ["<evidence 1>", "<evidence 2>"]
-}
-
-Do not include any other text, just the JSON object.`
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.1
-    })
-
-    const rawContent = completion.choices[0].message.content
-    if (!rawContent) {
-      throw new Error('No content in sentiment analysis response')
-    }
-
-    console.log('🔍 Raw OpenAI response:', rawContent)
-
-    // Parse and validate the JSON response
-    let parsedJson
-    try {
-      parsedJson = JSON.parse(rawContent)
-      console.log('📝 Parsed JSON:', parsedJson)
-    } catch (parseError) {
-      console.error('❌ JSON parsing failed:', parseError)
-      throw new Error(`Failed to parse JSON: ${parseError}`)
-    }
-
-    // Validate the parsed JSON against our schema
-    const validationResult = sentimentAnalysisSchema.safeParse(parsedJson)
+    console.log(`🧠 Analyzing sentiment for ${organizationName} (${promptRef(prompt)})...`)
     
-    if (!validationResult.success) {
-      console.error('❌ Zod validation failed:', validationResult.error.issues)
-      console.log('🔍 Invalid data structure:', parsedJson)
-      
-      // Try to construct a fallback response from whatever we got
-      const fallbackScore = typeof parsedJson?.sentimentScore === 'number' 
-        ? Math.max(-1, Math.min(3, parsedJson.sentimentScore))
-        : 0
-
-      return {
-        sentimentScore: fallbackScore,
-        reasoning: parsedJson?.reasoning || 'OpenAI response parsing failed - using fallback analysis',
-        organizationMentions: Array.isArray(parsedJson?.organizationMentions) 
-          ? parsedJson.organizationMentions 
-          : [],
-        mainFocus: parsedJson?.mainFocus || 'Unable to determine main focus',
-        socialImpactIndicators: Array.isArray(parsedJson?.socialImpactIndicators)
-          ? parsedJson.socialImpactIndicators
-          : []
-      }
-    }
-
-    const result = validationResult.data
-    console.log(`✅ Sentiment analysis complete: ${result.sentimentScore} (${result.reasoning.substring(0, 100)}...)`)
+    const { object: result, promptVersion: usedVersion, cached } = await runPrompt(prompt, { content, organization, title })
+    console.log(`✅ Sentiment analysis complete${cached ? ' (cached)' : ''}: ${result.sentimentScore} (${result.reasoning.substring(0, 100)}...)`)
     
-    return result
+    return { ...result, promptVersion: usedVersion }
 
   } catch (error) {
+    rethrowIfBudgetExceeded(error)
     console.error('Sentiment analysis error:', error)
     console.log('📄 Content that failed:', content.substring(0, 200) + '...')
     console.log('🏢 Organization:', organizationName)
     
     // Fallback analysis
     const contentLower = content.toLowerCase()
-    const orgLower = organizationName.toLowerCase()
-    const orgMentioned = contentLower.includes(orgLower)
+    const mentions = findOrganizationMentions(`${title || ''}\n${content}`, organization)
+    const orgMentioned = mentions.length > 0
     
     let fallbackScore = 0
     let fallbackReasoning = 'Automated fallback analysis: '
@@ -166,9 +65,10 @@ Do not include any other text, just the JSON object.`
     return {
       sentimentScore: fallbackScore,
       reasoning: fallbackReasoning,
-      organizationMentions: orgMentioned ? [`Organization mentioned in content`] : [],
+      organizationMentions: mentions.map(name => `Organization mentioned as "${name}"`),
       mainFocus: 'Unable to determine due to analysis error',
-      socialImpactIndicators: []
+      socialImpactIndicators: [],
+      promptVersion: null
     }
   }
 }
@@ -0,0 +1,40 @@
+import { OrganizationIdentity } from '@/lib/organizationIdentity';
+import { getPrompt, runPrompt } from '@/lib/prompts';
+import { rethrowIfBudgetExceeded } from '@/lib/llmUsage';
+import type { EntitiesPromptOutput } from '@/prompts/entities';
+
+interface ArticleInput {
+  title: string
+  content: string
+  organization: OrganizationIdentity // Excluded from the results, with its aliases
+}
+
+export type ExtractedEntity = EntitiesPromptOutput['entities'][number]
+
+interface EntityExtractionResult {
+  entities: ExtractedEntity[]
+  promptVersion: string | null // null when extraction failed; callers should keep existing entities
+}
+
+/**
+ * Extracts the people, places, partner organizations and programs an article names
+ */
+export async function extractEntities(article: ArticleInput, promptVersion?: string): Promise<EntityExtractionResult> {
+  const prompt = getPrompt('entities', promptVersion);
+
+  try {
+    const result = await runPrompt(prompt, article);
+
+    return {
+      entities: result.object.entities,
+      promptVersion: result.promptVersion
+    };
+  } catch (error) {
+    rethrowIfBudgetExceeded(error);
+    console.error('Entity extraction failed:', error);
+    return {
+      entities: [],
+      promptVersion: null
+    };
+  }
+}
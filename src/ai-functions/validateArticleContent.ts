@@ -1,14 +1,17 @@
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
-import { z } from 'zod';
+import { OrganizationIdentity } from '@/lib/organizationIdentity';
+import { getPrompt, runPrompt } from '@/lib/prompts';
+import { rethrowIfBudgetExceeded } from '@/lib/llmUsage';
+import { getValidationExamples } from '@/lib/editorialFeedback';
 
 interface ArticleValidationInput {
   title: string
   summary: string
   content: string
   organizationName: string
+  organization?: OrganizationIdentity // Aliases and focus areas, so e.g. "IJM" counts as a mention
   publishedAt?: string | null
   url: string
+  organizationId?: string // Selects the editor decisions shown as examples (validation@v2)
 }
 
 interface ValidationResult {
@@ -18,13 +21,17 @@ interface ValidationResult {
   contentType: 'news' | 'blog' | 'press_release' | 'podcast' | 'event' | 'list_view' | 'other'
   organizationRelevance: 'high' | 'medium' | 'low'
   publishDateValid: boolean
+  promptVersion: string | null // Prompt ref (e.g. "validation@v1"); null when the result didn't come from the model
+  fallback: boolean // true when the model call failed and the article was accepted by default
 }
 
 /**
  * Validates article content against quality and relevance criteria
  * Filters out articles that don't meet the standards for cataloging
  */
-export async function validateArticleContent(input: ArticleValidationInput): Promise<ValidationResult> {
+export async function validateArticleContent(input: ArticleValidationInput, promptVersion?: string): Promise<ValidationResult> {
+  const prompt = getPrompt('validation', promptVersion);
+
   try {
     // Check for error pages and hallucinated content first
     const errorPageCheck = detectErrorPage(input);
@@ -35,87 +42,22 @@ export async function validateArticleContent(input: ArticleValidationInput): Pro
         organizationSentiment: 'neutral',
         contentType: 'other',
         organizationRelevance: 'low',
-        publishDateValid: false
+        publishDateValid: false,
+        promptVersion: null,
+        fallback: false
       };
     }
 
     // Note: We no longer check publish date - all dates are acceptable
     const publishDateValid = true; // Always true now
 
-    const result = await generateObject({
-      model: openai('gpt-4o-mini'),
-      system: `You are an expert content analyst for faith-based impact investing. Your job is to validate whether articles should be catalogued based on simple, focused criteria.
-
-VALIDATION CRITERIA:
-
-1. ORGANIZATION SENTIMENT: How does this article portray the organization?
-   - POSITIVE: Highlights achievements, positive impact, good news about the organization
-   - NEUTRAL: Factual reporting without positive or negative bias
-   - NEGATIVE: Criticism, scandals, negative events, or unfavorable coverage
-   
-2. CONTENT TYPE: What type of content is this?
-   - NEWS: Actual news articles about events, developments, impact stories
-   - BLOG: Opinion pieces, thought leadership, personal perspectives, blog posts
-   - PRESS_RELEASE: Official announcements or promotional content
-   - PODCAST: Audio content, podcast episodes, interview transcriptions
-   - EVENT: Event announcements, conference coverage, webinar information
-   - LIST_VIEW: Directory, list of articles, index pages, navigation pages
-   - OTHER: Documentation, technical specs, administrative content
-
-3. ORGANIZATION RELEVANCE: How much is this article actually about the organization?
-   - HIGH: Organization is main subject, significant coverage (>30% of content)
-   - MEDIUM: Organization mentioned substantially but not main focus (10-30%)
-   - LOW: Brief mention, passing reference, or tangential connection (<10%)
-
-REJECTION CRITERIA (VERY LIMITED):
-- Negative sentiment toward the organization (criticism, scandals, unfavorable coverage)
-- Low organization relevance (content is not actually about the organization)
-
-ACCEPT EVERYTHING ELSE:
-- All content types (news, blog, press releases, podcasts, events, etc.)
-- All publish dates (old articles are valuable for historical context)
-- All organization relevance levels except "low" (medium and high are both acceptable)`,
-      prompt: `Analyze this article for the organization "${input.organizationName}":
-
-URL: ${input.url}
-Title: ${input.title}
-Summary: ${input.summary}
-Published: ${input.publishedAt || 'Unknown'}
-
-Content Preview:
-${input.content.substring(0, 4000)}
-
-Validate this article:`,
-      schema: z.object({
-        organizationSentiment: z.enum(['positive', 'neutral', 'negative']),
-        contentType: z.enum(['news', 'blog', 'press_release', 'podcast', 'event', 'list_view', 'other']),
-        organizationRelevance: z.enum(['high', 'medium', 'low']),
-        reasoning: z.string().describe('Detailed explanation of the validation decision'),
-        specificIssues: z.array(z.string()).describe('Specific problems found, if any')
-      }),
-    });
+    // Recent editor accept/reject decisions calibrate the model (ignored by validation@v1)
+    const examples = await getValidationExamples(input.organizationId, { excludeUrl: input.url });
+    const result = await runPrompt(prompt, { ...input, examples });
 
     // Determine if article is valid based on simplified criteria
-    const validationReasons: string[] = [];
-    let isValid = true;
-
-    // ONLY reject for these two specific reasons:
-
-    // 1. Check organization sentiment - reject only negative sentiment
-    if (result.object.organizationSentiment === 'negative') {
-      isValid = false;
-      validationReasons.push('Article casts negative light on the organization');
-    }
-
-    // 2. Check organization relevance - reject only if completely irrelevant (low)
-    if (result.object.organizationRelevance === 'low') {
-      isValid = false;
-      validationReasons.push('Article content is not relevant to the organization');
-    }
-
-    // REMOVED: Date checks (accept all dates, including old articles)
-    // REMOVED: Content type restrictions (accept all content types)
-    // REMOVED: List view restrictions (accept all page types)
+    const validationReasons = getRejectionReasons(result.object);
+    const isValid = validationReasons.length === 0;
 
     // If valid, add success reason
     if (isValid) {
@@ -128,10 +70,13 @@ Validate this article:`,
       organizationSentiment: result.object.organizationSentiment,
       contentType: result.object.contentType,
       organizationRelevance: result.object.organizationRelevance,
-      publishDateValid
+      publishDateValid,
+      promptVersion: result.promptVersion,
+      fallback: false
     };
 
   } catch (error) {
+    rethrowIfBudgetExceeded(error);
     console.error('Content validation failed:', error);
     return {
       isValid: true, // Default to accepting articles when validation fails
@@ -139,11 +84,38 @@ Validate this article:`,
       organizationSentiment: 'neutral',
       contentType: 'other',
       organizationRelevance: 'medium', // Default to medium relevance
-      publishDateValid: true
+      publishDateValid: true,
+      promptVersion: null,
+      fallback: true
     };
   }
 }
 
+/**
+ * Why the model's classification rejects an article (empty when it is accepted)
+ */
+export function getRejectionReasons(classification: Pick<ValidationResult, 'organizationSentiment' | 'organizationRelevance'>): string[] {
+  const reasons: string[] = [];
+
+  // ONLY reject for these two specific reasons:
+
+  // 1. Check organization sentiment - reject only negative sentiment
+  if (classification.organizationSentiment === 'negative') {
+    reasons.push('Article casts negative light on the organization');
+  }
+
+  // 2. Check organization relevance - reject only if completely irrelevant (low)
+  if (classification.organizationRelevance === 'low') {
+    reasons.push('Article content is not relevant to the organization');
+  }
+
+  // REMOVED: Date checks (accept all dates, including old articles)
+  // REMOVED: Content type restrictions (accept all content types)
+  // REMOVED: List view restrictions (accept all page types)
+
+  return reasons;
+}
+
 /**
  * Detect error pages and hallucinated content that should be immediately rejected
  */
@@ -2,7 +2,14 @@
 
 import { useState, useEffect } from 'react'
 import { Box, Heading, Text, Flex, Button, Card, Badge, Spinner, Table, IconButton, Dialog, TextField, TextArea, Select, Checkbox } from '@radix-ui/themes'
-import { CheckCircle, XCircle, Eye, PencilSimple, Trash, CaretLeft, CaretRight, ArrowCounterClockwise, X, Check, Prohibit } from "@phosphor-icons/react/dist/ssr"
+import { CheckCircle, XCircle, Eye, PencilSimple, Trash, CaretLeft, CaretRight, ArrowCounterClockwise, X, Check, Prohibit, Copy, ArrowsClockwise, CurrencyDollar, Target, MapPin } from "@phosphor-icons/react/dist/ssr"
+import { DuplicateClusters } from '@/components/DuplicateClusters'
+import { ReenrichmentReview } from '@/components/ReenrichmentReview'
+import { AiUsageDashboard } from '@/components/AiUsageDashboard'
+import { DiscoveryProfileDialog } from '@/components/DiscoveryProfileDialog'
+import { TriageRulesDialog } from '@/components/TriageRulesDialog'
+import { EditorialPrecision } from '@/components/EditorialPrecision'
+import { REJECT_REASONS, RejectReason, describeRejectReason } from '@/lib/rejectReasons'
 
 interface Article {
   id: string
@@ -25,6 +32,9 @@ interface Article {
   contentType?: string | null
   organizationRelevance?: string | null
   validationReasons: string[]
+  qualityScore?: number | null
+  qualityComponents?: Array<{ component: string, signal: string, value: number, weight: number, points: number }> | null
+  duplicateGroupId?: string | null
   organization: {
     id: string
     name: string
@@ -52,8 +62,16 @@ export default function AdminArticlesPage() {
   const [statusFilter, setStatusFilter] = useState<string>('all')
   const [organizationFilter, setOrganizationFilter] = useState<string>('all')
   const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [sortOrder, setSortOrder] = useState<string>('newest') // newest | quality
+  const [minQuality, setMinQuality] = useState<string>('any')
+  const [isRecomputing, setIsRecomputing] = useState(false)
+  const [isExtractingEntities, setIsExtractingEntities] = useState(false)
   const [pagination, setPagination] = useState<PaginationInfo | null>(null)
   const [isUpdating, setIsUpdating] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  const [showReenrichment, setShowReenrichment] = useState(false)
+  const [showAiUsage, setShowAiUsage] = useState(false)
+  const [showPrecision, setShowPrecision] = useState(false)
   
   // Multi-select state
   const [selectedArticles, setSelectedArticles] = useState<Set<string>>(new Set())
@@ -62,6 +80,11 @@ export default function AdminArticlesPage() {
   // Pagination state
   const [pageSize, setPageSize] = useState<number>(100)
   
+  // Reject reason dialog state (single article or the current selection)
+  const [rejectingIds, setRejectingIds] = useState<string[] | null>(null)
+  const [rejectingBulk, setRejectingBulk] = useState(false)
+  const [rejectForm, setRejectForm] = useState<{ reason: RejectReason, note: string }>({ reason: 'not_about_organization', note: '' })
+  
   // Edit modal state
   const [editingArticle, setEditingArticle] = useState<Article | null>(null)
   const [editForm, setEditForm] = useState({
@@ -78,7 +101,7 @@ export default function AdminArticlesPage() {
 
   useEffect(() => {
     fetchArticles()
-  }, [statusFilter, organizationFilter, pagination?.page, pageSize])
+  }, [statusFilter, organizationFilter, sortOrder, minQuality, pagination?.page, pageSize])
 
   const fetchOrganizations = async () => {
     try {
@@ -105,6 +128,12 @@ export default function AdminArticlesPage() {
       if (organizationFilter && organizationFilter !== 'all') {
         params.set('organizationId', organizationFilter)
       }
+      if (sortOrder === 'quality') {
+        params.set('sort', 'quality')
+      }
+      if (minQuality !== 'any') {
+        params.set('minQuality', minQuality)
+      }
       
       const response = await fetch(`/api/admin/articles?${params}`)
       const data = await response.json()
@@ -243,11 +272,33 @@ export default function AdminArticlesPage() {
     }
   }
 
-  const handleReject = async (article: Article) => {
-    await updateArticle(article.id, { 
-      status: 'rejected',
-      validationReasons: ['Manually rejected by admin']
-    })
+  const handleReject = (article: Article) => {
+    setRejectingBulk(false)
+    setRejectingIds([article.id])
+  }
+
+  // Reject with the editor's reason; it's recorded as labeled feedback for precision and validation examples
+  const rejectArticle = (articleId: string) => updateArticle(articleId, {
+    status: 'rejected',
+    validationReasons: [`Rejected by editor: ${describeRejectReason(rejectForm.reason, rejectForm.note.trim())}`],
+    rejectReason: rejectForm.reason,
+    rejectNote: rejectForm.note.trim() || null
+  })
+
+  const handleCancelReject = () => {
+    setRejectingIds(null)
+    setRejectForm({ reason: 'not_about_organization', note: '' })
+  }
+
+  const handleConfirmReject = async () => {
+    if (!rejectingIds) return
+
+    if (rejectingBulk) {
+      await rejectSelected()
+    } else {
+      await rejectArticle(rejectingIds[0])
+    }
+    handleCancelReject()
   }
 
   const handleRestoreFromRejected = async (article: Article) => {
@@ -352,22 +403,20 @@ export default function AdminArticlesPage() {
     }
   }
 
-  const handleBulkReject = async () => {
+  const handleBulkReject = () => {
     if (selectedArticles.size === 0) return
-    
-    const confirmed = confirm(`Are you sure you want to reject ${selectedArticles.size} selected articles?`)
-    if (!confirmed) return
+    setRejectingBulk(true)
+    setRejectingIds(Array.from(selectedArticles))
+  }
 
+  const rejectSelected = async () => {
     setIsBulkActing(true)
     const errors: string[] = []
     
     try {
       for (const articleId of selectedArticles) {
         try {
-          const success = await updateArticle(articleId, { 
-            status: 'rejected',
-            validationReasons: ['Bulk rejected by admin']
-          })
+          const success = await rejectArticle(articleId)
           if (!success) {
             const article = articles.find(a => a.id === articleId)
             errors.push(article?.title || articleId)
@@ -410,6 +459,70 @@ export default function AdminArticlesPage() {
     setSelectedArticles(new Set()) // Clear selection when filter changes
   }
 
+  const handleSortOrderChange = (value: string) => {
+    setSortOrder(value)
+    setPagination(prev => prev ? { ...prev, page: 1 } : null)
+  }
+
+  const handleMinQualityChange = (value: string) => {
+    setMinQuality(value)
+    setPagination(prev => prev ? { ...prev, page: 1 } : null)
+    setSelectedArticles(new Set()) // Clear selection when filter changes
+  }
+
+  const recomputeQualityScores = async () => {
+    const scope = organizationFilter !== 'all' ? organizations.find(org => org.id === organizationFilter)?.name : 'all organizations'
+    if (!confirm(`Recompute quality scores for ${scope}? Use this after changing QUALITY_WEIGHTS.`)) return
+
+    setIsRecomputing(true)
+    try {
+      const response = await fetch('/api/admin/quality-score', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: organizationFilter !== 'all' ? organizationFilter : undefined })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        await fetchArticles(pagination?.page)
+      } else {
+        alert(`Failed to recompute quality scores: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Quality score recompute error:', error)
+      alert('Failed to recompute quality scores')
+    } finally {
+      setIsRecomputing(false)
+    }
+  }
+
+  // Backfill people/places/partners/programs for articles that were never extracted
+  const extractMissingEntities = async () => {
+    const scope = organizationFilter !== 'all' ? organizations.find(org => org.id === organizationFilter)?.name : 'all organizations'
+    if (!confirm(`Extract entities for up to 50 articles from ${scope} that don't have them yet? This uses AI calls.`)) return
+
+    setIsExtractingEntities(true)
+    try {
+      const response = await fetch('/api/admin/entities', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: organizationFilter !== 'all' ? organizationFilter : undefined })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        alert(`Extracted ${data.entities} entities from ${data.processed} articles${data.errors.length > 0 ? ` (${data.errors.length} failed)` : ''}`)
+      } else {
+        alert(`Failed to extract entities: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Entity extraction error:', error)
+      alert('Failed to extract entities')
+    } finally {
+      setIsExtractingEntities(false)
+    }
+  }
+
   const handlePageChange = (newPage: number) => {
     if (pagination && newPage >= 1 && newPage <= pagination.totalPages) {
       fetchArticles(newPage)
@@ -456,6 +569,24 @@ export default function AdminArticlesPage() {
     }
   }
 
+  const getQualityPill = (article: Article) => {
+    if (article.qualityScore === null || article.qualityScore === undefined) {
+      return <Badge variant="soft" color="gray">—</Badge>
+    }
+
+    // Hover shows how each signal contributed
+    const breakdown = (article.qualityComponents || [])
+      .map(c => `${c.component}: ${c.signal} → ${c.points} pts (weight ${c.weight})`)
+      .join('\n')
+    const color = article.qualityScore >= 70 ? 'green' : article.qualityScore >= 40 ? 'orange' : 'red'
+
+    return (
+      <Badge variant="soft" color={color} title={breakdown}>
+        {Math.round(article.qualityScore)}
+      </Badge>
+    )
+  }
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'published':
@@ -560,6 +691,66 @@ export default function AdminArticlesPage() {
             >
               Rejected
             </Button>
+            <Button 
+              variant={showDuplicates ? 'solid' : 'soft'} 
+              onClick={() => {
+                setShowDuplicates(!showDuplicates)
+                setShowReenrichment(false)
+                setShowAiUsage(false)
+                setShowPrecision(false)
+                setSelectedArticles(new Set())
+              }}
+              size="2"
+              color="orange"
+            >
+              <Copy size={16} />
+              Duplicates
+            </Button>
+            <Button 
+              variant={showReenrichment ? 'solid' : 'soft'} 
+              onClick={() => {
+                setShowReenrichment(!showReenrichment)
+                setShowDuplicates(false)
+                setShowAiUsage(false)
+                setShowPrecision(false)
+                setSelectedArticles(new Set())
+              }}
+              size="2"
+              color="violet"
+            >
+              <ArrowsClockwise size={16} />
+              Re-enrich
+            </Button>
+            <Button 
+              variant={showAiUsage ? 'solid' : 'soft'} 
+              onClick={() => {
+                setShowAiUsage(!showAiUsage)
+                setShowDuplicates(false)
+                setShowReenrichment(false)
+                setShowPrecision(false)
+                setSelectedArticles(new Set())
+              }}
+              size="2"
+              color="green"
+            >
+              <CurrencyDollar size={16} />
+              AI Usage
+            </Button>
+            <Button 
+              variant={showPrecision ? 'solid' : 'soft'} 
+              onClick={() => {
+                setShowPrecision(!showPrecision)
+                setShowDuplicates(false)
+                setShowReenrichment(false)
+                setShowAiUsage(false)
+                setSelectedArticles(new Set())
+              }}
+              size="2"
+              color="cyan"
+            >
+              <Target size={16} />
+              Precision
+            </Button>
           </Flex>
           
           {/* Organization Filter */}
@@ -576,12 +767,73 @@ export default function AdminArticlesPage() {
                 ))}
               </Select.Content>
             </Select.Root>
+            {organizationFilter !== 'all' && (
+              <DiscoveryProfileDialog
+                organizationId={organizationFilter}
+                organizationName={organizations.find(org => org.id === organizationFilter)?.name || ''}
+              />
+            )}
+            <TriageRulesDialog
+              organizationId={organizationFilter}
+              organizationName={organizations.find(org => org.id === organizationFilter)?.name || ''}
+            />
+          </Flex>
+
+          {/* Quality Sort & Threshold */}
+          <Flex gap="3" align="center" wrap="wrap">
+            <Text weight="medium">Sort by:</Text>
+            <Select.Root value={sortOrder} onValueChange={handleSortOrderChange}>
+              <Select.Trigger style={{ width: '160px' }} />
+              <Select.Content>
+                <Select.Item value="newest">Featured & newest</Select.Item>
+                <Select.Item value="quality">Quality score</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <Text weight="medium">Minimum quality:</Text>
+            <Select.Root value={minQuality} onValueChange={handleMinQualityChange}>
+              <Select.Trigger style={{ width: '120px' }} />
+              <Select.Content>
+                <Select.Item value="any">Any</Select.Item>
+                <Select.Item value="25">25+</Select.Item>
+                <Select.Item value="50">50+</Select.Item>
+                <Select.Item value="70">70+</Select.Item>
+                <Select.Item value="85">85+</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <Button size="2" variant="soft" color="gray" onClick={recomputeQualityScores} loading={isRecomputing} disabled={isRecomputing}>
+              <ArrowsClockwise size={16} />
+              Recompute scores
+            </Button>
+            <Button size="2" variant="soft" color="gray" onClick={extractMissingEntities} loading={isExtractingEntities} disabled={isExtractingEntities}>
+              <MapPin size={16} />
+              Extract entities
+            </Button>
           </Flex>
         </Flex>
       </Card>
 
+      {/* Duplicate Clusters */}
+      {showDuplicates && (
+        <DuplicateClusters organizationId={organizationFilter} onChanged={() => fetchArticles(pagination?.page)} />
+      )}
+
+      {/* Re-enrichment Runs */}
+      {showReenrichment && (
+        <ReenrichmentReview organizationId={organizationFilter} onChanged={() => fetchArticles(pagination?.page)} />
+      )}
+
+      {/* AI Usage and Budgets */}
+      {showAiUsage && (
+        <AiUsageDashboard organizationId={organizationFilter} organizations={organizations} />
+      )}
+
+      {/* Editorial Precision */}
+      {showPrecision && (
+        <EditorialPrecision organizationId={organizationFilter} />
+      )}
+
       {/* Bulk Actions */}
-      {selectedArticles.size > 0 && (
+      {!showDuplicates && !showReenrichment && !showAiUsage && !showPrecision && selectedArticles.size > 0 && (
         <Card>
           <Flex align="center" justify="between">
             <Flex align="center" gap="3">
@@ -626,7 +878,7 @@ export default function AdminArticlesPage() {
       )}
 
       {/* Articles Table */}
-      {articles.length === 0 ? (
+      {showDuplicates || showReenrichment || showAiUsage || showPrecision ? null : articles.length === 0 ? (
         <Card style={{ padding: '48px', textAlign: 'center' }}>
           <Text size="4" color="gray">
             No articles found for the selected filter.
@@ -648,6 +900,7 @@ export default function AdminArticlesPage() {
                 <Table.ColumnHeaderCell>Published Date</Table.ColumnHeaderCell>
                 <Table.ColumnHeaderCell>Date Scraped</Table.ColumnHeaderCell>
                 <Table.ColumnHeaderCell>Article Title</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Quality</Table.ColumnHeaderCell>
                 <Table.ColumnHeaderCell>Validation</Table.ColumnHeaderCell>
                 <Table.ColumnHeaderCell>URL</Table.ColumnHeaderCell>
                 <Table.ColumnHeaderCell>Organization</Table.ColumnHeaderCell>
@@ -668,7 +921,12 @@ export default function AdminArticlesPage() {
                     />
                   </Table.Cell>
                   <Table.Cell>
-                    {getStatusBadge(article.status)}
+                    <Flex gap="1" align="center">
+                      {getStatusBadge(article.status)}
+                      {article.duplicateGroupId && (
+                        <Badge variant="soft" color="orange" title="Part of a duplicate cluster">Dup</Badge>
+                      )}
+                    </Flex>
                   </Table.Cell>
                   <Table.Cell>
                     <Text size="2" color="gray">
@@ -690,6 +948,9 @@ export default function AdminArticlesPage() {
                       {article.title}
                     </Text>
                   </Table.Cell>
+                  <Table.Cell>
+                    {getQualityPill(article)}
+                  </Table.Cell>
                   <Table.Cell style={{ maxWidth: '200px' }}>
                     {article.status === 'rejected' && article.validationReasons && article.validationReasons.length > 0 ? (
                       <Text size="1" color="red" style={{ 
@@ -819,7 +1080,7 @@ export default function AdminArticlesPage() {
       )}
 
       {/* Pagination */}
-      {pagination && (
+      {!showDuplicates && !showReenrichment && !showAiUsage && !showPrecision && pagination && (
         <Card>
           <Flex justify="between" align="center" wrap="wrap" gap="4">
             {/* Left side - Results info and page size selector */}
@@ -892,6 +1153,54 @@ export default function AdminArticlesPage() {
         </Card>
       )}
 
+      {/* Reject Reason Dialog */}
+      <Dialog.Root open={!!rejectingIds} onOpenChange={(open) => !open && handleCancelReject()}>
+        <Dialog.Content style={{ maxWidth: 480 }}>
+          <Dialog.Title>
+            Reject {rejectingIds && rejectingIds.length > 1 ? `${rejectingIds.length} articles` : 'article'}
+          </Dialog.Title>
+          <Dialog.Description size="2" color="gray" mb="4">
+            Why isn&apos;t this a fit? Reasons feed the precision report and teach content validation what to reject.
+          </Dialog.Description>
+
+          <Flex direction="column" gap="4">
+            <Flex direction="column" gap="2">
+              <Text size="2" weight="medium">Reason</Text>
+              <Select.Root value={rejectForm.reason} onValueChange={(value) => setRejectForm(prev => ({ ...prev, reason: value as RejectReason }))}>
+                <Select.Trigger />
+                <Select.Content>
+                  {Object.entries(REJECT_REASONS).map(([reason, label]) => (
+                    <Select.Item key={reason} value={reason}>{label}</Select.Item>
+                  ))}
+                </Select.Content>
+              </Select.Root>
+            </Flex>
+
+            <Flex direction="column" gap="2">
+              <Text size="2" weight="medium">Note (optional)</Text>
+              <TextArea
+                value={rejectForm.note}
+                onChange={(e) => setRejectForm(prev => ({ ...prev, note: e.target.value }))}
+                placeholder="e.g. only mentions the organization in a donor list"
+                rows={2}
+                resize="vertical"
+              />
+            </Flex>
+
+            <Flex gap="3" justify="end" mt="2">
+              <Dialog.Close>
+                <Button variant="soft" color="gray" disabled={isUpdating || isBulkActing}>
+                  Cancel
+                </Button>
+              </Dialog.Close>
+              <Button color="red" onClick={handleConfirmReject} disabled={isUpdating || isBulkActing}>
+                {isUpdating || isBulkActing ? 'Rejecting...' : 'Reject'}
+              </Button>
+            </Flex>
+          </Flex>
+        </Dialog.Content>
+      </Dialog.Root>
+
       {/* Edit Article Dialog */}
       <Dialog.Root open={!!editingArticle} onOpenChange={(open) => !open && handleCancelEdit()}>
         <Dialog.Content style={{ maxWidth: 800, maxHeight: '90vh', overflow: 'auto' }}>
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getUsageSummary, listBudgets, removeBudget, setBudget, startOfMonth } from '@/lib/llmUsage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// AI usage dashboard: token usage and estimated cost for a period (default: the current
+// month), broken down by organization, task, model and day, plus the configured budgets
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const organizationId = searchParams.get('organizationId')
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : startOfMonth()
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : new Date(Date.now() + DAY_MS)
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'from and to must be valid dates'
+      }, { status: 400 })
+    }
+
+    const [usage, budgets] = await Promise.all([
+      getUsageSummary({ from, to, organizationId: organizationId && organizationId !== 'all' ? organizationId : undefined }),
+      listBudgets()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      from,
+      to,
+      ...usage,
+      budgets
+    })
+
+  } catch (error) {
+    console.error('AI usage GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch AI usage',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Set a monthly budget: { organizationId?, monthlyLimitUsd }. Without organizationId the
+// budget caps all AI calls.
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId, monthlyLimitUsd } = await request.json()
+    const limit = parseFloat(monthlyLimitUsd)
+
+    if (isNaN(limit) || limit < 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'monthlyLimitUsd must be a non-negative number'
+      }, { status: 400 })
+    }
+
+    if (organizationId) {
+      const organization = await prisma.organization.findUnique({ where: { id: organizationId }, select: { id: true } })
+      if (!organization) {
+        return NextResponse.json({
+          success: false,
+          error: 'Organization not found'
+        }, { status: 404 })
+      }
+    }
+
+    const budget = await setBudget(organizationId || null, limit)
+    console.log(`💰 ${organizationId ? `Organization ${organizationId}` : 'Global'} AI budget set to $${limit.toFixed(2)}/month`)
+
+    return NextResponse.json({
+      success: true,
+      budget
+    })
+
+  } catch (error) {
+    console.error('AI usage POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save AI budget',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'id parameter required'
+      }, { status: 400 })
+    }
+
+    await removeBudget(id)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('AI usage DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete AI budget',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { QUALITY_SIGNAL_FIELDS, parseQualityParams, qualityScoreData } from '@/lib/qualityScore'
+import { getReviewOutcome, recordEditorialReview } from '@/lib/editorialFeedback'
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,6 +11,8 @@ export async function GET(request: NextRequest) {
     const status = searchParams.get('status') // 'all', 'draft', 'published', 'failed', 'processing'
     const organizationId = searchParams.get('organizationId') // organization filter
     const ids = searchParams.get('ids') // comma-separated list of article IDs
+    const entityId = searchParams.get('entityId') // articles mentioning this entity
+    const { sortByQuality, minQuality } = parseQualityParams(searchParams) // sort=quality, minQuality=0-100
     
     const skip = (page - 1) * limit
 
@@ -29,6 +33,12 @@ export async function GET(request: NextRequest) {
       if (organizationId && organizationId !== 'all') {
         whereClause.organizationId = organizationId
       }
+      if (minQuality !== null) {
+        whereClause.qualityScore = { gte: minQuality }
+      }
+      if (entityId) {
+        whereClause.entities = { some: { entityId } }
+      }
     }
 
     // Get total count for pagination
@@ -47,7 +57,14 @@ export async function GET(request: NextRequest) {
           }
         }
       },
-      orderBy: [
+      orderBy: sortByQuality ? [
+        {
+          qualityScore: { sort: 'desc', nulls: 'last' }
+        },
+        {
+          createdAt: 'desc'
+        }
+      ] : [
         {
           featured: 'desc'
         },
@@ -84,6 +101,9 @@ export async function GET(request: NextRequest) {
       contentType: article.contentType,
       organizationRelevance: article.organizationRelevance,
       validationReasons: article.validationReasons,
+      qualityScore: article.qualityScore,
+      qualityComponents: article.qualityComponents,
+      duplicateGroupId: article.duplicateGroupId,
       organization: {
         id: article.organization.id,
         name: article.organization.name,
@@ -120,7 +140,7 @@ export async function GET(request: NextRequest) {
 // Update article (publish, change status, edit content, etc.)
 export async function PATCH(request: NextRequest) {
   try {
-    const { id, ...updates } = await request.json()
+    const { id, rejectReason, rejectNote, ...updates } = await request.json()
 
     if (!id) {
       return NextResponse.json(
@@ -129,10 +149,20 @@ export async function PATCH(request: NextRequest) {
       )
     }
 
+    const previous = await prisma.article.findUnique({ where: { id }, select: QUALITY_SIGNAL_FIELDS })
+    if (!previous) {
+      return NextResponse.json(
+        { success: false, error: 'Article not found' },
+        { status: 404 }
+      )
+    }
+
     const updatedArticle = await prisma.article.update({
       where: { id },
       data: {
         ...updates,
+        // Status and enrichment edits move the quality score
+        ...qualityScoreData({ ...previous, ...updates }),
         updatedAt: new Date()
       },
       include: {
@@ -145,6 +175,16 @@ export async function PATCH(request: NextRequest) {
       }
     })
 
+    // Publishing and rejecting are the editorial labels precision and validation examples come from
+    const outcome = getReviewOutcome(previous.status, updates.status)
+    if (outcome) {
+      await recordEditorialReview(
+        updatedArticle,
+        outcome,
+        { reason: rejectReason, note: rejectNote }
+      )
+    }
+
     return NextResponse.json({
       success: true,
       article: {
@@ -168,6 +208,8 @@ export async function PATCH(request: NextRequest) {
         contentType: updatedArticle.contentType,
         organizationRelevance: updatedArticle.organizationRelevance,
         validationReasons: updatedArticle.validationReasons,
+        qualityScore: updatedArticle.qualityScore,
+        qualityComponents: updatedArticle.qualityComponents,
         organization: {
           id: updatedArticle.organization.id,
           name: updatedArticle.organization.name,
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { analyzeInspiration } from '@/ai-functions/analyzeInspiration'
+import { mergePromptVersions } from '@/lib/prompts'
+import { refreshQualityScore } from '@/lib/qualityScore'
+import { describeExceededBudget, getExceededBudget, LlmBudgetExceededError, withLlmContext } from '@/lib/llmUsage'
 
 export async function POST(request: NextRequest) {
   try {
@@ -27,6 +30,15 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    const exceededBudget = await getExceededBudget(organizationId)
+    if (exceededBudget) {
+      return NextResponse.json({
+        success: false,
+        error: describeExceededBudget(exceededBudget),
+        budget: exceededBudget
+      }, { status: 402 })
+    }
+
     // Get articles to process
     const articles = await prisma.article.findMany({
       where: whereClause,
@@ -35,7 +47,8 @@ export async function POST(request: NextRequest) {
         title: true,
         summary: true,
         content: true,
-        organizationId: true
+        organizationId: true,
+        promptVersions: true
       },
       take: 20 // Process in batches of 20 to avoid timeouts
     })
@@ -50,35 +63,47 @@ export async function POST(request: NextRequest) {
 
     const results = []
     let processed = 0
+    let budgetError: LlmBudgetExceededError | null = null
 
     // Process each article
     for (const article of articles) {
       try {
         console.log(`Analyzing inspiration for: "${article.title}"`)
         
-        const inspiration = await analyzeInspiration({
-          title: article.title,
-          summary: article.summary || '',
-          content: article.content || ''
-        })
+        const inspiration = await withLlmContext({ organizationId: article.organizationId, articleId: article.id }, () =>
+          analyzeInspiration({
+            title: article.title,
+            summary: article.summary || '',
+            content: article.content || ''
+          })
+        )
 
         // Update the article
         await prisma.article.update({
           where: { id: article.id },
-          data: { inspirationRating: inspiration.rating }
+          data: {
+            inspirationRating: inspiration.rating,
+            promptVersions: mergePromptVersions(article.promptVersions, { inspiration: inspiration.promptVersion })
+          }
         })
+        await refreshQualityScore(article.id)
 
         results.push({
           articleId: article.id,
           title: article.title,
           rating: inspiration.rating,
-          reasoning: inspiration.reasoning
+          reasoning: inspiration.reasoning,
+          promptVersion: inspiration.promptVersion
         })
 
         processed++
         console.log(`✅ Updated ${article.title}: ${inspiration.rating}`)
 
       } catch (error) {
+        if (error instanceof LlmBudgetExceededError) {
+          budgetError = error
+          break
+        }
         console.error(`Failed to process article ${article.id}:`, error)
         results.push({
           articleId: article.id,
@@ -92,8 +117,11 @@ export async function POST(request: NextRequest) {
       success: true,
       processed,
       total: articles.length,
+      paused: budgetError !== null,
       results,
-      message: `Successfully processed ${processed} articles`
+      message: budgetError
+        ? `Processed ${processed} articles before pausing: ${budgetError.message}`
+        : `Successfully processed ${processed} articles`
     })
 
   } catch (error) {
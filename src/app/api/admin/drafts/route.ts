@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { refreshQualityScore } from '@/lib/qualityScore'
 
 export async function GET(request: NextRequest) {
   try {
@@ -98,6 +99,7 @@ export async function PATCH(request: NextRequest) {
         }
       }
     })
+    await refreshQualityScore(id)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { mergeDuplicateGroup, scanForDuplicates } from '@/lib/duplicates'
+
+// List duplicate clusters with their member articles
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') || 'open' // 'open', 'merged', 'dismissed', 'all'
+    const organizationId = searchParams.get('organizationId')
+
+    const whereClause: any = {}
+    if (status !== 'all') {
+      whereClause.status = status
+    }
+    if (organizationId && organizationId !== 'all') {
+      whereClause.articles = { some: { organizationId } }
+    }
+
+    const groups = await prisma.duplicateGroup.findMany({
+      where: whereClause,
+      include: {
+        articles: {
+          include: {
+            organization: { select: { id: true, name: true } }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
+      },
+      orderBy: { updatedAt: 'desc' },
+      take: 200
+    })
+
+    return NextResponse.json({
+      success: true,
+      groups: groups.map((group: any) => ({
+        id: group.id,
+        canonicalArticleId: group.canonicalArticleId,
+        method: group.method,
+        similarity: group.similarity,
+        status: group.status,
+        createdAt: group.createdAt,
+        updatedAt: group.updatedAt,
+        articles: group.articles.map((article: any) => ({
+          id: article.id,
+          title: article.title,
+          url: article.url,
+          status: article.status,
+          publishedAt: article.publishedAt,
+          createdAt: article.createdAt,
+          summary: article.summary,
+          organization: {
+            id: article.organization.id,
+            name: article.organization.name
+          }
+        }))
+      }))
+    })
+
+  } catch (error) {
+    console.error('Admin duplicates API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to fetch duplicate groups'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Fingerprint articles that have no content hash yet and cluster them
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const limit = Math.min(parseInt(body.limit?.toString() || '500') || 500, 5000)
+
+    const result = await scanForDuplicates(limit)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Admin duplicates scan error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to scan for duplicates',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+// Merge a cluster into a canonical article, or dismiss it as not duplicates
+export async function PATCH(request: NextRequest) {
+  try {
+    const { groupId, action, canonicalArticleId } = await request.json()
+
+    if (!groupId || !['merge', 'dismiss'].includes(action)) {
+      return NextResponse.json(
+        { success: false, error: 'groupId and action (merge | dismiss) are required' },
+        { status: 400 }
+      )
+    }
+
+    if (action === 'merge') {
+      if (!canonicalArticleId) {
+        return NextResponse.json(
+          { success: false, error: 'canonicalArticleId is required to merge' },
+          { status: 400 }
+        )
+      }
+
+      const group = await mergeDuplicateGroup(groupId, canonicalArticleId)
+      return NextResponse.json({ success: true, group })
+    }
+
+    const group = await prisma.duplicateGroup.update({
+      where: { id: groupId },
+      data: { status: 'dismissed' }
+    })
+
+    return NextResponse.json({ success: true, group })
+
+  } catch (error) {
+    console.error('Admin duplicates update error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update duplicate group',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
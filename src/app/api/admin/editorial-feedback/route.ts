@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEditorialPrecision } from '@/lib/editorialFeedback'
+
+// Editor acceptance rate of pipeline output: overall, per organization, per discovery
+// source and per enrichment signal, from the publish/reject decisions in EditorialReview.
+// Optional ?organizationId and ?from (ISO date) narrow the reviews counted.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const organizationId = searchParams.get('organizationId')
+    const fromParam = searchParams.get('from')
+    const from = fromParam ? new Date(fromParam) : undefined
+
+    if (from && isNaN(from.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'from must be a valid date'
+      }, { status: 400 })
+    }
+
+    const precision = await getEditorialPrecision({
+      organizationId: organizationId && organizationId !== 'all' ? organizationId : undefined,
+      from
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...precision
+    })
+
+  } catch (error) {
+    console.error('Editorial feedback GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to compute editorial precision',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { DEFAULT_ENTITY_BACKFILL_LIMIT, extractEntitiesForArticles } from '@/lib/entities'
+
+// Extract entities for { articleIds } (re-extracting them), or backfill up to { limit }
+// articles (optionally one { organizationId }'s) that were never extracted
+export async function POST(request: NextRequest) {
+  try {
+    const { articleIds, organizationId, limit } = await request.json().catch(() => ({}))
+
+    if (articleIds !== undefined && (!Array.isArray(articleIds) || articleIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'articleIds must be an array of article IDs'
+      }, { status: 400 })
+    }
+
+    const result = await extractEntitiesForArticles({
+      articleIds,
+      organizationId: organizationId && organizationId !== 'all' ? organizationId : undefined,
+      limit: typeof limit === 'number' ? limit : DEFAULT_ENTITY_BACKFILL_LIMIT
+    })
+    console.log(`✅ Entity extraction: ${result.processed} articles, ${result.entities} entity links, ${result.errors.length} errors`)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Entity extraction error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to extract entities',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getLlmCacheStats, invalidateLlmCache } from '@/lib/llmCache'
+
+// LLM response cache: entries and hits per prompt version and model
+export async function GET() {
+  try {
+    const stats = await getLlmCacheStats()
+
+    return NextResponse.json({
+      success: true,
+      ...stats
+    })
+
+  } catch (error) {
+    console.error('LLM cache GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch LLM cache stats',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Invalidate cache entries by promptName, promptVersion (e.g. "sentiment@v1"), model
+// and/or expired=true. Clearing everything requires all=true.
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const filter = {
+      promptName: searchParams.get('promptName') || undefined,
+      promptVersion: searchParams.get('promptVersion') || undefined,
+      model: searchParams.get('model') || undefined,
+      expiredOnly: searchParams.get('expired') === 'true'
+    }
+
+    if (!filter.promptName && !filter.promptVersion && !filter.model && !filter.expiredOnly && searchParams.get('all') !== 'true') {
+      return NextResponse.json({
+        success: false,
+        error: 'Provide promptName, promptVersion, model or expired=true, or all=true to clear the whole cache'
+      }, { status: 400 })
+    }
+
+    const deleted = await invalidateLlmCache(filter)
+    console.log(`🧹 Invalidated ${deleted} LLM cache entries`, filter)
+
+    return NextResponse.json({
+      success: true,
+      deleted
+    })
+
+  } catch (error) {
+    console.error('LLM cache DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to invalidate LLM cache',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
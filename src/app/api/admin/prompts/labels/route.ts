@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isEvaluablePrompt, labelArticles } from '@/lib/promptEvaluation'
+
+// Labeled articles of a prompt (the A/B evaluation set)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const promptName = searchParams.get('promptName')
+
+    if (!isEvaluablePrompt(promptName)) {
+      return NextResponse.json({
+        success: false,
+        error: 'promptName parameter must name an evaluable prompt'
+      }, { status: 400 })
+    }
+
+    const labels = await prisma.promptLabel.findMany({
+      where: { promptName },
+      include: { article: { select: { title: true, url: true, status: true } } },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      labels
+    })
+
+  } catch (error) {
+    console.error('Prompt labels GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch prompt labels',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Label articles: { promptName, articleIds, expected?, note? }. Without `expected` the
+// label comes from each article's reviewed values (e.g. published vs rejected status).
+export async function POST(request: NextRequest) {
+  try {
+    const { promptName, articleIds, expected, note } = await request.json()
+
+    if (!isEvaluablePrompt(promptName)) {
+      return NextResponse.json({
+        success: false,
+        error: `Prompt "${promptName}" has no evaluator`
+      }, { status: 400 })
+    }
+
+    if (!Array.isArray(articleIds) || articleIds.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'articleIds must be a non-empty array'
+      }, { status: 400 })
+    }
+
+    const result = await labelArticles(promptName, articleIds, { expected, note })
+    console.log(`🏷️ Labeled ${result.labeled} articles for ${promptName} (${result.skipped.length} skipped)`)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Prompt labels POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to label articles',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'id parameter required'
+      }, { status: 400 })
+    }
+
+    await prisma.promptLabel.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Prompt labels DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete prompt label',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { inngest } from '@/inngest/client'
+import { getPrompt, listPrompts } from '@/lib/prompts'
+import { isEvaluablePrompt, DEFAULT_EVALUATION_LIMIT, MAX_EVALUATION_LIMIT } from '@/lib/promptEvaluation'
+
+// Prompt registry with label counts and recent A/B evaluations, or one evaluation
+// with its per-article results
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const evaluationId = searchParams.get('evaluationId')
+
+    if (evaluationId) {
+      const evaluation = await prisma.promptEvaluation.findUnique({ where: { id: evaluationId } })
+      if (!evaluation) {
+        return NextResponse.json({ success: false, error: 'Evaluation not found' }, { status: 404 })
+      }
+      return NextResponse.json({ success: true, evaluation })
+    }
+
+    const [labelCounts, evaluations] = await Promise.all([
+      prisma.promptLabel.groupBy({ by: ['promptName'], _count: { _all: true } }),
+      prisma.promptEvaluation.findMany({
+        select: {
+          id: true, promptName: true, versionA: true, versionB: true, status: true, exampleCount: true,
+          scoreA: true, scoreB: true, error: true, createdAt: true, completedAt: true
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 20
+      })
+    ])
+    const labelsByPrompt = new Map(labelCounts.map((count: any) => [count.promptName, count._count._all]))
+
+    return NextResponse.json({
+      success: true,
+      prompts: listPrompts().map(prompt => ({
+        ...prompt,
+        evaluable: isEvaluablePrompt(prompt.name),
+        labeledArticles: labelsByPrompt.get(prompt.name) || 0
+      })),
+      evaluations
+    })
+
+  } catch (error) {
+    console.error('Prompts GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch prompts',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Start an A/B evaluation of two versions of a prompt on its labeled articles
+export async function POST(request: NextRequest) {
+  try {
+    const { promptName, versionA, versionB, limit } = await request.json()
+
+    if (!isEvaluablePrompt(promptName)) {
+      return NextResponse.json({
+        success: false,
+        error: `Prompt "${promptName}" has no evaluator`
+      }, { status: 400 })
+    }
+
+    if (!versionA || !versionB) {
+      return NextResponse.json({
+        success: false,
+        error: 'versionA and versionB are required'
+      }, { status: 400 })
+    }
+
+    try {
+      getPrompt(promptName, versionA)
+      getPrompt(promptName, versionB)
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown prompt version'
+      }, { status: 400 })
+    }
+
+    const labeledArticles = await prisma.promptLabel.count({ where: { promptName } })
+    if (labeledArticles === 0) {
+      return NextResponse.json({
+        success: false,
+        error: `No labeled articles for ${promptName} - add labels via /api/admin/prompts/labels first`
+      }, { status: 400 })
+    }
+
+    const evaluation = await prisma.promptEvaluation.create({
+      data: {
+        promptName,
+        versionA,
+        versionB,
+        limit: Math.min(Math.max(1, parseInt(limit) || DEFAULT_EVALUATION_LIMIT), MAX_EVALUATION_LIMIT)
+      }
+    })
+
+    await inngest.send({ name: 'prompts/evaluate', data: { evaluationId: evaluation.id } })
+    console.log(`🧪 Queued evaluation ${evaluation.id}: ${promptName} ${versionA} vs ${versionB}`)
+
+    return NextResponse.json({
+      success: true,
+      evaluation
+    })
+
+  } catch (error) {
+    console.error('Prompts POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to start prompt evaluation',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { describeQualityModel, recomputeQualityScores } from '@/lib/qualityScore'
+
+// Active quality scoring model: component weights and how each signal value is scored
+export async function GET() {
+  return NextResponse.json({
+    success: true,
+    components: describeQualityModel()
+  })
+}
+
+// Recompute stored scores (all articles, or one organization's) after QUALITY_WEIGHTS changes
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId } = await request.json().catch(() => ({}))
+
+    const updated = await recomputeQualityScores({ organizationId: organizationId || undefined })
+    console.log(`✅ Quality scores recomputed for ${updated} articles`)
+
+    return NextResponse.json({
+      success: true,
+      updated
+    })
+
+  } catch (error) {
+    console.error('Quality score recompute error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to recompute quality scores',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
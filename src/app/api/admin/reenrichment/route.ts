@@ -0,0 +1,206 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { inngest } from '@/inngest/client'
+import {
+  countMatchingArticles,
+  isEnricherId,
+  listEnrichers,
+  reviewChanges,
+  DEFAULT_REENRICHMENT_CONCURRENCY,
+  MAX_REENRICHMENT_CONCURRENCY,
+  REENRICHABLE_FIELDS,
+  ReenrichmentFilter
+} from '@/lib/reenrichment'
+
+// List re-enrichment runs, or one run with its proposed changes
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const runId = searchParams.get('runId')
+    const status = searchParams.get('status') || 'pending' // 'pending', 'accepted', 'rejected', 'stale', 'all'
+
+    if (!runId) {
+      const runs = await prisma.reenrichmentRun.findMany({
+        orderBy: { createdAt: 'desc' },
+        take: 50
+      })
+      const pendingCounts = await prisma.reenrichmentChange.groupBy({
+        by: ['runId'],
+        where: { status: 'pending', runId: { in: runs.map((run: any) => run.id) } },
+        _count: { _all: true }
+      })
+      const pendingByRun = new Map(pendingCounts.map((count: any) => [count.runId, count._count._all]))
+
+      return NextResponse.json({
+        success: true,
+        enrichers: listEnrichers(),
+        missingFieldOptions: REENRICHABLE_FIELDS,
+        runs: runs.map((run: any) => ({ ...run, pendingChanges: pendingByRun.get(run.id) || 0 }))
+      })
+    }
+
+    const run = await prisma.reenrichmentRun.findUnique({ where: { id: runId } })
+    if (!run) {
+      return NextResponse.json({ success: false, error: 'Run not found' }, { status: 404 })
+    }
+
+    const changes = await prisma.reenrichmentChange.findMany({
+      where: { runId, ...(status !== 'all' && { status }) },
+      include: {
+        article: {
+          select: { id: true, title: true, url: true, status: true, organization: { select: { name: true } } }
+        }
+      },
+      orderBy: [{ articleId: 'asc' }, { createdAt: 'asc' }],
+      take: 1000
+    })
+
+    return NextResponse.json({
+      success: true,
+      run,
+      changes: changes.map((change: any) => ({
+        id: change.id,
+        articleId: change.articleId,
+        articleTitle: change.article.title,
+        articleUrl: change.article.url,
+        articleStatus: change.article.status,
+        organizationName: change.article.organization.name,
+        enricher: change.enricher,
+        field: change.field,
+        oldValue: change.oldValue,
+        newValue: change.newValue,
+        reasoning: change.reasoning,
+        status: change.status,
+        reviewedAt: change.reviewedAt
+      }))
+    })
+
+  } catch (error) {
+    console.error('Re-enrichment GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch re-enrichment runs',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Start a re-enrichment run (or count the matching articles with dryRun)
+export async function POST(request: NextRequest) {
+  try {
+    const { filters = {}, enrichers = [], concurrency, dryRun = false } = await request.json()
+
+    if (!Array.isArray(enrichers) || enrichers.length === 0 || !enrichers.every(isEnricherId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'enrichers must be a non-empty list of: ' + listEnrichers().map(enricher => enricher.id).join(', ')
+      }, { status: 400 })
+    }
+
+    const filter: ReenrichmentFilter = {
+      organizationId: filters.organizationId || undefined,
+      status: Array.isArray(filters.status) ? filters.status : undefined,
+      publishedAfter: filters.publishedAfter || undefined,
+      publishedBefore: filters.publishedBefore || undefined,
+      createdAfter: filters.createdAfter || undefined,
+      createdBefore: filters.createdBefore || undefined,
+      missingFields: Array.isArray(filters.missingFields) ? filters.missingFields : undefined,
+      articleIds: Array.isArray(filters.articleIds) ? filters.articleIds : undefined,
+      limit: typeof filters.limit === 'number' && filters.limit > 0 ? filters.limit : undefined
+    }
+
+    const articleCount = await countMatchingArticles(filter)
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        articlesFound: articleCount,
+        message: `Found ${articleCount} articles to re-enrich`
+      })
+    }
+
+    if (articleCount === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No articles match these filters'
+      }, { status: 400 })
+    }
+
+    const run = await prisma.reenrichmentRun.create({
+      data: {
+        filters: filter as any,
+        enrichers,
+        concurrency: Math.min(Math.max(1, parseInt(concurrency) || DEFAULT_REENRICHMENT_CONCURRENCY), MAX_REENRICHMENT_CONCURRENCY),
+        totalArticles: articleCount
+      }
+    })
+
+    await inngest.send({ name: 'articles/reenrich', data: { runId: run.id } })
+    console.log(`🔁 Queued re-enrichment run ${run.id}: ${articleCount} articles, enrichers ${enrichers.join(', ')}`)
+
+    return NextResponse.json({
+      success: true,
+      run
+    })
+
+  } catch (error) {
+    console.error('Re-enrichment POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to start re-enrichment run',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Accept or reject changes in bulk: explicit changeIds, or every pending change of a
+// run (optionally limited to one enricher/field)
+export async function PATCH(request: NextRequest) {
+  try {
+    const { decision, changeIds, runId, enricher, field } = await request.json()
+
+    if (decision !== 'accept' && decision !== 'reject') {
+      return NextResponse.json({
+        success: false,
+        error: 'decision must be "accept" or "reject"'
+      }, { status: 400 })
+    }
+
+    let ids: string[] = Array.isArray(changeIds) ? changeIds : []
+    if (ids.length === 0 && runId) {
+      const pending = await prisma.reenrichmentChange.findMany({
+        where: {
+          runId,
+          status: 'pending',
+          ...(enricher && { enricher }),
+          ...(field && { field })
+        },
+        select: { id: true }
+      })
+      ids = pending.map((change: { id: string }) => change.id)
+    }
+
+    if (ids.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No pending changes selected'
+      }, { status: 400 })
+    }
+
+    const result = await reviewChanges(ids, decision)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('Re-enrichment PATCH error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to review changes',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
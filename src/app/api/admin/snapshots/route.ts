@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { loadSnapshot } from '@/lib/snapshotStore'
+
+// Archived page snapshots: by id, or every snapshot of an article's URL (newest first).
+// format=html|markdown returns the archived body as plain text - never rendered as HTML
+// on our own origin.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+    const articleId = searchParams.get('articleId')
+    const format = searchParams.get('format') || 'json'
+
+    if (articleId) {
+      const article = await prisma.article.findUnique({
+        where: { id: articleId },
+        select: { url: true, canonicalUrl: true, snapshotId: true }
+      })
+      if (!article) {
+        return NextResponse.json({ success: false, error: 'Article not found' }, { status: 404 })
+      }
+
+      const snapshots = await prisma.pageSnapshot.findMany({
+        where: { url: { in: [article.url, article.canonicalUrl].filter(Boolean) as string[] } },
+        orderBy: { fetchedAt: 'desc' },
+        take: 50
+      })
+
+      return NextResponse.json({
+        success: true,
+        publishedSnapshotId: article.snapshotId,
+        snapshots
+      })
+    }
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'id or articleId parameter required'
+      }, { status: 400 })
+    }
+
+    const loaded = await loadSnapshot(id)
+    if (!loaded) {
+      return NextResponse.json({ success: false, error: 'Snapshot not found' }, { status: 404 })
+    }
+
+    if (format === 'html' || format === 'markdown') {
+      const body = format === 'html' ? loaded.html : loaded.markdown
+      if (body === null) {
+        return NextResponse.json({
+          success: false,
+          error: `No ${format} stored for this snapshot`
+        }, { status: 404 })
+      }
+      return new NextResponse(body, {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'X-Content-Type-Options': 'nosniff'
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      snapshot: loaded.snapshot,
+      html: loaded.html,
+      markdown: loaded.markdown
+    })
+
+  } catch (error) {
+    console.error('Snapshots GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load snapshot',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
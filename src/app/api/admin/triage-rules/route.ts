@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { TRIAGE_ACTIONS, TRIAGE_FIELDS, TRIAGE_OPERATORS, TRIAGE_STAGES, validateTriageRule } from '@/lib/autoTriage'
+
+// Auto-triage rules: global rules plus the given organization's (all rules without
+// organizationId), with the fields and operators rules can use
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const organizationId = searchParams.get('organizationId')
+
+    const rules = await prisma.triageRule.findMany({
+      where: organizationId && organizationId !== 'all'
+        ? { OR: [{ organizationId }, { organizationId: null }] }
+        : {},
+      include: {
+        organization: { select: { id: true, name: true } },
+        _count: { select: { decisions: true } }
+      },
+      orderBy: [{ stage: 'asc' }, { priority: 'asc' }, { createdAt: 'asc' }]
+    })
+
+    return NextResponse.json({
+      success: true,
+      rules: rules.map((rule: any) => ({
+        id: rule.id,
+        organizationId: rule.organizationId,
+        organizationName: rule.organization?.name || null,
+        name: rule.name,
+        stage: rule.stage,
+        action: rule.action,
+        conditions: rule.conditions,
+        priority: rule.priority,
+        enabled: rule.enabled,
+        decisions: rule._count.decisions,
+        updatedAt: rule.updatedAt
+      })),
+      stages: TRIAGE_STAGES,
+      actions: TRIAGE_ACTIONS,
+      operators: TRIAGE_OPERATORS,
+      fields: TRIAGE_FIELDS
+    })
+
+  } catch (error) {
+    console.error('Triage rules GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch triage rules',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Create a rule: { organizationId?, name, stage, action, conditions, priority?, enabled? }
+export async function POST(request: NextRequest) {
+  try {
+    const { rule, errors } = validateTriageRule(await request.json())
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid triage rule',
+        details: errors
+      }, { status: 400 })
+    }
+
+    if (rule.organizationId) {
+      const organization = await prisma.organization.findUnique({ where: { id: rule.organizationId }, select: { id: true } })
+      if (!organization) {
+        return NextResponse.json({
+          success: false,
+          error: 'Organization not found'
+        }, { status: 404 })
+      }
+    }
+
+    const created = await prisma.triageRule.create({
+      data: { ...rule, conditions: rule.conditions as any }
+    })
+    console.log(`🚦 Triage rule created: ${created.name} (${created.stage} → ${created.action})`)
+
+    return NextResponse.json({
+      success: true,
+      rule: created
+    })
+
+  } catch (error) {
+    console.error('Triage rules POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create triage rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Replace a rule: { id, ...same fields as POST }. The scope can't change.
+export async function PATCH(request: NextRequest) {
+  try {
+    const { id, ...input } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Rule ID is required'
+      }, { status: 400 })
+    }
+
+    const existing = await prisma.triageRule.findUnique({ where: { id } })
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Triage rule not found'
+      }, { status: 404 })
+    }
+
+    const { rule, errors } = validateTriageRule({ ...input, organizationId: existing.organizationId })
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid triage rule',
+        details: errors
+      }, { status: 400 })
+    }
+
+    const updated = await prisma.triageRule.update({
+      where: { id },
+      data: { ...rule, conditions: rule.conditions as any }
+    })
+
+    return NextResponse.json({
+      success: true,
+      rule: updated
+    })
+
+  } catch (error) {
+    console.error('Triage rules PATCH error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update triage rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Delete a rule; its past decisions stay in the audit trail under the rule name
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get('id')
+
+    if (!id) {
+      return NextResponse.json({
+        success: false,
+        error: 'id parameter required'
+      }, { status: 400 })
+    }
+
+    await prisma.triageRule.delete({ where: { id } })
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Triage rules DELETE error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete triage rule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
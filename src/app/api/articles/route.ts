@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { parseQualityParams } from '@/lib/qualityScore'
 
 export async function GET(request: NextRequest) {
   try {
@@ -9,6 +10,8 @@ export async function GET(request: NextRequest) {
     const organizationId = searchParams.get('organizationId')
     const sentiment = searchParams.get('sentiment')
     const search = searchParams.get('search')
+    const entityId = searchParams.get('entityId') // person, place, partner or program (see /api/entities)
+    const { sortByQuality, minQuality } = parseQualityParams(searchParams) // sort=quality, minQuality=0-100
 
     // Calculate skip for pagination
     const skip = (page - 1) * limit
@@ -25,6 +28,14 @@ export async function GET(request: NextRequest) {
       whereClause.sentiment = sentiment
     }
 
+    if (minQuality !== null) {
+      whereClause.qualityScore = { gte: minQuality }
+    }
+
+    if (entityId) {
+      whereClause.entities = { some: { entityId } }
+    }
+
     if (search) {
       whereClause.OR = [
         {
@@ -66,7 +77,14 @@ export async function GET(request: NextRequest) {
           }
         }
       },
-      orderBy: [
+      orderBy: sortByQuality ? [
+        {
+          qualityScore: { sort: 'desc', nulls: 'last' }
+        },
+        {
+          publishedAt: 'desc'
+        }
+      ] : [
         {
           featured: 'desc'
         },
@@ -86,6 +104,7 @@ export async function GET(request: NextRequest) {
       id: article.id,
       title: article.title,
       url: article.url,
+      qualityScore: article.qualityScore,
       organization: {
         id: article.organization.id,
         name: article.organization.name,
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { dedupeUrls, findExistingArticleUrls } from '@/lib/canonicalUrl'
 import { discoverUrlsForOrganization } from '@/lib/googleSearch'
+import { organizationIdentitySelect } from '@/lib/organizationIdentity'
+import { discoveryProfileSelect, getDiscoveryProfile, applyDiscoveryProfile, collectSeedPageLinks } from '@/lib/discoveryProfile'
 import { discoverOrganizationNewsUrls } from '@/lib/firecrawl'
 
 export async function POST(request: NextRequest) {
@@ -15,11 +18,11 @@ export async function POST(request: NextRequest) {
     if (organizationIds && Array.isArray(organizationIds)) {
       organizations = await prisma.organization.findMany({
         where: { id: { in: organizationIds } },
-        select: { id: true, name: true, website: true }
+        select: { id: true, website: true, ...organizationIdentitySelect, ...discoveryProfileSelect }
       });
     } else {
       organizations = await prisma.organization.findMany({
-        select: { id: true, name: true, website: true }
+        select: { id: true, website: true, ...organizationIdentitySelect, ...discoveryProfileSelect }
       });
     }
 
@@ -54,7 +57,7 @@ export async function POST(request: NextRequest) {
 
         // Step 2a: Google Search discovery
         console.log(`🌐 Google Search discovery for ${org.name}...`);
-        const googleDiscoveryResult = await discoverUrlsForOrganization(org.name, timeframeInt);
+        const googleDiscoveryResult = await discoverUrlsForOrganization(org, timeframeInt);
         allDiscoveredUrls.push(...googleDiscoveryResult.urls);
         searchQueries.push(...googleDiscoveryResult.searchQueries);
 
@@ -75,19 +78,15 @@ export async function POST(request: NextRequest) {
           }
         }
 
-        // Remove duplicates
-        const uniqueUrls = [...new Set(allDiscoveredUrls)];
+        // Step 2c: Article links on the seed (listing) pages of the organization's discovery profile
+        const profile = getDiscoveryProfile(org);
+        allDiscoveredUrls.push(...await collectSeedPageLinks(profile));
+
+        // Remove duplicates and apply the profile's domain/path filters
+        const uniqueUrls = applyDiscoveryProfile(dedupeUrls(allDiscoveredUrls), profile).urls;
 
         // Step 3: Filter out existing URLs
-        const existingArticles = await prisma.article.findMany({
-          where: { 
-            url: { in: uniqueUrls },
-            organizationId: org.id
-          },
-          select: { url: true }
-        });
-        
-        const existingUrls = new Set(existingArticles.map(a => a.url));
+        const existingUrls = await findExistingArticleUrls(uniqueUrls, org.id);
         const newUrls = uniqueUrls.filter(url => !existingUrls.has(url));
 
         // Step 4: Update batch with results
@@ -107,6 +106,7 @@ export async function POST(request: NextRequest) {
           batchId: batch.id,
           totalFound: uniqueUrls.length,
           googleSearchUrls: googleDiscoveryResult.urls.length,
+          searchResultsByProvider: googleDiscoveryResult.resultsByProvider,
           websiteUrls: allDiscoveredUrls.length - googleDiscoveryResult.urls.length,
           newUrls: newUrls.length,
           duplicateUrls: existingUrls.size,
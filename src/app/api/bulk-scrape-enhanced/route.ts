@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { extractArticlesFromUrls, pollAllExtractJobs } from '@/lib/firecrawlExtractIndividual'
+import { normalizeUrl, canonicalUrlKey } from '@/lib/canonicalUrl'
+import { detectDuplicates } from '@/lib/duplicates'
+import { extractArticles } from '@/lib/articleExtraction'
+import { saveSnapshot } from '@/lib/snapshotStore'
+import { mergePromptVersions, PromptName } from '@/lib/prompts'
+import { refreshQualityScore } from '@/lib/qualityScore'
+import { extractArticleEntitiesSafely } from '@/lib/entities'
 import { analyzeSentimentScale } from '@/ai-functions/analyzeSentimentScale'
+import {
+  attributeLlmCallsToArticle,
+  describeExceededBudget,
+  getExceededBudget,
+  LlmBudgetExceededError,
+  rethrowIfBudgetExceeded,
+  withLlmContext
+} from '@/lib/llmUsage'
 import { 
   extractImagesFromHtml, 
   sortImagesBySize, 
@@ -67,6 +81,16 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
 
+    const anyAiEnabled = enableSentimentAnalysis || enableImageExtraction || enableTitleFormatting
+    const exceededBudget = anyAiEnabled ? await getExceededBudget(organizationId) : null
+    if (exceededBudget) {
+      return NextResponse.json({
+        success: false,
+        error: describeExceededBudget(exceededBudget),
+        budget: exceededBudget
+      }, { status: 402 })
+    }
+
     console.log(`🚀 Starting enhanced bulk scrape for ${organization.name}:`)
     console.log(`   📊 ${urls.length} URLs to process`)
     console.log(`   🔍 Sentiment Analysis: ${enableSentimentAnalysis ? 'ON' : 'OFF'}`)
@@ -75,6 +99,7 @@ export async function POST(request: NextRequest) {
 
     // Clean and validate URLs
     const validUrls: string[] = []
+    const batchKeys = new Map<string, string>()
     const invalidResults: EnhancedScrapeResult[] = []
 
     for (const url of urls) {
@@ -90,10 +115,21 @@ export async function POST(request: NextRequest) {
 
       try {
         new URL(cleanUrl)
+        const fetchUrl = normalizeUrl(cleanUrl)
+        const canonicalUrl = canonicalUrlKey(cleanUrl)
+        
+        if (batchKeys.has(canonicalUrl)) {
+          invalidResults.push({
+            url: cleanUrl,
+            status: 'duplicate',
+            message: `Same article as ${batchKeys.get(canonicalUrl)} earlier in this batch`
+          })
+          continue
+        }
         
         // Check for duplicates
         const existingArticle = await prisma.article.findFirst({
-          where: { url: cleanUrl }
+          where: { OR: [{ url: fetchUrl }, { canonicalUrl }] }
         })
         
         if (existingArticle) {
@@ -106,7 +142,8 @@ export async function POST(request: NextRequest) {
           continue
         }
         
-        validUrls.push(cleanUrl)
+        validUrls.push(fetchUrl)
+        batchKeys.set(canonicalUrl, fetchUrl)
       } catch {
         invalidResults.push({
           url: cleanUrl,
@@ -132,6 +169,8 @@ export async function POST(request: NextRequest) {
 
     // Process URLs in batches with concurrency control
     const results: EnhancedScrapeResult[] = [...invalidResults]
+    // Set when the AI budget runs out; the remaining URLs are skipped
+    let budgetError = null as LlmBudgetExceededError | null
     
     // Split valid URLs into chunks for processing
     const chunks = []
@@ -139,131 +178,164 @@ export async function POST(request: NextRequest) {
       chunks.push(validUrls.slice(i, i + concurrency))
     }
 
-    for (let chunkIndex = 0; chunkIndex < chunks.length; chunkIndex++) {
+    for (let chunkIndex = 0; chunkIndex < chunks.length && !budgetError; chunkIndex++) {
       const chunk = chunks[chunkIndex]
       
       console.log(`📦 Processing chunk ${chunkIndex + 1}/${chunks.length} (${chunk.length} URLs)`)
       
       // Phase 2: Enhanced Scraping with Firecrawl
       try {
-        const extractResult = await extractArticlesFromUrls(chunk, organization.name)
+        const extractResult = await extractArticles(chunk, organization.name, {
+          engine: organization.extractionEngine
+        })
         
-        if (extractResult.jobs && extractResult.jobs.length > 0) {
-          console.log(`⏳ Polling ${extractResult.jobs.length} extraction jobs...`)
-          
-          const extractedArticles = await pollAllExtractJobs(extractResult.jobs)
-          
+        if (extractResult.data.length > 0) {
           // Process each extracted article
-          for (const article of extractedArticles) {
+          for (const article of extractResult.data) {
             const originalUrl = article.url
             const articleStartTime = Date.now()
             
             try {
-              let sentimentScore: number | null = null
-              let sentimentReasoning: string | null = null
+              // AI calls are billed to the organization and, once created, the article
+              await withLlmContext({ organizationId }, async () => {
+                let sentimentScore: number | null = null
+                let sentimentReasoning: string | null = null
+                const promptVersions: Partial<Record<PromptName, string | null>> = {}
               
-              // Phase 2: Sentiment Analysis (if enabled)
-              if (enableSentimentAnalysis && article.markdownContent) {
-                try {
-                  const sentimentResult = await analyzeSentimentScale(
-                    article.markdownContent, 
-                    organization.name
-                  )
-                  sentimentScore = sentimentResult.sentimentScore
-                  sentimentReasoning = sentimentResult.reasoning
-                  console.log(`📊 Sentiment for ${originalUrl}: ${sentimentScore}`)
-                } catch (error) {
-                  console.warn(`⚠️ Sentiment analysis failed for ${originalUrl}:`, error)
+                // Phase 2: Sentiment Analysis (if enabled)
+                if (enableSentimentAnalysis && article.content) {
+                  try {
+                    const sentimentResult = await analyzeSentimentScale(
+                      article.content, 
+                      organization
+                    )
+                    sentimentScore = sentimentResult.sentimentScore
+                    sentimentReasoning = sentimentResult.reasoning
+                    promptVersions.sentiment = sentimentResult.promptVersion
+                    console.log(`📊 Sentiment for ${originalUrl}: ${sentimentScore}`)
+                  } catch (error) {
+                    rethrowIfBudgetExceeded(error)
+                    console.warn(`⚠️ Sentiment analysis failed for ${originalUrl}:`, error)
+                  }
                 }
-              }
 
-              let imageUrls: string[] = []
-              let ogImage: string | null = null
-              let formattedTitle = article.title
+                let imageUrls: string[] = []
+                let ogImage: string | null = null
+                let formattedTitle = article.title
 
-              // Phase 3: AI Enhancement (if enabled)
-              if (enableImageExtraction || enableTitleFormatting) {
+                // Phase 3: AI Enhancement (if enabled)
+                if (enableImageExtraction || enableTitleFormatting) {
                 
-                // Extract and sort images
-                if (enableImageExtraction) {
-                  try {
-                    const extractedImages = await extractImagesFromHtml(originalUrl)
-                    const sortedImages = await sortImagesBySize(extractedImages)
-                    imageUrls = sortedImages.slice(0, 10).map(img => img.url)
+                  // Extract and sort images
+                  if (enableImageExtraction) {
+                    try {
+                      const extractedImages = await extractImagesFromHtml(originalUrl)
+                      const sortedImages = await sortImagesBySize(extractedImages)
+                      imageUrls = sortedImages.slice(0, 10).map(img => img.url)
                     
-                    // Select best image as OG image
-                    const imageSelection = await selectBestImage(
-                      sortedImages, 
-                      article.title, 
-                      article.summary || ''
-                    )
-                    ogImage = imageSelection?.selectedImageUrl || null
+                      // Select best image as OG image
+                      const imageSelection = await selectBestImage(
+                        sortedImages, 
+                        article.title, 
+                        article.summary || ''
+                      )
+                      ogImage = imageSelection?.selectedImageUrl || null
+                      promptVersions.imageSelection = imageSelection?.promptVersion
                     
-                    console.log(`🖼️ Found ${imageUrls.length} images for ${originalUrl}`)
-                  } catch (error) {
-                    console.warn(`⚠️ Image extraction failed for ${originalUrl}:`, error)
+                      console.log(`🖼️ Found ${imageUrls.length} images for ${originalUrl}`)
+                    } catch (error) {
+                      rethrowIfBudgetExceeded(error)
+                      console.warn(`⚠️ Image extraction failed for ${originalUrl}:`, error)
+                    }
                   }
-                }
 
-                // Format title with AI
-                if (enableTitleFormatting && article.title) {
-                  try {
-                    const titleResult = await formatArticleTitle(article.title)
-                    formattedTitle = titleResult.formattedTitle
-                    console.log(`✏️ Title formatted for ${originalUrl}: "${formattedTitle}"`)
-                  } catch (error) {
-                    console.warn(`⚠️ Title formatting failed for ${originalUrl}:`, error)
+                  // Format title with AI
+                  if (enableTitleFormatting && article.title) {
+                    try {
+                      const titleResult = await formatArticleTitle(article.title)
+                      formattedTitle = titleResult.formattedTitle
+                      promptVersions.titleFormatting = titleResult.promptVersion
+                      console.log(`✏️ Title formatted for ${originalUrl}: "${formattedTitle}"`)
+                    } catch (error) {
+                      rethrowIfBudgetExceeded(error)
+                      console.warn(`⚠️ Title formatting failed for ${originalUrl}:`, error)
+                    }
                   }
                 }
-              }
 
-              // Create enhanced Article record
-              const newArticle = await prisma.article.create({
-                data: {
-                  organizationId: organizationId,
-                  title: formattedTitle,
-                  content: article.markdownContent || '',
-                  summary: article.summary || '',
+                const snapshotId = await saveSnapshot({
                   url: originalUrl,
-                  keywords: article.keywords || [],
-                  images: imageUrls,
-                  ogImage: ogImage,
-                  sentiment: sentimentScore !== null ? (
-                    sentimentScore < 0 ? 'neg' : sentimentScore === 0 ? 'neu' : 'pos'
-                  ) : null,
-                  organizationSentiment: sentimentScore !== null ? (
-                    sentimentScore === -1 ? 'Negative' :
-                    sentimentScore === 0 ? 'Not Mentioned' :
-                    sentimentScore === 1 ? 'Brief Mention' :
-                    sentimentScore === 2 ? 'Main Focus' :
-                    sentimentScore === 3 ? 'Social Impact' : 'Not Mentioned'
-                  ) : null,
-                  validationReasons: sentimentReasoning ? [sentimentReasoning] : [],
-                  contentType: 'news',
-                  status: 'draft',
-                  publishedAt: null,
-                  createdAt: new Date(),
-                  updatedAt: new Date()
-                }
-              })
+                  markdown: article.content,
+                  provider: article.provider,
+                  ...article.capture
+                })
 
-              const processingTime = Date.now() - articleStartTime
+                // Create enhanced Article record
+                const newArticle = await prisma.article.create({
+                  data: {
+                    organizationId: organizationId,
+                    title: formattedTitle,
+                    content: article.content || '',
+                    summary: article.summary || '',
+                    url: originalUrl,
+                    canonicalUrl: canonicalUrlKey(originalUrl),
+                    snapshotId,
+                    keywords: article.keywords || [],
+                    images: imageUrls,
+                    ogImage: ogImage,
+                    sentiment: sentimentScore !== null ? (
+                      sentimentScore < 0 ? 'neg' : sentimentScore === 0 ? 'neu' : 'pos'
+                    ) : null,
+                    organizationSentiment: sentimentScore !== null ? (
+                      sentimentScore === -1 ? 'Negative' :
+                      sentimentScore === 0 ? 'Not Mentioned' :
+                      sentimentScore === 1 ? 'Brief Mention' :
+                      sentimentScore === 2 ? 'Main Focus' :
+                      sentimentScore === 3 ? 'Social Impact' : 'Not Mentioned'
+                    ) : null,
+                    validationReasons: sentimentReasoning ? [sentimentReasoning] : [],
+                    promptVersions: mergePromptVersions(null, promptVersions),
+                    contentType: 'news',
+                    discoverySource: 'bulk',
+                    status: 'draft',
+                    publishedAt: null,
+                    createdAt: new Date(),
+                    updatedAt: new Date()
+                  }
+                })
 
-              results.push({
-                url: originalUrl,
-                status: 'success',
-                message: `Successfully created enhanced article: "${formattedTitle}"`,
-                articleId: newArticle.id,
-                title: formattedTitle,
-                sentimentScore: sentimentScore,
-                imageCount: imageUrls.length,
-                ogImage: ogImage,
-                processingTime: processingTime
-              })
+                await attributeLlmCallsToArticle(newArticle.id)
+                await refreshQualityScore(newArticle.id)
+                await extractArticleEntitiesSafely(newArticle.id)
 
-              console.log(`✅ Enhanced article created: ${formattedTitle} (${processingTime}ms)`)
+                // Cluster syndicated copies of the same story for review in /admin/articles
+                try {
+                  await detectDuplicates(newArticle.id)
+                } catch (error) {
+                  console.warn(`⚠️ Duplicate detection failed for ${originalUrl}:`, error)
+                }
 
+                const processingTime = Date.now() - articleStartTime
+
+                results.push({
+                  url: originalUrl,
+                  status: 'success',
+                  message: `Successfully created enhanced article: "${formattedTitle}"`,
+                  articleId: newArticle.id,
+                  title: formattedTitle,
+                  sentimentScore: sentimentScore,
+                  imageCount: imageUrls.length,
+                  ogImage: ogImage,
+                  processingTime: processingTime
+                })
+
+                console.log(`✅ Enhanced article created: ${formattedTitle} (${processingTime}ms)`)
+              })
             } catch (error) {
+              if (error instanceof LlmBudgetExceededError) {
+                budgetError = error
+                break
+              }
               console.error(`❌ Failed to process ${originalUrl}:`, error)
               results.push({
                 url: originalUrl,
@@ -272,13 +344,23 @@ export async function POST(request: NextRequest) {
               })
             }
           }
+          
+          // URLs in the chunk that no engine could extract
+          const extractedUrls = new Set(extractResult.data.map(article => article.url))
+          for (const url of chunk.filter(url => !extractedUrls.has(url))) {
+            results.push({
+              url,
+              status: 'error',
+              message: 'Failed to extract article'
+            })
+          }
         } else {
-          // Handle case where no jobs were created
+          // Handle case where nothing could be extracted
           for (const url of chunk) {
             results.push({
               url,
               status: 'error',
-              message: 'Failed to create extraction job'
+              message: 'Failed to extract article'
             })
           }
         }
@@ -296,12 +378,20 @@ export async function POST(request: NextRequest) {
       }
 
       // Add delay between chunks (except for last chunk)
-      if (chunkIndex < chunks.length - 1 && batchDelay > 0) {
+      if (chunkIndex < chunks.length - 1 && batchDelay > 0 && !budgetError) {
         console.log(`⏱️ Waiting ${batchDelay}ms before next chunk...`)
         await new Promise(resolve => setTimeout(resolve, batchDelay))
       }
     }
 
+    if (budgetError) {
+      console.log(`⏸️ Enhanced bulk scrape paused: ${budgetError.message}`)
+      const handled = new Set(results.map(result => result.url))
+      for (const url of validUrls.filter(url => !handled.has(url))) {
+        results.push({ url, status: 'skipped', message: budgetError.message })
+      }
+    }
+
     // Calculate summary
     const summary = {
       total: urls.length,
@@ -319,6 +409,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
+      paused: budgetError !== null,
       results,
       summary,
       processingTime: totalTime,
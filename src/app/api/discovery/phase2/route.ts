@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { extractArticlesFromUrls, pollAllExtractJobs } from '@/lib/firecrawlExtractIndividual'
+import { extractArticles } from '@/lib/articleExtraction'
+import { saveSnapshot } from '@/lib/snapshotStore'
 import { analyzeSentimentScale } from '@/ai-functions/analyzeSentimentScale'
+import { organizationIdentitySelect } from '@/lib/organizationIdentity'
+import { describeExceededBudget, getExceededBudget, LlmBudgetExceededError, withLlmContext } from '@/lib/llmUsage'
+import { applyTriageRulesSafely } from '@/lib/autoTriage'
 
 /**
  * Helper function to parse various date formats from article extraction
@@ -102,9 +106,11 @@ export async function POST(request: NextRequest) {
     const session = await prisma.discoverySession.findUnique({
       where: { id: sessionId },
       include: {
-        organization: { select: { id: true, name: true } },
+        organization: { select: { id: true, extractionEngine: true, ...organizationIdentitySelect } },
         discoveredUrls: {
-          where: selectAll ? {} : { selectedForScraping: true },
+          // selectAll skips URLs auto-triage rejected
+          where: selectAll ? { OR: [{ triageAction: null }, { triageAction: { not: 'reject' } }] } : { selectedForScraping: true },
+          include: { scrapedContent: { select: { id: true } } },
           orderBy: { createdAt: 'asc' }
         }
       }
@@ -117,6 +123,16 @@ export async function POST(request: NextRequest) {
       }, { status: 404 })
     }
     
+    // Sentiment analysis needs the model, so don't start scraping when the budget is spent
+    const exceededBudget = await getExceededBudget(session.organizationId)
+    if (exceededBudget) {
+      return NextResponse.json({
+        success: false,
+        error: describeExceededBudget(exceededBudget),
+        budget: exceededBudget
+      }, { status: 402 })
+    }
+    
     let selectedUrls = session.discoveredUrls
     
     // If selectAll is true, auto-select all URLs for scraping
@@ -147,35 +163,25 @@ export async function POST(request: NextRequest) {
       }
     })
     
-    console.log(`🚀 Starting Phase 2: Batch extracting ${selectedUrls.length} URLs for ${session.organization.name}`)
+    // URLs an earlier run already scraped (e.g. one paused by the AI budget) keep their
+    // content; only the rest go through the scraper chain again
+    const urlsToScrape = selectedUrls.filter(u => !u.scrapedContent)
+    const previouslyScraped = selectedUrls.length - urlsToScrape.length
     
-    // Extract just the URL strings for batch processing
-    const urls = selectedUrls.map((u: any) => u.url)
-    console.log(`📤 Sending URLs to Firecrawl:`, urls.map((url: string, i: number) => `${i}: ${url}`).join('\n'))
+    console.log(`🚀 Starting Phase 2: Batch extracting ${urlsToScrape.length} URLs for ${session.organization.name}${previouslyScraped > 0 ? ` (${previouslyScraped} already scraped)` : ''}`)
     
-    // Use Firecrawl Extract for individual URL processing  
-    const extractResult = await extractArticlesFromUrls(urls, session.organization.name)
+    // Extract just the URL strings for batch processing
+    const urls = urlsToScrape.map(u => u.url)
+    console.log(`📤 Extracting URLs:`, urls.map((url: string, i: number) => `${i}: ${url}`).join('\n'))
     
-    if (!extractResult.success) {
-      console.error(`❌ Individual extraction failed: ${extractResult.error}`)
-      
-      // Update session status to failed
-      await prisma.discoverySession.update({
-        where: { id: sessionId },
-        data: {
-          status: 'completed',
-          updatedAt: new Date()
-        }
-      })
-      
-      return NextResponse.json({
-        success: false,
-        error: `Individual extraction failed: ${extractResult.error}`
-      }, { status: 500 })
-    }
+    // Scraper provider chain, limited to the organization's extraction engine if it has one
+    const extractResult = await extractArticles(urls, session.organization.name, {
+      engine: session.organization.extractionEngine
+    })
     
-    if (!extractResult.jobs || extractResult.jobs.length === 0) {
-      console.log(`⚠️ No extraction jobs were submitted for ${urls.length} URLs`)
+    if (!extractResult.success && previouslyScraped === 0) {
+      console.log(`⚠️ No articles extracted from ${urls.length} URLs`)
+      console.log(`❌ Errors:`, extractResult.errors)
       
       await prisma.discoverySession.update({
         where: { id: sessionId },
@@ -191,52 +197,26 @@ export async function POST(request: NextRequest) {
         scrapedCount: 0,
         failedCount: urls.length,
         totalProcessed: urls.length,
-        message: 'No extraction jobs were successfully submitted'
+        message: 'No articles were successfully extracted',
+        errors: extractResult.errors
       })
     }
     
-    console.log(`✅ Submitted ${extractResult.jobs.length}/${urls.length} extraction jobs`)
-    console.log(`🔄 Polling ${extractResult.jobs.length} jobs for completion...`)
-    
-    // Poll all jobs concurrently
-    const pollResult = await pollAllExtractJobs(extractResult.jobs)
-    
-    if (!pollResult.success || pollResult.data.length === 0) {
-      console.log(`⚠️ No articles extracted from ${extractResult.jobs.length} jobs`)
-      console.log(`❌ Errors:`, pollResult.errors)
-      
-      await prisma.discoverySession.update({
-        where: { id: sessionId },
-        data: {
-          status: 'analyzing',
-          processedUrls: urls.length,
-          updatedAt: new Date()
-        }
-      })
-      
-      return NextResponse.json({
-        success: true,
-        scrapedCount: 0,
-        failedCount: extractResult.jobs.length,
-        totalProcessed: extractResult.jobs.length,
-        message: 'No articles were successfully extracted from jobs',
-        errors: pollResult.errors
-      })
-    }
-    
-    console.log(`✅ Individual extraction successful: ${pollResult.data.length} articles extracted from ${extractResult.jobs.length} jobs`)
+    console.log(`✅ Extraction successful: ${extractResult.data.length} articles extracted from ${urls.length} URLs`)
     
     let processedCount = 0
     let successCount = 0
+    let storeFailures = 0
     
     // Track processed URLs to prevent duplicates
     const processedUrlIds = new Set<string>()
     
-    // Process each extracted article
-    for (const article of pollResult.data) {
+    // Store every extracted article before any AI call, so a budget pause never loses
+    // scraped content
+    for (const article of extractResult.data) {
       try {
         // Find the corresponding discovered URL
-        const discoveredUrl = selectedUrls.find((u: any) => u.url === article.url)
+        const discoveredUrl = urlsToScrape.find(u => u.url === article.url)
         
         if (!discoveredUrl) {
           console.warn(`⚠️ Could not find discovered URL for: ${article.url}`)
@@ -249,80 +229,41 @@ export async function POST(request: NextRequest) {
           continue
         }
         
-        // Check if ScrapedContent already exists for this URL
-        const existingContent = await prisma.scrapedContent.findUnique({
-          where: { discoveredUrlId: discoveredUrl.id }
+        // Archive the raw page and extracted markdown so it can be re-processed later
+        const snapshotId = await saveSnapshot({
+          url: article.url,
+          markdown: article.content,
+          provider: article.provider,
+          ...article.capture
         })
         
-        if (existingContent) {
-          console.log(`📋 ScrapedContent already exists for URL: ${article.url} - updating instead`)
-          // Update existing record
-          await prisma.scrapedContent.update({
-            where: { discoveredUrlId: discoveredUrl.id },
-            data: {
-              title: article.title,
-              summary: article.summary,
-              markdownContent: article.content,
-              keywords: article.keywords || [],
-              author: article.author || null,
-              publishedAt: parseArticleDate(article.publish_date),
-              sentimentScore: null, // Will be updated after sentiment analysis
-              sentimentReasoning: null
-            }
-          })
-        } else {
-          // Create new record
-          await prisma.scrapedContent.create({
-            data: {
-              discoveredUrlId: discoveredUrl.id,
-              discoverySessionId: sessionId,
-              title: article.title,
-              summary: article.summary,
-              markdownContent: article.content,
-              keywords: article.keywords || [],
-              author: article.author || null,
-              publishedAt: parseArticleDate(article.publish_date),
-              sentimentScore: null, // Will be updated after sentiment analysis
-              sentimentReasoning: null
-            }
-          })
+        const content = {
+          title: article.title,
+          summary: article.summary,
+          markdownContent: article.content,
+          keywords: article.keywords || [],
+          author: article.author || null,
+          publishedAt: parseArticleDate(article.publish_date),
+          scrapeProvider: article.provider || null,
+          scrapeAttempts: extractResult.attempts[article.url] || [],
+          snapshotId,
+          sentimentScore: null, // Will be updated after sentiment analysis
+          sentimentReasoning: null
         }
-        
-        // Mark this URL as processed
-        processedUrlIds.add(discoveredUrl.id)
-        
-        // Analyze sentiment using our enhanced scale
-        console.log(`🧠 Analyzing sentiment for: ${article.title?.substring(0, 50) || 'No title'}...`)
-        const sentimentResult = await analyzeSentimentScale(
-          article.content, 
-          session.organization.name,
-          article.title
-        )
-        
-        console.log(`📊 Sentiment: ${sentimentResult.sentimentScore} - ${sentimentResult.reasoning.substring(0, 60)}...`)
-        
-        // Update with sentiment analysis results
-        await prisma.scrapedContent.update({
+        await prisma.scrapedContent.upsert({
           where: { discoveredUrlId: discoveredUrl.id },
-          data: {
-            sentimentScore: sentimentResult.sentimentScore,
-            sentimentReasoning: sentimentResult.reasoning
-          }
+          create: { discoveredUrlId: discoveredUrl.id, discoverySessionId: sessionId, ...content },
+          update: content
         })
         
-        // Update URL status to scraped
-        await prisma.discoveredUrl.update({
-          where: { id: discoveredUrl.id },
-          data: { scrapeStatus: 'scraped' }
-        })
-        
-        successCount++
-        
+        // Mark this URL as processed
+        processedUrlIds.add(discoveredUrl.id)
       } catch (error) {
-        console.error(`❌ Failed to process article: ${article.title}`, error)
+        console.error(`❌ Failed to store article: ${article.title}`, error)
+        storeFailures++
         
         // Find and update the URL status
-        const discoveredUrl = selectedUrls.find((u: any) => u.url === article.url)
+        const discoveredUrl = urlsToScrape.find(u => u.url === article.url)
         if (discoveredUrl) {
           await prisma.discoveredUrl.update({
             where: { id: discoveredUrl.id },
@@ -330,13 +271,72 @@ export async function POST(request: NextRequest) {
           }).catch(console.error)
         }
       }
-      
-      processedCount++
     }
     
+    // Sentiment for this run's articles and any an earlier run stored but didn't analyze
+    const pendingSentiment = await prisma.scrapedContent.findMany({
+      where: {
+        discoveredUrlId: { in: selectedUrls.map(u => u.id) },
+        sentimentScore: null
+      },
+      include: { discoveredUrl: { select: { url: true } } }
+    })
+    
+    // Sentiment calls are billed to the organization and this session; when its AI budget
+    // runs out mid-batch the session is paused. The scraped content is kept, and a re-run
+    // only analyzes the articles still without a sentiment score
+    let budgetError = null as LlmBudgetExceededError | null
+    await withLlmContext({ organizationId: session.organizationId, discoverySessionId: sessionId }, async () => {
+      for (const content of pendingSentiment) {
+        try {
+          // Analyze sentiment using our enhanced scale
+          console.log(`🧠 Analyzing sentiment for: ${content.title?.substring(0, 50) || 'No title'}...`)
+          const sentimentResult = await analyzeSentimentScale(
+            content.markdownContent || '',
+            session.organization,
+            content.title || undefined
+          )
+          
+          console.log(`📊 Sentiment: ${sentimentResult.sentimentScore} - ${sentimentResult.reasoning.substring(0, 60)}...`)
+          
+          // Update with sentiment analysis results
+          await prisma.scrapedContent.update({
+            where: { id: content.id },
+            data: {
+              sentimentScore: sentimentResult.sentimentScore,
+              sentimentReasoning: sentimentResult.reasoning,
+              sentimentPromptVersion: sentimentResult.promptVersion
+            }
+          })
+          
+          // Update URL status to scraped
+          await prisma.discoveredUrl.update({
+            where: { id: content.discoveredUrlId },
+            data: { scrapeStatus: 'scraped' }
+          })
+          
+          successCount++
+          
+        } catch (error) {
+          if (error instanceof LlmBudgetExceededError) {
+            budgetError = error
+            break
+          }
+          console.error(`❌ Failed to process article: ${content.discoveredUrl.url}`, error)
+          
+          await prisma.discoveredUrl.update({
+            where: { id: content.discoveredUrlId },
+            data: { scrapeStatus: 'failed' }
+          }).catch(console.error)
+        }
+        
+        processedCount++
+      }
+    })
+    
     // Mark any unprocessed URLs as failed
-    const failedUrls = selectedUrls.filter((u: any) => 
-      !pollResult.data.some(article => article.url === u.url)
+    const failedUrls = urlsToScrape.filter(u => 
+      !extractResult.data.some(article => article.url === u.url)
     )
     
     for (const failedUrl of failedUrls) {
@@ -346,26 +346,38 @@ export async function POST(request: NextRequest) {
       }).catch(console.error)
     }
     
-    const failedCount = failedUrls.length + (processedCount - successCount)
+    const failedCount = failedUrls.length + storeFailures + (processedCount - successCount)
     
-    // Update final session status
+    // Update final session status (paused sessions can be re-run once the budget allows)
     await prisma.discoverySession.update({
       where: { id: sessionId },
       data: {
-        status: 'analyzing',
-        processedUrls: selectedUrls.length,
+        status: budgetError ? 'paused' : 'analyzing',
+        processedUrls: budgetError ? selectedUrls.length - (pendingSentiment.length - processedCount) : selectedUrls.length,
         updatedAt: new Date()
       }
     })
     
-    console.log(`🎯 Phase 2 complete: ${successCount} extracted successfully, ${failedCount} failed`)
+    if (budgetError) {
+      console.log(`⏸️ Phase 2 paused after ${successCount} articles, ${pendingSentiment.length - processedCount} still need sentiment: ${budgetError.message}`)
+    } else {
+      console.log(`🎯 Phase 2 complete: ${successCount} extracted successfully, ${failedCount} failed`)
+    }
+    
+    // Pre-select / reject the scraped content for phase 3
+    const triage = await applyTriageRulesSafely(sessionId, 'scraped')
     
     return NextResponse.json({
       success: true,
+      paused: budgetError !== null,
+      ...(budgetError && { message: budgetError.message, budget: budgetError.budget }),
       scrapedCount: successCount,
       failedCount: failedCount,
       totalProcessed: selectedUrls.length,
-      extractedArticles: pollResult.data.length
+      extractedArticles: extractResult.data.length,
+      articlesByProvider: extractResult.articlesByProvider,
+      skippedProviders: extractResult.skippedProviders,
+      triage
     })
     
   } catch (error) {
@@ -449,7 +461,10 @@ export async function GET(request: NextRequest) {
         sentimentScore: content.sentimentScore,
         sentimentReasoning: content.sentimentReasoning,
         keywords: content.keywords,
+        scrapeProvider: content.scrapeProvider,
         selectedForFinalization: content.selectedForFinalization,
+        triageAction: content.triageAction,
+        triageRuleName: content.triageRuleName,
         createdAt: content.createdAt
       }))
     })
@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { normalizeUrl, canonicalUrlKey, resolveCanonicalUrl } from '@/lib/canonicalUrl'
+import { detectDuplicates } from '@/lib/duplicates'
+import { getLegacySentiment, getOrganizationRelevance, getOrganizationSentiment } from '@/lib/sentimentLabels'
+import { mergePromptVersions } from '@/lib/prompts'
+import { refreshQualityScore } from '@/lib/qualityScore'
+import { extractArticleEntitiesSafely } from '@/lib/entities'
+import { attributeLlmCallsToArticle, describeExceededBudget, getExceededBudget, LlmBudgetExceededError, rethrowIfBudgetExceeded, withLlmContext } from '@/lib/llmUsage'
 import { 
   extractImagesFromHtml, 
   sortImagesBySize, 
@@ -22,9 +29,12 @@ export async function POST(req: NextRequest) {
     let contentIds: string[] = []
     
     if (selectAll) {
-      // Get all scraped content for this session
+      // Get all scraped content for this session, minus what auto-triage rejected
       const scrapedContent = await prisma.scrapedContent.findMany({
-        where: { discoverySessionId: sessionId },
+        where: {
+          discoverySessionId: sessionId,
+          OR: [{ triageAction: null }, { triageAction: { not: 'reject' } }]
+        },
         select: { id: true }
       })
       contentIds = scrapedContent.map(content => content.id)
@@ -70,6 +80,15 @@ export async function POST(req: NextRequest) {
 
     console.log(`📋 Found ${session.scrapedContent.length} scraped content records to finalize`)
 
+    const exceededBudget = await getExceededBudget(session.organizationId)
+    if (exceededBudget) {
+      return NextResponse.json({
+        success: false,
+        error: describeExceededBudget(exceededBudget),
+        budget: exceededBudget
+      }, { status: 402 })
+    }
+
     // Update session status to finalizing
     await prisma.discoverySession.update({
       where: { id: sessionId },
@@ -84,40 +103,8 @@ export async function POST(req: NextRequest) {
     const errors: string[] = []
     const createdArticles: string[] = []
     const articleIds: string[] = []
-
-    // Use the same sentiment labels as Phase 2 UI for consistency
-    const SENTIMENT_LABELS = {
-      '-1': 'Negative',
-      '0': 'Not Mentioned', 
-      '1': 'Brief Mention',
-      '2': 'Main Focus',
-      '3': 'Social Impact'
-    }
-
-    // Helper function to get user-friendly organization sentiment label (matching Phase 2 UI)
-    const getOrganizationSentiment = (score: number | null): string => {
-      if (score === null || score === undefined) return 'Not Mentioned'
-      return SENTIMENT_LABELS[score.toString() as keyof typeof SENTIMENT_LABELS] || 'Not Mentioned'
-    }
-
-    // Helper function to map organization relevance score  
-    const getOrganizationRelevance = (score: number | null): string => {
-      if (score === null || score === undefined) return 'low'
-      if (score === -1) return 'medium'  // -1: Mentioned negatively (still relevant)
-      if (score === 0) return 'low'      // 0: Not mentioned
-      if (score === 1) return 'medium'   // 1: Mentioned but not main focus
-      if (score === 2) return 'high'     // 2: Main focus (informational)
-      if (score === 3) return 'high'     // 3: Main focus (inspiring)
-      return 'low' // fallback
-    }
-
-    // Helper function for legacy sentiment field (based on organization sentiment)
-    const getLegacySentiment = (score: number | null): string => {
-      if (score === null || score === undefined) return 'neu'
-      if (score === -1) return 'neg'  // -1: Organization mentioned negatively
-      if (score === 3) return 'pos'   // 3: Inspiring social impact content
-      return 'neu' // 0, 1, 2: Not negative, not inspiring
-    }
+    // Set when the AI budget runs out; the session is paused and the rest left for a later run
+    let budgetError = null as LlmBudgetExceededError | null
 
     // Helper function to decode score meaning for logging
     const getScoreMeaning = (score: number | null): string => {
@@ -130,22 +117,143 @@ export async function POST(req: NextRequest) {
       return 'Unknown'
     }
 
+    // Helper function to cluster syndicated copies without failing the article
+    const detectDuplicatesSafely = async (articleId: string) => {
+      try {
+        await detectDuplicates(articleId)
+      } catch (error) {
+        console.warn(`⚠️ Duplicate detection failed for article ${articleId}:`, error instanceof Error ? error.message : String(error))
+      }
+    }
+
     // Convert each scraped content into an Article
     for (const scrapedContent of session.scrapedContent) {
       try {
-        console.log(`📝 Creating article: ${scrapedContent.title}`)
-
-        // Check if article already exists with this URL
-        const existingArticle = await prisma.article.findFirst({
-          where: { url: scrapedContent.discoveredUrl?.url }
-        })
+        // AI calls are billed to the organization, this session and the article
+        await withLlmContext({ organizationId: session.organizationId, discoverySessionId: sessionId }, async () => {
+          console.log(`📝 Creating article: ${scrapedContent.title}`)
+
+          // Resolve rel=canonical so AMP/syndicated variants map onto the same article.
+          // The article keeps the URL it was scraped from; canonicalUrl is only the dedup key.
+          const articleUrl = normalizeUrl(scrapedContent.discoveredUrl?.url || '')
+          const canonicalUrl = articleUrl ? await resolveCanonicalUrl(articleUrl) : ''
+
+          // Check if article already exists with this URL or either canonical key
+          const existingArticle = await prisma.article.findFirst({
+            where: {
+              OR: [
+                { url: articleUrl },
+                { canonicalUrl: { in: [canonicalUrlKey(articleUrl), canonicalUrl] } }
+              ]
+            }
+          })
 
-        if (existingArticle) {
-          console.log(`⚠️ Article already exists for URL: ${scrapedContent.discoveredUrl?.url}`)
-          console.log(`🔄 Enhancing existing article with Phase 3 processing...`)
+          if (existingArticle) {
+            console.log(`⚠️ Article already exists for URL: ${articleUrl}`)
+            console.log(`🔄 Enhancing existing article with Phase 3 processing...`)
+            await attributeLlmCallsToArticle(existingArticle.id)
           
+            // Phase 3.1: Extract images from the article HTML (with fallback)
+            console.log(`🖼️ Phase 3.1: Extracting images for existing article`)
+            let extractedImages: any[] = []
+            let sortedImages: any[] = []
+            try {
+              extractedImages = await extractImagesFromHtml(scrapedContent.discoveredUrl?.url || '')
+              sortedImages = await sortImagesBySize(extractedImages)
+              console.log(`📸 Successfully extracted ${sortedImages.length} images`)
+              if (sortedImages.length > 0) {
+                console.log(`🔍 Sample image data:`, { url: sortedImages[0]?.url, width: sortedImages[0]?.width, height: sortedImages[0]?.height })
+              }
+            } catch (error) {
+              console.warn(`⚠️ Image extraction failed, continuing without images:`, error instanceof Error ? error.message : String(error))
+              extractedImages = []
+              sortedImages = []
+            }
+          
+            // Phase 3.2: Use AI to select the best representative image (with fallback)
+            console.log(`🤖 Phase 3.2: AI selecting best image from ${sortedImages.length} options`)
+            let imageSelection: any = null
+            try {
+              imageSelection = await selectBestImage(
+                sortedImages, 
+                scrapedContent.title || existingArticle.title, 
+                scrapedContent.summary || existingArticle.summary
+              )
+            } catch (error) {
+              rethrowIfBudgetExceeded(error)
+              console.warn(`⚠️ AI image selection failed, continuing without featured image:`, error instanceof Error ? error.message : String(error))
+            }
+          
+            // Phase 3.3: Use AI to format and improve the title (with fallback)
+            console.log(`✏️ Phase 3.3: AI formatting title`)
+            let titleFormatting: any = { 
+              formattedTitle: scrapedContent.title || existingArticle.title, 
+              changes: ['Fallback: kept original title'] 
+            }
+            try {
+              titleFormatting = await formatArticleTitle(scrapedContent.title || existingArticle.title)
+            } catch (error) {
+              rethrowIfBudgetExceeded(error)
+              console.warn(`⚠️ AI title formatting failed, using original title:`, error instanceof Error ? error.message : String(error))
+            }
+
+            // Prepare image data for updating
+            const imagesToUpdate = sortedImages.slice(0, 10).map(img => img.url)
+            console.log(`💾 Updating with ${imagesToUpdate.length} images:`, imagesToUpdate.slice(0, 3))
+
+            // Update existing article with enhanced data
+            const updatedArticle = await prisma.article.update({
+              where: { id: existingArticle.id },
+              data: {
+                title: titleFormatting.formattedTitle,
+                content: scrapedContent.markdownContent || existingArticle.content,
+                summary: scrapedContent.summary || existingArticle.summary,
+                author: scrapedContent.author || existingArticle.author, // Use extracted author if available
+                publishedAt: scrapedContent.publishedAt || existingArticle.publishedAt, // Use extracted publication date if available
+                canonicalUrl: existingArticle.canonicalUrl || canonicalUrl || null,
+                discoverySource: existingArticle.discoverySource || scrapedContent.discoveredUrl?.source || null,
+                snapshotId: scrapedContent.snapshotId || existingArticle.snapshotId,
+                keywords: scrapedContent.keywords,
+                images: imagesToUpdate,
+                ogImage: imageSelection?.selectedImageUrl || existingArticle.ogImage,
+                sentiment: getLegacySentiment(scrapedContent.sentimentScore), // Legacy format for admin UI
+                organizationSentiment: getOrganizationSentiment(scrapedContent.sentimentScore),
+                organizationRelevance: getOrganizationRelevance(scrapedContent.sentimentScore),
+                validationReasons: scrapedContent.sentimentReasoning ? [scrapedContent.sentimentReasoning] : [],
+                promptVersions: mergePromptVersions(existingArticle.promptVersions, {
+                  sentiment: scrapedContent.sentimentPromptVersion,
+                  titleFormatting: titleFormatting.promptVersion,
+                  imageSelection: imageSelection?.promptVersion
+                }),
+                status: 'draft', // Set to draft for review
+                updatedAt: new Date()
+              }
+            })
+
+            console.log(`✅ Enhanced existing article:`)
+            console.log(`   📝 Title: ${titleFormatting.formattedTitle}`)
+            console.log(`   👤 Author: ${scrapedContent.author || existingArticle.author || 'None extracted'}`)
+            console.log(`   📅 Published: ${scrapedContent.publishedAt?.toISOString() || existingArticle.publishedAt?.toISOString() || 'No date extracted'}`)
+            console.log(`   🖼️ Images: ${sortedImages.length} extracted, OG: ${imageSelection?.selectedImageUrl ? 'Set' : 'Kept existing'}`)
+            console.log(`   💭 AI changes: ${titleFormatting.changes.join(', ')}`)
+            console.log(`   🎯 Image reason: ${imageSelection?.reason || 'No image selected'}`)
+            console.log(`   📊 Score: ${scrapedContent.sentimentScore} - ${getScoreMeaning(scrapedContent.sentimentScore)}`)
+            console.log(`   🏢 Org Classification: ${getOrganizationSentiment(scrapedContent.sentimentScore)}`)
+            console.log(`   🎯 Org Relevance: ${getOrganizationRelevance(scrapedContent.sentimentScore)}`)
+
+
+            await refreshQualityScore(updatedArticle.id)
+            await extractArticleEntitiesSafely(updatedArticle.id)
+            await detectDuplicatesSafely(updatedArticle.id)
+
+            createdArticles.push(updatedArticle.title || 'Untitled')
+            articleIds.push(updatedArticle.id)
+            successCount++
+            return
+          }
+
           // Phase 3.1: Extract images from the article HTML (with fallback)
-          console.log(`🖼️ Phase 3.1: Extracting images for existing article`)
+          console.log(`🖼️ Phase 3.1: Extracting images for "${scrapedContent.title}"`)
           let extractedImages: any[] = []
           let sortedImages: any[] = []
           try {
@@ -160,189 +268,130 @@ export async function POST(req: NextRequest) {
             extractedImages = []
             sortedImages = []
           }
-          
+        
           // Phase 3.2: Use AI to select the best representative image (with fallback)
           console.log(`🤖 Phase 3.2: AI selecting best image from ${sortedImages.length} options`)
           let imageSelection: any = null
           try {
             imageSelection = await selectBestImage(
               sortedImages, 
-              scrapedContent.title || existingArticle.title, 
-              scrapedContent.summary || existingArticle.summary
+              scrapedContent.title || '', 
+              scrapedContent.summary || ''
             )
           } catch (error) {
+            rethrowIfBudgetExceeded(error)
             console.warn(`⚠️ AI image selection failed, continuing without featured image:`, error instanceof Error ? error.message : String(error))
           }
-          
+        
           // Phase 3.3: Use AI to format and improve the title (with fallback)
           console.log(`✏️ Phase 3.3: AI formatting title`)
           let titleFormatting: any = { 
-            formattedTitle: scrapedContent.title || existingArticle.title, 
+            formattedTitle: scrapedContent.title || 'Untitled Article', 
             changes: ['Fallback: kept original title'] 
           }
           try {
-            titleFormatting = await formatArticleTitle(scrapedContent.title || existingArticle.title)
+            titleFormatting = await formatArticleTitle(scrapedContent.title || 'Untitled Article')
           } catch (error) {
+            rethrowIfBudgetExceeded(error)
             console.warn(`⚠️ AI title formatting failed, using original title:`, error instanceof Error ? error.message : String(error))
           }
 
-          // Prepare image data for updating
-          const imagesToUpdate = sortedImages.slice(0, 10).map(img => img.url)
-          console.log(`💾 Updating with ${imagesToUpdate.length} images:`, imagesToUpdate.slice(0, 3))
+          // Prepare image data for saving
+          const imagesToSave = sortedImages.slice(0, 10).map(img => img.url)
+          console.log(`💾 Saving ${imagesToSave.length} images to database:`, imagesToSave.slice(0, 3))
 
-          // Update existing article with enhanced data
-          const updatedArticle = await prisma.article.update({
-            where: { id: existingArticle.id },
+          // Create new Article record with enhanced data
+          const newArticle = await prisma.article.create({
             data: {
+              organizationId: session.organizationId,
               title: titleFormatting.formattedTitle,
-              content: scrapedContent.markdownContent || existingArticle.content,
-              summary: scrapedContent.summary || existingArticle.summary,
-              author: scrapedContent.author || existingArticle.author, // Use extracted author if available
-              publishedAt: scrapedContent.publishedAt || existingArticle.publishedAt, // Use extracted publication date if available
+              content: scrapedContent.markdownContent || '',
+              summary: scrapedContent.summary || '',
+              url: articleUrl,
+              canonicalUrl: canonicalUrl || null,
+              snapshotId: scrapedContent.snapshotId,
+              author: scrapedContent.author || null, // Use extracted author
+              publishedAt: scrapedContent.publishedAt || null, // Use extracted publication date
               keywords: scrapedContent.keywords,
-              images: imagesToUpdate,
-              ogImage: imageSelection?.selectedImageUrl || existingArticle.ogImage,
+              images: imagesToSave,
+              ogImage: imageSelection?.selectedImageUrl || null,
               sentiment: getLegacySentiment(scrapedContent.sentimentScore), // Legacy format for admin UI
               organizationSentiment: getOrganizationSentiment(scrapedContent.sentimentScore),
               organizationRelevance: getOrganizationRelevance(scrapedContent.sentimentScore),
               validationReasons: scrapedContent.sentimentReasoning ? [scrapedContent.sentimentReasoning] : [],
+              contentType: scrapedContent.discoveredUrl?.urlType || 'news',
+              discoverySource: scrapedContent.discoveredUrl?.source || null,
+              promptVersions: mergePromptVersions(null, {
+                sentiment: scrapedContent.sentimentPromptVersion,
+                titleFormatting: titleFormatting.promptVersion,
+                imageSelection: imageSelection?.promptVersion
+              }),
               status: 'draft', // Set to draft for review
+              createdAt: new Date(),
               updatedAt: new Date()
             }
           })
 
-          console.log(`✅ Enhanced existing article:`)
+
+          console.log(`✅ Enhanced article created:`)
           console.log(`   📝 Title: ${titleFormatting.formattedTitle}`)
-          console.log(`   👤 Author: ${scrapedContent.author || existingArticle.author || 'None extracted'}`)
-          console.log(`   📅 Published: ${scrapedContent.publishedAt?.toISOString() || existingArticle.publishedAt?.toISOString() || 'No date extracted'}`)
-          console.log(`   🖼️ Images: ${sortedImages.length} extracted, OG: ${imageSelection?.selectedImageUrl ? 'Set' : 'Kept existing'}`)
+          console.log(`   👤 Author: ${scrapedContent.author || 'None extracted'}`)
+          console.log(`   📅 Published: ${scrapedContent.publishedAt?.toISOString() || 'No date extracted'}`)
+          console.log(`   🖼️ Images: ${sortedImages.length} extracted, OG: ${imageSelection?.selectedImageUrl ? 'Set' : 'None'}`)
           console.log(`   💭 AI changes: ${titleFormatting.changes.join(', ')}`)
           console.log(`   🎯 Image reason: ${imageSelection?.reason || 'No image selected'}`)
           console.log(`   📊 Score: ${scrapedContent.sentimentScore} - ${getScoreMeaning(scrapedContent.sentimentScore)}`)
           console.log(`   🏢 Org Classification: ${getOrganizationSentiment(scrapedContent.sentimentScore)}`)
           console.log(`   🎯 Org Relevance: ${getOrganizationRelevance(scrapedContent.sentimentScore)}`)
 
-
-          createdArticles.push(updatedArticle.title || 'Untitled')
-          articleIds.push(updatedArticle.id)
+          console.log(`✅ Created article: ${newArticle.title} (ID: ${newArticle.id})`)
+          await attributeLlmCallsToArticle(newArticle.id)
+          await refreshQualityScore(newArticle.id)
+          await extractArticleEntitiesSafely(newArticle.id)
+          await detectDuplicatesSafely(newArticle.id)
+          createdArticles.push(newArticle.title)
+          articleIds.push(newArticle.id)
           successCount++
-          continue
-        }
 
-        // Phase 3.1: Extract images from the article HTML (with fallback)
-        console.log(`🖼️ Phase 3.1: Extracting images for "${scrapedContent.title}"`)
-        let extractedImages: any[] = []
-        let sortedImages: any[] = []
-        try {
-          extractedImages = await extractImagesFromHtml(scrapedContent.discoveredUrl?.url || '')
-          sortedImages = await sortImagesBySize(extractedImages)
-          console.log(`📸 Successfully extracted ${sortedImages.length} images`)
-          if (sortedImages.length > 0) {
-            console.log(`🔍 Sample image data:`, { url: sortedImages[0]?.url, width: sortedImages[0]?.width, height: sortedImages[0]?.height })
-          }
-        } catch (error) {
-          console.warn(`⚠️ Image extraction failed, continuing without images:`, error instanceof Error ? error.message : String(error))
-          extractedImages = []
-          sortedImages = []
-        }
-        
-        // Phase 3.2: Use AI to select the best representative image (with fallback)
-        console.log(`🤖 Phase 3.2: AI selecting best image from ${sortedImages.length} options`)
-        let imageSelection: any = null
-        try {
-          imageSelection = await selectBestImage(
-            sortedImages, 
-            scrapedContent.title || '', 
-            scrapedContent.summary || ''
-          )
-        } catch (error) {
-          console.warn(`⚠️ AI image selection failed, continuing without featured image:`, error instanceof Error ? error.message : String(error))
-        }
-        
-        // Phase 3.3: Use AI to format and improve the title (with fallback)
-        console.log(`✏️ Phase 3.3: AI formatting title`)
-        let titleFormatting: any = { 
-          formattedTitle: scrapedContent.title || 'Untitled Article', 
-          changes: ['Fallback: kept original title'] 
-        }
-        try {
-          titleFormatting = await formatArticleTitle(scrapedContent.title || 'Untitled Article')
-        } catch (error) {
-          console.warn(`⚠️ AI title formatting failed, using original title:`, error instanceof Error ? error.message : String(error))
-        }
-
-        // Prepare image data for saving
-        const imagesToSave = sortedImages.slice(0, 10).map(img => img.url)
-        console.log(`💾 Saving ${imagesToSave.length} images to database:`, imagesToSave.slice(0, 3))
-
-        // Create new Article record with enhanced data
-        const newArticle = await prisma.article.create({
-          data: {
-            organizationId: session.organizationId,
-            title: titleFormatting.formattedTitle,
-            content: scrapedContent.markdownContent || '',
-            summary: scrapedContent.summary || '',
-            url: scrapedContent.discoveredUrl?.url || '',
-            author: scrapedContent.author || null, // Use extracted author
-            publishedAt: scrapedContent.publishedAt || null, // Use extracted publication date
-            keywords: scrapedContent.keywords,
-            images: imagesToSave,
-            ogImage: imageSelection?.selectedImageUrl || null,
-            sentiment: getLegacySentiment(scrapedContent.sentimentScore), // Legacy format for admin UI
-            organizationSentiment: getOrganizationSentiment(scrapedContent.sentimentScore),
-            organizationRelevance: getOrganizationRelevance(scrapedContent.sentimentScore),
-            validationReasons: scrapedContent.sentimentReasoning ? [scrapedContent.sentimentReasoning] : [],
-            contentType: scrapedContent.discoveredUrl?.urlType || 'news',
-            status: 'draft', // Set to draft for review
-            createdAt: new Date(),
-            updatedAt: new Date()
-          }
-        })
-
-
-        console.log(`✅ Enhanced article created:`)
-        console.log(`   📝 Title: ${titleFormatting.formattedTitle}`)
-        console.log(`   👤 Author: ${scrapedContent.author || 'None extracted'}`)
-        console.log(`   📅 Published: ${scrapedContent.publishedAt?.toISOString() || 'No date extracted'}`)
-        console.log(`   🖼️ Images: ${sortedImages.length} extracted, OG: ${imageSelection?.selectedImageUrl ? 'Set' : 'None'}`)
-        console.log(`   💭 AI changes: ${titleFormatting.changes.join(', ')}`)
-        console.log(`   🎯 Image reason: ${imageSelection?.reason || 'No image selected'}`)
-        console.log(`   📊 Score: ${scrapedContent.sentimentScore} - ${getScoreMeaning(scrapedContent.sentimentScore)}`)
-        console.log(`   🏢 Org Classification: ${getOrganizationSentiment(scrapedContent.sentimentScore)}`)
-        console.log(`   🎯 Org Relevance: ${getOrganizationRelevance(scrapedContent.sentimentScore)}`)
-
-        console.log(`✅ Created article: ${newArticle.title} (ID: ${newArticle.id})`)
-        createdArticles.push(newArticle.title)
-        articleIds.push(newArticle.id)
-        successCount++
-
-        // Update the scraped content to mark it as finalized
-        await prisma.scrapedContent.update({
-          where: { id: scrapedContent.id },
-          data: { selectedForFinalization: true }
+          // Update the scraped content to mark it as finalized
+          await prisma.scrapedContent.update({
+            where: { id: scrapedContent.id },
+            data: { selectedForFinalization: true }
+          })
         })
-
       } catch (error) {
+        if (error instanceof LlmBudgetExceededError) {
+          budgetError = error
+          break
+        }
         console.error(`❌ Failed to create article from scraped content ${scrapedContent.id}:`, error)
         errors.push(`${scrapedContent.title || 'Untitled'}: ${error instanceof Error ? error.message : 'Unknown error'}`)
         failedCount++
       }
     }
 
-    // Update session status to completed
+    // Update session status to completed (or paused when the AI budget ran out)
     await prisma.discoverySession.update({
       where: { id: sessionId },
       data: { 
-        status: 'completed',
+        status: budgetError ? 'paused' : 'completed',
         updatedAt: new Date()
       }
     })
 
-    console.log(`🎯 Phase 3 complete: ${successCount} articles created, ${failedCount} failed`)
+    if (budgetError) {
+      console.log(`⏸️ Phase 3 paused after ${successCount} articles: ${budgetError.message}`)
+    } else {
+      console.log(`🎯 Phase 3 complete: ${successCount} articles created, ${failedCount} failed`)
+    }
 
     return NextResponse.json({
       success: true,
-      message: `Successfully finalized ${successCount} articles`,
+      paused: budgetError !== null,
+      ...(budgetError && { budget: budgetError.budget }),
+      message: budgetError
+        ? `Finalized ${successCount} articles before pausing: ${budgetError.message}`
+        : `Successfully finalized ${successCount} articles`,
       successCount,
       failedCount,
       totalProcessed: selectedContentIds.length,
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { applyTriageRulesSafely } from '@/lib/autoTriage'
+import { searchOrganizationNews } from '@/lib/googleSearch'
+import { findExistingArticleUrls } from '@/lib/canonicalUrl'
+import { organizationIdentitySelect } from '@/lib/organizationIdentity'
+import { classifyArticleUrl } from '@/lib/urlClassifier'
+
+// Search-driven discovery: queries every enabled search provider (or the ones given)
+// for coverage of an organization and creates a DiscoverySession for review.
+// Each DiscoveredUrl records which providers returned it.
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId, timeframe = 90, providers, maxUrls = 100 } = await request.json()
+
+    if (!organizationId) {
+      return NextResponse.json({
+        success: false,
+        error: 'organizationId is required'
+      }, { status: 400 })
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, website: true, newsUrl: true, ...organizationIdentitySelect }
+    })
+
+    if (!organization) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization not found'
+      }, { status: 404 })
+    }
+
+    console.log(`🔎 Starting search discovery for ${organization.name} (last ${timeframe} days)`)
+
+    const session = await prisma.discoverySession.create({
+      data: {
+        organizationId,
+        newsUrl: organization.newsUrl || organization.website || '',
+        status: 'discovering'
+      }
+    })
+
+    const search = await searchOrganizationNews(
+      organization,
+      parseInt(timeframe.toString()) || 90,
+      Array.isArray(providers) ? providers : undefined
+    )
+
+    // Skip URLs that are already articles for this organization
+    const existingUrls = await findExistingArticleUrls(search.results.map(r => r.url), organizationId)
+    const results = search.results
+      .filter(result => !existingUrls.has(result.url))
+      .slice(0, Math.min(parseInt(maxUrls.toString()) || 100, 500))
+
+    const orgDomain = organization.website ? new URL(organization.website).hostname.replace(/^www\./, '') : null
+
+    await prisma.discoveredUrl.createMany({
+      data: results.map(result => {
+        const domain = new URL(result.url).hostname
+        return {
+          discoverySessionId: session.id,
+          url: result.url,
+          urlType: orgDomain && domain.endsWith(orgDomain) ? 'post' : 'news',
+          domain,
+          titlePreview: result.title,
+          publishedAt: result.publishedAt,
+          source: 'search',
+          searchProviders: result.providers,
+          urlScore: classifyArticleUrl(result.url).score
+        }
+      })
+    })
+
+    await prisma.discoverySession.update({
+      where: { id: session.id },
+      data: {
+        status: 'ready_for_review',
+        totalUrls: results.length,
+        updatedAt: new Date()
+      }
+    })
+
+    console.log(`✅ Search discovery complete: ${results.length} URLs ready for review (${existingUrls.size} already articles)`)
+
+    const triage = await applyTriageRulesSafely(session.id, 'discovered')
+
+    return NextResponse.json({
+      success: true,
+      sessionId: session.id,
+      totalUrls: results.length,
+      duplicateUrls: existingUrls.size,
+      searchQueries: search.searchQueries,
+      requestsByProvider: search.requestsByProvider,
+      resultsByProvider: search.resultsByProvider,
+      skippedProviders: search.skippedProviders,
+      errors: search.errors,
+      triage
+    })
+
+  } catch (error) {
+    console.error('Search discovery API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Search discovery failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
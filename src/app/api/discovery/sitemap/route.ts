@@ -0,0 +1,194 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { applyTriageRulesSafely } from '@/lib/autoTriage'
+import { normalizeUrl, canonicalUrlKey } from '@/lib/canonicalUrl'
+import { partitionSeenUrls, markUrlsSeen } from '@/lib/crawlState'
+import { crawlSitemaps, compilePathPatterns } from '@/lib/sitemap'
+import { classifyArticleUrl } from '@/lib/urlClassifier'
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    const { protocol } = new URL(value)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Sitemap-driven discovery: creates a DiscoverySession from an organization's sitemaps,
+// filtered by URL path patterns and a lastmod window. Useful for cheap historical backfills.
+// Like phase 1, URLs seen in earlier sessions are dropped unless includeSeen is set.
+export async function POST(request: NextRequest) {
+  let sessionId: string | null = null
+  try {
+    const {
+      organizationId,
+      siteUrl,
+      includePatterns,
+      excludePatterns,
+      since,
+      until,
+      lastmodDays,
+      includeUndated = false,
+      includeSeen = false,
+      maxUrls
+    } = await request.json()
+
+    if (!organizationId) {
+      return NextResponse.json({
+        success: false,
+        error: 'organizationId is required'
+      }, { status: 400 })
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true, website: true, newsUrl: true }
+    })
+
+    if (!organization) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization not found'
+      }, { status: 404 })
+    }
+
+    const targetUrl = siteUrl || organization.website || organization.newsUrl
+    if (!targetUrl) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization has no website or newsUrl; provide siteUrl'
+      }, { status: 400 })
+    }
+
+    if (!isHttpUrl(targetUrl)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid sitemap entry URL: ${targetUrl}`,
+        details: siteUrl ? 'siteUrl must be an absolute http(s) URL' : "Fix the organization's website/newsUrl or provide siteUrl"
+      }, { status: 400 })
+    }
+
+    // Missing or null means the default; anything else has to be a number
+    const lastmodDaysValue = lastmodDays === undefined || lastmodDays === null || lastmodDays === '' ? null : Number(lastmodDays)
+    const maxUrlsValue = maxUrls === undefined || maxUrls === null || maxUrls === '' ? 500 : Number(maxUrls)
+    if ((lastmodDaysValue !== null && (isNaN(lastmodDaysValue) || lastmodDaysValue < 0)) || isNaN(maxUrlsValue) || maxUrlsValue < 1) {
+      return NextResponse.json({
+        success: false,
+        error: 'lastmodDays and maxUrls must be positive numbers'
+      }, { status: 400 })
+    }
+
+    // lastmodDays is a shorthand for "since N days ago"
+    const sinceDate = since
+      ? new Date(since)
+      : lastmodDaysValue
+        ? new Date(Date.now() - lastmodDaysValue * 24 * 60 * 60 * 1000)
+        : null
+    const untilDate = until ? new Date(until) : null
+
+    if ((sinceDate && isNaN(sinceDate.getTime())) || (untilDate && isNaN(untilDate.getTime()))) {
+      return NextResponse.json({
+        success: false,
+        error: 'since/until must be valid dates'
+      }, { status: 400 })
+    }
+
+    console.log(`🗺️ Starting sitemap discovery for ${organization.name} (${targetUrl})`)
+    console.log(`   📅 Window: ${sinceDate?.toISOString() || 'any'} → ${untilDate?.toISOString() || 'now'}`)
+
+    const session = await prisma.discoverySession.create({
+      data: {
+        organizationId,
+        newsUrl: targetUrl,
+        status: 'discovering'
+      }
+    })
+    sessionId = session.id
+
+    const crawlResult = await crawlSitemaps(targetUrl, {
+      includePatterns: compilePathPatterns(includePatterns),
+      excludePatterns: compilePathPatterns(excludePatterns),
+      since: sinceDate,
+      until: untilDate,
+      includeUndated,
+      maxUrls: Math.min(Math.floor(maxUrlsValue), 5000)
+    })
+
+    const siteDomain = new URL(canonicalUrlKey(targetUrl)).hostname
+
+    // Sitemaps often list the same article with and without tracking params or www.
+    const seenKeys = new Set<string>()
+    let entries = crawlResult.urls
+      .map(entry => ({ ...entry, url: normalizeUrl(entry.url), key: canonicalUrlKey(entry.url) }))
+      .filter(entry => !seenKeys.has(entry.key) && seenKeys.add(entry.key))
+
+    let previouslySeen = 0
+    if (includeSeen !== true && entries.length > 0) {
+      const { unseen } = await partitionSeenUrls(organizationId, entries.map(entry => entry.url))
+      const unseenSet = new Set(unseen)
+      previouslySeen = entries.length - unseen.length
+      entries = entries.filter(entry => unseenSet.has(entry.url))
+      console.log(`🆕 ${entries.length} new URLs (${previouslySeen} seen in earlier runs)`)
+    }
+
+    await prisma.discoveredUrl.createMany({
+      data: entries.map(entry => {
+        const domain = new URL(entry.url).hostname
+        return {
+          discoverySessionId: session.id,
+          url: entry.url,
+          urlType: new URL(entry.key).hostname === siteDomain ? 'post' : 'news',
+          domain,
+          titlePreview: null,
+          lastModifiedAt: entry.lastmod,
+          source: 'sitemap',
+          urlScore: classifyArticleUrl(entry.url).score
+        }
+      })
+    })
+
+    await markUrlsSeen(organizationId, entries.map(entry => entry.url))
+
+    await prisma.discoverySession.update({
+      where: { id: session.id },
+      data: {
+        status: 'ready_for_review',
+        totalUrls: entries.length,
+        updatedAt: new Date()
+      }
+    })
+
+    console.log(`✅ Sitemap discovery complete: ${entries.length} URLs ready for review`)
+
+    const triage = await applyTriageRulesSafely(session.id, 'discovered')
+
+    return NextResponse.json({
+      success: true,
+      sessionId: session.id,
+      totalUrls: entries.length,
+      totalListed: crawlResult.totalListed,
+      previouslySeen,
+      sitemapsFetched: crawlResult.sitemapsFetched,
+      triage
+    })
+
+  } catch (error) {
+    console.error('Sitemap discovery API error:', error)
+
+    // Don't leave the session stuck in 'discovering'
+    if (sessionId) {
+      await prisma.discoverySession.update({
+        where: { id: sessionId },
+        data: { status: 'failed', updatedAt: new Date() }
+      }).catch(console.error)
+    }
+
+    return NextResponse.json({
+      success: false,
+      error: 'Sitemap discovery failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
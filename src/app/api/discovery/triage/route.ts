@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { applyTriageRules, listTriageDecisions, TRIAGE_STAGES, TriageStage } from '@/lib/autoTriage'
+
+// Audit trail: which rule made each auto-triage decision in a session
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sessionId = searchParams.get('sessionId')
+
+    if (!sessionId) {
+      return NextResponse.json({
+        success: false,
+        error: 'sessionId parameter required'
+      }, { status: 400 })
+    }
+
+    const decisions = await listTriageDecisions(sessionId)
+
+    return NextResponse.json({
+      success: true,
+      decisions
+    })
+
+  } catch (error) {
+    console.error('Triage GET error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch triage decisions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Re-run a stage's rules over the session's undecided items, e.g. after adding a rule
+export async function POST(request: NextRequest) {
+  try {
+    const { sessionId, stage } = await request.json()
+
+    if (!sessionId || !TRIAGE_STAGES.includes(stage)) {
+      return NextResponse.json({
+        success: false,
+        error: `sessionId and stage (${TRIAGE_STAGES.join(' or ')}) are required`
+      }, { status: 400 })
+    }
+
+    const triage = await applyTriageRules(sessionId, stage as TriageStage)
+
+    return NextResponse.json({
+      success: true,
+      triage
+    })
+
+  } catch (error) {
+    console.error('Triage POST error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to apply triage rules',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
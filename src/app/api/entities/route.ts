@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ENTITY_TYPE_LABELS, ENTITY_TYPES, isEntityType, listEntities } from '@/lib/entities'
+
+// People, places, partner organizations and programs mentioned in published articles,
+// most-mentioned first. Optional ?type, ?search, ?organizationId and ?limit.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const organizationId = searchParams.get('organizationId')
+
+    if (type && !isEntityType(type)) {
+      return NextResponse.json({
+        success: false,
+        error: `type must be one of: ${ENTITY_TYPES.join(', ')}`
+      }, { status: 400 })
+    }
+
+    const entities = await listEntities({
+      type: type && isEntityType(type) ? type : undefined,
+      search: searchParams.get('search')?.trim() || undefined,
+      organizationId: organizationId && organizationId !== 'all' ? organizationId : undefined,
+      limit: parseInt(searchParams.get('limit') || '100')
+    })
+
+    return NextResponse.json({
+      success: true,
+      entities,
+      types: ENTITY_TYPES.map(value => ({ type: value, label: ENTITY_TYPE_LABELS[value] }))
+    })
+
+  } catch (error) {
+    console.error('Entities API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch entities',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
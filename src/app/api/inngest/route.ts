@@ -7,12 +7,28 @@ import {
   batchProcessingJob, 
   organizationDiscoveryJob 
 } from '@/inngest/urlDiscovery'
+import {
+  scheduledDiscoveryTick,
+  scheduledOrganizationDiscoveryJob
+} from '@/inngest/scheduledDiscovery'
+import {
+  newsUrlMaintenanceTick,
+  newsUrlCheckJob
+} from '@/inngest/newsUrlDetection'
+import { reenrichmentJob } from '@/inngest/reenrichment'
+import { promptEvaluationJob } from '@/inngest/promptEvaluation'
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
   functions: [
     urlDiscoveryJob,
     batchProcessingJob,
-    organizationDiscoveryJob
+    organizationDiscoveryJob,
+    scheduledDiscoveryTick,
+    scheduledOrganizationDiscoveryJob,
+    newsUrlMaintenanceTick,
+    newsUrlCheckJob,
+    reenrichmentJob,
+    promptEvaluationJob
   ],
 })
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { discoveryProfileSelect, getDiscoveryProfile, validateDiscoveryProfile } from '@/lib/discoveryProfile'
+import { isExtractionEngine } from '@/lib/articleExtraction'
+
+// Get an organization's discovery profile (and aliases, which discovery also uses,
+// and the article extraction engine used when its URLs are scraped)
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId = new URL(request.url).searchParams.get('organizationId')
+
+    if (!organizationId) {
+      return NextResponse.json({
+        success: false,
+        error: 'organizationId is required'
+      }, { status: 400 })
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true, altNames: true, extractionEngine: true, ...discoveryProfileSelect }
+    })
+
+    if (!organization) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization not found'
+      }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      organizationId: organization.id,
+      altNames: organization.altNames || [],
+      extractionEngine: organization.extractionEngine,
+      profile: getDiscoveryProfile(organization)
+    })
+
+  } catch (error) {
+    console.error('Discovery profile API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to fetch discovery profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
+
+// Replace an organization's discovery profile. Invalid URLs, domains or regexes reject the whole update.
+export async function PATCH(request: NextRequest) {
+  try {
+    const { organizationId, altNames, extractionEngine, ...input } = await request.json()
+
+    if (!organizationId) {
+      return NextResponse.json({
+        success: false,
+        error: 'organizationId is required'
+      }, { status: 400 })
+    }
+
+    const { profile, errors } = validateDiscoveryProfile(input)
+    
+    if (extractionEngine !== undefined && extractionEngine !== null && !isExtractionEngine(extractionEngine)) {
+      errors.push(`Unknown extraction engine: ${extractionEngine}`)
+    }
+
+    if (errors.length > 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid discovery profile',
+        details: errors.join('; ')
+      }, { status: 400 })
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        ...profile,
+        ...(Array.isArray(altNames) && {
+          altNames: Array.from(new Set(altNames.map((name: string) => name.trim()).filter(Boolean)))
+        }),
+        ...(extractionEngine !== undefined && { extractionEngine })
+      },
+      select: { id: true, name: true, altNames: true, extractionEngine: true, ...discoveryProfileSelect }
+    })
+
+    console.log(`🧭 ${organization.name}: discovery profile updated (${profile.seedUrls.length} seed URLs, ${profile.allowedDomains.length} allowed / ${profile.blockedDomains.length} blocked domains)`)
+
+    return NextResponse.json({
+      success: true,
+      organizationId: organization.id,
+      altNames: organization.altNames || [],
+      extractionEngine: organization.extractionEngine,
+      profile: getDiscoveryProfile(organization)
+    })
+
+  } catch (error) {
+    console.error('Discovery profile update error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update discovery profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { detectOrganizationFeeds } from '@/lib/feeds'
+
+// Re-run feed autodetection for an organization and store the verified feeds
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId, feedUrls } = await request.json()
+
+    if (!organizationId) {
+      return NextResponse.json({
+        success: false,
+        error: 'organizationId is required'
+      }, { status: 400 })
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true, website: true, newsUrl: true }
+    })
+
+    if (!organization) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization not found'
+      }, { status: 404 })
+    }
+
+    // Explicit feed URLs override autodetection (e.g. feeds not advertised in <head>)
+    const detectedFeeds = Array.isArray(feedUrls)
+      ? feedUrls.filter((url: unknown): url is string => typeof url === 'string' && url.startsWith('http'))
+      : await detectOrganizationFeeds([organization.newsUrl, organization.website])
+
+    const updated = await prisma.organization.update({
+      where: { id: organization.id },
+      data: {
+        feedUrls: detectedFeeds,
+        feedsCheckedAt: new Date()
+      },
+      select: { id: true, name: true, feedUrls: true, feedsCheckedAt: true }
+    })
+
+    console.log(`📡 ${organization.name}: ${updated.feedUrls.length} feeds stored`)
+
+    return NextResponse.json({
+      success: true,
+      organization: updated
+    })
+
+  } catch (error) {
+    console.error('Organization feeds API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update organization feeds',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { inngest } from '@/inngest/client'
+import { checkOrganizationNewsUrl } from '@/lib/newsUrlDetection'
+
+// Detect (or re-verify) an organization's news page right away and return the
+// scored candidates. Without organizationId, queues a check for every organization
+// whose newsUrl is missing or due for re-verification.
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId } = await request.json().catch(() => ({}))
+
+    if (!organizationId) {
+      await inngest.send({ name: 'news-url/check-due', data: {} })
+
+      return NextResponse.json({
+        success: true,
+        queued: true
+      })
+    }
+
+    const organization = await prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true, website: true, newsUrl: true }
+    })
+
+    if (!organization) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization not found'
+      }, { status: 404 })
+    }
+
+    if (!organization.website && !organization.newsUrl) {
+      return NextResponse.json({
+        success: false,
+        error: 'Organization has no website to detect a news page from'
+      }, { status: 400 })
+    }
+
+    const result = await checkOrganizationNewsUrl(organization)
+
+    return NextResponse.json({
+      success: true,
+      ...result
+    })
+
+  } catch (error) {
+    console.error('News URL detection API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to detect news URL',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
@@ -22,6 +22,8 @@ export async function GET(request: NextRequest) {
         id: true,
         name: true,
         newsUrl: true,
+        newsUrlStatus: true,
+        discoverySchedule: true,
         ...(includeArticleCounts && {
           _count: {
             select: {
@@ -44,6 +46,8 @@ export async function GET(request: NextRequest) {
       id: org.id,
       name: org.name,
       newsUrl: org.newsUrl,
+      newsUrlStatus: org.newsUrlStatus,
+      discoverySchedule: org.discoverySchedule,
       ...(includeArticleCounts && {
         publishedArticleCount: org._count?.articles || 0
       })
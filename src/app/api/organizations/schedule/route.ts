@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isValidCron } from '@/utils/cron'
+
+// Set or clear an organization's recurring discovery schedule
+export async function PATCH(request: NextRequest) {
+  try {
+    const { organizationId, discoverySchedule } = await request.json()
+
+    if (!organizationId) {
+      return NextResponse.json({
+        success: false,
+        error: 'organizationId is required'
+      }, { status: 400 })
+    }
+
+    const schedule = typeof discoverySchedule === 'string' && discoverySchedule.trim()
+      ? discoverySchedule.trim()
+      : null
+
+    if (schedule && !isValidCron(schedule)) {
+      return NextResponse.json({
+        success: false,
+        error: `Invalid cron expression: ${schedule}`
+      }, { status: 400 })
+    }
+
+    const organization = await prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        discoverySchedule: schedule,
+        // Resetting the last slot makes the next tick run immediately, so new orgs get drafts quickly
+        lastScheduledDiscoveryAt: null
+      },
+      select: { id: true, name: true, discoverySchedule: true, lastScheduledDiscoveryAt: true }
+    })
+
+    console.log(`⏰ ${organization.name}: discovery schedule ${schedule ? `set to "${schedule}"` : 'cleared'}`)
+
+    return NextResponse.json({
+      success: true,
+      organization
+    })
+
+  } catch (error) {
+    console.error('Organization schedule API error:', error)
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update discovery schedule',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 })
+  }
+}
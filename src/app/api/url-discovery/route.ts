@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { dedupeUrls, findExistingArticleUrls } from '@/lib/canonicalUrl'
 import { discoverUrlsForOrganization } from '@/lib/googleSearch'
+import { organizationIdentitySelect } from '@/lib/organizationIdentity'
+import { discoveryProfileSelect, getDiscoveryProfile, applyDiscoveryProfile, collectSeedPageLinks } from '@/lib/discoveryProfile'
 import { discoverOrganizationNewsUrls } from '@/lib/firecrawl'
 
 // Simple HTTP + regex extraction function (no external APIs needed)
@@ -113,7 +116,7 @@ export async function POST(request: NextRequest) {
       // Get organization details for website and newsUrl
       const organization = await prisma.organization.findUnique({
         where: { id: organizationId },
-        select: { website: true, newsUrl: true }
+        select: { website: true, newsUrl: true, ...organizationIdentitySelect, ...discoveryProfileSelect }
       });
 
       let allDiscoveredUrls: string[] = [];
@@ -124,7 +127,7 @@ export async function POST(request: NextRequest) {
       // Step 2a: Discover URLs using Google Search (external sources)
       console.log(`🌐 Starting Google Search discovery...`);
       const googleDiscoveryResult = await discoverUrlsForOrganization(
-        organizationName, 
+        organization || { name: organizationName }, 
         parseInt(timeframe.toString())
       );
 
@@ -169,20 +172,17 @@ export async function POST(request: NextRequest) {
         console.log(`ℹ️ No website URL available for ${organizationName}, skipping website mapping`);
       }
 
-      // Remove duplicates from combined results
-      const uniqueUrls = [...new Set(allDiscoveredUrls)];
+      // Step 2d: Article links on the seed (listing) pages of the organization's discovery profile
+      const profile = getDiscoveryProfile(organization || {})
+      const seedPageLinks = await collectSeedPageLinks(profile)
+      allDiscoveredUrls.push(...seedPageLinks)
+
+      // Remove duplicates from combined results and apply the profile's domain/path filters
+      const { urls: uniqueUrls, excluded: profileExcludedUrls } = applyDiscoveryProfile(dedupeUrls(allDiscoveredUrls), profile)
       console.log(`📋 Combined discovery: ${uniqueUrls.length} unique URLs from all sources`);
 
       // Step 3: Filter out URLs that already exist as articles
-      const existingArticles = await prisma.article.findMany({
-        where: { 
-          url: { in: uniqueUrls },
-          organizationId 
-        },
-        select: { url: true }
-      });
-      
-      const existingUrls = new Set(existingArticles.map(a => a.url));
+      const existingUrls = await findExistingArticleUrls(uniqueUrls, organizationId);
       const newUrls = uniqueUrls.filter(url => !existingUrls.has(url));
       
       console.log(`✅ Filtered to ${newUrls.length} new URLs (${existingUrls.size} already exist)`);
@@ -208,8 +208,12 @@ export async function POST(request: NextRequest) {
         results: {
           totalFound: uniqueUrls.length,
           googleSearchUrls: googleDiscoveryResult.urls.length,
+          searchResultsByProvider: googleDiscoveryResult.resultsByProvider,
           newsUrlUrls: newsUrlCount,
           websiteUrls: websiteUrlCount,
+          seedUrls: profile.seedUrls.length,
+          seedPageLinks: seedPageLinks.length,
+          profileExcludedUrls,
           newUrls: newUrls.length,
           duplicateUrls: existingUrls.size,
           searchQueries: searchQueries,
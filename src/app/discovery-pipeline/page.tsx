@@ -3,11 +3,14 @@
 import { useState, useEffect, useCallback } from 'react'
 import { Heading, Text, Flex, Box, Card, Button, Select, Table, Checkbox, Badge, Progress, Separator, IconButton, TextArea } from '@radix-ui/themes'
 import { Play, CheckCircle, Clock, Eye, Sparkle, ArrowRight, PencilSimple, Trash, X, Link } from '@phosphor-icons/react'
+import { DiscoveryProfileDialog } from '@/components/DiscoveryProfileDialog'
 
 interface Organization {
   id: string
   name: string
   newsUrl?: string | null
+  newsUrlStatus?: string | null
+  discoverySchedule?: string | null
   publishedArticleCount?: number
 }
 
@@ -21,6 +24,9 @@ interface DiscoverySession {
   selectedUrls: number
   processedUrls: number
   scrapedArticles?: number
+  trigger?: 'manual' | 'scheduled'
+  digest?: { newUrls: number, autoSelected: number } | null
+  pagesCrawled?: number
   createdAt: string
   updatedAt: string
 }
@@ -31,8 +37,16 @@ interface DiscoveredUrl {
   urlType: 'news' | 'post'
   domain: string
   titlePreview?: string
+  publishedAt?: string | null
+  lastModifiedAt?: string | null
+  source?: 'crawl' | 'feed' | 'sitemap' | 'search' | 'manual'
+  searchProviders?: string[]
+  urlScore?: number | null
+  classifiedBy?: 'rules' | 'ai' | null
   selectedForScraping: boolean
   scrapeStatus: string
+  triageAction?: 'select' | 'reject' | null
+  triageRuleName?: string | null
 }
 
 interface ScrapedContent {
@@ -45,7 +59,10 @@ interface ScrapedContent {
   sentimentScore?: number
   sentimentReasoning?: string
   keywords: string[]
+  scrapeProvider?: string | null
   selectedForFinalization: boolean
+  triageAction?: 'select' | 'reject' | null
+  triageRuleName?: string | null
   createdAt: string
 }
 
@@ -95,6 +112,9 @@ export default function DiscoveryPipelinePage() {
   const [discoveredUrls, setDiscoveredUrls] = useState<DiscoveredUrl[]>([])
   const [selectedUrlIds, setSelectedUrlIds] = useState<Set<string>>(new Set())
   const [phase1Loading, setPhase1Loading] = useState(false)
+  const [includeSeenUrls, setIncludeSeenUrls] = useState(false)
+  const [maxListingPages, setMaxListingPages] = useState('3')
+  const [detectingNewsUrl, setDetectingNewsUrl] = useState(false)
   
   // Manual URL input state
   const [manualUrls, setManualUrls] = useState('')
@@ -358,6 +378,63 @@ export default function DiscoveryPipelinePage() {
     }
   }, [])
   
+  // Update the selected organization's recurring discovery schedule
+  const updateSchedule = async (discoverySchedule: string | null) => {
+    if (selectedOrgId === 'all') return
+    
+    try {
+      const response = await fetch('/api/organizations/schedule', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: selectedOrgId, discoverySchedule })
+      })
+      
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.error)
+      }
+      
+      setOrganizations(prev => prev.map(org => 
+        org.id === selectedOrgId ? { ...org, discoverySchedule: data.organization.discoverySchedule } : org
+      ))
+    } catch (error) {
+      console.error('Failed to update schedule:', error)
+      alert(`Failed to update schedule: ${error}`)
+    }
+  }
+
+  // Detect the selected organization's news page from its website
+  const detectNewsUrl = async () => {
+    if (selectedOrgId === 'all') return
+    
+    setDetectingNewsUrl(true)
+    try {
+      const response = await fetch('/api/organizations/news-url', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId: selectedOrgId })
+      })
+      
+      const data = await response.json()
+      if (!data.success) {
+        throw new Error(data.details || data.error)
+      }
+      
+      setOrganizations(prev => prev.map(org => 
+        org.id === selectedOrgId ? { ...org, newsUrl: data.newsUrl, newsUrlStatus: data.action } : org
+      ))
+      
+      if (!data.newsUrl) {
+        alert(`No news page found (checked ${data.candidates.length} candidate pages)`)
+      }
+    } catch (error) {
+      console.error('Failed to detect news URL:', error)
+      alert(`Failed to detect news URL: ${error}`)
+    } finally {
+      setDetectingNewsUrl(false)
+    }
+  }
+
   // Start Phase 1: URL Discovery
   const startPhase1 = async () => {
     if (selectedOrgId === 'all') return
@@ -372,13 +449,20 @@ export default function DiscoveryPipelinePage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           organizationId: selectedOrgId,
-          newsUrl: org.newsUrl
+          newsUrl: org.newsUrl,
+          includeSeen: includeSeenUrls,
+          maxPages: parseInt(maxListingPages, 10)
         })
       })
       
       const data = await response.json()
       if (data.success) {
         console.log(`✅ Phase 1 complete: ${data.totalUrls} URLs discovered`)
+        if (data.totalUrls === 0) {
+          alert(data.unchanged
+            ? 'News page and feeds are unchanged since the last discovery run.'
+            : `No new URLs found (${data.previouslySeen} already seen in earlier runs).`)
+        }
         // Fetch the created session
         await fetchSessions(selectedOrgId)
         // Load the discovered URLs for the new session
@@ -577,6 +661,10 @@ export default function DiscoveryPipelinePage() {
       const data = await response.json()
       if (data.success) {
         setScrapedContent(data.scrapedContent)
+        // Content auto-triage selected starts checked
+        setSelectedContentIds(new Set(
+          data.scrapedContent.filter((content: any) => content.selectedForFinalization).map((content: any) => content.id)
+        ))
         setCurrentPhase(2)
       }
     } catch (error) {
@@ -598,6 +686,17 @@ export default function DiscoveryPipelinePage() {
     )
   }
   
+  // Which auto-triage rule decided an item, if any
+  const getTriageBadge = (item: { triageAction?: string | null, triageRuleName?: string | null }) => {
+    if (!item.triageAction) return null
+    
+    return (
+      <Badge color={item.triageAction === 'select' ? 'green' : 'red'} variant="outline" title={`Auto-triage rule: ${item.triageRuleName}`}>
+        {item.triageAction === 'select' ? 'Auto-selected' : 'Auto-rejected'}
+      </Badge>
+    )
+  }
+  
   useEffect(() => {
     fetchOrganizations()
   }, [fetchOrganizations])
@@ -663,12 +762,48 @@ export default function DiscoveryPipelinePage() {
                           Start New Discovery
                         </Button>
                         
-                        {!hasNewsUrl && !useManualUrls && (
-                          <Text size="1" color="orange" style={{ fontStyle: 'italic' }}>
-                            No news URL configured - use manual input
+                        {hasNewsUrl && (
+                          <Text as="label" size="1" color="gray">
+                            <Flex gap="1" align="center">
+                              <Checkbox
+                                size="1"
+                                checked={includeSeenUrls}
+                                onCheckedChange={(checked) => setIncludeSeenUrls(checked === true)}
+                              />
+                              Include previously seen
+                            </Flex>
                           </Text>
                         )}
                         
+                        {hasNewsUrl && (
+                          <Select.Root size="1" value={maxListingPages} onValueChange={setMaxListingPages}>
+                            <Select.Trigger variant="soft" title="How many listing pages to follow" />
+                            <Select.Content>
+                              <Select.Item value="1">First page only</Select.Item>
+                              <Select.Item value="3">Up to 3 pages</Select.Item>
+                              <Select.Item value="5">Up to 5 pages</Select.Item>
+                              <Select.Item value="10">Up to 10 pages</Select.Item>
+                            </Select.Content>
+                          </Select.Root>
+                        )}
+                        
+                        {!hasNewsUrl && !useManualUrls && (
+                          <>
+                            <Text size="1" color="orange" style={{ fontStyle: 'italic' }}>
+                              No news URL configured - use manual input
+                            </Text>
+                            <Button size="1" variant="soft" onClick={detectNewsUrl} loading={detectingNewsUrl}>
+                              Detect news page
+                            </Button>
+                          </>
+                        )}
+                        
+                        {hasNewsUrl && selectedOrg?.newsUrlStatus === 'dead' && (
+                          <Badge color="red" variant="soft" title={selectedOrg.newsUrl || ''}>
+                            News page looks dead
+                          </Badge>
+                        )}
+                        
                         <Text size="2" color="gray">or</Text>
                         
                         <Button 
@@ -679,6 +814,29 @@ export default function DiscoveryPipelinePage() {
                           <Link size={16} />
                           Manual URLs
                         </Button>
+                        
+                        {hasNewsUrl && (
+                          <Select.Root
+                            value={selectedOrg?.discoverySchedule || 'off'}
+                            onValueChange={(value) => updateSchedule(value === 'off' ? null : value)}
+                          >
+                            <Select.Trigger variant="soft" />
+                            <Select.Content>
+                              <Select.Item value="off">No schedule</Select.Item>
+                              <Select.Item value="@daily">Runs daily</Select.Item>
+                              <Select.Item value="@weekly">Runs weekly</Select.Item>
+                              {selectedOrg?.discoverySchedule && !['@daily', '@weekly'].includes(selectedOrg.discoverySchedule) && (
+                                <Select.Item value={selectedOrg.discoverySchedule}>
+                                  Cron: {selectedOrg.discoverySchedule}
+                                </Select.Item>
+                              )}
+                            </Select.Content>
+                          </Select.Root>
+                        )}
+                        
+                        {selectedOrg && (
+                          <DiscoveryProfileDialog organizationId={selectedOrg.id} organizationName={selectedOrg.name} />
+                        )}
                       </>
                     )
                   })()}
@@ -773,9 +931,22 @@ https://example.com/article-3"
                           }>
                             {session.status.replace('_', ' ')}
                           </Badge>
+                          {session.trigger === 'scheduled' && (
+                            <Badge color="purple" variant="soft" ml="1">scheduled</Badge>
+                          )}
                         </Table.Cell>
                         <Table.Cell>
                           <Text size="2">{session.totalUrls} total</Text>
+                          {(session.pagesCrawled || 0) > 1 && (
+                            <Text size="1" color="gray" as="div">
+                              from {session.pagesCrawled} listing pages
+                            </Text>
+                          )}
+                          {session.digest && (
+                            <Text size="1" color="purple" as="div">
+                              {session.digest.newUrls} new, {session.digest.autoSelected} auto-selected
+                            </Text>
+                          )}
                         </Table.Cell>
                         <Table.Cell>
                           <Text size="2">{session.selectedUrls} selected, {session.processedUrls} processed</Text>
@@ -927,6 +1098,7 @@ https://example.com/article-3"
                       <Table.ColumnHeaderCell>Type</Table.ColumnHeaderCell>
                       <Table.ColumnHeaderCell>Domain</Table.ColumnHeaderCell>
                       <Table.ColumnHeaderCell>URL</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Published</Table.ColumnHeaderCell>
                     </Table.Row>
                   </Table.Header>
                   <Table.Body>
@@ -939,18 +1111,50 @@ https://example.com/article-3"
                           />
                         </Table.Cell>
                         <Table.Cell>
-                          <Badge color={url.urlType === 'news' ? 'blue' : 'green'}>
-                            {url.urlType}
-                          </Badge>
+                          <Flex gap="1">
+                            <Badge color={url.urlType === 'news' ? 'blue' : 'green'}>
+                              {url.urlType}
+                            </Badge>
+                            {(url.source === 'feed' || url.source === 'sitemap') && (
+                              <Badge color="orange" variant="soft">{url.source}</Badge>
+                            )}
+                            {url.source === 'search' && (
+                              <Badge color="purple" variant="soft" title={`Found by ${url.searchProviders?.join(', ') || 'search'}`}>
+                                {url.searchProviders?.[0] || 'search'}{(url.searchProviders?.length || 0) > 1 ? ` +${url.searchProviders!.length - 1}` : ''}
+                              </Badge>
+                            )}
+                            {url.urlScore != null && (
+                              <Badge
+                                color={url.urlScore >= 0.7 ? 'green' : url.urlScore > 0.25 ? 'gray' : 'red'}
+                                variant="outline"
+                                title={`Article likelihood from URL rules${url.classifiedBy === 'ai' ? ' (kept by AI review)' : ''}`}
+                              >
+                                {url.urlScore.toFixed(2)}
+                              </Badge>
+                            )}
+                            {getTriageBadge(url)}
+                          </Flex>
                         </Table.Cell>
                         <Table.Cell>
                           <Text size="2">{url.domain}</Text>
                         </Table.Cell>
                         <Table.Cell>
+                          {(url.source === 'feed' || url.source === 'search') && url.titlePreview && (
+                            <Text size="2" weight="medium" as="div">{url.titlePreview}</Text>
+                          )}
                           <Text size="1" style={{ wordBreak: 'break-all' }}>
                             {url.url.length > 80 ? `${url.url.substring(0, 80)}...` : url.url}
                           </Text>
                         </Table.Cell>
+                        <Table.Cell>
+                          <Text size="1" color="gray">
+                            {url.publishedAt
+                              ? new Date(url.publishedAt).toLocaleDateString()
+                              : url.lastModifiedAt
+                                ? `Updated ${new Date(url.lastModifiedAt).toLocaleDateString()}`
+                                : '—'}
+                          </Text>
+                        </Table.Cell>
                       </Table.Row>
                     ))}
                   </Table.Body>
@@ -1050,9 +1254,17 @@ https://example.com/article-3"
                               </Text>
                             </Table.Cell>
                             <Table.Cell>
-                              <Badge color={content.urlType === 'news' ? 'blue' : 'green'}>
-                                {content.urlType}
-                              </Badge>
+                              <Flex gap="1" wrap="wrap">
+                                <Badge color={content.urlType === 'news' ? 'blue' : 'green'}>
+                                  {content.urlType}
+                                </Badge>
+                                {content.scrapeProvider && (
+                                  <Badge color="gray" variant="outline" title="Scraper provider that extracted this article">
+                                    {content.scrapeProvider}
+                                  </Badge>
+                                )}
+                                {getTriageBadge(content)}
+                              </Flex>
                             </Table.Cell>
                             <Table.Cell>
                               {getSentimentBadge(content.sentimentScore)}
@@ -0,0 +1,145 @@
+import { Box, Heading, Text, Flex, Badge, Link, Button, Card } from "@radix-ui/themes";
+import NextLink from "next/link";
+import { prisma } from "@/lib/db";
+import { GridCard } from "@/components/ArticleCards";
+import { ENTITY_TYPE_LABELS, EntityType, entityArticleWhere, getEntityDetail } from "@/lib/entities";
+
+interface PageProps {
+  params: Promise<{ type: string; slug: string }>
+  searchParams: Promise<{ page?: string; organizationId?: string }>
+}
+
+const PAGE_SIZE = 24;
+
+export default async function EntityPage({ params, searchParams }: PageProps) {
+  const { type, slug } = await params;
+  const { page: pageParam, organizationId } = await searchParams;
+  const entity = await getEntityDetail(type, slug);
+
+  if (!entity) {
+    return (
+      <Box style={{ marginLeft: '300px', marginRight: '34px', paddingTop: '24px' }}>
+        <Text size="5" weight="bold" color="gray">Not found.</Text>
+      </Box>
+    );
+  }
+
+  const page = Math.max(1, parseInt(pageParam || '1') || 1);
+  const where = entityArticleWhere(entity.id, organizationId || undefined);
+  const [total, articles] = await Promise.all([
+    prisma.article.count({ where }),
+    prisma.article.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        url: true,
+        organization: { select: { id: true, name: true } }
+      },
+      orderBy: [{ publishedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+      skip: (page - 1) * PAGE_SIZE,
+      take: PAGE_SIZE
+    })
+  ]);
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+  const basePath = `/entities/${entity.type}/${entity.slug}`;
+  const pageHref = (target: number) => `${basePath}?${new URLSearchParams({
+    ...(organizationId ? { organizationId } : {}),
+    page: String(target)
+  })}`;
+
+  return (
+    <Box style={{
+      marginLeft: '300px',
+      marginRight: '34px',
+      paddingTop: '24px',
+      paddingBottom: '24px'
+    }}>
+      <Flex direction="column" gap="6">
+        {/* Header */}
+        <Flex direction="column" gap="2">
+          <Link asChild size="2" color="gray">
+            <NextLink href={`/entities?type=${entity.type}`}>
+              ← {ENTITY_TYPE_LABELS[entity.type as EntityType] || 'Entities'}
+            </NextLink>
+          </Link>
+          <Heading size="6" weight="light">{entity.name}</Heading>
+          {entity.aliases.length > 0 && (
+            <Text size="2" color="gray">Also known as {entity.aliases.join(', ')}</Text>
+          )}
+          <Flex align="center" gap="2">
+            <Badge color="blue" size="2">
+              {entity.articleCount} {entity.articleCount === 1 ? 'Story' : 'Stories'}
+            </Badge>
+          </Flex>
+        </Flex>
+
+        {/* Organizations mentioning it */}
+        {entity.organizations.length > 1 && (
+          <Flex align="center" gap="2" wrap="wrap">
+            <Text size="2" weight="medium">Organizations:</Text>
+            <Button asChild size="1" variant={!organizationId ? 'solid' : 'soft'}>
+              <NextLink href={basePath}>All</NextLink>
+            </Button>
+            {entity.organizations.map((org) => (
+              <Button key={org.id} asChild size="1" variant={organizationId === org.id ? 'solid' : 'soft'} color="green">
+                <NextLink href={`${basePath}?organizationId=${org.id}`}>{org.name} ({org.articleCount})</NextLink>
+              </Button>
+            ))}
+          </Flex>
+        )}
+
+        {/* Related entities */}
+        {entity.related.length > 0 && (
+          <Card>
+            <Flex direction="column" gap="2">
+              <Text size="2" weight="medium">Often mentioned with</Text>
+              <Flex gap="2" wrap="wrap">
+                {entity.related.map((related) => (
+                  <Badge key={related.id} asChild color="gray" size="2" variant="soft">
+                    <NextLink href={`/entities/${related.type}/${related.slug}`}>
+                      {related.name} · {related.sharedArticles}
+                    </NextLink>
+                  </Badge>
+                ))}
+              </Flex>
+            </Flex>
+          </Card>
+        )}
+
+        {/* Articles Grid */}
+        {articles.length > 0 ? (
+          <Box className="grid-cards-container">
+            {articles.map((article, index) => {
+              const variants: Array<'blue' | 'green' | 'yellow'> = ['blue', 'green', 'yellow'];
+              return (
+                <GridCard key={article.id} article={article} variant={variants[index % variants.length]} />
+              );
+            })}
+          </Box>
+        ) : (
+          <Card style={{ padding: '48px', textAlign: 'center' }}>
+            <Text size="4" color="gray" weight="bold">No published stories</Text>
+          </Card>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <Flex justify="center" align="center" gap="4">
+            {page > 1 ? (
+              <Button asChild variant="soft"><NextLink href={pageHref(page - 1)}>Previous</NextLink></Button>
+            ) : (
+              <Button variant="soft" disabled>Previous</Button>
+            )}
+            <Text size="2" color="gray">Page {page} of {totalPages}</Text>
+            {page < totalPages ? (
+              <Button asChild variant="soft"><NextLink href={pageHref(page + 1)}>Next</NextLink></Button>
+            ) : (
+              <Button variant="soft" disabled>Next</Button>
+            )}
+          </Flex>
+        )}
+      </Flex>
+    </Box>
+  );
+}
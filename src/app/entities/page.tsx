@@ -0,0 +1,107 @@
+import { Box, Heading, Text, Flex, Badge, Link, Table, Button } from "@radix-ui/themes";
+import NextLink from "next/link";
+import { ENTITY_TYPE_LABELS, ENTITY_TYPES, isEntityType, listEntities } from "@/lib/entities";
+
+interface PageProps {
+  searchParams: Promise<{ type?: string }>
+}
+
+const TYPE_COLORS: Record<string, "blue" | "green" | "orange" | "violet"> = {
+  person: "blue",
+  place: "green",
+  organization: "orange",
+  program: "violet"
+};
+
+export default async function EntitiesPage({ searchParams }: PageProps) {
+  const { type } = await searchParams;
+  const activeType = isEntityType(type) ? type : undefined;
+  const entities = await listEntities({ type: activeType, limit: 300 });
+
+  return (
+    <Box style={{
+      marginLeft: '300px',
+      marginRight: '34px',
+      paddingTop: '24px',
+      paddingBottom: '24px'
+    }}>
+      <Flex direction="column" gap="6">
+        {/* Header */}
+        <Flex direction="column" gap="2">
+          <Heading size="6" weight="light">People & Places</Heading>
+          <Text color="gray" size="2">
+            People, places, partner organizations and programs mentioned in published stories.
+          </Text>
+        </Flex>
+
+        {/* Type Filter */}
+        <Flex align="center" gap="2" wrap="wrap">
+          <Button asChild size="2" variant={!activeType ? 'solid' : 'soft'}>
+            <NextLink href="/entities">All</NextLink>
+          </Button>
+          {ENTITY_TYPES.map((entityType) => (
+            <Button key={entityType} asChild size="2" variant={activeType === entityType ? 'solid' : 'soft'} color={TYPE_COLORS[entityType]}>
+              <NextLink href={`/entities?type=${entityType}`}>{ENTITY_TYPE_LABELS[entityType]}</NextLink>
+            </Button>
+          ))}
+          <Badge color="gray" size="2">
+            {entities.length} {activeType ? ENTITY_TYPE_LABELS[activeType] : 'Entities'}
+          </Badge>
+        </Flex>
+
+        {/* Entities Table */}
+        {entities.length > 0 ? (
+          <Table.Root>
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeaderCell>Name</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Type</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Also known as</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell>Stories</Table.ColumnHeaderCell>
+              </Table.Row>
+            </Table.Header>
+
+            <Table.Body>
+              {entities.map((entity) => (
+                <Table.Row key={entity.id}>
+                  <Table.RowHeaderCell>
+                    <Link asChild weight="medium">
+                      <NextLink href={`/entities/${entity.type}/${entity.slug}`}>{entity.name}</NextLink>
+                    </Link>
+                  </Table.RowHeaderCell>
+
+                  <Table.Cell>
+                    <Badge color={TYPE_COLORS[entity.type]} size="1">
+                      {ENTITY_TYPE_LABELS[entity.type]}
+                    </Badge>
+                  </Table.Cell>
+
+                  <Table.Cell>
+                    {entity.aliases.length > 0 ? (
+                      <Text size="2" color="gray">{entity.aliases.slice(0, 3).join(', ')}</Text>
+                    ) : (
+                      <Text color="gray" size="2">—</Text>
+                    )}
+                  </Table.Cell>
+
+                  <Table.Cell>
+                    <Text size="2">{entity.articleCount}</Text>
+                  </Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        ) : (
+          <Box style={{ textAlign: 'center', padding: '40px' }}>
+            <Text size="5" weight="bold" color="gray">
+              No Entities Found
+            </Text>
+            <Text color="gray" style={{ marginTop: '8px' }}>
+              Entities appear here once published articles have been through entity extraction.
+            </Text>
+          </Box>
+        )}
+      </Flex>
+    </Box>
+  );
+}
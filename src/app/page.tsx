@@ -29,14 +29,29 @@ interface Organization {
   name: string
 }
 
+interface Entity {
+  id: string
+  type: string
+  name: string
+  articleCount: number
+}
+
+interface EntityType {
+  type: string
+  label: string
+}
+
 export default function Home() {
   const [articles, setArticles] = useState<Article[]>([])
   const [organizations, setOrganizations] = useState<Organization[]>([])
+  const [entities, setEntities] = useState<Entity[]>([])
+  const [entityTypes, setEntityTypes] = useState<EntityType[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   
   // Filter state
   const [organizationFilter, setOrganizationFilter] = useState<string>('all')
+  const [entityFilter, setEntityFilter] = useState<string>('all') // person, place, partner or program
   const [isFiltering, setIsFiltering] = useState(false)
   
   // Pagination state
@@ -56,6 +71,10 @@ export default function Home() {
       if (organizationFilter && organizationFilter !== 'all') {
         params.set('organizationId', organizationFilter)
       }
+
+      if (entityFilter && entityFilter !== 'all') {
+        params.set('entityId', entityFilter)
+      }
       
       console.time('📡 API call')
       const response = await fetch(`/api/articles?${params}`)
@@ -80,7 +99,7 @@ export default function Home() {
       setIsFiltering(false)
       console.timeEnd('🔄 Filter articles')
     }
-  }, [organizationFilter, currentPage])
+  }, [organizationFilter, entityFilter, currentPage])
 
   // Fetch organizations for filter dropdown
   const fetchOrganizations = useCallback(async () => {
@@ -96,12 +115,32 @@ export default function Home() {
     }
   }, [])
 
+  // Most-mentioned people, places, partners and programs for the entity filter
+  const fetchEntities = useCallback(async () => {
+    try {
+      const response = await fetch('/api/entities?limit=100')
+      const data = await response.json()
+
+      if (data.success) {
+        setEntities(data.entities)
+        setEntityTypes(data.types)
+      }
+    } catch (error) {
+      console.error('Failed to fetch entities:', error)
+    }
+  }, [])
+
   // Filter handlers
   const handleOrganizationChange = useCallback((value: string) => {
     setOrganizationFilter(value)
     setCurrentPage(1) // Reset to first page when filter changes
   }, [])
 
+  const handleEntityChange = useCallback((value: string) => {
+    setEntityFilter(value)
+    setCurrentPage(1)
+  }, [])
+
   // Pagination handlers
   const handlePageChange = useCallback((newPage: number) => {
     setCurrentPage(newPage)
@@ -147,23 +186,24 @@ export default function Home() {
   useEffect(() => {
     fetchInitialArticles()
     fetchOrganizations()
-  }, [fetchInitialArticles, fetchOrganizations])
+    fetchEntities()
+  }, [fetchInitialArticles, fetchOrganizations, fetchEntities])
 
   // Trigger search when filters change (but not on initial load)
   useEffect(() => {
-    if (organizationFilter !== 'all') {
+    if (organizationFilter !== 'all' || entityFilter !== 'all') {
       fetchArticles(1) // Always start from page 1 when filter changes
     } else if (currentPage === 1) {
       fetchInitialArticles()
     } else {
       fetchArticles(currentPage)
     }
-  }, [organizationFilter]) // Remove fetchArticles from deps to prevent loops
+  }, [organizationFilter, entityFilter]) // Remove fetchArticles from deps to prevent loops
 
   // Handle page changes
   useEffect(() => {
     // Only fetch if not initial load (currentPage starts at 1)
-    if (currentPage > 1 || (currentPage === 1 && organizationFilter === 'all' && articles.length > 0)) {
+    if (currentPage > 1 || (currentPage === 1 && organizationFilter === 'all' && entityFilter === 'all' && articles.length > 0)) {
       fetchArticles(currentPage)
     }
   }, [currentPage]) // Simplified deps
@@ -297,24 +337,66 @@ export default function Home() {
                   ))}
                 </Select.Content>
               </Select.Root>
-              {isFiltering && (
-                <Spinner size="2" />
-              )}
             </Flex>
+
+            {/* Entity Filter */}
+            {entities.length > 0 && (
+              <Flex align="center" gap="2">
+                <Text size="2" weight="medium">
+                  Mentions:
+                </Text>
+                <Select.Root value={entityFilter} onValueChange={handleEntityChange}>
+                  <Select.Trigger style={{ width: '220px' }} />
+                  <Select.Content>
+                    <Select.Item value="all">Anyone or anywhere</Select.Item>
+                    {entityTypes.map((entityType) => {
+                      const ofType = entities.filter(entity => entity.type === entityType.type)
+                      if (ofType.length === 0) return null
+                      return (
+                        <Select.Group key={entityType.type}>
+                          <Select.Label>{entityType.label}</Select.Label>
+                          {ofType.map((entity) => (
+                            <Select.Item key={entity.id} value={entity.id}>
+                              {entity.name} ({entity.articleCount})
+                            </Select.Item>
+                          ))}
+                        </Select.Group>
+                      )
+                    })}
+                  </Select.Content>
+                </Select.Root>
+              </Flex>
+            )}
+
+            {isFiltering && (
+              <Spinner size="2" />
+            )}
           </Flex>
 
           {/* Active Filters Display */}
-          {organizationFilter !== 'all' && (
+          {(organizationFilter !== 'all' || entityFilter !== 'all') && (
             <Flex align="center" gap="2" wrap="wrap">
               <Text size="2" color="gray">Active filter:</Text>
-              <Button 
-                size="1" 
-                variant="soft" 
-                color="green"
-                onClick={() => setOrganizationFilter('all')}
-              >
-                {organizations.find(org => org.id === organizationFilter)?.name || 'Organization'} <X height="12" width="12" style={{ marginLeft: '4px' }} />
-              </Button>
+              {organizationFilter !== 'all' && (
+                <Button 
+                  size="1" 
+                  variant="soft" 
+                  color="green"
+                  onClick={() => setOrganizationFilter('all')}
+                >
+                  {organizations.find(org => org.id === organizationFilter)?.name || 'Organization'} <X height="12" width="12" style={{ marginLeft: '4px' }} />
+                </Button>
+              )}
+              {entityFilter !== 'all' && (
+                <Button 
+                  size="1" 
+                  variant="soft" 
+                  color="blue"
+                  onClick={() => setEntityFilter('all')}
+                >
+                  {entities.find(entity => entity.id === entityFilter)?.name || 'Entity'} <X height="12" width="12" style={{ marginLeft: '4px' }} />
+                </Button>
+              )}
             </Flex>
           )}
         </Flex>
@@ -334,11 +416,11 @@ export default function Home() {
           <Card style={{ padding: '48px', textAlign: 'center' }}>
             <Flex direction="column" align="center" gap="3">
               <Text size="4" color="gray" weight="bold">
-                {organizationFilter !== 'all' ? 'No articles found' : 'No articles available'}
+                {organizationFilter !== 'all' || entityFilter !== 'all' ? 'No articles found' : 'No articles available'}
               </Text>
               <Text size="2" color="gray">
-                {organizationFilter !== 'all' ? 
-                  'Try selecting a different organization' : 
+                {organizationFilter !== 'all' || entityFilter !== 'all' ? 
+                  'Try a different organization or mention filter' : 
                   'Articles will appear here once they are published'
                 }
               </Text>
@@ -0,0 +1,421 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Flex, Text, Button, Card, Badge, Spinner, Table, Select, TextField, IconButton } from '@radix-ui/themes'
+import { ArrowClockwise, Trash } from '@phosphor-icons/react/dist/ssr'
+
+interface UsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+interface Budget {
+  id: string
+  organizationId: string | null
+  organizationName: string | null
+  limitUsd: number
+  spentUsd: number
+  exceeded: boolean
+}
+
+interface UsageSummary {
+  totals: UsageTotals & { failedCalls: number }
+  byOrganization: Array<UsageTotals & { organizationId: string | null, organizationName: string }>
+  byTask: Array<UsageTotals & { task: string }>
+  byModel: Array<UsageTotals & { provider: string, model: string }>
+  byDay: Array<UsageTotals & { day: string }>
+  topSessions: Array<UsageTotals & { discoverySessionId: string, organizationName: string | null, trigger: string | null, createdAt: string | null }>
+  topArticles: Array<UsageTotals & { articleId: string, title: string | null, organizationName: string | null }>
+  budgets: Budget[]
+}
+
+interface CacheStats {
+  enabled: boolean
+  ttlHours: number
+  entries: Array<{ promptName: string, promptVersion: string, model: string, entries: number, hits: number, lastHitAt: string | null, expired: number }>
+}
+
+interface AiUsageDashboardProps {
+  organizationId: string
+  organizations: Array<{ id: string, name: string }>
+}
+
+const GLOBAL = 'global'
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10)
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`
+
+const formatTokens = (tokens: number) => tokens >= 1_000_000
+  ? `${(tokens / 1_000_000).toFixed(2)}M`
+  : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+
+function UsageTable({ title, label, rows }: { title: string, label: string, rows: Array<UsageTotals & { key: string, name: React.ReactNode }> }) {
+  return (
+    <Card>
+      <Flex direction="column" gap="2">
+        <Text weight="medium">{title}</Text>
+        {rows.length === 0 ? (
+          <Text size="2" color="gray">No AI calls in this period.</Text>
+        ) : (
+          <Table.Root size="1">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeaderCell>{label}</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Calls</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Input tokens</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Output tokens</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Cost</Table.ColumnHeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {rows.map(row => (
+                <Table.Row key={row.key}>
+                  <Table.Cell>{row.name}</Table.Cell>
+                  <Table.Cell justify="end">{row.calls}</Table.Cell>
+                  <Table.Cell justify="end">{formatTokens(row.inputTokens)}</Table.Cell>
+                  <Table.Cell justify="end">{formatTokens(row.outputTokens)}</Table.Cell>
+                  <Table.Cell justify="end">{formatCost(row.costUsd)}</Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        )}
+      </Flex>
+    </Card>
+  )
+}
+
+export function AiUsageDashboard({ organizationId, organizations }: AiUsageDashboardProps) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const now = new Date()
+  const [from, setFrom] = useState(toDateInput(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))))
+  const [to, setTo] = useState(toDateInput(now))
+  const [budgetScope, setBudgetScope] = useState<string>(GLOBAL)
+  const [budgetLimit, setBudgetLimit] = useState('')
+  const [savingBudget, setSavingBudget] = useState(false)
+  const [cache, setCache] = useState<CacheStats | null>(null)
+
+  useEffect(() => {
+    fetchUsage()
+  }, [organizationId])
+
+  useEffect(() => {
+    fetchCache()
+  }, [])
+
+  useEffect(() => {
+    if (organizationId && organizationId !== 'all') setBudgetScope(organizationId)
+  }, [organizationId])
+
+  const fetchUsage = async () => {
+    try {
+      setLoading(true)
+      // "to" is inclusive in the form, exclusive in the API
+      const params = new URLSearchParams({ from, to: toDateInput(new Date(new Date(to).getTime() + 24 * 60 * 60 * 1000)) })
+      if (organizationId && organizationId !== 'all') {
+        params.set('organizationId', organizationId)
+      }
+
+      const response = await fetch(`/api/admin/ai-usage?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setUsage(data)
+      } else {
+        alert(`Failed to load AI usage: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('AI usage fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveBudget = async () => {
+    setSavingBudget(true)
+    try {
+      const response = await fetch('/api/admin/ai-usage', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organizationId: budgetScope === GLOBAL ? null : budgetScope,
+          monthlyLimitUsd: budgetLimit
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setBudgetLimit('')
+        await fetchUsage()
+      } else {
+        alert(`Failed to save budget: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Budget save error:', error)
+      alert('Failed to save budget')
+    } finally {
+      setSavingBudget(false)
+    }
+  }
+
+  const deleteBudget = async (budget: Budget) => {
+    if (!confirm(`Remove the ${budget.organizationName || 'global'} AI budget?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/ai-usage?id=${budget.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        await fetchUsage()
+      } else {
+        alert(`Failed to remove budget: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Budget delete error:', error)
+      alert('Failed to remove budget')
+    }
+  }
+
+  const fetchCache = async () => {
+    try {
+      const response = await fetch('/api/admin/llm-cache')
+      const data = await response.json()
+
+      if (data.success) {
+        setCache(data)
+      }
+    } catch (error) {
+      console.error('LLM cache fetch error:', error)
+    }
+  }
+
+  const clearCache = async (params: Record<string, string>, label: string) => {
+    if (!confirm(`Clear ${label} from the AI response cache?`)) return
+
+    try {
+      const response = await fetch(`/api/admin/llm-cache?${new URLSearchParams(params)}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        await fetchCache()
+      } else {
+        alert(`Failed to clear cache: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('LLM cache clear error:', error)
+      alert('Failed to clear cache')
+    }
+  }
+
+  return (
+    <Flex direction="column" gap="4">
+      <Card>
+        <Flex align="center" gap="3" wrap="wrap">
+          <Text weight="medium">AI usage from</Text>
+          <TextField.Root type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Text size="2" color="gray">to</Text>
+          <TextField.Root type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          <Button size="2" variant="soft" onClick={() => { fetchUsage(); fetchCache() }} disabled={loading}>
+            <ArrowClockwise size={16} />
+            Refresh
+          </Button>
+        </Flex>
+      </Card>
+
+      {loading && !usage ? (
+        <Flex justify="center" align="center" style={{ minHeight: '200px' }}>
+          <Spinner size="3" />
+        </Flex>
+      ) : usage && (
+        <>
+          <Flex gap="4" wrap="wrap">
+            {[
+              { label: 'Estimated cost', value: formatCost(usage.totals.costUsd) },
+              { label: 'Calls', value: String(usage.totals.calls) },
+              { label: 'Input tokens', value: formatTokens(usage.totals.inputTokens) },
+              { label: 'Output tokens', value: formatTokens(usage.totals.outputTokens) },
+              { label: 'Failed calls', value: String(usage.totals.failedCalls) }
+            ].map(stat => (
+              <Card key={stat.label} style={{ minWidth: '160px' }}>
+                <Text as="div" size="2" color="gray">{stat.label}</Text>
+                <Text as="div" size="6" weight="bold">{stat.value}</Text>
+              </Card>
+            ))}
+          </Flex>
+
+          <Card>
+            <Flex direction="column" gap="3">
+              <Text weight="medium">Monthly budgets</Text>
+              <Text size="2" color="gray">
+                Once this month&apos;s spend reaches a budget, AI calls for its scope stop and running jobs pause.
+              </Text>
+              {usage.budgets.length > 0 && (
+                <Table.Root size="1">
+                  <Table.Header>
+                    <Table.Row>
+                      <Table.ColumnHeaderCell>Scope</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell justify="end">Spent this month</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell justify="end">Limit</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell />
+                    </Table.Row>
+                  </Table.Header>
+                  <Table.Body>
+                    {usage.budgets.map(budget => (
+                      <Table.Row key={budget.id}>
+                        <Table.Cell>{budget.organizationName || 'All organizations'}</Table.Cell>
+                        <Table.Cell justify="end">{formatCost(budget.spentUsd)}</Table.Cell>
+                        <Table.Cell justify="end">{formatCost(budget.limitUsd)}</Table.Cell>
+                        <Table.Cell>
+                          <Badge variant="soft" color={budget.exceeded ? 'red' : budget.spentUsd >= budget.limitUsd * 0.8 ? 'orange' : 'green'}>
+                            {budget.exceeded ? 'Paused' : `${budget.limitUsd > 0 ? Math.round(budget.spentUsd / budget.limitUsd * 100) : 0}% used`}
+                          </Badge>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <IconButton size="1" variant="ghost" color="red" onClick={() => deleteBudget(budget)}>
+                            <Trash size={14} />
+                          </IconButton>
+                        </Table.Cell>
+                      </Table.Row>
+                    ))}
+                  </Table.Body>
+                </Table.Root>
+              )}
+              <Flex align="center" gap="3" wrap="wrap">
+                <Select.Root value={budgetScope} onValueChange={setBudgetScope}>
+                  <Select.Trigger style={{ width: '240px' }} />
+                  <Select.Content>
+                    <Select.Item value={GLOBAL}>All organizations</Select.Item>
+                    {organizations.map(org => (
+                      <Select.Item key={org.id} value={org.id}>{org.name}</Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Root>
+                <TextField.Root
+                  type="number"
+                  placeholder="USD per month"
+                  value={budgetLimit}
+                  onChange={(e) => setBudgetLimit(e.target.value)}
+                  style={{ width: '140px' }}
+                />
+                <Button size="2" onClick={saveBudget} loading={savingBudget} disabled={savingBudget || budgetLimit === ''}>
+                  Set budget
+                </Button>
+              </Flex>
+            </Flex>
+          </Card>
+
+          {cache && (
+            <Card>
+              <Flex direction="column" gap="3">
+                <Flex align="center" justify="between" gap="3" wrap="wrap">
+                  <Text weight="medium">Response cache</Text>
+                  <Flex gap="2">
+                    <Button size="1" variant="soft" onClick={() => clearCache({ expired: 'true' }, 'expired entries')}>
+                      Clear expired
+                    </Button>
+                    <Button size="1" variant="soft" color="red" onClick={() => clearCache({ all: 'true' }, 'all entries')}>
+                      Clear all
+                    </Button>
+                  </Flex>
+                </Flex>
+                <Text size="2" color="gray">
+                  {cache.enabled
+                    ? `Sentiment and validation outputs are reused for identical content ${cache.ttlHours > 0 ? `for ${cache.ttlHours} hours` : 'until cleared'}. Cache hits cost nothing and don't count toward budgets.`
+                    : 'The response cache is disabled (LLM_CACHE=off).'}
+                </Text>
+                {cache.entries.length > 0 && (
+                  <Table.Root size="1">
+                    <Table.Header>
+                      <Table.Row>
+                        <Table.ColumnHeaderCell>Prompt</Table.ColumnHeaderCell>
+                        <Table.ColumnHeaderCell>Model</Table.ColumnHeaderCell>
+                        <Table.ColumnHeaderCell justify="end">Entries</Table.ColumnHeaderCell>
+                        <Table.ColumnHeaderCell justify="end">Expired</Table.ColumnHeaderCell>
+                        <Table.ColumnHeaderCell justify="end">Hits</Table.ColumnHeaderCell>
+                        <Table.ColumnHeaderCell>Last hit</Table.ColumnHeaderCell>
+                        <Table.ColumnHeaderCell />
+                      </Table.Row>
+                    </Table.Header>
+                    <Table.Body>
+                      {cache.entries.map(row => (
+                        <Table.Row key={`${row.promptVersion}/${row.model}`}>
+                          <Table.Cell>{row.promptVersion}</Table.Cell>
+                          <Table.Cell>{row.model}</Table.Cell>
+                          <Table.Cell justify="end">{row.entries}</Table.Cell>
+                          <Table.Cell justify="end">{row.expired}</Table.Cell>
+                          <Table.Cell justify="end">{row.hits}</Table.Cell>
+                          <Table.Cell>{row.lastHitAt ? new Date(row.lastHitAt).toLocaleString() : '—'}</Table.Cell>
+                          <Table.Cell>
+                            <IconButton
+                              size="1"
+                              variant="ghost"
+                              color="red"
+                              onClick={() => clearCache({ promptVersion: row.promptVersion, model: row.model }, `${row.promptVersion} (${row.model})`)}
+                            >
+                              <Trash size={14} />
+                            </IconButton>
+                          </Table.Cell>
+                        </Table.Row>
+                      ))}
+                    </Table.Body>
+                  </Table.Root>
+                )}
+              </Flex>
+            </Card>
+          )}
+
+          {(!organizationId || organizationId === 'all') && (
+            <UsageTable
+              title="By organization"
+              label="Organization"
+              rows={usage.byOrganization.map(row => ({ ...row, key: row.organizationId || 'none', name: row.organizationName }))}
+            />
+          )}
+          <UsageTable
+            title="By task"
+            label="Task"
+            rows={usage.byTask.map(row => ({ ...row, key: row.task, name: row.task }))}
+          />
+          <UsageTable
+            title="By model"
+            label="Model"
+            rows={usage.byModel.map(row => ({ ...row, key: `${row.provider}/${row.model}`, name: `${row.model} (${row.provider})` }))}
+          />
+          <UsageTable
+            title="By day"
+            label="Day"
+            rows={usage.byDay.map(row => ({ ...row, key: row.day, name: row.day }))}
+          />
+          <UsageTable
+            title="Most expensive discovery sessions"
+            label="Session"
+            rows={usage.topSessions.map(row => ({
+              ...row,
+              key: row.discoverySessionId,
+              name: `${row.organizationName || 'Unknown'} · ${row.createdAt ? new Date(row.createdAt).toLocaleString() : row.discoverySessionId}${row.trigger === 'scheduled' ? ' (scheduled)' : ''}`
+            }))}
+          />
+          <UsageTable
+            title="Most expensive articles"
+            label="Article"
+            rows={usage.topArticles.map(row => ({
+              ...row,
+              key: row.articleId,
+              name: (
+                <Flex direction="column">
+                  <Text size="2">{row.title || row.articleId}</Text>
+                  {row.organizationName && <Text size="1" color="gray">{row.organizationName}</Text>}
+                </Flex>
+              )
+            }))}
+          />
+        </>
+      )}
+    </Flex>
+  )
+}
@@ -0,0 +1,218 @@
+'use client'
+
+import { useState } from 'react'
+import { Flex, Text, Button, Dialog, TextArea, Checkbox, Spinner, Select } from '@radix-ui/themes'
+import { SlidersHorizontal } from '@phosphor-icons/react/dist/ssr'
+
+const CONTENT_TYPE_LABELS: Record<string, string> = {
+  news: 'News',
+  blog: 'Blog / stories',
+  press_release: 'Press releases',
+  podcast: 'Podcasts',
+  event: 'Events'
+}
+
+interface ProfileForm {
+  altNames: string
+  seedUrls: string
+  allowedDomains: string
+  blockedDomains: string
+  includeUrlPatterns: string
+  excludeUrlPatterns: string
+  preferredContentTypes: string[]
+  extractionEngine: string  // 'auto' stands for null (Firecrawl with local fallback)
+}
+
+const EMPTY_FORM: ProfileForm = {
+  altNames: '',
+  seedUrls: '',
+  allowedDomains: '',
+  blockedDomains: '',
+  includeUrlPatterns: '',
+  excludeUrlPatterns: '',
+  preferredContentTypes: [],
+  extractionEngine: 'auto'
+}
+
+interface DiscoveryProfileDialogProps {
+  organizationId: string
+  organizationName: string
+}
+
+// One entry per line in the text areas
+const toLines = (values: string[] = []) => values.join('\n')
+const fromLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean)
+
+export function DiscoveryProfileDialog({ organizationId, organizationName }: DiscoveryProfileDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState<ProfileForm>(EMPTY_FORM)
+
+  const loadProfile = async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/organizations/discovery-profile?organizationId=${organizationId}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setForm({
+          altNames: toLines(data.altNames),
+          seedUrls: toLines(data.profile.seedUrls),
+          allowedDomains: toLines(data.profile.allowedDomains),
+          blockedDomains: toLines(data.profile.blockedDomains),
+          includeUrlPatterns: toLines(data.profile.includeUrlPatterns),
+          excludeUrlPatterns: toLines(data.profile.excludeUrlPatterns),
+          preferredContentTypes: data.profile.preferredContentTypes,
+          extractionEngine: data.extractionEngine || 'auto'
+        })
+      } else {
+        alert(`Failed to load discovery profile: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Discovery profile fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveProfile = async () => {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/organizations/discovery-profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          organizationId,
+          altNames: fromLines(form.altNames),
+          seedUrls: fromLines(form.seedUrls),
+          allowedDomains: fromLines(form.allowedDomains),
+          blockedDomains: fromLines(form.blockedDomains),
+          includeUrlPatterns: fromLines(form.includeUrlPatterns),
+          excludeUrlPatterns: fromLines(form.excludeUrlPatterns),
+          preferredContentTypes: form.preferredContentTypes,
+          extractionEngine: form.extractionEngine === 'auto' ? null : form.extractionEngine
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setOpen(false)
+      } else {
+        alert(`Failed to save discovery profile: ${data.details || data.error}`)
+      }
+    } catch (error) {
+      alert('Failed to save discovery profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const toggleContentType = (type: string, checked: boolean) => {
+    setForm(prev => ({
+      ...prev,
+      preferredContentTypes: checked
+        ? [...prev.preferredContentTypes, type]
+        : prev.preferredContentTypes.filter(t => t !== type)
+    }))
+  }
+
+  const renderField = (field: Exclude<keyof ProfileForm, 'preferredContentTypes' | 'extractionEngine'>, label: string, hint: string, placeholder: string) => (
+    <Flex direction="column" gap="1">
+      <Text size="2" weight="medium">{label}</Text>
+      <Text size="1" color="gray">{hint}</Text>
+      <TextArea
+        value={form[field]}
+        onChange={(e) => setForm(prev => ({ ...prev, [field]: e.target.value }))}
+        placeholder={placeholder}
+        rows={3}
+        resize="vertical"
+        style={{ fontFamily: 'monospace', fontSize: '13px' }}
+      />
+    </Flex>
+  )
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen)
+        if (isOpen) loadProfile()
+      }}
+    >
+      <Dialog.Trigger>
+        <Button variant="soft" color="gray">
+          <SlidersHorizontal size={16} />
+          Discovery profile
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content style={{ maxWidth: 640, maxHeight: '90vh', overflow: 'auto' }}>
+        <Dialog.Title>Discovery profile</Dialog.Title>
+        <Dialog.Description size="2" color="gray" mb="4">
+          How discovery finds and filters URLs for {organizationName}. One entry per line.
+        </Dialog.Description>
+
+        {loading ? (
+          <Flex justify="center" align="center" style={{ minHeight: '200px' }}>
+            <Spinner size="3" />
+          </Flex>
+        ) : (
+          <Flex direction="column" gap="4">
+            {renderField('altNames', 'Aliases', 'Other names and acronyms used in coverage, for search and relevance.', 'IJM')}
+            {renderField('seedUrls', 'Seed URLs', 'Extra listing pages crawled alongside the news page. Search and bulk discovery add the article links found on them.', 'https://example.org/stories')}
+            {renderField('allowedDomains', 'Allowed domains', 'When set, only URLs on these domains (and subdomains) are kept.', 'example.org')}
+            {renderField('blockedDomains', 'Blocked domains', 'URLs on these domains (and subdomains) are always dropped.', 'facebook.com')}
+            {renderField('includeUrlPatterns', 'Include URL patterns', 'Regexes on path and query. When set, a URL must match one.', '^/(news|stories)/')}
+            {renderField('excludeUrlPatterns', 'Exclude URL patterns', 'Regexes on path and query. Matching URLs are dropped.', '/(tag|category|page)/')}
+
+            <Flex direction="column" gap="1">
+              <Text size="2" weight="medium">Preferred content types</Text>
+              <Text size="1" color="gray">URLs that look like these are listed first.</Text>
+              <Flex gap="4" wrap="wrap" mt="1">
+                {Object.entries(CONTENT_TYPE_LABELS).map(([type, label]) => (
+                  <Text as="label" size="2" key={type}>
+                    <Flex gap="1" align="center">
+                      <Checkbox
+                        checked={form.preferredContentTypes.includes(type)}
+                        onCheckedChange={(checked) => toggleContentType(type, checked === true)}
+                      />
+                      {label}
+                    </Flex>
+                  </Text>
+                ))}
+              </Flex>
+            </Flex>
+
+            <Flex direction="column" gap="1">
+              <Text size="2" weight="medium">Article extraction</Text>
+              <Text size="1" color="gray">How article pages are turned into title, body and metadata when scraping.</Text>
+              <Select.Root
+                value={form.extractionEngine}
+                onValueChange={(value) => setForm(prev => ({ ...prev, extractionEngine: value }))}
+              >
+                <Select.Trigger />
+                <Select.Content>
+                  <Select.Item value="auto">Firecrawl, local fallback</Select.Item>
+                  <Select.Item value="firecrawl">Firecrawl only</Select.Item>
+                  <Select.Item value="local">Local only (no Firecrawl)</Select.Item>
+                </Select.Content>
+              </Select.Root>
+            </Flex>
+
+            <Flex gap="3" justify="end" mt="4">
+              <Dialog.Close>
+                <Button variant="soft" color="gray" disabled={saving}>
+                  Cancel
+                </Button>
+              </Dialog.Close>
+              <Button onClick={saveProfile} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Profile'}
+              </Button>
+            </Flex>
+          </Flex>
+        )}
+      </Dialog.Content>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,273 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Flex, Text, Button, Card, Badge, Spinner, Table, Select } from '@radix-ui/themes'
+import { ArrowsMerge, MagnifyingGlass, X } from '@phosphor-icons/react/dist/ssr'
+
+interface ClusterArticle {
+  id: string
+  title: string
+  url: string
+  status: string
+  publishedAt: string | null
+  createdAt: string
+  summary: string | null
+  organization: {
+    id: string
+    name: string
+  }
+}
+
+interface DuplicateGroup {
+  id: string
+  canonicalArticleId: string | null
+  method: 'exact' | 'near' | 'url'
+  similarity: number
+  status: 'open' | 'merged' | 'dismissed'
+  updatedAt: string
+  articles: ClusterArticle[]
+}
+
+interface DuplicateClustersProps {
+  organizationId: string
+  onChanged?: () => void
+}
+
+export function DuplicateClusters({ organizationId, onChanged }: DuplicateClustersProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<string>('open')
+  const [scanning, setScanning] = useState(false)
+  const [actingGroupId, setActingGroupId] = useState<string | null>(null)
+  // Canonical choice per group, defaults to the group's current canonical article
+  const [canonicalChoice, setCanonicalChoice] = useState<Record<string, string>>({})
+
+  useEffect(() => {
+    fetchGroups()
+  }, [organizationId, statusFilter])
+
+  const fetchGroups = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ status: statusFilter })
+      if (organizationId && organizationId !== 'all') {
+        params.set('organizationId', organizationId)
+      }
+
+      const response = await fetch(`/api/admin/duplicates?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setGroups(data.groups)
+      } else {
+        alert(`Failed to load duplicate clusters: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Duplicate clusters fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runScan = async () => {
+    setScanning(true)
+    try {
+      const response = await fetch('/api/admin/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        alert(`Fingerprinted ${data.scanned} articles, ${data.grouped} matched an existing article.`)
+        await fetchGroups()
+      } else {
+        alert(`Scan failed: ${data.details || data.error}`)
+      }
+    } catch (error) {
+      alert('Scan failed')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const updateGroup = async (group: DuplicateGroup, action: 'merge' | 'dismiss') => {
+    const canonicalArticleId = canonicalChoice[group.id] || group.canonicalArticleId || group.articles[0]?.id
+
+    if (action === 'merge') {
+      const canonical = group.articles.find(a => a.id === canonicalArticleId)
+      const confirmed = confirm(`Keep "${canonical?.title}" and reject the other ${group.articles.length - 1} article(s)?`)
+      if (!confirmed) return
+    }
+
+    setActingGroupId(group.id)
+    try {
+      const response = await fetch('/api/admin/duplicates', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ groupId: group.id, action, canonicalArticleId })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        await fetchGroups()
+        onChanged?.()
+      } else {
+        alert(`Failed to ${action} cluster: ${data.details || data.error}`)
+      }
+    } catch (error) {
+      alert(`Failed to ${action} cluster`)
+    } finally {
+      setActingGroupId(null)
+    }
+  }
+
+  const formatDate = (date: string | null) => {
+    if (!date) return '-'
+    return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })
+  }
+
+  const getRootDomain = (url: string) => {
+    try {
+      return new URL(url).hostname.replace(/^www\./, '')
+    } catch {
+      return url
+    }
+  }
+
+  return (
+    <Flex direction="column" gap="4">
+      <Card>
+        <Flex align="center" justify="between">
+          <Flex align="center" gap="3">
+            <Text weight="medium">Duplicate clusters:</Text>
+            <Select.Root value={statusFilter} onValueChange={setStatusFilter}>
+              <Select.Trigger style={{ width: '160px' }} />
+              <Select.Content>
+                <Select.Item value="open">Needs review</Select.Item>
+                <Select.Item value="merged">Merged</Select.Item>
+                <Select.Item value="dismissed">Dismissed</Select.Item>
+                <Select.Item value="all">All</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <Text size="2" color="gray">{groups.length} cluster{groups.length !== 1 ? 's' : ''}</Text>
+          </Flex>
+          <Button size="2" variant="soft" onClick={runScan} loading={scanning} disabled={scanning}>
+            <MagnifyingGlass size={16} />
+            Scan unfingerprinted articles
+          </Button>
+        </Flex>
+      </Card>
+
+      {loading ? (
+        <Flex justify="center" align="center" style={{ minHeight: '200px' }}>
+          <Spinner size="3" />
+        </Flex>
+      ) : groups.length === 0 ? (
+        <Card style={{ padding: '48px', textAlign: 'center' }}>
+          <Text size="4" color="gray">No duplicate clusters found.</Text>
+        </Card>
+      ) : (
+        groups.map(group => {
+          const selectedCanonical = canonicalChoice[group.id] || group.canonicalArticleId || group.articles[0]?.id
+
+          return (
+            <Card key={group.id}>
+              <Flex direction="column" gap="3">
+                <Flex align="center" justify="between">
+                  <Flex align="center" gap="2">
+                    <Badge color={group.method === 'near' ? 'orange' : 'red'}>
+                      {group.method === 'exact' ? 'Exact copy' : group.method === 'url' ? 'Same URL' : `Near duplicate · ${Math.round(group.similarity * 100)}%`}
+                    </Badge>
+                    <Badge variant="soft" color={group.status === 'open' ? 'blue' : 'gray'}>{group.status}</Badge>
+                    <Text size="2" color="gray">{group.articles.length} articles</Text>
+                  </Flex>
+                  {group.status === 'open' && (
+                    <Flex gap="2">
+                      <Button
+                        size="1"
+                        color="green"
+                        onClick={() => updateGroup(group, 'merge')}
+                        disabled={actingGroupId === group.id}
+                        loading={actingGroupId === group.id}
+                      >
+                        <ArrowsMerge size={14} />
+                        Merge into selected
+                      </Button>
+                      <Button
+                        size="1"
+                        variant="soft"
+                        color="gray"
+                        onClick={() => updateGroup(group, 'dismiss')}
+                        disabled={actingGroupId === group.id}
+                      >
+                        <X size={14} />
+                        Not duplicates
+                      </Button>
+                    </Flex>
+                  )}
+                </Flex>
+
+                <Table.Root size="1">
+                  <Table.Header>
+                    <Table.Row>
+                      <Table.ColumnHeaderCell>Keep</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Title</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Source</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Organization</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Published</Table.ColumnHeaderCell>
+                      <Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+                    </Table.Row>
+                  </Table.Header>
+                  <Table.Body>
+                    {group.articles.map(article => (
+                      <Table.Row key={article.id}>
+                        <Table.Cell>
+                          <input
+                            type="radio"
+                            name={`canonical-${group.id}`}
+                            checked={selectedCanonical === article.id}
+                            onChange={() => setCanonicalChoice(prev => ({ ...prev, [group.id]: article.id }))}
+                            disabled={group.status !== 'open'}
+                          />
+                        </Table.Cell>
+                        <Table.Cell style={{ maxWidth: '360px' }}>
+                          <Text size="2" weight={article.id === group.canonicalArticleId ? 'bold' : 'regular'}>
+                            {article.title}
+                          </Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Text
+                            size="2"
+                            color="blue"
+                            style={{ cursor: 'pointer', textDecoration: 'underline' }}
+                            title={article.url}
+                            onClick={() => window.open(article.url, '_blank')}
+                          >
+                            {getRootDomain(article.url)}
+                          </Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Text size="2" color="gray">{article.organization.name}</Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Text size="2" color="gray">{formatDate(article.publishedAt)}</Text>
+                        </Table.Cell>
+                        <Table.Cell>
+                          <Badge variant="soft" color={article.status === 'published' ? 'green' : article.status === 'rejected' ? 'red' : 'blue'}>
+                            {article.status}
+                          </Badge>
+                        </Table.Cell>
+                      </Table.Row>
+                    ))}
+                  </Table.Body>
+                </Table.Root>
+              </Flex>
+            </Card>
+          )
+        })
+      )}
+    </Flex>
+  )
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Flex, Text, Button, Card, Badge, Spinner, Table, TextField } from '@radix-ui/themes'
+import { ArrowClockwise } from '@phosphor-icons/react/dist/ssr'
+
+interface PrecisionBucket {
+  key: string
+  label: string
+  accepted: number
+  rejected: number
+  precision: number | null
+}
+
+interface PrecisionReport {
+  target: number
+  overall: { accepted: number, rejected: number, precision: number | null }
+  byOrganization: PrecisionBucket[]
+  bySource: PrecisionBucket[]
+  bySignal: Record<string, PrecisionBucket[]>
+  rejectReasons: Array<{ reason: string, label: string, count: number }>
+}
+
+interface EditorialPrecisionProps {
+  organizationId: string
+}
+
+const SIGNAL_TITLES: Record<string, string> = {
+  organizationSentiment: 'Organization sentiment',
+  organizationRelevance: 'Organization relevance',
+  contentType: 'Content type',
+  inspirationRating: 'Inspiration rating',
+  qualityBand: 'Quality score'
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10)
+
+const formatPrecision = (precision: number | null) => precision === null ? '—' : `${Math.round(precision * 100)}%`
+
+function PrecisionBadge({ precision, target }: { precision: number | null, target: number }) {
+  if (precision === null) return <Text size="2" color="gray">—</Text>
+  return (
+    <Badge color={precision >= target ? 'green' : precision >= target - 0.2 ? 'orange' : 'red'} variant="soft">
+      {formatPrecision(precision)}
+    </Badge>
+  )
+}
+
+function PrecisionTable({ title, label, rows, target }: { title: string, label: string, rows: PrecisionBucket[], target: number }) {
+  return (
+    <Card style={{ flex: '1 1 360px' }}>
+      <Flex direction="column" gap="2">
+        <Text weight="medium">{title}</Text>
+        {rows.length === 0 ? (
+          <Text size="2" color="gray">No reviewed articles.</Text>
+        ) : (
+          <Table.Root size="1">
+            <Table.Header>
+              <Table.Row>
+                <Table.ColumnHeaderCell>{label}</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Accepted</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Rejected</Table.ColumnHeaderCell>
+                <Table.ColumnHeaderCell justify="end">Precision</Table.ColumnHeaderCell>
+              </Table.Row>
+            </Table.Header>
+            <Table.Body>
+              {rows.map(row => (
+                <Table.Row key={row.key}>
+                  <Table.Cell>{row.label}</Table.Cell>
+                  <Table.Cell justify="end">{row.accepted}</Table.Cell>
+                  <Table.Cell justify="end">{row.rejected}</Table.Cell>
+                  <Table.Cell justify="end"><PrecisionBadge precision={row.precision} target={target} /></Table.Cell>
+                </Table.Row>
+              ))}
+            </Table.Body>
+          </Table.Root>
+        )}
+      </Flex>
+    </Card>
+  )
+}
+
+export function EditorialPrecision({ organizationId }: EditorialPrecisionProps) {
+  const [report, setReport] = useState<PrecisionReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const now = new Date()
+  const [from, setFrom] = useState(toDateInput(new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000)))
+
+  useEffect(() => {
+    fetchReport()
+  }, [organizationId])
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams()
+      if (from) params.set('from', from)
+      if (organizationId && organizationId !== 'all') {
+        params.set('organizationId', organizationId)
+      }
+
+      const response = await fetch(`/api/admin/editorial-feedback?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setReport(data)
+      } else {
+        alert(`Failed to load editorial precision: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Editorial precision fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Flex direction="column" gap="4">
+      <Card>
+        <Flex align="center" gap="3" wrap="wrap">
+          <Text weight="medium">Editor decisions since</Text>
+          <TextField.Root type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Button size="2" variant="soft" onClick={fetchReport} disabled={loading}>
+            <ArrowClockwise size={16} />
+            Refresh
+          </Button>
+          <Text size="2" color="gray">
+            Precision is the share of reviewed articles editors published rather than rejected.
+          </Text>
+        </Flex>
+      </Card>
+
+      {loading && !report ? (
+        <Flex justify="center" align="center" style={{ minHeight: '200px' }}>
+          <Spinner size="3" />
+        </Flex>
+      ) : report && (
+        <>
+          <Flex gap="4" wrap="wrap">
+            <Card style={{ minWidth: '160px' }}>
+              <Text as="div" size="2" color="gray">Precision</Text>
+              <Text as="div" size="6" weight="bold" color={report.overall.precision !== null && report.overall.precision < report.target ? 'red' : undefined}>
+                {formatPrecision(report.overall.precision)}
+              </Text>
+              <Text as="div" size="1" color="gray">target {formatPrecision(report.target)}</Text>
+            </Card>
+            <Card style={{ minWidth: '160px' }}>
+              <Text as="div" size="2" color="gray">Accepted</Text>
+              <Text as="div" size="6" weight="bold">{report.overall.accepted}</Text>
+            </Card>
+            <Card style={{ minWidth: '160px' }}>
+              <Text as="div" size="2" color="gray">Rejected</Text>
+              <Text as="div" size="6" weight="bold">{report.overall.rejected}</Text>
+            </Card>
+          </Flex>
+
+          {report.rejectReasons.length > 0 && (
+            <Card>
+              <Flex direction="column" gap="2">
+                <Text weight="medium">Reject reasons</Text>
+                <Flex gap="2" wrap="wrap">
+                  {report.rejectReasons.map(entry => (
+                    <Badge key={entry.reason} color="red" variant="soft">
+                      {entry.label}: {entry.count}
+                    </Badge>
+                  ))}
+                </Flex>
+              </Flex>
+            </Card>
+          )}
+
+          <Flex gap="4" wrap="wrap">
+            <PrecisionTable title="By organization" label="Organization" rows={report.byOrganization} target={report.target} />
+            <PrecisionTable title="By discovery source" label="Source" rows={report.bySource} target={report.target} />
+            {Object.entries(report.bySignal).map(([signal, rows]) => (
+              <PrecisionTable key={signal} title={`By ${(SIGNAL_TITLES[signal] || signal).toLowerCase()}`} label="Value" rows={rows} target={report.target} />
+            ))}
+          </Flex>
+        </>
+      )}
+    </Flex>
+  )
+}
@@ -0,0 +1,409 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Flex, Text, Button, Card, Badge, Spinner, Table, Select, Checkbox, TextField } from '@radix-ui/themes'
+import { ArrowClockwise, Check, Play, X } from '@phosphor-icons/react/dist/ssr'
+
+interface EnricherOption {
+  id: string
+  name: string
+  fields: string[]
+}
+
+interface ReenrichmentRun {
+  id: string
+  enrichers: string[]
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'paused'
+  totalArticles: number
+  processedArticles: number
+  changedArticles: number
+  errorCount: number
+  pendingChanges: number
+  createdAt: string
+}
+
+interface ReenrichmentChange {
+  id: string
+  articleId: string
+  articleTitle: string
+  articleUrl: string
+  organizationName: string
+  enricher: string
+  field: string
+  oldValue: any
+  newValue: any
+  reasoning: string | null
+  status: 'pending' | 'accepted' | 'rejected' | 'stale'
+}
+
+interface ReenrichmentReviewProps {
+  organizationId: string
+  onChanged?: () => void
+}
+
+const ANY = 'any'
+
+export function ReenrichmentReview({ organizationId, onChanged }: ReenrichmentReviewProps) {
+  const [enrichers, setEnrichers] = useState<EnricherOption[]>([])
+  const [missingFieldOptions, setMissingFieldOptions] = useState<string[]>([])
+  const [runs, setRuns] = useState<ReenrichmentRun[]>([])
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null)
+  const [changes, setChanges] = useState<ReenrichmentChange[]>([])
+  const [changeStatus, setChangeStatus] = useState<string>('pending')
+  const [selectedChangeIds, setSelectedChangeIds] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [loadingChanges, setLoadingChanges] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [reviewing, setReviewing] = useState(false)
+
+  // New run form
+  const [selectedEnrichers, setSelectedEnrichers] = useState<Set<string>>(new Set())
+  const [articleStatus, setArticleStatus] = useState<string>('published')
+  const [missingField, setMissingField] = useState<string>(ANY)
+  const [publishedAfter, setPublishedAfter] = useState('')
+  const [limit, setLimit] = useState('100')
+  const [concurrency, setConcurrency] = useState('3')
+
+  useEffect(() => {
+    fetchRuns()
+  }, [])
+
+  useEffect(() => {
+    if (selectedRunId) fetchChanges(selectedRunId)
+  }, [selectedRunId, changeStatus])
+
+  const fetchRuns = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/reenrichment')
+      const data = await response.json()
+
+      if (data.success) {
+        setEnrichers(data.enrichers)
+        setMissingFieldOptions(data.missingFieldOptions)
+        setRuns(data.runs)
+        if (!selectedRunId && data.runs.length > 0) setSelectedRunId(data.runs[0].id)
+      } else {
+        alert(`Failed to load re-enrichment runs: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Re-enrichment runs fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchChanges = async (runId: string) => {
+    try {
+      setLoadingChanges(true)
+      const response = await fetch(`/api/admin/reenrichment?${new URLSearchParams({ runId, status: changeStatus })}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setChanges(data.changes)
+        setSelectedChangeIds(new Set())
+      } else {
+        alert(`Failed to load changes: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Re-enrichment changes fetch error:', error)
+    } finally {
+      setLoadingChanges(false)
+    }
+  }
+
+  const buildRunRequest = (dryRun: boolean) => ({
+    dryRun,
+    enrichers: Array.from(selectedEnrichers),
+    concurrency: parseInt(concurrency) || 3,
+    filters: {
+      organizationId: organizationId !== 'all' ? organizationId : undefined,
+      status: articleStatus !== ANY ? [articleStatus] : undefined,
+      missingFields: missingField !== ANY ? [missingField] : undefined,
+      publishedAfter: publishedAfter || undefined,
+      limit: parseInt(limit) || undefined
+    }
+  })
+
+  const submitRun = async (dryRun: boolean) => {
+    if (selectedEnrichers.size === 0) {
+      alert('Select at least one enricher')
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      const response = await fetch('/api/admin/reenrichment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildRunRequest(dryRun))
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        alert(`Failed: ${data.details || data.error}`)
+      } else if (dryRun) {
+        alert(data.message)
+      } else {
+        setSelectedRunId(data.run.id)
+        await fetchRuns()
+      }
+    } catch (error) {
+      alert('Failed to start re-enrichment run')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const review = async (decision: 'accept' | 'reject', allPending: boolean) => {
+    if (!selectedRunId) return
+    const changeIds = allPending ? [] : Array.from(selectedChangeIds)
+    const runChanges = runs.find(run => run.id === selectedRunId)?.pendingChanges || 0
+    const count = allPending ? runChanges : changeIds.length
+    if (!confirm(`${decision === 'accept' ? 'Apply' : 'Discard'} ${count} change(s)?`)) return
+
+    setReviewing(true)
+    try {
+      const response = await fetch('/api/admin/reenrichment', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, changeIds, runId: selectedRunId })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        if (data.stale > 0) {
+          alert(`${data.stale} change(s) were skipped because the article was edited after the run.`)
+        }
+        await Promise.all([fetchRuns(), fetchChanges(selectedRunId)])
+        onChanged?.()
+      } else {
+        alert(`Failed to review changes: ${data.details || data.error}`)
+      }
+    } catch (error) {
+      alert('Failed to review changes')
+    } finally {
+      setReviewing(false)
+    }
+  }
+
+  const toggleSet = (set: Set<string>, value: string, checked: boolean) => {
+    const next = new Set(set)
+    if (checked) {
+      next.add(value)
+    } else {
+      next.delete(value)
+    }
+    return next
+  }
+
+  const formatValue = (value: any) => {
+    if (value === null || value === undefined) return '—'
+    if (Array.isArray(value)) return value.join('; ') || '—'
+    return String(value)
+  }
+
+  const selectedRun = runs.find(run => run.id === selectedRunId)
+  const pendingVisible = changes.filter(change => change.status === 'pending')
+
+  return (
+    <Flex direction="column" gap="4">
+      <Card>
+        <Flex direction="column" gap="3">
+          <Flex align="center" gap="4" wrap="wrap">
+            <Text weight="medium">Re-run enrichers:</Text>
+            {enrichers.map(enricher => (
+              <Text as="label" size="2" key={enricher.id} title={`Updates ${enricher.fields.join(', ')}`}>
+                <Flex gap="2" align="center">
+                  <Checkbox
+                    checked={selectedEnrichers.has(enricher.id)}
+                    onCheckedChange={(checked) => setSelectedEnrichers(toggleSet(selectedEnrichers, enricher.id, !!checked))}
+                  />
+                  {enricher.name}
+                </Flex>
+              </Text>
+            ))}
+          </Flex>
+
+          <Flex align="center" gap="3" wrap="wrap">
+            <Select.Root value={articleStatus} onValueChange={setArticleStatus}>
+              <Select.Trigger style={{ width: '150px' }} />
+              <Select.Content>
+                <Select.Item value={ANY}>Any status</Select.Item>
+                <Select.Item value="published">Published</Select.Item>
+                <Select.Item value="draft">Draft</Select.Item>
+                <Select.Item value="rejected">Rejected</Select.Item>
+              </Select.Content>
+            </Select.Root>
+            <Select.Root value={missingField} onValueChange={setMissingField}>
+              <Select.Trigger style={{ width: '200px' }} />
+              <Select.Content>
+                <Select.Item value={ANY}>With or without values</Select.Item>
+                {missingFieldOptions.map(field => (
+                  <Select.Item key={field} value={field}>Missing {field}</Select.Item>
+                ))}
+              </Select.Content>
+            </Select.Root>
+            <Text size="2" color="gray">Published after</Text>
+            <TextField.Root type="date" value={publishedAfter} onChange={(e) => setPublishedAfter(e.target.value)} />
+            <Text size="2" color="gray">Limit</Text>
+            <TextField.Root type="number" value={limit} onChange={(e) => setLimit(e.target.value)} style={{ width: '80px' }} />
+            <Text size="2" color="gray">Concurrency</Text>
+            <TextField.Root type="number" value={concurrency} onChange={(e) => setConcurrency(e.target.value)} style={{ width: '60px' }} />
+            <Button size="2" variant="soft" onClick={() => submitRun(true)} disabled={submitting}>
+              Count articles
+            </Button>
+            <Button size="2" onClick={() => submitRun(false)} loading={submitting} disabled={submitting}>
+              <Play size={16} />
+              Start run
+            </Button>
+          </Flex>
+        </Flex>
+      </Card>
+
+      {loading ? (
+        <Flex justify="center" align="center" style={{ minHeight: '200px' }}>
+          <Spinner size="3" />
+        </Flex>
+      ) : runs.length === 0 ? (
+        <Card style={{ padding: '48px', textAlign: 'center' }}>
+          <Text size="4" color="gray">No re-enrichment runs yet.</Text>
+        </Card>
+      ) : (
+        <Card>
+          <Flex direction="column" gap="3">
+            <Flex align="center" justify="between" wrap="wrap" gap="3">
+              <Flex align="center" gap="3">
+                <Text weight="medium">Run:</Text>
+                <Select.Root value={selectedRunId || undefined} onValueChange={setSelectedRunId}>
+                  <Select.Trigger style={{ width: '360px' }} />
+                  <Select.Content>
+                    {runs.map(run => (
+                      <Select.Item key={run.id} value={run.id}>
+                        {new Date(run.createdAt).toLocaleString()} · {run.enrichers.join(', ')} · {run.pendingChanges} pending
+                      </Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Root>
+                {selectedRun && (
+                  <>
+                    <Badge variant="soft" color={selectedRun.status === 'completed' ? 'green' : selectedRun.status === 'failed' ? 'red' : selectedRun.status === 'paused' ? 'orange' : 'blue'}>
+                      {selectedRun.status}
+                    </Badge>
+                    <Text size="2" color="gray">
+                      {selectedRun.processedArticles}/{selectedRun.totalArticles} articles · {selectedRun.changedArticles} changed
+                      {selectedRun.errorCount > 0 ? ` · ${selectedRun.errorCount} errors` : ''}
+                    </Text>
+                  </>
+                )}
+                <Button size="1" variant="ghost" onClick={() => { fetchRuns(); if (selectedRunId) fetchChanges(selectedRunId) }}>
+                  <ArrowClockwise size={14} />
+                </Button>
+              </Flex>
+              <Select.Root value={changeStatus} onValueChange={setChangeStatus}>
+                <Select.Trigger style={{ width: '140px' }} />
+                <Select.Content>
+                  <Select.Item value="pending">Pending</Select.Item>
+                  <Select.Item value="accepted">Accepted</Select.Item>
+                  <Select.Item value="rejected">Rejected</Select.Item>
+                  <Select.Item value="stale">Stale</Select.Item>
+                  <Select.Item value="all">All</Select.Item>
+                </Select.Content>
+              </Select.Root>
+            </Flex>
+
+            {(selectedRun?.pendingChanges || 0) > 0 && (
+              <Flex gap="2" wrap="wrap">
+                <Button size="1" color="green" onClick={() => review('accept', false)} disabled={reviewing || selectedChangeIds.size === 0}>
+                  <Check size={14} />
+                  Accept selected ({selectedChangeIds.size})
+                </Button>
+                <Button size="1" color="red" variant="soft" onClick={() => review('reject', false)} disabled={reviewing || selectedChangeIds.size === 0}>
+                  <X size={14} />
+                  Reject selected
+                </Button>
+                <Button size="1" color="green" variant="soft" onClick={() => review('accept', true)} disabled={reviewing}>
+                  Accept all pending
+                </Button>
+                <Button size="1" color="gray" variant="soft" onClick={() => review('reject', true)} disabled={reviewing}>
+                  Reject all pending
+                </Button>
+              </Flex>
+            )}
+
+            {loadingChanges ? (
+              <Flex justify="center" style={{ padding: '24px' }}>
+                <Spinner size="2" />
+              </Flex>
+            ) : changes.length === 0 ? (
+              <Text size="2" color="gray">No {changeStatus !== 'all' ? changeStatus : ''} changes for this run.</Text>
+            ) : (
+              <Table.Root size="1">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeaderCell>
+                      <Checkbox
+                        checked={pendingVisible.length > 0 && selectedChangeIds.size === pendingVisible.length}
+                        onCheckedChange={(checked) => setSelectedChangeIds(checked ? new Set(pendingVisible.map(change => change.id)) : new Set())}
+                        disabled={pendingVisible.length === 0}
+                      />
+                    </Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Article</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Field</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Current</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Proposed</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Reasoning</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Status</Table.ColumnHeaderCell>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {changes.map(change => (
+                    <Table.Row key={change.id}>
+                      <Table.Cell>
+                        <Checkbox
+                          checked={selectedChangeIds.has(change.id)}
+                          onCheckedChange={(checked) => setSelectedChangeIds(toggleSet(selectedChangeIds, change.id, !!checked))}
+                          disabled={change.status !== 'pending'}
+                        />
+                      </Table.Cell>
+                      <Table.Cell style={{ maxWidth: '280px' }}>
+                        <Text
+                          size="2"
+                          style={{ cursor: 'pointer' }}
+                          title={change.articleUrl}
+                          onClick={() => window.open(change.articleUrl, '_blank')}
+                        >
+                          {change.articleTitle}
+                        </Text>
+                        <Text as="div" size="1" color="gray">{change.organizationName}</Text>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Badge variant="outline" color="gray">{change.field}</Badge>
+                      </Table.Cell>
+                      <Table.Cell style={{ maxWidth: '200px' }}>
+                        <Text size="2" color="gray">{formatValue(change.oldValue)}</Text>
+                      </Table.Cell>
+                      <Table.Cell style={{ maxWidth: '200px' }}>
+                        <Text size="2" weight="medium">{formatValue(change.newValue)}</Text>
+                      </Table.Cell>
+                      <Table.Cell style={{ maxWidth: '320px' }}>
+                        <Text size="1" color="gray" title={change.reasoning || ''}>
+                          {change.reasoning ? `${change.reasoning.substring(0, 140)}${change.reasoning.length > 140 ? '...' : ''}` : '-'}
+                        </Text>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Badge variant="soft" color={change.status === 'accepted' ? 'green' : change.status === 'rejected' ? 'red' : change.status === 'stale' ? 'gray' : 'blue'}>
+                          {change.status}
+                        </Badge>
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+          </Flex>
+        </Card>
+      )}
+    </Flex>
+  )
+}
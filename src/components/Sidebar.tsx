@@ -1,6 +1,7 @@
 import { Flex, Text, Link, Box } from "@radix-ui/themes";
 import { FileText } from "@phosphor-icons/react/dist/ssr/FileText";
 import { Building } from "@phosphor-icons/react/dist/ssr/Building";
+import { MapPin } from "@phosphor-icons/react/dist/ssr/MapPin";
 import { Database } from "@phosphor-icons/react/dist/ssr/Database";
 import { Toolbox } from "@phosphor-icons/react/dist/ssr/Toolbox";
 import { MagicWand } from "@phosphor-icons/react/dist/ssr/MagicWand";
@@ -98,6 +99,34 @@ export function Sidebar() {
             </Box>
           </Link>
 
+          {/* People & Places */}
+          <Link href="/entities">
+            <Box
+              style={{
+                padding: 12,
+                borderRadius: 8,
+                cursor: 'pointer',
+                transition: 'background-color 0.2s',
+              }}
+              className="nav-item"
+            >
+              <Flex align="center" gap="3">
+                <Box style={{ width: 20, height: 20, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                  <MapPin size={20} color="#171717" />
+                </Box>
+                <Text size="3" weight="medium" color="gray" style={{
+                  color: '#171717',
+                  fontFamily: 'F37Jan',
+                  fontSize: 16,
+                  fontWeight: 400,
+                  lineHeight: '24px',
+                }}>
+                  People & Places
+                </Text>
+              </Flex>
+            </Box>
+          </Link>
+
           {/* Bulk Scraping */}
           <Link href="/bulk-scrape">
             <Box
@@ -0,0 +1,395 @@
+'use client'
+
+import { useState } from 'react'
+import { Flex, Text, Button, Dialog, TextField, Select, Spinner, Badge, Table, IconButton, Switch } from '@radix-ui/themes'
+import { Funnel, PencilSimple, Plus, Trash, X } from '@phosphor-icons/react/dist/ssr'
+
+interface TriageCondition {
+  field: string
+  op: string
+  value: string
+}
+
+interface TriageRule {
+  id: string
+  organizationId: string | null
+  organizationName: string | null
+  name: string
+  stage: string
+  action: string
+  conditions: Array<{ field: string, op: string, value: string | number | string[] }>
+  priority: number
+  enabled: boolean
+  decisions: number
+}
+
+interface RuleForm {
+  name: string
+  stage: string
+  action: string
+  priority: string
+  global: boolean
+  conditions: TriageCondition[]
+}
+
+interface TriageRulesDialogProps {
+  organizationId: string          // 'all' edits global rules only
+  organizationName: string
+}
+
+const STAGE_LABELS: Record<string, string> = {
+  discovered: 'After phase 1 (select for scraping)',
+  scraped: 'After phase 2 (select for finalization)'
+}
+
+const OPERATOR_LABELS: Record<string, string> = {
+  eq: '=',
+  neq: '≠',
+  gt: '>',
+  gte: '≥',
+  lt: '<',
+  lte: '≤',
+  in: 'in',
+  not_in: 'not in',
+  contains: 'contains',
+  matches: 'matches regex'
+}
+
+const EMPTY_CONDITION: TriageCondition = { field: 'contentType', op: 'eq', value: '' }
+
+const emptyForm = (global: boolean): RuleForm => ({
+  name: '',
+  stage: 'scraped',
+  action: 'select',
+  priority: '100',
+  global,
+  conditions: [{ ...EMPTY_CONDITION }]
+})
+
+const describeCondition = (condition: TriageRule['conditions'][number]) =>
+  `${condition.field} ${OPERATOR_LABELS[condition.op] || condition.op} ${Array.isArray(condition.value) ? condition.value.join(', ') : condition.value}`
+
+export function TriageRulesDialog({ organizationId, organizationName }: TriageRulesDialogProps) {
+  const isGlobalOnly = organizationId === 'all'
+  const [open, setOpen] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [rules, setRules] = useState<TriageRule[]>([])
+  const [fields, setFields] = useState<Record<string, string[]>>({})
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(emptyForm(isGlobalOnly))
+
+  const loadRules = async () => {
+    setLoading(true)
+    try {
+      const params = isGlobalOnly ? '' : `?organizationId=${organizationId}`
+      const response = await fetch(`/api/admin/triage-rules${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        // Without an organization, only global rules are relevant
+        setRules(isGlobalOnly ? data.rules.filter((rule: TriageRule) => !rule.organizationId) : data.rules)
+        setFields(data.fields)
+      } else {
+        alert(`Failed to load triage rules: ${data.error}`)
+      }
+    } catch (error) {
+      console.error('Triage rules fetch error:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const resetForm = () => {
+    setEditingId(null)
+    setForm(emptyForm(isGlobalOnly))
+  }
+
+  const editRule = (rule: TriageRule) => {
+    setEditingId(rule.id)
+    setForm({
+      name: rule.name,
+      stage: rule.stage,
+      action: rule.action,
+      priority: String(rule.priority),
+      global: !rule.organizationId,
+      conditions: rule.conditions.map(condition => ({
+        field: condition.field,
+        op: condition.op,
+        value: Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value)
+      }))
+    })
+  }
+
+  const saveRule = async (rule?: TriageRule, enabled?: boolean) => {
+    setSaving(true)
+    try {
+      const body = rule
+        ? { ...rule, enabled }
+        : {
+            ...(editingId && { id: editingId }),
+            organizationId: form.global ? null : organizationId,
+            name: form.name,
+            stage: form.stage,
+            action: form.action,
+            priority: form.priority,
+            conditions: form.conditions,
+            enabled: editingId ? rules.find(r => r.id === editingId)?.enabled : true
+          }
+
+      const response = await fetch('/api/admin/triage-rules', {
+        method: rule || editingId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        if (!rule) resetForm()
+        await loadRules()
+      } else {
+        alert(`Failed to save triage rule: ${Array.isArray(data.details) ? data.details.join('\n') : data.error}`)
+      }
+    } catch (error) {
+      alert('Failed to save triage rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteRule = async (rule: TriageRule) => {
+    if (!confirm(`Delete the "${rule.name}" triage rule? Its past decisions stay in the audit trail.`)) return
+
+    try {
+      const response = await fetch(`/api/admin/triage-rules?id=${rule.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        if (editingId === rule.id) resetForm()
+        await loadRules()
+      } else {
+        alert(`Failed to delete triage rule: ${data.error}`)
+      }
+    } catch (error) {
+      alert('Failed to delete triage rule')
+    }
+  }
+
+  const updateCondition = (index: number, changes: Partial<TriageCondition>) => {
+    setForm(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => i === index ? { ...condition, ...changes } : condition)
+    }))
+  }
+
+  const stageFields = fields[form.stage] || []
+
+  return (
+    <Dialog.Root
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen)
+        if (isOpen) {
+          resetForm()
+          loadRules()
+        }
+      }}
+    >
+      <Dialog.Trigger>
+        <Button variant="soft" color="gray">
+          <Funnel size={16} />
+          Triage rules
+        </Button>
+      </Dialog.Trigger>
+
+      <Dialog.Content style={{ maxWidth: 820, maxHeight: '90vh', overflow: 'auto' }}>
+        <Dialog.Title>Auto-triage rules</Dialog.Title>
+        <Dialog.Description size="2" color="gray" mb="4">
+          {isGlobalOnly
+            ? 'Rules for every organization.'
+            : `Rules for ${organizationName}, plus global rules.`}
+          {' '}After each phase the first matching rule (lowest priority first) selects or rejects an item; anything no rule matches is left for review.
+        </Dialog.Description>
+
+        {loading ? (
+          <Flex justify="center" align="center" style={{ minHeight: '200px' }}>
+            <Spinner size="3" />
+          </Flex>
+        ) : (
+          <Flex direction="column" gap="4">
+            {rules.length === 0 ? (
+              <Text size="2" color="gray">No triage rules yet.</Text>
+            ) : (
+              <Table.Root size="1">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeaderCell>Rule</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Stage</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>Conditions</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell justify="end">Decisions</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell>On</Table.ColumnHeaderCell>
+                    <Table.ColumnHeaderCell />
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {rules.map(rule => (
+                    <Table.Row key={rule.id}>
+                      <Table.Cell>
+                        <Flex direction="column" gap="1">
+                          <Flex gap="1" align="center">
+                            <Badge variant="soft" color={rule.action === 'select' ? 'green' : 'red'}>{rule.action}</Badge>
+                            <Text size="2">{rule.name}</Text>
+                          </Flex>
+                          <Text size="1" color="gray">
+                            {rule.organizationName || 'Global'} · priority {rule.priority}
+                          </Text>
+                        </Flex>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Text size="1">{rule.stage === 'discovered' ? 'Phase 1' : 'Phase 2'}</Text>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Text size="1" style={{ fontFamily: 'monospace' }}>
+                          {rule.conditions.map(describeCondition).join(' and ')}
+                        </Text>
+                      </Table.Cell>
+                      <Table.Cell justify="end">{rule.decisions}</Table.Cell>
+                      <Table.Cell>
+                        <Switch
+                          size="1"
+                          checked={rule.enabled}
+                          disabled={saving}
+                          onCheckedChange={(checked) => saveRule(rule, checked)}
+                        />
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Flex gap="2">
+                          <IconButton size="1" variant="ghost" onClick={() => editRule(rule)}>
+                            <PencilSimple size={14} />
+                          </IconButton>
+                          <IconButton size="1" variant="ghost" color="red" onClick={() => deleteRule(rule)}>
+                            <Trash size={14} />
+                          </IconButton>
+                        </Flex>
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+
+            <Flex direction="column" gap="3" style={{ borderTop: '1px solid var(--gray-a5)', paddingTop: '16px' }}>
+              <Text size="2" weight="medium">{editingId ? 'Edit rule' : 'New rule'}</Text>
+              <Flex gap="3" wrap="wrap" align="center">
+                <TextField.Root
+                  placeholder="Rule name"
+                  value={form.name}
+                  onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                  style={{ width: '220px' }}
+                />
+                <Select.Root
+                  value={form.stage}
+                  onValueChange={(stage) => setForm(prev => ({ ...prev, stage, conditions: [{ ...EMPTY_CONDITION }] }))}
+                >
+                  <Select.Trigger />
+                  <Select.Content>
+                    {Object.entries(STAGE_LABELS).map(([stage, label]) => (
+                      <Select.Item key={stage} value={stage}>{label}</Select.Item>
+                    ))}
+                  </Select.Content>
+                </Select.Root>
+                <Select.Root value={form.action} onValueChange={(action) => setForm(prev => ({ ...prev, action }))}>
+                  <Select.Trigger />
+                  <Select.Content>
+                    <Select.Item value="select">Select</Select.Item>
+                    <Select.Item value="reject">Reject</Select.Item>
+                  </Select.Content>
+                </Select.Root>
+                <TextField.Root
+                  type="number"
+                  placeholder="Priority"
+                  value={form.priority}
+                  onChange={(e) => setForm(prev => ({ ...prev, priority: e.target.value }))}
+                  style={{ width: '90px' }}
+                />
+                {!isGlobalOnly && !editingId && (
+                  <Text as="label" size="2">
+                    <Flex gap="1" align="center">
+                      <Switch
+                        size="1"
+                        checked={form.global}
+                        onCheckedChange={(global) => setForm(prev => ({ ...prev, global }))}
+                      />
+                      All organizations
+                    </Flex>
+                  </Text>
+                )}
+              </Flex>
+
+              <Text size="1" color="gray">
+                All conditions must match. Lists (in / not in) are comma-separated. contentType is news, blog, press_release, podcast, event, list_view or other.
+                {' '}It is guessed from the URL path at both stages, not from the scraped text, so most article URLs without /news/ or /blog/ in the path are other.
+              </Text>
+              {form.conditions.map((condition, index) => (
+                <Flex key={index} gap="2" align="center">
+                  <Select.Root value={condition.field} onValueChange={(field) => updateCondition(index, { field })}>
+                    <Select.Trigger style={{ width: '160px' }} />
+                    <Select.Content>
+                      {stageFields.map(field => (
+                        <Select.Item key={field} value={field}>{field}</Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Root>
+                  <Select.Root value={condition.op} onValueChange={(op) => updateCondition(index, { op })}>
+                    <Select.Trigger style={{ width: '140px' }} />
+                    <Select.Content>
+                      {Object.entries(OPERATOR_LABELS).map(([op, label]) => (
+                        <Select.Item key={op} value={op}>{label}</Select.Item>
+                      ))}
+                    </Select.Content>
+                  </Select.Root>
+                  <TextField.Root
+                    placeholder="Value"
+                    value={condition.value}
+                    onChange={(e) => updateCondition(index, { value: e.target.value })}
+                    style={{ flex: 1 }}
+                  />
+                  <IconButton
+                    size="1"
+                    variant="ghost"
+                    color="gray"
+                    disabled={form.conditions.length === 1}
+                    onClick={() => setForm(prev => ({ ...prev, conditions: prev.conditions.filter((_, i) => i !== index) }))}
+                  >
+                    <X size={14} />
+                  </IconButton>
+                </Flex>
+              ))}
+              <Flex>
+                <Button
+                  size="1"
+                  variant="ghost"
+                  onClick={() => setForm(prev => ({ ...prev, conditions: [...prev.conditions, { ...EMPTY_CONDITION }] }))}
+                >
+                  <Plus size={14} />
+                  Add condition
+                </Button>
+              </Flex>
+
+              <Flex gap="3" justify="end">
+                {editingId && (
+                  <Button variant="soft" color="gray" onClick={resetForm} disabled={saving}>
+                    Cancel edit
+                  </Button>
+                )}
+                <Button onClick={() => saveRule()} disabled={saving || !form.name.trim()}>
+                  {saving ? 'Saving...' : editingId ? 'Save Rule' : 'Add Rule'}
+                </Button>
+              </Flex>
+            </Flex>
+          </Flex>
+        )}
+      </Dialog.Content>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,62 @@
+import { inngest } from './client';
+import { prisma } from '@/lib/db';
+import { checkOrganizationNewsUrl, findOrganizationsDueForNewsUrlCheck } from '@/lib/newsUrlDetection';
+
+// News URL Maintenance Tick - finds organizations whose newsUrl is missing or due
+// for re-verification and fans out one check per organization. Runs daily, or on demand.
+export const newsUrlMaintenanceTick = inngest.createFunction(
+  {
+    id: 'news-url-maintenance-tick',
+    concurrency: { limit: 1 }
+  },
+  [{ cron: '0 5 * * *' }, { event: 'news-url/check-due' }],
+  async ({ step }) => {
+    const dueOrganizations = await step.run('find-due-organizations', async () => {
+      return await findOrganizationsDueForNewsUrlCheck();
+    });
+
+    console.log(`🧭 ${dueOrganizations.length} organizations due for news URL detection/verification`);
+
+    if (dueOrganizations.length > 0) {
+      await step.sendEvent('trigger-news-url-checks', dueOrganizations.map((org: { id: string }) => ({
+        name: 'news-url/check',
+        data: { organizationId: org.id }
+      })));
+    }
+
+    return {
+      triggered: dueOrganizations.length,
+      success: true
+    };
+  }
+);
+
+// News URL Check - detects a newsUrl for one organization, or re-verifies the stored one
+export const newsUrlCheckJob = inngest.createFunction(
+  {
+    id: 'news-url-check-job',
+    concurrency: { limit: 3 },
+    retries: 1
+  },
+  { event: 'news-url/check' },
+  async ({ event, step }) => {
+    const { organizationId } = event.data;
+
+    const result = await step.run('check-news-url', async () => {
+      const organization = await prisma.organization.findUniqueOrThrow({
+        where: { id: organizationId },
+        select: { id: true, name: true, website: true, newsUrl: true }
+      });
+
+      const check = await checkOrganizationNewsUrl(organization);
+      // Candidate scores are only useful interactively, keep the step output small
+      return { action: check.action, newsUrl: check.newsUrl, confidence: check.confidence };
+    });
+
+    return {
+      organizationId,
+      ...result,
+      success: true
+    };
+  }
+);
@@ -0,0 +1,39 @@
+import { inngest } from './client';
+import { prisma } from '@/lib/db';
+import { runPromptEvaluation } from '@/lib/promptEvaluation';
+
+// Prompt Evaluation Job - runs two versions of a prompt over its labeled articles
+// (see src/lib/promptEvaluation.ts) and stores the per-version scores.
+export const promptEvaluationJob = inngest.createFunction(
+  {
+    id: 'prompt-evaluation-job',
+    concurrency: { limit: 1 },
+    retries: 0
+  },
+  { event: 'prompts/evaluate' },
+  async ({ event, step }) => {
+    const { evaluationId } = event.data;
+
+    try {
+      const evaluation = await step.run('run-evaluation', async () => {
+        const result = await runPromptEvaluation(evaluationId);
+        // Outputs are stored on the evaluation; keep the step output small
+        return { exampleCount: result.exampleCount, scoreA: result.scoreA, scoreB: result.scoreB };
+      });
+
+      return { evaluationId, ...evaluation, success: true };
+    } catch (error) {
+      await step.run('mark-failed', async () => {
+        await prisma.promptEvaluation.update({
+          where: { id: evaluationId },
+          data: {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+            completedAt: new Date()
+          }
+        });
+      });
+      throw error;
+    }
+  }
+);
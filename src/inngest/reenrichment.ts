@@ -0,0 +1,110 @@
+import { inngest } from './client';
+import { prisma } from '@/lib/db';
+import { reenrichArticles, recordRunProgress, selectArticleIds, EnricherId, ReenrichmentFilter } from '@/lib/reenrichment';
+import { describeExceededBudget, getExceededBudget } from '@/lib/llmUsage';
+
+// Articles per step - each step re-runs every selected enricher on its batch
+const REENRICHMENT_BATCH_SIZE = 20;
+
+// Re-enrichment Job - re-runs the selected enrichers over every article matching the
+// run's filter, in batches, and records the changed fields for editorial review.
+// The run pauses when an AI budget is reached; a new run picks up the rest.
+export const reenrichmentJob = inngest.createFunction(
+  {
+    id: 'reenrichment-job',
+    concurrency: { limit: 1 },
+    retries: 1
+  },
+  { event: 'articles/reenrich' },
+  async ({ event, step }) => {
+    const { runId } = event.data;
+
+    const articleIds = await step.run('select-articles', async () => {
+      const run = await prisma.reenrichmentRun.findUniqueOrThrow({ where: { id: runId } });
+      const ids = await selectArticleIds(run.filters as ReenrichmentFilter);
+
+      await prisma.reenrichmentRun.update({
+        where: { id: runId },
+        data: { status: 'running', startedAt: new Date(), totalArticles: ids.length }
+      });
+
+      return ids;
+    });
+
+    console.log(`🔁 Re-enrichment run ${runId}: ${articleIds.length} articles`);
+
+    // Running totals from the memoized batch outputs, so a retried batch is never counted twice
+    let processed = 0;
+    let changed = 0;
+    let errors = 0;
+    let pausedReason: string | null = null;
+
+    try {
+      for (let i = 0; i < articleIds.length; i += REENRICHMENT_BATCH_SIZE) {
+        const batch = articleIds.slice(i, i + REENRICHMENT_BATCH_SIZE);
+
+        const result = await step.run(`reenrich-batch-${i / REENRICHMENT_BATCH_SIZE + 1}`, async () => {
+          const run = await prisma.reenrichmentRun.findUniqueOrThrow({ where: { id: runId } });
+
+          const exceededBudget = await getExceededBudget((run.filters as ReenrichmentFilter).organizationId);
+          if (exceededBudget) {
+            return { processed: 0, changed, errors: 0, budgetExceeded: describeExceededBudget(exceededBudget) };
+          }
+
+          const outcome = await reenrichArticles(runId, batch, run.enrichers as EnricherId[], run.concurrency);
+          const changedSoFar = await recordRunProgress(
+            runId,
+            { processed: processed + outcome.processed, errorCount: errors + outcome.errors.length },
+            outcome.errors
+          );
+          // Errors are stored on the run; keep the step output small
+          return { processed: outcome.processed, changed: changedSoFar, errors: outcome.errors.length, budgetExceeded: outcome.budgetExceeded };
+        });
+
+        processed += result.processed;
+        changed = result.changed;
+        errors += result.errors;
+
+        if (result.budgetExceeded) {
+          pausedReason = result.budgetExceeded;
+          break;
+        }
+      }
+    } catch (error) {
+      await step.run('mark-failed', async () => {
+        await prisma.reenrichmentRun.update({
+          where: { id: runId },
+          data: { status: 'failed', completedAt: new Date() }
+        });
+      });
+      throw error;
+    }
+
+    if (pausedReason) {
+      console.log(`⏸️ Re-enrichment run ${runId} paused: ${pausedReason}`);
+
+      await step.run('mark-paused', async () => {
+        await prisma.reenrichmentRun.update({
+          where: { id: runId },
+          data: { status: 'paused', errors: { push: `Paused: ${pausedReason}` } }
+        });
+      });
+    } else {
+      await step.run('mark-completed', async () => {
+        await prisma.reenrichmentRun.update({
+          where: { id: runId },
+          data: { status: 'completed', completedAt: new Date() }
+        });
+      });
+    }
+
+    return {
+      runId,
+      articles: articleIds.length,
+      changed,
+      errors,
+      paused: pausedReason !== null,
+      success: true
+    };
+  }
+);
@@ -0,0 +1,160 @@
+import { inngest } from './client';
+import { prisma } from '@/lib/db';
+import { runPhase1Discovery, autoSelectNewUrls } from '@/lib/discovery';
+import { discoveryProfileSelect } from '@/lib/discoveryProfile';
+import { previousCronOccurrence } from '@/utils/cron';
+import { describeExceededBudget, getExceededBudget } from '@/lib/llmUsage';
+
+// Scheduled Discovery Tick - checks every organization's schedule and triggers due runs
+export const scheduledDiscoveryTick = inngest.createFunction(
+  {
+    id: 'scheduled-discovery-tick',
+    concurrency: { limit: 1 }
+  },
+  { cron: '*/15 * * * *' },
+  async ({ step }) => {
+    const dueOrganizations = await step.run('find-due-organizations', async () => {
+      const organizations = await prisma.organization.findMany({
+        where: {
+          discoverySchedule: { not: null },
+          newsUrl: { not: null }
+        },
+        select: { id: true, name: true, discoverySchedule: true, lastScheduledDiscoveryAt: true }
+      });
+
+      const now = new Date();
+      const due: Array<{ organizationId: string; organizationName: string; scheduledFor: string; previousRunAt: string | null }> = [];
+
+      for (const org of organizations) {
+        let slot: Date | null;
+        try {
+          slot = previousCronOccurrence(org.discoverySchedule!, now);
+        } catch (error) {
+          console.warn(`⚠️ Invalid discovery schedule for ${org.name}: ${org.discoverySchedule}`);
+          continue;
+        }
+
+        if (slot && (!org.lastScheduledDiscoveryAt || slot > org.lastScheduledDiscoveryAt)) {
+          // Leave the slot unclaimed so the run happens once the budget allows it again
+          const exceededBudget = await getExceededBudget(org.id);
+          if (exceededBudget) {
+            console.log(`⏸️ Skipping scheduled discovery for ${org.name}: ${describeExceededBudget(exceededBudget)}`);
+            continue;
+          }
+
+          due.push({
+            organizationId: org.id,
+            organizationName: org.name,
+            scheduledFor: slot.toISOString(),
+            previousRunAt: org.lastScheduledDiscoveryAt?.toISOString() || null
+          });
+        }
+      }
+
+      // Claim the slots now so a slow run is not triggered again by the next tick
+      for (const run of due) {
+        await prisma.organization.update({
+          where: { id: run.organizationId },
+          data: { lastScheduledDiscoveryAt: new Date(run.scheduledFor) }
+        });
+      }
+
+      return due;
+    });
+
+    console.log(`⏰ ${dueOrganizations.length} organizations due for scheduled discovery`);
+
+    if (dueOrganizations.length > 0) {
+      await step.sendEvent('trigger-scheduled-discovery', dueOrganizations.map(run => ({
+        name: 'discovery/scheduled-run',
+        data: run
+      })));
+    }
+
+    return {
+      triggered: dueOrganizations.length,
+      success: true
+    };
+  }
+);
+
+// Scheduled Organization Discovery - runs Phase 1 and auto-selects new URLs for review
+export const scheduledOrganizationDiscoveryJob = inngest.createFunction(
+  {
+    id: 'scheduled-organization-discovery-job',
+    concurrency: { limit: 2 },
+    retries: 2
+  },
+  { event: 'discovery/scheduled-run' },
+  async ({ event, step }) => {
+    const { organizationId, previousRunAt } = event.data;
+
+    // Created in its own step so retries of the discovery step reuse one session
+    const sessionId = await step.run('create-discovery-session', async () => {
+      const organization = await prisma.organization.findUniqueOrThrow({
+        where: { id: organizationId },
+        select: { name: true, newsUrl: true }
+      });
+
+      if (!organization.newsUrl) {
+        throw new Error(`Organization ${organization.name} has no newsUrl`);
+      }
+
+      const created = await prisma.discoverySession.create({
+        data: {
+          organizationId,
+          newsUrl: organization.newsUrl,
+          status: 'discovering',
+          trigger: 'scheduled'
+        }
+      });
+      return created.id;
+    });
+
+    let session: { id: string; totalUrls: number };
+    try {
+      session = await step.run('run-phase1-discovery', async () => {
+        const organization = await prisma.organization.findUniqueOrThrow({
+          where: { id: organizationId },
+          select: { id: true, name: true, newsUrl: true, website: true, feedUrls: true, feedsCheckedAt: true, ...discoveryProfileSelect }
+        });
+
+        if (!organization.newsUrl) {
+          throw new Error(`Organization ${organization.name} has no newsUrl`);
+        }
+
+        console.log(`⏰ Scheduled discovery for ${organization.name}`);
+
+        // Listing pages older than the previous run have nothing new to offer
+        const result = await runPhase1Discovery({
+          organization,
+          newsUrl: organization.newsUrl,
+          trigger: 'scheduled',
+          sessionId,
+          since: previousRunAt ? new Date(previousRunAt) : null
+        });
+
+        return { id: result.session.id, totalUrls: result.discoveredUrls.length };
+      });
+    } catch (error) {
+      await step.run('mark-session-failed', async () => {
+        await prisma.discoverySession.update({
+          where: { id: sessionId },
+          data: { status: 'failed', updatedAt: new Date() }
+        });
+      });
+      throw error;
+    }
+
+    const digest = await step.run('auto-select-new-urls', async () => {
+      return await autoSelectNewUrls(session.id, previousRunAt ? new Date(previousRunAt) : null);
+    });
+
+    return {
+      sessionId: session.id,
+      organizationId,
+      digest,
+      success: true
+    };
+  }
+);
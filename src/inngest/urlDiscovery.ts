@@ -1,8 +1,13 @@
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
 import { z } from 'zod';
+import { generateStructured } from '@/lib/llm';
+import { withLlmContext } from '@/lib/llmUsage';
 import { inngest } from './client';
 import { prisma } from '@/lib/db';
+import { dedupeUrls, findExistingArticleUrls } from '@/lib/canonicalUrl';
+import { searchWithProviders } from '@/lib/searchProviders';
+import { generateSearchQueries, buildOrganizationQueries } from '@/lib/googleSearch';
+import { organizationIdentitySelect } from '@/lib/organizationIdentity';
+import { loadDiscoveryProfile, applyDiscoveryProfile, collectSeedPageLinks } from '@/lib/discoveryProfile';
 import { runArticleScrapingPipeline } from './vercelAgentNetwork';
 
 // URL Discovery Job - finds news articles for an organization
@@ -38,106 +43,44 @@ export const urlDiscoveryJob = inngest.createFunction(
     // Step 2: AI-powered URL discovery using multiple search engines and sources
     const discoveredUrls = await step.run('ai-url-discovery', async () => {
       
-      // Use AI to generate search queries for finding news about this organization
-      const searchQueries = await generateObject({
-        model: openai('gpt-4o-mini'),
-        system: `You are a research assistant specialized in finding news articles about organizations. Generate search queries that will find recent news articles, press releases, and coverage about the given organization.`,
-        prompt: `Generate search queries to find news articles about "${organizationName}" from the last ${timeframe} days. Focus on:
-        
-        - Recent news and developments
-        - Impact stories and achievements  
-        - Community involvement
-        - Partnerships and collaborations
-        - Program launches and results
-        - Awards and recognition
-        
-        Organization: ${organizationName}
-        Timeframe: Last ${timeframe} days`,
-        schema: z.object({
-          queries: z.array(z.string()).describe('Array of search queries to find news articles'),
-          newsSources: z.array(z.string()).describe('Suggested news sources to search'),
-          keywords: z.array(z.string()).describe('Key terms to include in searches')
-        }),
+      // Aliases and focus areas shape the queries so coverage using an acronym
+      // or alternate name is found too
+      const organization = await prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: organizationIdentitySelect
       });
+      const identity = organization || { name: organizationName };
 
-      console.log(`🔎 Generated ${searchQueries.object.queries.length} search queries`);
+      const searchQueries = await withLlmContext({ organizationId }, () =>
+        generateSearchQueries(identity, parseInt(timeframe.toString()))
+      );
+
+      console.log(`🔎 Generated ${searchQueries.length} search queries`);
 
       // Implement comprehensive web search using multiple APIs
       const realUrls: string[] = [];
+      const providersByUrl: Record<string, string[]> = {};
       
       try {
-        // Method 1: Google Custom Search API for historical news
-        if (process.env.GOOGLE_SEARCH_API_KEY && process.env.GOOGLE_SEARCH_ENGINE_ID) {
-          console.log('🔍 Searching Google Custom Search...');
-          
-          for (const query of searchQueries.object.queries.slice(0, 3)) {
-            // Search for different time periods to get more historical coverage
-            const timePeriods = ['y1', 'y3', 'y5']; // 1, 3, 5 years back
-            
-            for (const period of timePeriods) {
-              const googleSearchUrl = `https://www.googleapis.com/customsearch/v1?` +
-                `key=${process.env.GOOGLE_SEARCH_API_KEY}&` +
-                `cx=${process.env.GOOGLE_SEARCH_ENGINE_ID}&` +
-                `q=${encodeURIComponent(`"${organizationName}" ${query}`)}&` +
-                `tbm=nws&` + // News search
-                `dateRestrict=${period}&` +
-                `num=10`;
-              
-              try {
-                const response = await fetch(googleSearchUrl);
-                const data = await response.json();
-                
-                if (data.items) {
-                  const urls = data.items.map((item: any) => item.link);
-                  realUrls.push(...urls);
-                  console.log(`   Found ${urls.length} articles for "${query}" (${period})`);
-                }
-                
-                // Respect API rate limits
-                await new Promise(resolve => setTimeout(resolve, 100));
-              } catch (error) {
-                console.error(`   Google Search error for query "${query}":`, error);
-              }
-            }
-          }
-        }
+        // Method 1: Search providers (Google CSE, NewsAPI.ai, Firecrawl) with per-provider quotas
+        const since = new Date(Date.now() - parseInt(timeframe.toString()) * 24 * 60 * 60 * 1000);
+        const search = await searchWithProviders(buildOrganizationQueries(identity, searchQueries, since));
         
-        // Method 2: Organization-specific RSS feeds and known URLs
-        if (organizationName.toLowerCase().includes('international justice mission') || organizationName.toLowerCase().includes('ijm')) {
-          const ijmUrls = [
-            'https://www.ijm.org/news',
-            'https://www.ijm.org/stories', 
-            'https://www.ijm.org/impact',
-            'https://www.ijm.org/news/trafficking-survivors-find-freedom-through-new-program'
-          ];
-          realUrls.push(...ijmUrls);
-          console.log(`   Added ${ijmUrls.length} IJM-specific URLs`);
-        }
-        
-        // Method 3: Fallback to high-quality news sources with search
-        if (realUrls.length === 0) {
-          console.log('⚠️  No API results, using fallback method...');
-          
-          // Use high-quality, organization-specific URLs that are more likely to exist
-          const fallbackUrls = [
-            `https://www.${organizationName.toLowerCase().replace(/\s+/g, '')}.org/news`,
-            `https://www.${organizationName.toLowerCase().replace(/\s+/g, '')}.org/impact`,
-            `https://www.${organizationName.toLowerCase().replace(/\s+/g, '')}.org/stories`
-          ];
-          
-          realUrls.push(...fallbackUrls);
-          console.log(`   Added ${fallbackUrls.length} fallback URLs`);
+        for (const result of search.results) {
+          realUrls.push(result.url);
+          providersByUrl[result.url] = result.providers;
         }
+        console.log(`   Found ${search.results.length} articles via search providers`);
         
       } catch (error) {
         console.error('🚫 URL discovery error:', error);
-        console.log('   Falling back to manual URL entry mode');
+        console.log('   Continuing with links from discovery profile seed pages only');
       }
       
       return {
         urls: realUrls,
-        searchQueries: searchQueries.object.queries,
-        sources: searchQueries.object.newsSources
+        searchQueries,
+        providersByUrl
       };
     });
 
@@ -145,19 +88,12 @@ export const urlDiscoveryJob = inngest.createFunction(
 
     // Step 3: Filter and validate URLs
     const validUrls = await step.run('filter-urls', async () => {
-      // Filter out duplicates and invalid URLs
-      const uniqueUrls = [...new Set(discoveredUrls.urls)];
+      // Add the article links on the profile's seed (listing) pages, then drop duplicates and URLs the profile excludes
+      const profile = await loadDiscoveryProfile(organizationId);
+      const { urls: uniqueUrls } = applyDiscoveryProfile(dedupeUrls([...discoveredUrls.urls, ...await collectSeedPageLinks(profile)]), profile);
       
       // Check if URLs already exist in our database
-      const existingArticles = await prisma.article.findMany({
-        where: { 
-          url: { in: uniqueUrls },
-          organizationId 
-        },
-        select: { url: true }
-      });
-      
-      const existingUrls = new Set(existingArticles.map(a => a.url));
+      const existingUrls = await findExistingArticleUrls(uniqueUrls, organizationId);
       const newUrls = uniqueUrls.filter(url => !existingUrls.has(url));
       
       console.log(`✅ Filtered to ${newUrls.length} new URLs (${existingUrls.size} already exist)`);
@@ -437,8 +373,9 @@ Focus on finding 20-50 high-quality, relevant URLs from credible sources.`;
       // For now, we'll use our AI to generate comprehensive search queries and likely URLs
       // In a real implementation, you would integrate with ChatGPT's actual deep research results
       
-      const comprehensiveSearch = await generateObject({
-        model: openai('gpt-4o'),
+      const comprehensiveSearch = await withLlmContext({ organizationId }, () => generateStructured({
+        task: 'deepResearchUrls',
+        model: 'gpt-4o',
         system: `You are a research specialist with access to extensive knowledge about news coverage patterns, media outlets, and organizational reporting. Generate a comprehensive list of likely URLs where news articles about this organization would be published, based on the organization's profile, typical media coverage patterns, and historical reporting trends.`,
         prompt: `Based on deep research about "${organizationName}", generate specific URLs that are highly likely to contain substantial news articles, press releases, or media coverage. 
 
@@ -465,7 +402,7 @@ Consider:
             relevance: z.number().min(1).max(10)
           })).describe('Source analysis and credibility assessment')
         }),
-      });
+      }));
 
       const allUrls = [
         ...comprehensiveSearch.object.primaryUrls,
@@ -485,18 +422,11 @@ Consider:
 
     // Step 5: Filter and validate URLs
     const validUrls = await step.run('filter-and-validate', async () => {
-      const uniqueUrls = [...new Set(discoveredUrls.urls)];
+      const profile = await loadDiscoveryProfile(organizationId);
+      const { urls: uniqueUrls } = applyDiscoveryProfile(dedupeUrls([...discoveredUrls.urls, ...await collectSeedPageLinks(profile)]), profile);
       
       // Check against existing articles
-      const existingArticles = await prisma.article.findMany({
-        where: { 
-          url: { in: uniqueUrls },
-          organizationId 
-        },
-        select: { url: true }
-      });
-      
-      const existingUrls = new Set(existingArticles.map(a => a.url));
+      const existingUrls = await findExistingArticleUrls(uniqueUrls, organizationId);
       const newUrls = uniqueUrls.filter(url => !existingUrls.has(url));
       
       console.log(`✅ Filtered to ${newUrls.length} new URLs (${existingUrls.size} already exist)`);
@@ -0,0 +1,28 @@
+import { getEnabledScraperProviders, scrapeWithProviders, ScrapeRunSummary } from './scraperProviders'
+
+// Article extraction engines. Organization.extractionEngine picks one per organization:
+// null runs the whole scraper provider chain (Firecrawl scrape → Firecrawl extract → local),
+// 'firecrawl' only the Firecrawl providers, 'local' never calls Firecrawl.
+export const EXTRACTION_ENGINES = ['firecrawl', 'local'] as const
+export type ExtractionEngine = typeof EXTRACTION_ENGINES[number]
+
+export function isExtractionEngine(value: unknown): value is ExtractionEngine {
+  return typeof value === 'string' && (EXTRACTION_ENGINES as readonly string[]).includes(value)
+}
+
+/**
+ * Extract articles with the organization's engine (see EXTRACTION_ENGINES)
+ */
+export async function extractArticles(
+  urls: string[],
+  organizationName?: string,
+  options: { engine?: string | null } = {}
+): Promise<ScrapeRunSummary & { success: boolean }> {
+  const engine = isExtractionEngine(options.engine) ? options.engine : null
+  const providers = getEnabledScraperProviders().filter(provider => !engine || provider.engine === engine)
+
+  console.log(`📰 Extracting ${urls.length} URLs with: ${providers.map(provider => provider.name).join(' → ') || 'no providers'}`)
+
+  const summary = await scrapeWithProviders(urls, { providers, organizationName })
+  return { success: summary.data.length > 0, ...summary }
+}
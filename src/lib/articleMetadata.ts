@@ -0,0 +1,376 @@
+import { JSDOM } from 'jsdom'
+
+// Local article metadata extraction from the markup publishers embed for search
+// engines and social cards: JSON-LD, OpenGraph/article:* meta, Twitter cards,
+// Dublin Core, microdata and <time> elements. Every source proposes candidates
+// with a confidence; the best candidate per field wins, with a small bonus when
+// independent sources agree. Fields below MIN_METADATA_CONFIDENCE count as
+// missing, so callers only ask the LLM for those.
+
+export const MIN_METADATA_CONFIDENCE = 0.6
+
+const METADATA_FETCH_TIMEOUT = 15000
+
+export type MetadataField = 'title' | 'author' | 'publishedAt' | 'modifiedAt' | 'description' | 'image' | 'siteName' | 'section'
+
+export type MetadataSource = 'json-ld' | 'opengraph' | 'microdata' | 'dublin-core' | 'twitter' | 'meta' | 'time' | 'byline' | 'html'
+
+export interface MetadataValue {
+  value: string
+  source: MetadataSource
+  confidence: number
+}
+
+export interface ArticleMetadata {
+  title: MetadataValue | null
+  author: MetadataValue | null
+  publishedAt: MetadataValue | null   // ISO 8601
+  modifiedAt: MetadataValue | null    // ISO 8601
+  description: MetadataValue | null
+  image: MetadataValue | null
+  siteName: MetadataValue | null
+  section: MetadataValue | null
+  keywords: string[]
+  canonicalUrl: string | null
+}
+
+// Base confidence of each source; JSON-LD article nodes are written for Google News and most reliable
+const SOURCE_CONFIDENCE: Record<MetadataSource, number> = {
+  'json-ld': 0.95,
+  'opengraph': 0.9,
+  'microdata': 0.85,
+  'dublin-core': 0.8,
+  'twitter': 0.75,
+  'meta': 0.7,
+  'time': 0.65,
+  'byline': 0.55,
+  'html': 0.5
+}
+
+const AGREEMENT_BONUS = 0.05
+
+const ARTICLE_TYPES = new Set([
+  'article', 'newsarticle', 'blogposting', 'reportagenewsarticle', 'analysisnewsarticle', 'opinionnewsarticle',
+  'backgroundnewsarticle', 'reviewnewsarticle', 'techarticle', 'scholarlyarticle', 'report', 'socialmediaposting',
+  'liveblogposting', 'pressrelease', 'posting'
+])
+
+const METADATA_FIELDS: MetadataField[] = ['title', 'author', 'publishedAt', 'modifiedAt', 'description', 'image', 'siteName', 'section']
+
+type Candidates = Record<MetadataField, MetadataValue[]>
+
+function clean(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const text = value.replace(/\s+/g, ' ').trim()
+  return text || null
+}
+
+function toIsoDate(value: unknown): string | null {
+  const text = clean(value)
+  if (!text) return null
+  const time = Date.parse(text.replace(/(\d)(st|nd|rd|th)\b/i, '$1'))
+  // Reject unparseable, implausibly old and future dates (more than a day ahead)
+  if (isNaN(time) || time < Date.UTC(1990, 0, 1) || time > Date.now() + 24 * 60 * 60 * 1000) return null
+  return new Date(time).toISOString()
+}
+
+// Author fields often hold profile URLs or social handles rather than names
+function toAuthorName(value: unknown): string | null {
+  const text = clean(value)
+  if (!text || /^https?:\/\//i.test(text) || text.startsWith('@') || text.length > 100) return null
+  return text.replace(/^by\s+/i, '')
+}
+
+function first<T>(value: T | T[] | undefined | null): T | undefined {
+  return Array.isArray(value) ? value[0] : value ?? undefined
+}
+
+function jsonLdTypes(node: any): string[] {
+  const types = node?.['@type']
+  return (Array.isArray(types) ? types : [types]).filter(Boolean).map((type: string) => String(type).toLowerCase())
+}
+
+function flattenJsonLd(data: any): any[] {
+  if (!data || typeof data !== 'object') return []
+  if (Array.isArray(data)) return data.flatMap(flattenJsonLd)
+  return [data, ...flattenJsonLd(data['@graph'])]
+}
+
+function jsonLdNames(value: any): string[] {
+  const values = Array.isArray(value) ? value : [value]
+  return values
+    .map(item => typeof item === 'string' ? item : item?.name)
+    .map(toAuthorName)
+    .filter((name): name is string => !!name)
+}
+
+function jsonLdImage(value: any): string | null {
+  const image = first(value)
+  return clean(typeof image === 'string' ? image : (image as any)?.url)
+}
+
+function collectJsonLd(document: Document, add: (field: MetadataField, value: string | null, source: MetadataSource, boost?: number) => void): string[] {
+  const keywords: string[] = []
+  const nodes = Array.from(document.querySelectorAll('script[type="application/ld+json"]')).flatMap(script => {
+    try {
+      return flattenJsonLd(JSON.parse(script.textContent || ''))
+    } catch {
+      return []
+    }
+  })
+
+  const article = nodes.find(node => jsonLdTypes(node).some(type => ARTICLE_TYPES.has(type)))
+  if (article) {
+    add('title', clean(article.headline) || clean(article.name), 'json-ld')
+    add('author', jsonLdNames(article.author).join(', ') || null, 'json-ld')
+    add('publishedAt', toIsoDate(article.datePublished) || toIsoDate(article.dateCreated), 'json-ld')
+    add('modifiedAt', toIsoDate(article.dateModified), 'json-ld')
+    add('description', clean(article.description), 'json-ld')
+    add('image', jsonLdImage(article.image) || jsonLdImage(article.thumbnailUrl), 'json-ld')
+    add('siteName', clean(first(article.publisher)?.name), 'json-ld')
+    add('section', clean(first(article.articleSection)), 'json-ld')
+
+    const articleKeywords = Array.isArray(article.keywords) ? article.keywords : String(article.keywords || '').split(',')
+    keywords.push(...articleKeywords.map(clean).filter((k: string | null): k is string => !!k))
+  }
+
+  // WebSite/Organization nodes still name the site
+  const site = nodes.find(node => jsonLdTypes(node).some(type => type === 'website' || type === 'organization' || type === 'newsmediaorganization'))
+  add('siteName', clean(site?.name), 'json-ld', -0.1)
+
+  return keywords
+}
+
+function metaContent(document: Document, selector: string): string | null {
+  return clean(document.querySelector(selector)?.getAttribute('content'))
+}
+
+// "Headline | Site Name" and "Headline - Site Name" title suffixes
+function stripSiteSuffix(title: string, siteName: string | null): string {
+  if (siteName) {
+    const escaped = siteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    const stripped = title.replace(new RegExp(`\\s*[|\\-–—:·]\\s*${escaped}\\s*$`, 'i'), '')
+    if (stripped) return stripped
+  }
+  return title.replace(/\s+[|–—·]\s+[^|–—·]{2,40}$/, '')
+}
+
+function normalizeForComparison(field: MetadataField, value: string): string {
+  if (field === 'publishedAt' || field === 'modifiedAt') return value.slice(0, 10)
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function pickBest(field: MetadataField, candidates: MetadataValue[]): MetadataValue | null {
+  if (candidates.length === 0) return null
+
+  const scored = candidates.map(candidate => {
+    const key = normalizeForComparison(field, candidate.value)
+    const agreeingSources = new Set(
+      candidates.filter(other => normalizeForComparison(field, other.value) === key).map(other => other.source)
+    )
+    const confidence = Math.min(1, candidate.confidence + AGREEMENT_BONUS * (agreeingSources.size - 1))
+    return { ...candidate, confidence: Math.round(confidence * 100) / 100 }
+  })
+
+  scored.sort((a, b) => b.confidence - a.confidence)
+  return scored[0]
+}
+
+/**
+ * Extract article metadata from a page's HTML
+ */
+export function extractArticleMetadata(html: string, pageUrl: string): ArticleMetadata {
+  const document = new JSDOM(html, { url: pageUrl }).window.document
+  const candidates = Object.fromEntries(METADATA_FIELDS.map(field => [field, []])) as unknown as Candidates
+
+  const add = (field: MetadataField, value: string | null, source: MetadataSource, boost = 0) => {
+    if (!value) return
+    if (field === 'publishedAt' || field === 'modifiedAt') {
+      value = toIsoDate(value)
+      if (!value) return
+    }
+    if (field === 'author') {
+      value = toAuthorName(value)
+      if (!value) return
+    }
+    if (field === 'image') {
+      try {
+        value = new URL(value, pageUrl).toString()
+      } catch {
+        return
+      }
+    }
+    candidates[field].push({ value, source, confidence: SOURCE_CONFIDENCE[source] + boost })
+  }
+
+  const keywords = collectJsonLd(document, add)
+
+  // OpenGraph and the article:* namespace
+  const siteName = metaContent(document, 'meta[property="og:site_name"]')
+  add('siteName', siteName, 'opengraph')
+  const ogTitle = metaContent(document, 'meta[property="og:title"]')
+  add('title', ogTitle ? stripSiteSuffix(ogTitle, siteName) : null, 'opengraph')
+  add('description', metaContent(document, 'meta[property="og:description"]'), 'opengraph')
+  add('image', metaContent(document, 'meta[property="og:image"], meta[property="og:image:url"]'), 'opengraph')
+  add('publishedAt', metaContent(document, 'meta[property="article:published_time"], meta[property="og:published_time"]'), 'opengraph')
+  add('modifiedAt', metaContent(document, 'meta[property="article:modified_time"], meta[property="og:updated_time"]'), 'opengraph')
+  add('author', metaContent(document, 'meta[property="article:author"]'), 'opengraph')
+  add('section', metaContent(document, 'meta[property="article:section"]'), 'opengraph')
+  document.querySelectorAll('meta[property="article:tag"]').forEach(tag => {
+    const keyword = clean(tag.getAttribute('content'))
+    if (keyword) keywords.push(keyword)
+  })
+
+  // Twitter cards; "Written by" is how Yoast exposes the author
+  add('title', metaContent(document, 'meta[name="twitter:title"]'), 'twitter')
+  add('description', metaContent(document, 'meta[name="twitter:description"]'), 'twitter')
+  add('image', metaContent(document, 'meta[name="twitter:image"], meta[name="twitter:image:src"]'), 'twitter')
+  for (const index of [1, 2]) {
+    const label = metaContent(document, `meta[name="twitter:label${index}"]`)
+    if (label && /written by|author/i.test(label)) {
+      add('author', metaContent(document, `meta[name="twitter:data${index}"]`), 'twitter')
+    }
+  }
+
+  // Dublin Core (DC.* and dcterms.*, any case)
+  const dublinCore = (names: string[]) => {
+    const meta = Array.from(document.querySelectorAll('meta[name]'))
+      .find(element => names.includes((element.getAttribute('name') || '').toLowerCase()))
+    return clean(meta?.getAttribute('content'))
+  }
+  add('title', dublinCore(['dc.title', 'dcterms.title']), 'dublin-core')
+  add('author', dublinCore(['dc.creator', 'dcterms.creator']), 'dublin-core')
+  add('publishedAt', dublinCore(['dc.date.issued', 'dcterms.issued', 'dc.date', 'dcterms.date', 'dcterms.created', 'dc.date.created']), 'dublin-core')
+  add('modifiedAt', dublinCore(['dcterms.modified', 'dc.date.modified']), 'dublin-core')
+  add('description', dublinCore(['dc.description', 'dcterms.description']), 'dublin-core')
+
+  // Plain meta tags
+  add('author', metaContent(document, 'meta[name="author"]'), 'meta')
+  add('description', metaContent(document, 'meta[name="description"]'), 'meta')
+  add('publishedAt', metaContent(document, 'meta[name="date"], meta[name="publish-date"], meta[name="publication_date"], meta[name="pubdate"], meta[name="parsely-pub-date"], meta[name="sailthru.date"]'), 'meta')
+  const metaKeywords = metaContent(document, 'meta[name="keywords"], meta[name="news_keywords"]')
+  if (metaKeywords) keywords.push(...metaKeywords.split(',').map(k => k.trim()).filter(Boolean))
+
+  // Microdata
+  const itemprop = (name: string) => {
+    const element = document.querySelector(`[itemprop="${name}"]`)
+    return clean(element?.getAttribute('content') || element?.getAttribute('datetime') || element?.textContent)
+  }
+  add('title', itemprop('headline'), 'microdata')
+  add('publishedAt', itemprop('datePublished'), 'microdata')
+  add('modifiedAt', itemprop('dateModified'), 'microdata')
+  const microdataAuthor = document.querySelector('[itemprop="author"]')
+  add('author', clean(microdataAuthor?.querySelector('[itemprop="name"]')?.textContent || microdataAuthor?.getAttribute('content') || microdataAuthor?.textContent), 'microdata')
+
+  // <time> elements: the one inside the article is the publish date, others may be sidebars
+  const articleTime = document.querySelector('article time[datetime], time[pubdate], time[itemprop="datePublished"]')
+  add('publishedAt', articleTime?.getAttribute('datetime') || null, 'time')
+  add('publishedAt', document.querySelector('main time[datetime], time[datetime]')?.getAttribute('datetime') || null, 'time', -0.15)
+
+  // Byline markup
+  const byline = document.querySelector('[rel="author"], .byline [class*="author"], .author-name, [class*="byline__name"], .byline')
+  add('author', clean(byline?.textContent), 'byline')
+
+  // Document title and headline
+  const h1 = clean(document.querySelector('article h1, main h1, h1')?.textContent)
+  add('title', h1, 'html')
+  const titleTag = clean(document.querySelector('title')?.textContent)
+  add('title', titleTag ? stripSiteSuffix(titleTag, siteName) : null, 'html', -0.1)
+
+  let canonicalUrl: string | null = null
+  const canonicalHref = document.querySelector('link[rel="canonical"]')?.getAttribute('href') || metaContent(document, 'meta[property="og:url"]')
+  if (canonicalHref) {
+    try {
+      canonicalUrl = new URL(canonicalHref, pageUrl).toString()
+    } catch {
+      canonicalUrl = null
+    }
+  }
+
+  const metadata = Object.fromEntries(METADATA_FIELDS.map(field => [field, pickBest(field, candidates[field])])) as Record<MetadataField, MetadataValue | null>
+
+  return {
+    ...metadata,
+    keywords: Array.from(new Set(keywords.map(k => k.toLowerCase()))).slice(0, 20),
+    canonicalUrl
+  }
+}
+
+/**
+ * Fetch a page and extract its metadata; null when the page can't be fetched
+ */
+export async function fetchArticleMetadata(url: string): Promise<ArticleMetadata | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; ArticleBot/1.0)',
+        'Accept': 'text/html,application/xhtml+xml'
+      },
+      signal: AbortSignal.timeout(METADATA_FETCH_TIMEOUT)
+    })
+
+    if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) {
+      return null
+    }
+
+    return extractArticleMetadata(await response.text(), response.url || url)
+  } catch (error) {
+    console.warn(`⚠️ Metadata fetch failed for ${url}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+/**
+ * The value of a field when it is confident enough to skip asking the LLM
+ */
+export function confidentValue(metadata: ArticleMetadata | null, field: MetadataField): string | null {
+  const value = metadata?.[field]
+  return value && value.confidence >= MIN_METADATA_CONFIDENCE ? value.value : null
+}
+
+/**
+ * Fields the LLM still has to extract
+ */
+export function missingMetadataFields(metadata: ArticleMetadata | null, fields: MetadataField[]): MetadataField[] {
+  return fields.filter(field => !confidentValue(metadata, field))
+}
+
+// Local values for the fields our LLM extraction schemas share (title, author, publish_date)
+export interface LocalArticleFields {
+  title?: string
+  author?: string
+  publish_date?: string
+}
+
+const SCHEMA_PROPERTIES: Array<[MetadataField, keyof LocalArticleFields]> = [
+  ['title', 'title'],
+  ['author', 'author'],
+  ['publishedAt', 'publish_date']
+]
+
+/**
+ * Confident metadata values keyed by extraction schema property
+ */
+export function localArticleFields(metadata: ArticleMetadata | null): LocalArticleFields {
+  const fields: LocalArticleFields = {}
+  for (const [field, property] of SCHEMA_PROPERTIES) {
+    const value = confidentValue(metadata, field)
+    if (value) fields[property] = value
+  }
+  return fields
+}
+
+/**
+ * Copy of a JSON extraction schema without the properties already known locally,
+ * so the LLM is only asked for what is missing
+ */
+export function schemaWithoutLocalFields<T extends { properties: Record<string, any>, required?: string[] }>(schema: T, local: LocalArticleFields): T {
+  const known = Object.keys(local)
+  if (known.length === 0) return schema
+
+  return {
+    ...schema,
+    properties: Object.fromEntries(Object.entries(schema.properties).filter(([property]) => !known.includes(property))),
+    required: schema.required?.filter(property => !known.includes(property))
+  }
+}
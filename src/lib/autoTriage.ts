@@ -0,0 +1,367 @@
+import type { DiscoveredUrl, Prisma, ScrapedContent, TriageRule } from '@prisma/client'
+import { prisma } from './db'
+import { guessContentType } from './discoveryProfile'
+import { classifyArticleUrl } from './urlClassifier'
+
+// Auto-triage: editor-defined rules that make the obvious review decisions after each
+// discovery phase, e.g. "select if sentimentScore >= 2 and contentType in news, blog" or
+// "reject list_view". Rules for the 'discovered' stage run after phase 1 and decide
+// DiscoveredUrl.selectedForScraping; 'scraped' rules run after phase 2 and decide
+// ScrapedContent.selectedForFinalization. Rejected URLs are skipped by phase 2 and
+// rejected content is left out of phase 3's select-all.
+//
+// Rules are global or per organization. For each item the enabled rules run by priority
+// (organization rules before global ones at equal priority) and the first match decides;
+// items no rule matches are left for editors. Only undecided items are triaged, so manual
+// selections and earlier decisions are never overwritten. Every decision is recorded as a
+// TriageDecision with the signals the rule saw.
+
+export const TRIAGE_STAGES = ['discovered', 'scraped'] as const
+export type TriageStage = typeof TRIAGE_STAGES[number]
+
+export const TRIAGE_ACTIONS = ['select', 'reject'] as const
+export type TriageAction = typeof TRIAGE_ACTIONS[number]
+
+export const TRIAGE_OPERATORS = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'not_in', 'contains', 'matches'] as const
+export type TriageOperator = typeof TRIAGE_OPERATORS[number]
+
+// Fields a rule can test at each stage
+export const TRIAGE_FIELDS: Record<TriageStage, readonly string[]> = {
+  discovered: ['url', 'domain', 'path', 'title', 'contentType', 'urlType', 'source', 'urlScore', 'urlVerdict', 'classifiedBy', 'ageDays'],
+  scraped: ['url', 'domain', 'path', 'title', 'contentType', 'urlType', 'source', 'urlScore', 'urlVerdict', 'sentimentScore', 'wordCount', 'author', 'ageDays']
+}
+
+const NUMERIC_OPERATORS: TriageOperator[] = ['gt', 'gte', 'lt', 'lte']
+const LIST_OPERATORS: TriageOperator[] = ['in', 'not_in']
+
+export interface TriageCondition {
+  field: string
+  op: TriageOperator
+  value: string | number | string[]
+}
+
+export interface TriageRuleInput {
+  organizationId: string | null
+  name: string
+  stage: TriageStage
+  action: TriageAction
+  conditions: TriageCondition[]
+  priority: number
+  enabled: boolean
+}
+
+export interface TriageSummary {
+  stage: TriageStage
+  evaluated: number
+  selected: number
+  rejected: number
+  undecided: number
+  byRule: Record<string, number>
+}
+
+type Signals = Record<string, string | number | null>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === 'string' && (values as readonly string[]).includes(value)
+}
+
+/**
+ * Clean and validate a rule submitted from the admin UI. Numeric operators need numbers,
+ * in/not_in take a list (a comma-separated string is split) and regexes must compile.
+ */
+export function validateTriageRule(input: unknown): { rule: TriageRuleInput, errors: string[] } {
+  const errors: string[] = []
+  const raw: Record<string, unknown> = typeof input === 'object' && input !== null ? input as Record<string, unknown> : {}
+  const stage = isOneOf(TRIAGE_STAGES, raw.stage) ? raw.stage : 'discovered'
+  const action = isOneOf(TRIAGE_ACTIONS, raw.action) ? raw.action : 'select'
+
+  if (!isOneOf(TRIAGE_STAGES, raw.stage)) errors.push(`Unknown stage: ${raw.stage}`)
+  if (!isOneOf(TRIAGE_ACTIONS, raw.action)) errors.push(`Unknown action: ${raw.action}`)
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : ''
+  if (!name) errors.push('Rule name is required')
+
+  const priority = raw.priority === undefined || raw.priority === '' ? 100 : parseInt(String(raw.priority))
+  if (isNaN(priority)) errors.push(`Invalid priority: ${raw.priority}`)
+
+  const rawConditions: unknown[] = Array.isArray(raw.conditions) ? raw.conditions : []
+  if (rawConditions.length === 0) errors.push('At least one condition is required')
+
+  const conditions = rawConditions.flatMap((entry): TriageCondition[] => {
+    const condition: Record<string, unknown> = typeof entry === 'object' && entry !== null ? entry as Record<string, unknown> : {}
+    const field = String(condition.field || '')
+    const op = condition.op
+
+    if (!TRIAGE_FIELDS[stage].includes(field)) {
+      errors.push(`Unknown field for ${stage} rules: ${field}`)
+      return []
+    }
+    if (!isOneOf(TRIAGE_OPERATORS, op)) {
+      errors.push(`Unknown operator: ${op}`)
+      return []
+    }
+
+    if (NUMERIC_OPERATORS.includes(op)) {
+      const value = parseFloat(String(condition.value))
+      if (isNaN(value)) {
+        errors.push(`${field} ${op} needs a number`)
+        return []
+      }
+      return [{ field, op, value }]
+    }
+
+    if (LIST_OPERATORS.includes(op)) {
+      const values = (Array.isArray(condition.value) ? condition.value : String(condition.value ?? '').split(','))
+        .map((value: unknown) => String(value).trim())
+        .filter(Boolean)
+      if (values.length === 0) {
+        errors.push(`${field} ${op} needs at least one value`)
+        return []
+      }
+      return [{ field, op, value: values }]
+    }
+
+    const value = String(condition.value ?? '').trim()
+    if (op === 'matches') {
+      try {
+        new RegExp(value, 'i')
+      } catch {
+        errors.push(`Invalid regex for ${field}: ${value}`)
+        return []
+      }
+    }
+    return [{ field, op, value }]
+  })
+
+  return {
+    rule: {
+      organizationId: typeof raw.organizationId === 'string' && raw.organizationId ? raw.organizationId : null,
+      name,
+      stage,
+      action,
+      conditions,
+      priority: isNaN(priority) ? 100 : priority,
+      enabled: raw.enabled !== false
+    },
+    errors
+  }
+}
+
+// URL-derived signals shared by both stages. contentType is list_view for listing and
+// archive pages, otherwise the type suggested by the path (news, blog, ...) or other -
+// scraped content has no content type of its own, so the scraped stage sees the same guess.
+function urlSignals(url: string): Signals {
+  const classification = classifyArticleUrl(url)
+  const isListing = classification.reasons.some(reason => reason === 'listing/archive page' || reason === 'section index page')
+  let domain: string | null = null
+  let path: string | null = null
+  try {
+    const parsed = new URL(url)
+    domain = parsed.hostname.replace(/^www\./, '')
+    path = parsed.pathname
+  } catch {
+    // Leave domain and path unset for unparseable URLs
+  }
+
+  return {
+    url,
+    domain,
+    path,
+    contentType: isListing ? 'list_view' : guessContentType(url) || 'other',
+    urlVerdict: classification.verdict
+  }
+}
+
+function ageInDays(date: Date | null | undefined): number | null {
+  return date ? Math.floor((Date.now() - new Date(date).getTime()) / DAY_MS) : null
+}
+
+function discoveredSignals(discoveredUrl: DiscoveredUrl): Signals {
+  return {
+    ...urlSignals(discoveredUrl.url),
+    title: discoveredUrl.titlePreview,
+    urlType: discoveredUrl.urlType,
+    source: discoveredUrl.source,
+    urlScore: discoveredUrl.urlScore,
+    classifiedBy: discoveredUrl.classifiedBy,
+    ageDays: ageInDays(discoveredUrl.publishedAt || discoveredUrl.lastModifiedAt)
+  }
+}
+
+function scrapedSignals(content: ScrapedContent & { discoveredUrl: DiscoveredUrl }): Signals {
+  const discoveredUrl = content.discoveredUrl
+  return {
+    ...urlSignals(discoveredUrl.url),
+    title: content.title || discoveredUrl.titlePreview,
+    urlType: discoveredUrl.urlType,
+    source: discoveredUrl.source,
+    urlScore: discoveredUrl.urlScore,
+    sentimentScore: content.sentimentScore,
+    wordCount: content.markdownContent ? content.markdownContent.split(/\s+/).filter(Boolean).length : 0,
+    author: content.author,
+    ageDays: ageInDays(content.publishedAt || discoveredUrl.publishedAt)
+  }
+}
+
+// A condition on a missing value never matches
+function matchesCondition(condition: TriageCondition, signals: Signals): boolean {
+  const actual = signals[condition.field]
+  if (actual === null || actual === undefined) return false
+
+  const text = String(actual).toLowerCase()
+  const expected = condition.value
+
+  switch (condition.op) {
+    case 'eq': return text === String(expected).toLowerCase()
+    case 'neq': return text !== String(expected).toLowerCase()
+    case 'gt': return Number(actual) > Number(expected)
+    case 'gte': return Number(actual) >= Number(expected)
+    case 'lt': return Number(actual) < Number(expected)
+    case 'lte': return Number(actual) <= Number(expected)
+    case 'in': return (expected as string[]).some(value => value.toLowerCase() === text)
+    case 'not_in': return !(expected as string[]).some(value => value.toLowerCase() === text)
+    case 'contains': return text.includes(String(expected).toLowerCase())
+    case 'matches':
+      try {
+        return new RegExp(String(expected), 'i').test(String(actual))
+      } catch {
+        return false
+      }
+    default: return false
+  }
+}
+
+export function matchesRule(rule: { conditions: unknown }, signals: Signals): boolean {
+  const conditions = Array.isArray(rule.conditions) ? rule.conditions as TriageCondition[] : []
+  return conditions.length > 0 && conditions.every(condition => matchesCondition(condition, signals))
+}
+
+/**
+ * Enabled rules for an organization and stage in evaluation order
+ */
+export async function loadTriageRules(organizationId: string, stage: TriageStage) {
+  const rules = await prisma.triageRule.findMany({
+    where: {
+      stage,
+      enabled: true,
+      OR: [{ organizationId }, { organizationId: null }]
+    },
+    orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+  })
+
+  // Organization rules first at equal priority; the stable sort keeps createdAt order otherwise
+  return rules.sort((a: TriageRule, b: TriageRule) => a.priority - b.priority || Number(a.organizationId === null) - Number(b.organizationId === null))
+}
+
+/**
+ * Run a stage's rules over a session's undecided items. 'discovered' looks at pending
+ * URLs not yet selected (manual URLs excluded); 'scraped' at content not yet selected.
+ */
+export async function applyTriageRules(sessionId: string, stage: TriageStage): Promise<TriageSummary> {
+  const session = await prisma.discoverySession.findUniqueOrThrow({
+    where: { id: sessionId },
+    select: { id: true, organizationId: true }
+  })
+
+  const summary: TriageSummary = { stage, evaluated: 0, selected: 0, rejected: 0, undecided: 0, byRule: {} }
+  const rules = await loadTriageRules(session.organizationId, stage)
+  if (rules.length === 0) return summary
+
+  const items: Array<{ id: string, url: string, signals: Signals }> = stage === 'discovered'
+    ? (await prisma.discoveredUrl.findMany({
+        where: {
+          discoverySessionId: sessionId,
+          triageAction: null,
+          selectedForScraping: false,
+          scrapeStatus: 'pending',
+          source: { not: 'manual' }
+        }
+      })).map(discoveredUrl => ({ id: discoveredUrl.id, url: discoveredUrl.url, signals: discoveredSignals(discoveredUrl) }))
+    : (await prisma.scrapedContent.findMany({
+        where: {
+          discoverySessionId: sessionId,
+          triageAction: null,
+          selectedForFinalization: false
+        },
+        include: { discoveredUrl: true }
+      })).map(content => ({ id: content.id, url: content.discoveredUrl.url, signals: scrapedSignals(content) }))
+
+  summary.evaluated = items.length
+
+  for (const item of items) {
+    const rule = rules.find(candidate => matchesRule(candidate, item.signals))
+    if (!rule) {
+      summary.undecided++
+      continue
+    }
+
+    const decision = { triageAction: rule.action, triageRuleName: rule.name }
+    if (stage === 'discovered') {
+      await prisma.discoveredUrl.update({
+        where: { id: item.id },
+        data: rule.action === 'select'
+          ? { ...decision, selectedForScraping: true }
+          : { ...decision, scrapeStatus: 'skipped' }
+      })
+    } else {
+      await prisma.scrapedContent.update({
+        where: { id: item.id },
+        data: rule.action === 'select' ? { ...decision, selectedForFinalization: true } : decision
+      })
+    }
+
+    await prisma.triageDecision.create({
+      data: {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        stage,
+        action: rule.action,
+        discoverySessionId: sessionId,
+        discoveredUrlId: stage === 'discovered' ? item.id : null,
+        scrapedContentId: stage === 'scraped' ? item.id : null,
+        url: item.url,
+        signals: item.signals as Prisma.InputJsonValue
+      }
+    })
+
+    if (rule.action === 'select') summary.selected++
+    else summary.rejected++
+    summary.byRule[rule.name] = (summary.byRule[rule.name] || 0) + 1
+  }
+
+  if (stage === 'discovered' && summary.selected > 0) {
+    const selectedUrls = await prisma.discoveredUrl.count({ where: { discoverySessionId: sessionId, selectedForScraping: true } })
+    await prisma.discoverySession.update({
+      where: { id: sessionId },
+      data: { selectedUrls, updatedAt: new Date() }
+    })
+  }
+
+  console.log(`🚦 Auto-triage (${stage}) for session ${sessionId}: ${summary.selected} selected, ${summary.rejected} rejected, ${summary.undecided} left for review`)
+
+  return summary
+}
+
+/**
+ * applyTriageRules for the end of a phase: a failing rule run never fails the phase
+ */
+export async function applyTriageRulesSafely(sessionId: string, stage: TriageStage): Promise<TriageSummary | null> {
+  try {
+    return await applyTriageRules(sessionId, stage)
+  } catch (error) {
+    console.warn(`⚠️ Auto-triage (${stage}) failed for session ${sessionId}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+/**
+ * Audit trail for a session: every rule decision, newest first
+ */
+export async function listTriageDecisions(sessionId: string) {
+  return prisma.triageDecision.findMany({
+    where: { discoverySessionId: sessionId },
+    orderBy: { createdAt: 'desc' }
+  })
+}
@@ -0,0 +1,228 @@
+import { prisma } from './db'
+
+// Canonical URL handling shared by every pipeline (phase 1-3, sitemaps, feeds, Inngest jobs).
+// There are two forms of a URL:
+//   - normalizeUrl: the URL we store and fetch (DiscoveredUrl.url, Article.url). It only drops
+//     what never changes the page (fragment, tracking params, default port), so it still loads.
+//   - canonicalUrlKey: the dedup key (Article.canonicalUrl, SeenUrl.url). It also forces https
+//     and folds www./amp. hosts and AMP variants, so it is compared but never fetched.
+//
+// The key rules are mirrored in prisma/migrations/20250912110418_canonicalize_urls - keep them in sync.
+
+const CANONICAL_FETCH_TIMEOUT = 15000
+
+// Query parameters that only carry campaign/click tracking and never change the page
+const TRACKING_PARAM_PREFIXES = ['utm_', 'mc_', '_hs', 'oly_']
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  '_ga', '_gl', 'ref', 'ref_src', 'ref_url', 's_cid', 'cmpid', 'mkt_tok', 'vero_id',
+  'ck_subscriber_id', 'rb_clickid', 'wickedid', 'sr_share', 'ocid', 'hsctatracking'
+])
+
+function isTrackingParam(key: string): boolean {
+  const lower = key.toLowerCase()
+  return TRACKING_PARAMS.has(lower) || TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix))
+}
+
+// Unwrap AMP cache/viewer URLs back to the publisher URL:
+//   https://example-org.cdn.ampproject.org/c/s/example.org/news/story/amp/
+//   https://www.google.com/amp/s/example.org/news/story/amp/
+function unwrapAmpCache(parsed: URL): URL {
+  const host = parsed.hostname.toLowerCase()
+  let match: RegExpMatchArray | null = null
+
+  if (host.endsWith('.cdn.ampproject.org')) {
+    match = parsed.pathname.match(/^\/[cv](?:\/s)?\/(.+)$/)
+  } else if (/^(www\.)?google\.[a-z.]+$/.test(host)) {
+    match = parsed.pathname.match(/^\/amp(?:\/s)?\/(.+)$/)
+  }
+
+  if (!match) return parsed
+
+  try {
+    return new URL(`https://${match[1]}${parsed.search}`)
+  } catch {
+    return parsed
+  }
+}
+
+// Parse an http(s) URL, or null for anything else
+function parseHttpUrl(url: string): URL | null {
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// Drop tracking params, leaving the query untouched (order and encoding) when there are none
+function stripTrackingParams(parsed: URL): void {
+  const keys = Array.from(parsed.searchParams.keys())
+  if (!keys.some(isTrackingParam)) return
+
+  const kept = new URLSearchParams()
+  parsed.searchParams.forEach((value, key) => {
+    if (!isTrackingParam(key)) kept.append(key, value)
+  })
+  parsed.search = kept.toString()
+}
+
+/**
+ * Clean a URL for storage and fetching: unwrap AMP cache URLs and drop the fragment,
+ * credentials, default port and tracking params. Scheme, host and path are kept as
+ * published. Unparseable input is returned trimmed but otherwise unchanged.
+ */
+export function normalizeUrl(url: string): string {
+  const trimmed = url.trim()
+  const parsed = parseHttpUrl(trimmed)
+  if (!parsed) return trimmed
+
+  const cleaned = unwrapAmpCache(parsed)
+  cleaned.hash = ''
+  cleaned.username = ''
+  cleaned.password = ''
+  stripTrackingParams(cleaned)
+
+  return cleaned.toString()
+}
+
+/**
+ * Dedup key of a URL: https, lowercase host without www./amp., no default port,
+ * fragment, tracking params or AMP variants, sorted query and no trailing slash.
+ * Two URLs with the same key are the same article. Never fetch the key - the host
+ * or scheme it names may not serve the page.
+ */
+export function canonicalUrlKey(url: string): string {
+  const trimmed = url.trim()
+  let parsed = parseHttpUrl(trimmed)
+  if (!parsed) return trimmed
+
+  parsed = unwrapAmpCache(parsed)
+
+  parsed.protocol = 'https:'
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^(www|amp)\./, '')
+  parsed.port = ''
+  parsed.hash = ''
+  parsed.username = ''
+  parsed.password = ''
+
+  // AMP path variants: /story/amp, /story/amp/, /story.amp, /story.amp.html
+  const pathname = parsed.pathname
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(\.html?)?$/i, '$1')
+    .replace(/\/+$/, '')
+  parsed.pathname = pathname || '/'
+
+  const kept = new URLSearchParams()
+  parsed.searchParams.forEach((value, key) => {
+    if (isTrackingParam(key)) return
+    // ?amp, ?amp=1 and ?outputType=amp select the AMP rendering of the same article
+    if (key.toLowerCase() === 'amp' || (key.toLowerCase() === 'outputtype' && value.toLowerCase() === 'amp')) return
+    kept.append(key, value)
+  })
+  kept.sort()
+  parsed.search = kept.toString()
+
+  return parsed.toString()
+}
+
+/**
+ * Normalize a URL list and drop URLs whose canonical key was already seen, preserving
+ * first-seen order (the first spelling of an article is the one kept)
+ */
+export function dedupeUrls(urls: string[]): string[] {
+  const byKey = new Map<string, string>()
+  for (const url of urls) {
+    const key = canonicalUrlKey(url)
+    if (!byKey.has(key)) byKey.set(key, normalizeUrl(url))
+  }
+  return Array.from(byKey.values())
+}
+
+/**
+ * Read <link rel="canonical"> from a page, resolved against the page URL
+ */
+export function extractCanonicalLink(html: string, pageUrl: string): string | null {
+  const linkTags = html.match(/<link\b[^>]*>/gi) || []
+
+  for (const tag of linkTags) {
+    const rel = tag.match(/\brel\s*=\s*["']?([^"'>]+)/i)?.[1]
+    if (!rel || !rel.toLowerCase().split(/\s+/).includes('canonical')) continue
+
+    const href = tag.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1]
+    if (!href) continue
+
+    try {
+      return new URL(href.trim(), pageUrl).href
+    } catch {
+      return null
+    }
+  }
+
+  return null
+}
+
+// Same site after host normalization, so a canonical link can't move an article to another domain
+function isSameSite(a: string, b: string): boolean {
+  try {
+    return new URL(canonicalUrlKey(a)).hostname === new URL(canonicalUrlKey(b)).hostname
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Resolve the canonical key of a page by following its rel=canonical link (which
+ * also maps AMP pages to their regular version). Uses the given HTML when available,
+ * otherwise fetches the page. Falls back to the key of the input URL on any failure.
+ */
+export async function resolveCanonicalUrl(url: string, html?: string | null): Promise<string> {
+  const normalized = canonicalUrlKey(url)
+
+  try {
+    let body = html
+    if (!body) {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': 'Mozilla/5.0 (compatible; ArticleBot/1.0)' },
+        signal: AbortSignal.timeout(CANONICAL_FETCH_TIMEOUT)
+      })
+      if (!response.ok) return normalized
+      body = await response.text()
+    }
+
+    const canonical = extractCanonicalLink(body, url)
+    if (canonical && isSameSite(canonical, url)) {
+      return canonicalUrlKey(canonical)
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not resolve canonical URL for ${url}:`, error instanceof Error ? error.message : String(error))
+  }
+
+  return normalized
+}
+
+/**
+ * Return the subset of URLs that already have an Article, matched on the stored url or
+ * on the canonical key (so www/AMP/http variants of an existing article count too)
+ */
+export async function findExistingArticleUrls(urls: string[], organizationId?: string): Promise<Set<string>> {
+  if (urls.length === 0) return new Set()
+
+  const keys = urls.map(canonicalUrlKey)
+  const articles = await prisma.article.findMany({
+    where: {
+      OR: [
+        { url: { in: urls } },
+        { canonicalUrl: { in: keys } }
+      ],
+      ...(organizationId && { organizationId })
+    },
+    select: { url: true, canonicalUrl: true }
+  })
+
+  const existingUrls = new Set(articles.map(article => article.url))
+  const existingKeys = new Set(articles.map(article => article.canonicalUrl || canonicalUrlKey(article.url)))
+
+  return new Set(urls.filter((url, i) => existingUrls.has(url) || existingKeys.has(keys[i])))
+}
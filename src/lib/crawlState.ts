@@ -0,0 +1,131 @@
+import { createHash } from 'crypto'
+import { prisma } from './db'
+import { canonicalUrlKey } from './canonicalUrl'
+
+const CRAWL_USER_AGENT = 'Mozilla/5.0 (compatible; ArticleBot/1.0)'
+
+export type CrawlStateSave = () => Promise<void>
+
+export interface ConditionalFetchResult {
+  changed: boolean
+  status: number
+  body: string | null
+  // Persists the new validators and content hash. Call it only once the body has been
+  // processed successfully, so a failed crawl is retried on the next run instead of
+  // being skipped as unchanged.
+  saveState: CrawlStateSave
+}
+
+/**
+ * Fetch a page (news page or feed) with the ETag/Last-Modified validators
+ * stored from the previous crawl. Returns changed=false on 304 Not Modified, or
+ * when the server ignores validators but the body hash matches the last fetch.
+ * Nothing is stored until the caller invokes `saveState`.
+ */
+export async function fetchIfChanged(organizationId: string, url: string, options: { force?: boolean } = {}): Promise<ConditionalFetchResult> {
+  const state = await prisma.pageCrawlState.findUnique({
+    where: { organizationId_url: { organizationId, url } }
+  })
+
+  const headers: Record<string, string> = { 'User-Agent': CRAWL_USER_AGENT }
+  if (state && !options.force) {
+    if (state.etag) headers['If-None-Match'] = state.etag
+    if (state.lastModified) headers['If-Modified-Since'] = state.lastModified
+  }
+
+  const response = await fetch(url, { headers, signal: AbortSignal.timeout(30000) })
+  const now = new Date()
+
+  if (response.status === 304) {
+    console.log(`💤 ${url} not modified since ${state?.lastChangedAt?.toISOString() || 'last crawl'}`)
+    return {
+      changed: false,
+      status: 304,
+      body: null,
+      saveState: async () => {
+        await prisma.pageCrawlState.update({
+          where: { organizationId_url: { organizationId, url } },
+          data: { lastFetchedAt: now }
+        })
+      }
+    }
+  }
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const body = await response.text()
+  const contentHash = createHash('sha256').update(body).digest('hex')
+  const changed = options.force || !state || state.contentHash !== contentHash
+  const etag = response.headers.get('etag')
+  const lastModified = response.headers.get('last-modified')
+
+  if (!changed) {
+    console.log(`💤 ${url} content unchanged since last crawl`)
+  }
+
+  const saveState = async () => {
+    await prisma.pageCrawlState.upsert({
+      where: { organizationId_url: { organizationId, url } },
+      create: {
+        organizationId,
+        url,
+        etag,
+        lastModified,
+        contentHash,
+        lastFetchedAt: now,
+        lastChangedAt: now
+      },
+      update: {
+        etag,
+        lastModified,
+        contentHash,
+        lastFetchedAt: now,
+        ...(changed && { lastChangedAt: now })
+      }
+    })
+  }
+
+  return { changed, status: response.status, body, saveState }
+}
+
+/**
+ * Split URLs into those never seen for this organization and those seen in an earlier
+ * session. SeenUrl stores canonical keys, so any spelling of a seen article counts as seen.
+ */
+export async function partitionSeenUrls(organizationId: string, urls: string[]): Promise<{ unseen: string[], seen: string[] }> {
+  if (urls.length === 0) return { unseen: [], seen: [] }
+
+  const seenRecords = await prisma.seenUrl.findMany({
+    where: { organizationId, url: { in: urls.map(canonicalUrlKey) } },
+    select: { url: true }
+  })
+
+  const seenSet = new Set(seenRecords.map(record => record.url))
+
+  return {
+    unseen: urls.filter(url => !seenSet.has(canonicalUrlKey(url))),
+    seen: urls.filter(url => seenSet.has(canonicalUrlKey(url)))
+  }
+}
+
+/**
+ * Record that URLs were surfaced by discovery, keeping the first-seen timestamp
+ */
+export async function markUrlsSeen(organizationId: string, urls: string[]): Promise<void> {
+  if (urls.length === 0) return
+
+  const now = new Date()
+  urls = Array.from(new Set(urls.map(canonicalUrlKey)))
+
+  await prisma.seenUrl.createMany({
+    data: urls.map(url => ({ organizationId, url, firstSeenAt: now, lastSeenAt: now })),
+    skipDuplicates: true
+  })
+
+  await prisma.seenUrl.updateMany({
+    where: { organizationId, url: { in: urls } },
+    data: { lastSeenAt: now }
+  })
+}
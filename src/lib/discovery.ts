@@ -0,0 +1,666 @@
+import { prisma } from '@/lib/db'
+import { getPrompt, runPrompt } from '@/lib/prompts'
+import { withLlmContext } from '@/lib/llmUsage'
+import { collectFeedEntries, detectOrganizationFeeds, parseFeed } from '@/lib/feeds'
+import { CrawlStateSave, fetchIfChanged, partitionSeenUrls, markUrlsSeen } from '@/lib/crawlState'
+import { normalizeUrl, canonicalUrlKey, dedupeUrls, findExistingArticleUrls } from '@/lib/canonicalUrl'
+import { DiscoveryProfile, getDiscoveryProfile, createProfileFilter, sortByPreferredContentType } from '@/lib/discoveryProfile'
+import { ListingPage, ListingPageYield, PaginationOptions, walkPaginatedListing, extractListingLinks } from '@/lib/pagination'
+import { classifyArticleUrl, triageUrls } from '@/lib/urlClassifier'
+import { applyTriageRulesSafely } from '@/lib/autoTriage'
+
+// How long to wait before re-running feed autodetection for orgs without feeds
+const FEED_RECHECK_INTERVAL_MS = 7 * 24 * 60 * 60 * 1000
+
+export interface DiscoveredUrlInput {
+  url: string
+  urlType: 'news' | 'post'
+  domain: string
+  titlePreview: string | null
+  publishedAt?: Date | null
+  lastModifiedAt?: Date | null
+  source?: string
+  urlScore?: number | null          // Heuristic article score from the URL classifier
+  classifiedBy?: 'rules' | 'ai' | null
+  classifierPromptVersion?: string | null
+}
+
+// A URL kept by the article filter, with how it was decided
+interface FilteredUrl {
+  url: string
+  score: number
+  classifiedBy: 'rules' | 'ai'
+  promptVersion?: string            // urlFilter prompt ref when classifiedBy is 'ai'
+}
+
+export interface DiscoveryOrganization {
+  id: string
+  name: string
+  website: string | null
+  feedUrls: string[]
+  feedsCheckedAt: Date | null
+  // Discovery profile fields (see discoveryProfileSelect); missing fields mean no tuning
+  seedUrls?: string[]
+  allowedDomains?: string[]
+  blockedDomains?: string[]
+  includeUrlPatterns?: string[]
+  excludeUrlPatterns?: string[]
+  preferredContentTypes?: string[]
+}
+
+// Firecrawl URL extraction function
+async function extractUrlsWithFirecrawl(newsUrl: string): Promise<{ success: boolean, urls: string[], error?: string }> {
+  if (!process.env.FIRECRAWL_API_KEY) {
+    return { success: false, urls: [], error: 'Firecrawl API key not configured' }
+  }
+
+  try {
+    const response = await fetch('https://api.firecrawl.dev/v0/scrape', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${process.env.FIRECRAWL_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        url: newsUrl,
+        formats: ['links'], // Get all links from the page
+        onlyMainContent: false, // Get all links, not just main content
+        timeout: 30000
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Firecrawl API error: ${response.status}`)
+    }
+
+    const result = await response.json()
+    console.log('🔥 Firecrawl response:', JSON.stringify(result, null, 2))
+
+    if (!result.success) {
+      throw new Error(`Firecrawl scraping failed: ${result.error}`)
+    }
+
+    // Extract links from Firecrawl response
+    const links = result.data?.linksOnPage || result.data?.links || []
+    console.log(`🔗 Firecrawl extracted ${links.length} links`)
+
+    return { success: true, urls: links }
+  } catch (error) {
+    console.error('🔥❌ Firecrawl URL extraction failed:', error)
+    return { 
+      success: false, 
+      urls: [], 
+      error: error instanceof Error ? error.message : String(error) 
+    }
+  }
+}
+
+// URL filtering to keep only content URLs. The rules-based classifier decides the
+// obvious cases locally; only URLs it scores as ambiguous are sent to the AI.
+async function filterUrlsWithAI(rawUrls: string[], organizationName: string, baseUrl: string): Promise<FilteredUrl[]> {
+  if (rawUrls.length === 0) return []
+  
+  const { articles, nonArticles, ambiguous } = triageUrls(Array.from(new Set(rawUrls)), baseUrl)
+  const kept: FilteredUrl[] = articles.map(c => ({ url: c.url, score: c.score, classifiedBy: 'rules' }))
+  console.log(`📏 URL rules: ${articles.length} articles, ${nonArticles.length} dropped, ${ambiguous.length} ambiguous`)
+  
+  if (ambiguous.length === 0) return kept
+  
+  const urls = ambiguous.map(c => c.url)
+  const scores = new Map(ambiguous.map(c => [c.url, c.score]))
+  // On AI failure the ambiguous URLs are kept for the editor to review
+  const keepAmbiguous = () => [...kept, ...ambiguous.map(c => ({ url: c.url, score: c.score, classifiedBy: 'rules' as const }))]
+  
+  console.log(`🤖 Using AI to filter ${urls.length} ambiguous URLs for content relevance...`)
+  
+  try {
+    const { object, promptVersion } = await runPrompt(getPrompt('urlFilter'), { organizationName, baseUrl, urls })
+    const filteredUrls = object.urls
+
+    console.log(`🤖✅ AI filtered ${urls.length} URLs → ${filteredUrls.length} content URLs`)
+    console.log(`🤖 Kept: ${filteredUrls.map(url => url.split('/').pop()).join(', ')}`)
+    
+    // Only trust URLs we actually asked about
+    return [
+      ...kept,
+      ...filteredUrls
+        .filter(url => scores.has(url))
+        .map(url => ({ url, score: scores.get(url)!, classifiedBy: 'ai' as const, promptVersion }))
+    ]
+
+  } catch (error) {
+    console.error('🤖❌ AI URL filtering failed:', error)
+    console.log('🤖 Keeping ambiguous URLs for review')
+    return keepAmbiguous()
+  }
+}
+
+// URL classification function
+function classifyUrls(filteredUrls: FilteredUrl[], newsUrl: string): DiscoveredUrlInput[] {
+  // Hosts and the news page itself are compared by canonical key, so www/http variants match
+  const newsUrlObj = new URL(canonicalUrlKey(newsUrl))
+  const decisions = new Map(filteredUrls.map(f => [canonicalUrlKey(f.url), f]))
+  
+  return dedupeUrls(filteredUrls.map(f => f.url))
+    .filter(url => {
+      try {
+        const parsedUrl = new URL(url)
+        const path = parsedUrl.pathname.toLowerCase()
+        
+        // Skip the news URL itself
+        if (canonicalUrlKey(url) === newsUrlObj.href) return false
+        
+        // Basic protocol filtering
+        if (!['http:', 'https:'].includes(parsedUrl.protocol)) return false
+        
+        // Skip obvious non-content paths
+        const skipPaths = ['/feed/', '.xml', '.rss', '/wp-json/', '/api/', '.css', '.js', '.jpg', '.png', '.gif', '.svg']
+        const shouldSkip = skipPaths.some(skipPath => path.includes(skipPath))
+        if (shouldSkip) return false
+        
+        // Skip very short paths (likely not content)
+        if (path.length < 3 || (path === '/' || path === '/learn' || path === '/resources')) return false
+        
+        return true
+      } catch {
+        return false
+      }
+    })
+    .slice(0, 100) // Limit to 100 URLs for review
+    .map(url => {
+      const urlObj = new URL(url)
+      const newsUrlDomain = newsUrlObj.hostname
+      const key = canonicalUrlKey(url)
+      
+      // Classification logic
+      const urlType: 'news' | 'post' = new URL(key).hostname === newsUrlDomain ? 'post' : 'news'
+      
+      return {
+        url,
+        urlType,
+        domain: urlObj.hostname,
+        titlePreview: null, // Will be populated later if needed
+        urlScore: decisions.get(key)?.score ?? null,
+        classifiedBy: decisions.get(key)?.classifiedBy ?? null,
+        classifierPromptVersion: decisions.get(key)?.promptVersion ?? null
+      }
+    })
+}
+
+// Feed-based discovery: uses stored feeds, autodetecting them when missing.
+// Feeds are fetched conditionally; `unchanged` is set when every feed returned 304 or the same body.
+async function discoverUrlsFromFeeds(
+  organization: DiscoveryOrganization,
+  newsUrl: string,
+  force: boolean
+): Promise<{ urls: DiscoveredUrlInput[], unchanged: boolean, pendingStates: CrawlStateSave[] }> {
+  let feedUrls = organization.feedUrls
+  
+  const recheckDue = !organization.feedsCheckedAt ||
+    Date.now() - organization.feedsCheckedAt.getTime() > FEED_RECHECK_INTERVAL_MS
+  
+  if (feedUrls.length === 0 && recheckDue) {
+    console.log(`📡 Autodetecting feeds for ${organization.name}...`)
+    feedUrls = await detectOrganizationFeeds([newsUrl, organization.website])
+    
+    await prisma.organization.update({
+      where: { id: organization.id },
+      data: {
+        feedUrls,
+        feedsCheckedAt: new Date()
+      }
+    })
+  }
+  
+  if (feedUrls.length === 0) {
+    return { urls: [], unchanged: false, pendingStates: [] }
+  }
+  
+  console.log(`📡 Reading ${feedUrls.length} feeds for ${organization.name}`)
+  let unchangedFeeds = 0
+  const pendingStates: CrawlStateSave[] = []
+  const entries = await collectFeedEntries(feedUrls, async feedUrl => {
+    const result = await fetchIfChanged(organization.id, feedUrl, { force })
+    if (!result.changed || !result.body) {
+      unchangedFeeds++
+      pendingStates.push(result.saveState)
+      return null
+    }
+    // parseFeed throws on a malformed feed, so only feeds that were read get their state saved
+    const feed = parseFeed(result.body, feedUrl)
+    pendingStates.push(result.saveState)
+    return feed
+  })
+  const newsUrlDomain = new URL(canonicalUrlKey(newsUrl)).hostname
+  const seenEntryKeys = new Set<string>()
+  
+  const urls = entries
+    .map(entry => ({ ...entry, url: normalizeUrl(entry.url), key: canonicalUrlKey(entry.url) }))
+    .filter(entry => !seenEntryKeys.has(entry.key) && seenEntryKeys.add(entry.key))
+    .slice(0, 100) // Same review limit as crawled URLs
+    .map(entry => {
+      const urlObj = new URL(entry.url)
+      return {
+        url: entry.url,
+        urlType: new URL(entry.key).hostname === newsUrlDomain ? 'post' as const : 'news' as const,
+        domain: urlObj.hostname,
+        titlePreview: entry.title,
+        publishedAt: entry.publishedAt,
+        source: 'feed',
+        urlScore: classifyArticleUrl(entry.url).score
+      }
+    })
+  
+  return { urls, unchanged: unchangedFeeds === feedUrls.length, pendingStates }
+}
+
+// Enhanced URL extraction using Firecrawl for better dynamic content handling
+// `prefetchedHtml` is the news page body from the conditional fetch, reused by the regex fallback
+async function extractArticleUrlsWithClassification(newsUrl: string, orgName: string, prefetchedHtml?: string | null) {
+  console.log(`📄 Phase 1: Discovering URLs from ${newsUrl} using Firecrawl`)
+  
+  try {
+    // Try Firecrawl first for better dynamic content support
+    console.log('🔥 Using Firecrawl to scrape URL for link discovery...')
+    const firecrawlResult = await extractUrlsWithFirecrawl(newsUrl)
+    
+    if (firecrawlResult.success && firecrawlResult.urls.length > 0) {
+      console.log(`🔥 Firecrawl found ${firecrawlResult.urls.length} URLs`)
+      
+      // Filter URLs with AI before classification
+      const filteredUrls = await filterUrlsWithAI(firecrawlResult.urls, orgName, newsUrl)
+      
+      return classifyUrls(filteredUrls, newsUrl)
+    }
+    
+    // Fallback to basic HTTP if Firecrawl fails
+    console.log('🌐 Firecrawl failed, falling back to basic HTTP...')
+    let html = prefetchedHtml
+    if (!html) {
+      const response = await fetch(newsUrl, {
+        headers: { 
+          'User-Agent': 'Mozilla/5.0 (compatible; ArticleBot/1.0)',
+        },
+      })
+      
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      
+      html = await response.text()
+    }
+    console.log(`📊 Fetched ${html.length} characters via fallback`)
+    
+    console.log('🔍 Starting URL pattern matching...')
+    
+    // Simplified regex patterns for fallback (Firecrawl is primary)
+    const urlPatterns = [
+      /href="(https?:\/\/[^"]*(?:news|article|story|press|blog|media|post)[^"]*?)"/gi,
+      /href="(\/[^"]*(?:news|article|story|press|blog|post)[^"]*?)"/gi,
+      /href="(\/[a-zA-Z0-9\-]{5,}(?:\/[a-zA-Z0-9\-]{2,})*\/?)"/gi, // Blog-style URLs
+    ]
+    
+    let allUrls = new Set<string>()
+    const newsUrlObj = new URL(newsUrl)
+    
+    const patternNames = [
+      'Content keywords (absolute)',
+      'Content keywords (relative)', 
+      'Blog-style URLs'
+    ]
+    
+    for (let i = 0; i < urlPatterns.length; i++) {
+      const pattern = urlPatterns[i]
+      const patternName = patternNames[i] || `Pattern ${i + 1}`
+      const matches = [...html.matchAll(pattern)]
+      console.log(`🔍 Pattern "${patternName}": found ${matches.length} matches`)
+      
+      matches.forEach(match => {
+        if (match[1]) {
+          let url = match[1]
+          // Convert relative URLs to absolute
+          if (url.startsWith('/')) {
+            url = `${newsUrlObj.protocol}//${newsUrlObj.host}${url}`
+          }
+          console.log(`   → ${url}`)
+          allUrls.add(url)
+        }
+      })
+    }
+    
+    console.log(`🔗 Found ${allUrls.size} raw URLs before regex fallback filtering`)
+    
+    const fallbackUrls = Array.from(allUrls)
+    
+    // Filter URLs with AI before classification  
+    const filteredFallbackUrls = await filterUrlsWithAI(fallbackUrls, orgName, newsUrl)
+    
+    const discoveredUrls = classifyUrls(filteredFallbackUrls, newsUrl)
+    
+    console.log(`🔗 Regex fallback discovered ${discoveredUrls.length} URLs (${discoveredUrls.filter(u => u.urlType === 'news').length} news, ${discoveredUrls.filter(u => u.urlType === 'post').length} posts)`)
+    
+    console.log('✅ extractArticleUrlsWithClassification completed successfully')
+    return discoveredUrls
+    
+  } catch (error) {
+    console.error('Phase 1 discovery error:', error)
+    throw error
+  }
+}
+
+// Later listing pages come from our own fetch (or a load more JSON endpoint), so their
+// links are read from the HTML directly instead of going through Firecrawl again
+async function extractListingPageUrls(page: ListingPage, listingUrl: string, orgName: string) {
+  if (page.pageNumber === 1) {
+    return extractArticleUrlsWithClassification(page.url, orgName, page.html)
+  }
+  
+  const links = extractListingLinks(page.html || '', page.url)
+  console.log(`🔗 Found ${links.length} content links on listing page ${page.pageNumber}`)
+  const filteredUrls = await filterUrlsWithAI(links, orgName, page.url)
+  return classifyUrls(filteredUrls, listingUrl)
+}
+
+// News page crawl, skipped entirely (no Firecrawl or AI calls) when the page has not changed.
+// Pagination is followed from the first page up to `maxPages` or the `since` date cutoff.
+async function crawlNewsPageIfChanged(
+  organization: DiscoveryOrganization,
+  newsUrl: string,
+  force: boolean,
+  pagination: PaginationOptions = {}
+): Promise<{ urls: DiscoveredUrlInput[], unchanged: boolean, pages: ListingPageYield[], pendingStates: CrawlStateSave[] }> {
+  let prefetchedHtml: string | null = null
+  const pendingStates: CrawlStateSave[] = []
+  
+  try {
+    const result = await fetchIfChanged(organization.id, newsUrl, { force })
+    pendingStates.push(result.saveState)
+    if (!result.changed) {
+      console.log(`💤 News page unchanged for ${organization.name}, skipping crawl`)
+      return { urls: [], unchanged: true, pages: [], pendingStates }
+    }
+    prefetchedHtml = result.body
+  } catch (error) {
+    // Some sites block plain HTTP clients but still render through Firecrawl
+    console.warn(`⚠️ Conditional fetch failed for ${newsUrl}:`, error instanceof Error ? error.message : String(error))
+  }
+  
+  const { items, pages } = await walkPaginatedListing({
+    startUrl: newsUrl,
+    firstPageHtml: prefetchedHtml,
+    extractItems: page => extractListingPageUrls(page, newsUrl, organization.name),
+    getUrl: item => item.url,
+    ...pagination
+  })
+  
+  if (pages.length > 1) {
+    console.log(`📑 Crawled ${pages.length} listing pages from ${newsUrl}: ${pages.map(p => p.newUrls).join(' + ')} URLs`)
+  }
+  
+  // Reached only when the crawl succeeded; a throw above leaves the stored state untouched
+  return { urls: items, unchanged: false, pages, pendingStates }
+}
+
+/**
+ * Run Phase 1 for an organization: create a DiscoverySession, discover URLs
+ * (manual list, feeds, or news page crawl) and store them for review.
+ *
+ * Discovery is incremental: unchanged feeds and news pages are skipped and URLs
+ * seen in earlier runs are dropped, unless `includeSeen` is set (which also
+ * ignores the stored ETag/Last-Modified validators). Seed pages from the
+ * organization's discovery profile are crawled alongside the news page, and the
+ * profile's domain/path filters and content type preferences are applied to the
+ * result. Manual URLs are never filtered.
+ *
+ * Crawled listings are paginated up to `maxPages` pages each (stopping early at
+ * the `since` date cutoff), and what every page yielded is stored on the session.
+ *
+ * `sessionId` runs discovery into an existing session instead of creating one, so a
+ * retried job keeps a single session. URLs an earlier attempt already stored in it are
+ * kept even though that attempt marked them seen, and are not stored twice.
+ */
+export async function runPhase1Discovery(params: {
+  organization: DiscoveryOrganization
+  newsUrl: string
+  manualUrls?: string[]
+  trigger?: 'manual' | 'scheduled'
+  includeSeen?: boolean
+  sessionId?: string
+} & PaginationOptions) {
+  const { organization, newsUrl, manualUrls, trigger = 'manual', includeSeen = false, maxPages, since } = params
+  
+  // Create discovery session (or resume the one a failed attempt left behind)
+  const session = params.sessionId
+    ? await prisma.discoverySession.update({
+        where: { id: params.sessionId },
+        data: { status: 'discovering', updatedAt: new Date() }
+      })
+    : await prisma.discoverySession.create({
+        data: {
+          organizationId: organization.id,
+          newsUrl,
+          status: 'discovering',
+          trigger
+        }
+      })
+  const storedKeys = new Set(params.sessionId
+    ? (await prisma.discoveredUrl.findMany({ where: { discoverySessionId: session.id }, select: { url: true } })).map(u => canonicalUrlKey(u.url))
+    : [])
+  
+  // AI calls made while discovering are billed to this organization and session
+  return withLlmContext({ organizationId: organization.id, discoverySessionId: session.id }, async () => {
+    let discoveredUrls: DiscoveredUrlInput[] = []
+    let previouslySeen = 0
+    let unchanged = false
+    let pageYields: ListingPageYield[] = []
+    // Crawl state is saved only after the discovered URLs are stored, so a failed run is re-crawled
+    const pendingStates: CrawlStateSave[] = []
+
+    if (manualUrls && Array.isArray(manualUrls)) {
+      // Process manual URLs (skip discovery)
+      console.log(`📝 Processing ${manualUrls.length} manual URLs for ${organization.name}`)
+    
+      discoveredUrls = dedupeUrls(manualUrls).map((url: string) => {
+        const urlObj = new URL(url)
+        return {
+          url,
+          urlType: 'post' as const, // Default to 'post' for manual URLs
+          domain: urlObj.hostname,
+          titlePreview: `Manual: ${urlObj.pathname}`,
+          source: 'manual'
+        }
+      })
+    
+      console.log(`🔗 Manual URLs processed: ${discoveredUrls.length} URLs`)
+    } else {
+      // Standard discovery process
+      console.log(`🚀 Starting Phase 1 discovery for ${organization.name}`)
+      console.log(`📡 News URL: ${newsUrl}`)
+    
+      // Prefer feeds: they list articles directly, so no crawl or AI filtering is needed
+      const feedResult = await discoverUrlsFromFeeds(organization, newsUrl, includeSeen)
+      discoveredUrls = feedResult.urls
+      unchanged = feedResult.unchanged
+      pendingStates.push(...feedResult.pendingStates)
+    
+      if (discoveredUrls.length > 0) {
+        console.log(`📡 Feeds returned ${discoveredUrls.length} URLs, skipping HTML crawl`)
+      } else if (unchanged) {
+        console.log('📡 Feeds unchanged since last run, skipping HTML crawl')
+      } else {
+        console.log('📄 Calling extractArticleUrlsWithClassification...')
+        const crawlResult = await crawlNewsPageIfChanged(organization, newsUrl, includeSeen, { maxPages, since })
+        discoveredUrls = crawlResult.urls
+        unchanged = crawlResult.unchanged
+        pageYields = crawlResult.pages
+        pendingStates.push(...crawlResult.pendingStates)
+        console.log(`🔗 Discovery returned ${discoveredUrls.length} URLs`)
+      }
+    
+      const profile: DiscoveryProfile = getDiscoveryProfile(organization)
+      const newsPageKey = canonicalUrlKey(newsUrl)
+    
+      for (const seedUrl of profile.seedUrls.filter(url => canonicalUrlKey(url) !== newsPageKey)) {
+        console.log(`🌱 Crawling profile seed page: ${seedUrl}`)
+        const seedResult = await crawlNewsPageIfChanged(organization, seedUrl, includeSeen, { maxPages, since })
+        const known = new Set(discoveredUrls.map(u => u.url))
+        discoveredUrls.push(...seedResult.urls.filter(u => !known.has(u.url)))
+        unchanged = unchanged && seedResult.unchanged
+        pageYields.push(...seedResult.pages)
+        pendingStates.push(...seedResult.pendingStates)
+      }
+    
+      const getExclusion = createProfileFilter(profile)
+      const beforeProfile = discoveredUrls.length
+      discoveredUrls = sortByPreferredContentType(
+        discoveredUrls.filter(u => !getExclusion(u.url)),
+        u => u.url,
+        profile
+      )
+      if (discoveredUrls.length < beforeProfile) {
+        console.log(`🧭 Discovery profile excluded ${beforeProfile - discoveredUrls.length} URLs`)
+      }
+    
+      if (!includeSeen && discoveredUrls.length > 0) {
+        const { unseen } = await partitionSeenUrls(organization.id, discoveredUrls.map(u => u.url))
+        const unseenSet = new Set(unseen)
+        const beforeSeen = discoveredUrls.length
+        discoveredUrls = discoveredUrls.filter(u => unseenSet.has(u.url) || storedKeys.has(canonicalUrlKey(u.url)))
+        previouslySeen = beforeSeen - discoveredUrls.length
+        console.log(`🆕 ${discoveredUrls.length} new URLs (${previouslySeen} seen in earlier runs)`)
+      }
+    }
+  
+    // Save discovered URLs to database
+    await Promise.all(
+      discoveredUrls.filter(urlData => !storedKeys.has(canonicalUrlKey(urlData.url))).map(urlData => 
+        prisma.discoveredUrl.create({
+          data: {
+            discoverySessionId: session.id,
+            url: urlData.url,
+            urlType: urlData.urlType,
+            domain: urlData.domain,
+            titlePreview: urlData.titlePreview,
+            publishedAt: urlData.publishedAt || null,
+            lastModifiedAt: urlData.lastModifiedAt || null,
+            source: urlData.source || 'crawl',
+            urlScore: urlData.urlScore ?? null,
+            classifiedBy: urlData.classifiedBy ?? null,
+            classifierPromptVersion: urlData.classifierPromptVersion ?? null,
+            selectedForScraping: manualUrls ? true : false // Auto-select manual URLs
+          }
+        })
+      )
+    )
+  
+    await markUrlsSeen(organization.id, discoveredUrls.map(u => u.url))
+  
+    // Update session status and counts
+    await prisma.discoverySession.update({
+      where: { id: session.id },
+      data: {
+        status: 'ready_for_review',
+        totalUrls: discoveredUrls.length,
+        pagesCrawled: pageYields.length,
+        pageYields: pageYields.length > 0 ? pageYields : undefined,
+        updatedAt: new Date()
+      }
+    })
+  
+    for (const saveState of pendingStates) {
+      await saveState()
+    }
+  
+    console.log(`✅ Phase 1 complete: ${discoveredUrls.length} URLs ready for review`)
+  
+    const triage = await applyTriageRulesSafely(session.id, 'discovered')
+  
+    return { session, discoveredUrls, previouslySeen, unchanged, pageYields, triage }
+  })
+}
+
+export interface DiscoveryDigest {
+  generatedAt: string
+  totalDiscovered: number
+  newUrls: number
+  previouslySeen: number
+  autoSelected: number
+  bySource: Record<string, number>
+  highlights: Array<{ url: string, title: string | null, publishedAt: string | null }>
+}
+
+/**
+ * Auto-select the URLs in a session that are new for the organization and build
+ * a digest of what changed. A URL is new when no earlier session discovered it
+ * and no Article exists for it; dated URLs must also be newer than `since`.
+ * The session is left in ready_for_review so an editor still confirms the run.
+ */
+export async function autoSelectNewUrls(sessionId: string, since: Date | null): Promise<DiscoveryDigest> {
+  const session = await prisma.discoverySession.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: { discoveredUrls: true }
+  })
+  
+  const urls = session.discoveredUrls.map(u => u.url)
+  
+  const [previouslyDiscovered, existingArticles] = await Promise.all([
+    prisma.discoveredUrl.findMany({
+      where: {
+        url: { in: urls },
+        discoverySessionId: { not: sessionId },
+        discoverySession: { organizationId: session.organizationId }
+      },
+      select: { url: true }
+    }),
+    findExistingArticleUrls(urls)
+  ])
+  
+  const seenUrls = new Set([
+    ...previouslyDiscovered.map(u => u.url),
+    ...existingArticles
+  ])
+  
+  const newUrls = session.discoveredUrls.filter(u => !seenUrls.has(u.url))
+  // Auto-triage rejections stand; URLs a rule already selected are counted as selected
+  const selected = newUrls.filter(u => u.triageAction !== 'reject' && (u.selectedForScraping || !since || !u.publishedAt || u.publishedAt >= since))
+  
+  if (selected.length > 0) {
+    await prisma.discoveredUrl.updateMany({
+      where: { id: { in: selected.map(u => u.id) } },
+      data: { selectedForScraping: true }
+    })
+  }
+  
+  const bySource: Record<string, number> = {}
+  for (const u of newUrls) {
+    bySource[u.source] = (bySource[u.source] || 0) + 1
+  }
+  
+  const digest: DiscoveryDigest = {
+    generatedAt: new Date().toISOString(),
+    totalDiscovered: session.discoveredUrls.length,
+    newUrls: newUrls.length,
+    previouslySeen: session.discoveredUrls.length - newUrls.length,
+    autoSelected: selected.length,
+    bySource,
+    highlights: selected.slice(0, 10).map(u => ({
+      url: u.url,
+      title: u.titlePreview,
+      publishedAt: u.publishedAt?.toISOString() || null
+    }))
+  }
+  
+  await prisma.discoverySession.update({
+    where: { id: sessionId },
+    data: {
+      status: 'ready_for_review',
+      selectedUrls: selected.length,
+      digest: digest as any,
+      updatedAt: new Date()
+    }
+  })
+  
+  console.log(`📬 Digest for session ${sessionId}: ${digest.newUrls} new, ${digest.autoSelected} auto-selected`)
+  
+  return digest
+}
@@ -0,0 +1,243 @@
+import { prisma } from './db'
+import { normalizeUrl } from './canonicalUrl'
+import { fetchListingPage, extractListingLinks } from './pagination'
+import { classifyArticleUrl } from './urlClassifier'
+
+// Per-organization discovery tuning. Replaces per-org special cases in code:
+// extra seed pages, domain allow/block lists, URL path filters and a preference
+// order for content types. Applied the same way by phase 1, bulk/URL discovery
+// and the Inngest discovery jobs. Seed URLs are always listing pages: phase 1
+// crawls them like the news page, the other pipelines add the article links
+// found on them (see collectSeedPageLinks), never the seed page itself.
+
+export const CONTENT_TYPES = ['news', 'blog', 'press_release', 'podcast', 'event'] as const
+export type ContentType = typeof CONTENT_TYPES[number]
+
+export interface DiscoveryProfile {
+  seedUrls: string[]
+  allowedDomains: string[]
+  blockedDomains: string[]
+  includeUrlPatterns: string[]
+  excludeUrlPatterns: string[]
+  preferredContentTypes: ContentType[]
+}
+
+// Prisma select for the profile fields, spread into existing organization selects
+export const discoveryProfileSelect = {
+  seedUrls: true,
+  allowedDomains: true,
+  blockedDomains: true,
+  includeUrlPatterns: true,
+  excludeUrlPatterns: true,
+  preferredContentTypes: true
+} as const
+
+// URL path hints for each content type, used to rank preferred content first
+const CONTENT_TYPE_PATTERNS: Record<ContentType, RegExp> = {
+  news: /\/(news|newsroom|in-the-news|media)(\/|$)/i,
+  blog: /\/(blog|blogs|posts?|articles?|stories|insights)(\/|$)/i,
+  press_release: /\/(press|press-releases?|releases|announcements|media-releases?)(\/|$)/i,
+  podcast: /\/(podcasts?|episodes?|listen)(\/|$)/i,
+  event: /\/(events?|webinars?|conferences?)(\/|$)/i
+}
+
+/**
+ * Profile from an organization record, with missing fields defaulted to empty lists
+ */
+export function getDiscoveryProfile(organization: Partial<Record<keyof DiscoveryProfile, string[] | null>>): DiscoveryProfile {
+  return {
+    seedUrls: organization.seedUrls || [],
+    allowedDomains: organization.allowedDomains || [],
+    blockedDomains: organization.blockedDomains || [],
+    includeUrlPatterns: organization.includeUrlPatterns || [],
+    excludeUrlPatterns: organization.excludeUrlPatterns || [],
+    preferredContentTypes: (organization.preferredContentTypes || [])
+      .filter((type): type is ContentType => (CONTENT_TYPES as readonly string[]).includes(type))
+  }
+}
+
+export async function loadDiscoveryProfile(organizationId: string): Promise<DiscoveryProfile> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: discoveryProfileSelect
+  })
+  return getDiscoveryProfile(organization || {})
+}
+
+function cleanList(values: unknown): string[] {
+  if (!Array.isArray(values)) return []
+  return Array.from(new Set(
+    values.filter((value): value is string => typeof value === 'string').map(value => value.trim()).filter(Boolean)
+  ))
+}
+
+function cleanDomain(value: string): string {
+  return value.toLowerCase().replace(/^[a-z]+:\/\//, '').replace(/\/.*$/, '').replace(/^www\./, '')
+}
+
+/**
+ * Clean and validate a profile submitted from the admin UI. Seed URLs are
+ * normalized, domains reduced to bare hostnames and every regex compiled.
+ */
+export function validateDiscoveryProfile(input: any): { profile: DiscoveryProfile, errors: string[] } {
+  const errors: string[] = []
+
+  const seedUrls = cleanList(input?.seedUrls).flatMap(url => {
+    try {
+      return [normalizeUrl(new URL(url).toString())]
+    } catch {
+      errors.push(`Invalid seed URL: ${url}`)
+      return []
+    }
+  })
+
+  const domains = (field: string) => cleanList(input?.[field]).map(cleanDomain).filter(domain => {
+    if (/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain)) return true
+    errors.push(`Invalid domain in ${field}: ${domain}`)
+    return false
+  })
+
+  const patterns = (field: string) => cleanList(input?.[field]).filter(pattern => {
+    try {
+      new RegExp(pattern, 'i')
+      return true
+    } catch {
+      errors.push(`Invalid regex in ${field}: ${pattern}`)
+      return false
+    }
+  })
+
+  const preferredContentTypes = cleanList(input?.preferredContentTypes).filter(type => {
+    if ((CONTENT_TYPES as readonly string[]).includes(type)) return true
+    errors.push(`Unknown content type: ${type}`)
+    return false
+  }) as ContentType[]
+
+  return {
+    profile: {
+      seedUrls,
+      allowedDomains: domains('allowedDomains'),
+      blockedDomains: domains('blockedDomains'),
+      includeUrlPatterns: patterns('includeUrlPatterns'),
+      excludeUrlPatterns: patterns('excludeUrlPatterns'),
+      preferredContentTypes
+    },
+    errors
+  }
+}
+
+/**
+ * Article links listed on the profile's seed pages (first page only), for pipelines
+ * that collect article URLs directly. Links the URL classifier rules out as
+ * non-articles (categories, tags, about pages) are dropped.
+ */
+export async function collectSeedPageLinks(profile: DiscoveryProfile): Promise<string[]> {
+  const links: string[] = []
+
+  for (const seedUrl of profile.seedUrls) {
+    const page = await fetchListingPage(seedUrl)
+    if (!page) {
+      console.warn(`⚠️ Could not fetch seed page ${seedUrl}`)
+      continue
+    }
+
+    const pageLinks = extractListingLinks(page.html, page.url)
+      .filter(url => classifyArticleUrl(url, page.url).verdict !== 'non_article')
+    console.log(`🌱 Seed page ${seedUrl}: ${pageLinks.length} article links`)
+    links.push(...pageLinks)
+  }
+
+  return links
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, '')
+  return domains.some(domain => host === domain || host.endsWith(`.${domain}`))
+}
+
+function compilePatterns(patterns: string[]): RegExp[] {
+  return patterns.flatMap(pattern => {
+    try {
+      return [new RegExp(pattern, 'i')]
+    } catch {
+      console.warn(`⚠️ Ignoring invalid discovery profile regex: ${pattern}`)
+      return []
+    }
+  })
+}
+
+/**
+ * Content type suggested by the URL path, if any
+ */
+export function guessContentType(url: string): ContentType | null {
+  try {
+    const { pathname } = new URL(url)
+    return CONTENT_TYPES.find(type => CONTENT_TYPE_PATTERNS[type].test(pathname)) || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Build a reusable filter for a profile. Returns the reason a URL is excluded,
+ * or null when the profile allows it.
+ */
+export function createProfileFilter(profile: DiscoveryProfile): (url: string) => string | null {
+  const include = compilePatterns(profile.includeUrlPatterns)
+  const exclude = compilePatterns(profile.excludeUrlPatterns)
+
+  return (url: string) => {
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return 'invalid URL'
+    }
+
+    if (matchesDomain(parsed.hostname, profile.blockedDomains)) return 'blocked domain'
+    if (profile.allowedDomains.length > 0 && !matchesDomain(parsed.hostname, profile.allowedDomains)) return 'domain not allowed'
+
+    const path = parsed.pathname + parsed.search
+    if (include.length > 0 && !include.some(pattern => pattern.test(path))) return 'no include pattern matched'
+    if (exclude.some(pattern => pattern.test(path))) return 'matched exclude pattern'
+
+    return null
+  }
+}
+
+/**
+ * Stable sort putting URLs that look like a preferred content type first,
+ * in the order the types are listed in the profile
+ */
+export function sortByPreferredContentType<T>(items: T[], getUrl: (item: T) => string, profile: DiscoveryProfile): T[] {
+  if (profile.preferredContentTypes.length === 0) return items
+
+  const rank = (item: T) => {
+    const type = guessContentType(getUrl(item))
+    const index = type ? profile.preferredContentTypes.indexOf(type) : -1
+    return index === -1 ? profile.preferredContentTypes.length : index
+  }
+
+  return items
+    .map((item, position) => ({ item, position, rank: rank(item) }))
+    .sort((a, b) => a.rank - b.rank || a.position - b.position)
+    .map(({ item }) => item)
+}
+
+/**
+ * Filter and order discovered URLs with a profile. Used by the search-driven
+ * discovery flows, which work on plain URL lists.
+ */
+export function applyDiscoveryProfile(urls: string[], profile: DiscoveryProfile): { urls: string[], excluded: number } {
+  const getExclusion = createProfileFilter(profile)
+  const kept = urls.filter(url => !getExclusion(url))
+
+  if (kept.length < urls.length) {
+    console.log(`🧭 Discovery profile excluded ${urls.length - kept.length} of ${urls.length} URLs`)
+  }
+
+  return {
+    urls: sortByPreferredContentType(kept, url => url, profile),
+    excluded: urls.length - kept.length
+  }
+}
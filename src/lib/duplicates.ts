@@ -0,0 +1,303 @@
+import { createHash } from 'crypto'
+import { prisma } from './db'
+
+// SimHash fingerprints within this many differing bits (of 64) are treated as near-duplicates
+export const NEAR_DUPLICATE_MAX_DISTANCE = 10
+
+// Articles shorter than this (in words) are too generic to cluster reliably
+const MIN_WORDS_FOR_SIMHASH = 40
+
+// Word shingle size for SimHash features
+const SHINGLE_SIZE = 3
+
+const FNV_OFFSET = 0xcbf29ce484222325n
+const FNV_PRIME = 0x100000001b3n
+const MASK_64 = (1n << 64n) - 1n
+
+/**
+ * Reduce markdown to plain lowercase words so formatting, links, images and
+ * boilerplate punctuation differences don't affect the fingerprints
+ */
+export function normalizeContent(markdown: string): string {
+  return markdown
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')      // images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')     // links -> link text
+    .replace(/https?:\/\/\S+/g, ' ')             // bare URLs
+    .replace(/<[^>]+>/g, ' ')                    // stray HTML
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * sha256 of the normalized content - identical for exact copies of an article
+ */
+export function computeContentHash(markdown: string): string {
+  return createHash('sha256').update(normalizeContent(markdown)).digest('hex')
+}
+
+// 64-bit FNV-1a, enough spread for SimHash features
+function fnv1a64(text: string): bigint {
+  let hash = FNV_OFFSET
+  for (const byte of Buffer.from(text, 'utf8')) {
+    hash ^= BigInt(byte)
+    hash = (hash * FNV_PRIME) & MASK_64
+  }
+  return hash
+}
+
+/**
+ * 64-bit SimHash over word shingles, as a 16-char hex string. Returns null when
+ * the content is too short to fingerprint meaningfully.
+ */
+export function computeSimHash(markdown: string): string | null {
+  const words = normalizeContent(markdown).split(' ').filter(Boolean)
+  if (words.length < MIN_WORDS_FOR_SIMHASH) return null
+
+  const weights = new Array<number>(64).fill(0)
+
+  for (let i = 0; i <= words.length - SHINGLE_SIZE; i++) {
+    const feature = fnv1a64(words.slice(i, i + SHINGLE_SIZE).join(' '))
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (feature >> BigInt(bit)) & 1n ? 1 : -1
+    }
+  }
+
+  let fingerprint = 0n
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) fingerprint |= 1n << BigInt(bit)
+  }
+
+  return fingerprint.toString(16).padStart(16, '0')
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`)
+  let count = 0
+  while (diff > 0n) {
+    diff &= diff - 1n
+    count++
+  }
+  return count
+}
+
+/**
+ * Similarity in [0, 1] derived from the SimHash distance
+ */
+export function simHashSimilarity(a: string, b: string): number {
+  return 1 - hammingDistance(a, b) / 64
+}
+
+interface DuplicateMatch {
+  articleId: string
+  duplicateGroupId: string | null
+  method: 'exact' | 'near'
+  similarity: number
+}
+
+// A fingerprinted article that new articles are compared against
+interface SimHashCandidate {
+  id: string
+  simhash: string
+  duplicateGroupId: string | null
+}
+
+// Every stored SimHash. Loaded once per scan and kept up to date as articles are grouped,
+// so scanning N articles doesn't read all fingerprints N times.
+async function loadSimHashCandidates(): Promise<SimHashCandidate[]> {
+  const rows = await prisma.article.findMany({
+    where: { simhash: { not: null } },
+    select: { id: true, simhash: true, duplicateGroupId: true }
+  })
+  return rows.flatMap(({ id, simhash, duplicateGroupId }) => simhash ? [{ id, simhash, duplicateGroupId }] : [])
+}
+
+// Find the closest existing article: exact content hash first, then nearest SimHash
+async function findDuplicateMatch(
+  articleId: string,
+  contentHash: string,
+  simhash: string | null,
+  candidates?: SimHashCandidate[]
+): Promise<DuplicateMatch | null> {
+  const exact = await prisma.article.findFirst({
+    where: { contentHash, id: { not: articleId } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true, duplicateGroupId: true }
+  })
+
+  if (exact) {
+    return { articleId: exact.id, duplicateGroupId: exact.duplicateGroupId, method: 'exact', similarity: 1 }
+  }
+
+  if (!simhash) return null
+
+  let best: DuplicateMatch | null = null
+  let bestDistance = NEAR_DUPLICATE_MAX_DISTANCE + 1
+
+  for (const candidate of candidates ?? await loadSimHashCandidates()) {
+    if (candidate.id === articleId) continue
+    const distance = hammingDistance(simhash, candidate.simhash)
+    if (distance < bestDistance) {
+      bestDistance = distance
+      best = {
+        articleId: candidate.id,
+        duplicateGroupId: candidate.duplicateGroupId,
+        method: 'near',
+        similarity: 1 - distance / 64
+      }
+    }
+  }
+
+  return best
+}
+
+/**
+ * Fingerprint an article's markdown and attach it to a duplicate group when an
+ * exact or near-duplicate already exists. New groups use the older article as
+ * canonical; merged or dismissed groups are reopened so the new copy gets reviewed.
+ * `candidates` is a preloaded SimHash list (see scanForDuplicates) that is updated
+ * with this article. Returns the group id, or null when the article is unique.
+ */
+export async function detectDuplicates(articleId: string, candidates?: SimHashCandidate[]): Promise<string | null> {
+  const article = await prisma.article.findUnique({
+    where: { id: articleId },
+    select: { id: true, content: true, duplicateGroupId: true }
+  })
+
+  if (!article?.content) return null
+
+  const contentHash = computeContentHash(article.content)
+  const simhash = computeSimHash(article.content)
+
+  await prisma.article.update({
+    where: { id: articleId },
+    data: { contentHash, simhash }
+  })
+
+  const candidate = simhash ? { id: articleId, simhash, duplicateGroupId: article.duplicateGroupId } : null
+
+  if (article.duplicateGroupId) {
+    if (candidate) candidates?.push(candidate)
+    return article.duplicateGroupId
+  }
+
+  const match = await findDuplicateMatch(articleId, contentHash, simhash, candidates)
+  if (!match) {
+    if (candidate) candidates?.push(candidate)
+    return null
+  }
+
+  let groupId = match.duplicateGroupId
+
+  if (groupId) {
+    await prisma.duplicateGroup.update({
+      where: { id: groupId },
+      data: {
+        status: 'open',
+        ...(match.method === 'near' && { method: 'near' })
+      }
+    })
+  } else {
+    const group = await prisma.duplicateGroup.create({
+      data: {
+        canonicalArticleId: match.articleId,
+        method: match.method,
+        similarity: match.similarity
+      }
+    })
+    groupId = group.id
+
+    await prisma.article.update({
+      where: { id: match.articleId },
+      data: { duplicateGroupId: groupId }
+    })
+  }
+
+  await prisma.article.update({
+    where: { id: articleId },
+    data: { duplicateGroupId: groupId }
+  })
+
+  if (candidates) {
+    const matched = candidates.find(c => c.id === match.articleId)
+    if (matched) matched.duplicateGroupId = groupId
+    if (candidate) candidates.push({ ...candidate, duplicateGroupId: groupId })
+  }
+
+  console.log(`🪞 Article ${articleId} is a${match.method === 'exact' ? 'n exact' : ' near'} duplicate of ${match.articleId} (similarity ${match.similarity.toFixed(2)})`)
+
+  return groupId
+}
+
+/**
+ * Merge a duplicate group into one article: the canonical article keeps its row
+ * and gains the other members' keywords and images; the rest are rejected with a
+ * pointer to the canonical URL.
+ */
+export async function mergeDuplicateGroup(groupId: string, canonicalArticleId: string) {
+  const group = await prisma.duplicateGroup.findUniqueOrThrow({
+    where: { id: groupId },
+    include: { articles: true }
+  })
+
+  const canonical = group.articles.find(a => a.id === canonicalArticleId)
+  if (!canonical) {
+    throw new Error(`Article ${canonicalArticleId} is not part of duplicate group ${groupId}`)
+  }
+
+  const others = group.articles.filter(a => a.id !== canonicalArticleId)
+
+  // All or nothing, so a group is never left open with rejected members (or merged without them)
+  const [, , merged] = await prisma.$transaction([
+    prisma.article.update({
+      where: { id: canonical.id },
+      data: {
+        keywords: Array.from(new Set([...canonical.keywords, ...others.flatMap(a => a.keywords)])),
+        images: Array.from(new Set([...canonical.images, ...others.flatMap(a => a.images)])).slice(0, 10),
+        ogImage: canonical.ogImage || others.find(a => a.ogImage)?.ogImage || null
+      }
+    }),
+    prisma.article.updateMany({
+      where: { id: { in: others.map(a => a.id) } },
+      data: {
+        status: 'rejected',
+        featured: false,
+        validationReasons: [`Duplicate of ${canonical.url}`]
+      }
+    }),
+    prisma.duplicateGroup.update({
+      where: { id: groupId },
+      data: {
+        canonicalArticleId,
+        status: 'merged'
+      }
+    })
+  ])
+
+  return merged
+}
+
+/**
+ * Fingerprint articles created before duplicate detection existed, oldest first
+ * so the earliest copy of a story becomes the group's canonical article
+ */
+export async function scanForDuplicates(limit: number = 500): Promise<{ scanned: number, grouped: number }> {
+  const articles: Array<{ id: string }> = await prisma.article.findMany({
+    where: { contentHash: null, content: { not: null } },
+    orderBy: { createdAt: 'asc' },
+    select: { id: true },
+    take: limit
+  })
+
+  const candidates = await loadSimHashCandidates()
+  let grouped = 0
+  for (const article of articles) {
+    const groupId = await detectDuplicates(article.id, candidates)
+    if (groupId) grouped++
+  }
+
+  console.log(`🪞 Duplicate scan: ${articles.length} articles fingerprinted, ${grouped} grouped`)
+
+  return { scanned: articles.length, grouped }
+}
@@ -0,0 +1,287 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { REJECT_REASONS, describeRejectReason, isRejectReason } from './rejectReasons'
+
+// Editorial feedback loop: every time an editor publishes or rejects an article the
+// decision is stored as an EditorialReview with a structured reject reason and a snapshot
+// of the signals the article had at that moment (discovery source, enrichment values,
+// quality score, prompt versions). That labeled history is used two ways:
+//
+// - getEditorialPrecision: share of reviewed articles editors accepted, per organization,
+//   per discovery source and per enrichment signal value, so we can see which parts of the
+//   pipeline produce the rejects (target: EDITORIAL_PRECISION_TARGET)
+// - getValidationExamples: recent accepted/rejected articles fed to the validation prompt
+//   as few-shot examples (validation@v2), each with the organization it was judged for
+//
+// Only explicit editor actions are recorded - automatic rejections (duplicates,
+// re-enrichment) aren't editorial decisions. An article's latest review is its label;
+// 'reopened' (moved back to draft) clears it. Reject reasons live in rejectReasons.ts.
+
+export const EDITORIAL_OUTCOMES = ['accepted', 'rejected', 'reopened'] as const
+export type EditorialOutcome = typeof EDITORIAL_OUTCOMES[number]
+
+export const EDITORIAL_PRECISION_TARGET = 0.8
+
+// Signals snapshotted with each review and broken down in the precision report
+export const EDITORIAL_SIGNALS = [
+  'organizationSentiment',
+  'organizationRelevance',
+  'contentType',
+  'inspirationRating',
+  'qualityBand'
+] as const
+export type EditorialSignal = typeof EDITORIAL_SIGNALS[number]
+
+const MAX_EXAMPLES = 6
+const EXAMPLE_CACHE_MS = 5 * 60 * 1000
+
+export interface ReviewedArticle {
+  id: string
+  organizationId: string
+  discoverySource?: string | null
+  organizationSentiment?: string | null
+  organizationRelevance?: string | null
+  contentType?: string | null
+  inspirationRating?: string | null
+  qualityScore?: number | null
+  promptVersions?: Prisma.JsonValue
+}
+
+export interface PrecisionBucket {
+  key: string
+  label: string
+  accepted: number
+  rejected: number
+  precision: number | null      // accepted / (accepted + rejected), null when nothing reviewed
+}
+
+export interface ValidationExample {
+  outcome: 'accepted' | 'rejected'
+  organization: string          // Organization the article was reviewed for
+  title: string
+  summary: string
+  url: string
+  reason?: string               // Reject reason label, plus the editor's note when given
+}
+
+// 0-100 score into a coarse band so it can be compared like the other signals
+export function getQualityBand(score: number | null | undefined): string | null {
+  if (score === null || score === undefined) return null
+  if (score >= 85) return '85+'
+  if (score >= 70) return '70-84'
+  if (score >= 50) return '50-69'
+  if (score >= 25) return '25-49'
+  return '0-24'
+}
+
+/**
+ * Which review a status change amounts to: publishing accepts, rejecting rejects, and
+ * moving a reviewed article back to draft reopens it. Returns null for other changes.
+ */
+export function getReviewOutcome(previousStatus: string, nextStatus: string | undefined): EditorialOutcome | null {
+  if (!nextStatus || nextStatus === previousStatus) return null
+  if (nextStatus === 'published') return 'accepted'
+  if (nextStatus === 'rejected') return 'rejected'
+  if (nextStatus === 'draft' && (previousStatus === 'published' || previousStatus === 'rejected')) return 'reopened'
+  return null
+}
+
+export async function recordEditorialReview(
+  article: ReviewedArticle,
+  outcome: EditorialOutcome,
+  options: { reason?: string | null; note?: string | null } = {}
+) {
+  const reason = outcome === 'rejected'
+    ? (isRejectReason(options.reason) ? options.reason : 'other')
+    : null
+
+  const review = await prisma.editorialReview.create({
+    data: {
+      articleId: article.id,
+      organizationId: article.organizationId,
+      outcome,
+      reason,
+      note: options.note?.trim() || null,
+      signals: {
+        discoverySource: article.discoverySource || null,
+        organizationSentiment: article.organizationSentiment || null,
+        organizationRelevance: article.organizationRelevance || null,
+        contentType: article.contentType || null,
+        inspirationRating: article.inspirationRating || null,
+        qualityScore: article.qualityScore ?? null,
+        qualityBand: getQualityBand(article.qualityScore),
+        promptVersions: article.promptVersions || null
+      }
+    }
+  })
+
+  exampleCache.delete(article.organizationId)
+  exampleCache.delete('*')
+  console.log(`📝 Editorial review: ${outcome}${reason ? ` (${reason})` : ''} for article ${article.id}`)
+  return review
+}
+
+// Labeled reviews that share an organization, outcome, reject reason and signal values
+type LabeledReviewGroup = {
+  organizationId: string
+  outcome: 'accepted' | 'rejected'
+  reason: string | null
+  discoverySource: string | null
+  count: number
+} & Record<EditorialSignal, string | null>
+
+// Latest review per article (skipping articles whose latest review reopened them), counted
+// per distinct combination in SQL so the report never loads the reviews themselves
+async function loadLabeledReviewGroups(options: { organizationId?: string; from?: Date } = {}): Promise<LabeledReviewGroup[]> {
+  const signalColumns = EDITORIAL_SIGNALS.map(signal => Prisma.sql`"signals"->>${signal} AS ${Prisma.raw(`"${signal}"`)}`)
+
+  return prisma.$queryRaw<LabeledReviewGroup[]>`
+    SELECT "organizationId", "outcome", "reason", "signals"->>'discoverySource' AS "discoverySource", ${Prisma.join(signalColumns)}, COUNT(*)::int AS "count"
+    FROM (
+      SELECT DISTINCT ON ("articleId") "organizationId", "outcome", "reason", "signals"
+      FROM "public"."EditorialReview"
+      WHERE TRUE
+        ${options.organizationId ? Prisma.sql`AND "organizationId" = ${options.organizationId}` : Prisma.empty}
+        ${options.from ? Prisma.sql`AND "createdAt" >= ${options.from}` : Prisma.empty}
+      ORDER BY "articleId", "createdAt" DESC
+    ) latest
+    WHERE "outcome" <> 'reopened'
+    GROUP BY ${Prisma.join(Array.from({ length: EDITORIAL_SIGNALS.length + 4 }, (_, index) => Prisma.raw(String(index + 1))))}
+  `
+}
+
+function bucketize(
+  groups: LabeledReviewGroup[],
+  keyOf: (group: LabeledReviewGroup) => string | null,
+  labelOf: (key: string) => string = key => key
+): PrecisionBucket[] {
+  const buckets = new Map<string, PrecisionBucket>()
+
+  for (const group of groups) {
+    const key = keyOf(group) || 'unknown'
+    const bucket = buckets.get(key) || { key, label: labelOf(key), accepted: 0, rejected: 0, precision: null }
+    if (group.outcome === 'accepted') bucket.accepted += group.count
+    else bucket.rejected += group.count
+    buckets.set(key, bucket)
+  }
+
+  return Array.from(buckets.values())
+    .map(bucket => ({ ...bucket, precision: precisionOf(bucket.accepted, bucket.rejected) }))
+    .sort((a, b) => (b.accepted + b.rejected) - (a.accepted + a.rejected))
+}
+
+function precisionOf(accepted: number, rejected: number): number | null {
+  const total = accepted + rejected
+  return total > 0 ? Math.round((accepted / total) * 1000) / 1000 : null
+}
+
+/**
+ * Precision of the pipeline as judged by editors: overall, per organization, per
+ * discovery source and per enrichment signal value, plus the reject reason breakdown
+ */
+export async function getEditorialPrecision(options: { organizationId?: string; from?: Date } = {}) {
+  const groups = await loadLabeledReviewGroups(options)
+  const accepted = groups.reduce((sum, group) => sum + (group.outcome === 'accepted' ? group.count : 0), 0)
+  const rejected = groups.reduce((sum, group) => sum + group.count, 0) - accepted
+
+  const organizations = await prisma.organization.findMany({
+    where: { id: { in: Array.from(new Set(groups.map(group => group.organizationId))) } },
+    select: { id: true, name: true }
+  })
+  const organizationNames = new Map(organizations.map(org => [org.id, org.name]))
+
+  const bySignal = {} as Record<EditorialSignal, PrecisionBucket[]>
+  for (const signal of EDITORIAL_SIGNALS) {
+    bySignal[signal] = bucketize(groups, group => group[signal])
+  }
+
+  const rejectReasons = Object.entries(REJECT_REASONS)
+    .map(([reason, label]) => ({
+      reason,
+      label,
+      count: groups
+        .filter(group => group.outcome === 'rejected' && group.reason === reason)
+        .reduce((sum, group) => sum + group.count, 0)
+    }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count)
+
+  return {
+    target: EDITORIAL_PRECISION_TARGET,
+    overall: { accepted, rejected, precision: precisionOf(accepted, rejected) },
+    byOrganization: bucketize(groups, group => group.organizationId, key => organizationNames.get(key) || key),
+    bySource: bucketize(groups, group => group.discoverySource),
+    bySignal,
+    rejectReasons
+  }
+}
+
+// organizationId -> examples, dropped when that organization gets a new review
+const exampleCache = new Map<string, { examples: ValidationExample[]; expiresAt: number }>()
+
+async function loadExamples(organizationId: string | undefined, outcome: 'accepted' | 'rejected', take: number, excludeArticleIds: string[]) {
+  const reviews = await prisma.editorialReview.findMany({
+    where: {
+      outcome,
+      ...(organizationId ? { organizationId } : {}),
+      ...(excludeArticleIds.length > 0 ? { articleId: { notIn: excludeArticleIds } } : {}),
+      article: { status: outcome === 'accepted' ? 'published' : 'rejected' }
+    },
+    include: {
+      article: { select: { id: true, title: true, summary: true, url: true } },
+      organization: { select: { name: true } }
+    },
+    orderBy: { createdAt: 'desc' },
+    take: take * 3
+  })
+
+  // Several reviews of one article only count once
+  const seen = new Set<string>()
+  return reviews.filter(review => {
+    if (seen.has(review.articleId)) return false
+    seen.add(review.articleId)
+    return true
+  }).slice(0, take)
+}
+
+/**
+ * Recent editor decisions to show the validation prompt, half accepted and half rejected.
+ * The organization's own history comes first, topped up from other organizations; each
+ * example names its organization, since relevance is judged against that organization.
+ * Never throws - validation runs without examples if they can't be loaded.
+ */
+export async function getValidationExamples(organizationId?: string, options: { excludeUrl?: string } = {}): Promise<ValidationExample[]> {
+  const cacheKey = organizationId || '*'
+  const cached = exampleCache.get(cacheKey)
+  let examples = cached && cached.expiresAt > Date.now() ? cached.examples : null
+
+  if (!examples) {
+    try {
+      const perOutcome = MAX_EXAMPLES / 2
+      const picked: Awaited<ReturnType<typeof loadExamples>> = []
+
+      for (const outcome of ['accepted', 'rejected'] as const) {
+        const own = organizationId ? await loadExamples(organizationId, outcome, perOutcome, []) : []
+        const others = own.length < perOutcome
+          ? await loadExamples(undefined, outcome, perOutcome - own.length, own.map(review => review.articleId))
+          : []
+        picked.push(...own, ...others)
+      }
+
+      examples = picked.map((review): ValidationExample => ({
+        outcome: review.outcome === 'accepted' ? 'accepted' : 'rejected',
+        organization: review.organization.name,
+        title: review.article.title,
+        summary: (review.article.summary || '').slice(0, 300),
+        url: review.article.url,
+        ...(review.outcome === 'rejected' ? { reason: describeRejectReason(review.reason, review.note) } : {})
+      }))
+      exampleCache.set(cacheKey, { examples, expiresAt: Date.now() + EXAMPLE_CACHE_MS })
+    } catch (error) {
+      console.warn('⚠️ Failed to load editorial examples:', error instanceof Error ? error.message : error)
+      return []
+    }
+  }
+
+  return options.excludeUrl ? examples.filter(example => example.url !== options.excludeUrl) : examples
+}
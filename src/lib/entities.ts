@@ -0,0 +1,330 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { getOrganizationNames, organizationIdentitySelect, OrganizationIdentity } from './organizationIdentity'
+import { mergePromptVersions } from './prompts'
+import { withLlmContext } from './llmUsage'
+import { loadSnapshot } from './snapshotStore'
+import { processWithRateLimit } from '@/utils/concurrency'
+import { extractEntities, ExtractedEntity } from '@/ai-functions/extractEntities'
+
+// Entity index: people, places, partner organizations and programs named in articles,
+// extracted by the entities prompt and normalized into Entity rows shared across articles
+// (one per type + slug) with ArticleEntity links. The slug folds case, accents,
+// punctuation and a leading "the", so "The Democratic Republic of Congo" and "democratic
+// republic of congo" are one entity; names with no Latin letters (e.g. Arabic or Chinese)
+// keep their own letters instead. Other spellings the model reports are kept as
+// aliases. The article's own organization is never an entity of its articles.
+//
+// Extraction runs after Phase 3 / bulk scrape creates an article; older articles are
+// backfilled with POST /api/admin/entities. Readers browse entities at /entities.
+
+export const ENTITY_TYPES = ['person', 'place', 'organization', 'program'] as const
+export type EntityType = typeof ENTITY_TYPES[number]
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  person: 'People',
+  place: 'Places',
+  organization: 'Partner organizations',
+  program: 'Programs'
+}
+
+export const DEFAULT_ENTITY_BACKFILL_LIMIT = 50
+const MAX_ENTITY_BACKFILL_LIMIT = 500
+const MAX_ALIASES = 10
+
+export interface EntitySummary {
+  id: string
+  type: EntityType
+  name: string
+  slug: string
+  aliases: string[]
+  articleCount: number          // Published articles mentioning it
+}
+
+export function isEntityType(value: unknown): value is EntityType {
+  return typeof value === 'string' && (ENTITY_TYPES as readonly string[]).includes(value)
+}
+
+export function normalizeEntityName(name: string): string {
+  return name.replace(/\s+/g, ' ').replace(/^["'“”‘’]+|["'“”‘’.,;:]+$/g, '').trim()
+}
+
+export function entitySlug(name: string): string {
+  const normalized = normalizeEntityName(name)
+  const slug = normalized
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/^the\s+/, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  if (/[a-z]/.test(slug) || !/\p{L}/u.test(normalized)) return slug
+
+  // Non-Latin scripts: keep letters, combining marks (vowel signs in e.g. Devanagari) and digits
+  return normalized
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Published articles of an entity, optionally within one organization
+export function entityArticleWhere(entityId: string, organizationId?: string): Prisma.ArticleWhereInput {
+  return {
+    status: 'published',
+    entities: { some: { entityId } },
+    ...(organizationId ? { organizationId } : {})
+  }
+}
+
+/**
+ * Replace an article's entity links with the extracted entities. Entities matching the
+ * article's own organization are dropped and duplicates (same type + slug) merged.
+ * Returns the number of linked entities.
+ */
+export async function saveArticleEntities(
+  article: { id: string; organization: OrganizationIdentity },
+  extracted: ExtractedEntity[]
+): Promise<number> {
+  const ownNames = new Set(getOrganizationNames(article.organization).map(entitySlug))
+  const merged = new Map<string, { type: EntityType; name: string; slug: string; aliases: Set<string>; mentions: number; context: string | null }>()
+
+  for (const entity of extracted) {
+    const name = normalizeEntityName(entity.name)
+    const slug = entitySlug(name)
+    if (!slug || !isEntityType(entity.type)) continue
+    if (ownNames.has(slug) || (entity.aliases || []).some(alias => ownNames.has(entitySlug(alias)))) continue
+
+    const key = `${entity.type}:${slug}`
+    const existing = merged.get(key)
+    const aliases = (entity.aliases || []).map(normalizeEntityName).filter(alias => alias && entitySlug(alias) !== slug)
+
+    if (existing) {
+      existing.mentions += entity.mentions || 1
+      aliases.forEach(alias => existing.aliases.add(alias))
+    } else {
+      merged.set(key, {
+        type: entity.type,
+        name,
+        slug,
+        aliases: new Set(aliases),
+        mentions: entity.mentions || 1,
+        context: entity.context?.trim().substring(0, 200) || null
+      })
+    }
+  }
+
+  const links: Array<{ articleId: string; entityId: string; mentions: number; context: string | null }> = []
+  for (const entity of merged.values()) {
+    const stored = await prisma.entity.upsert({
+      where: { type_slug: { type: entity.type, slug: entity.slug } },
+      create: { type: entity.type, name: entity.name, slug: entity.slug, aliases: Array.from(entity.aliases).slice(0, MAX_ALIASES) },
+      update: {}
+    })
+
+    const newAliases = Array.from(entity.aliases).filter(alias => !stored.aliases.includes(alias))
+    if (newAliases.length > 0 && stored.aliases.length < MAX_ALIASES) {
+      await prisma.entity.update({
+        where: { id: stored.id },
+        data: { aliases: [...stored.aliases, ...newAliases].slice(0, MAX_ALIASES) }
+      })
+    }
+
+    links.push({ articleId: article.id, entityId: stored.id, mentions: entity.mentions, context: entity.context })
+  }
+
+  await prisma.$transaction([
+    prisma.articleEntity.deleteMany({ where: { articleId: article.id } }),
+    prisma.articleEntity.createMany({ data: links })
+  ])
+
+  return links.length
+}
+
+/**
+ * Run the entities prompt over an article and store its entity links. Returns the number
+ * of linked entities, or null when extraction failed (existing links are kept).
+ */
+export async function extractArticleEntities(articleId: string): Promise<number | null> {
+  const article = await prisma.article.findUnique({
+    where: { id: articleId },
+    include: { organization: { select: organizationIdentitySelect } }
+  })
+  if (!article) throw new Error(`Article ${articleId} not found`)
+
+  let content = article.content || ''
+  if (!content && article.snapshotId) {
+    content = (await loadSnapshot(article.snapshotId))?.markdown || ''
+  }
+  if (!content) return null
+
+  // AI calls are billed to the article and its organization
+  return withLlmContext({ organizationId: article.organizationId, articleId: article.id }, async () => {
+    const result = await extractEntities({ title: article.title, content, organization: article.organization })
+    if (!result.promptVersion) return null
+
+    const linked = await saveArticleEntities(article, result.entities)
+    await prisma.article.update({
+      where: { id: article.id },
+      data: {
+        entitiesExtractedAt: new Date(),
+        promptVersions: mergePromptVersions(article.promptVersions, { entities: result.promptVersion })
+      }
+    })
+
+    console.log(`🏷️ Extracted ${linked} entities from "${article.title}"`)
+    return linked
+  })
+}
+
+// Never throws - a failed extraction must not fail article creation
+export async function extractArticleEntitiesSafely(articleId: string): Promise<number | null> {
+  try {
+    return await extractArticleEntities(articleId)
+  } catch (error) {
+    console.warn(`⚠️ Entity extraction failed for article ${articleId}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+/**
+ * Extract entities for a batch of articles: the given ids, or articles (optionally one
+ * organization's) that were never extracted, newest first
+ */
+export async function extractEntitiesForArticles(options: {
+  articleIds?: string[]
+  organizationId?: string
+  limit?: number
+} = {}): Promise<{ processed: number, entities: number, errors: string[] }> {
+  const limit = Math.min(Math.max(1, options.limit || DEFAULT_ENTITY_BACKFILL_LIMIT), MAX_ENTITY_BACKFILL_LIMIT)
+  const articles = await prisma.article.findMany({
+    where: options.articleIds?.length
+      ? { id: { in: options.articleIds } }
+      : {
+          entitiesExtractedAt: null,
+          status: { not: 'rejected' },
+          ...(options.organizationId ? { organizationId: options.organizationId } : {})
+        },
+    select: { id: true },
+    orderBy: { createdAt: 'desc' },
+    take: limit
+  })
+
+  let processed = 0
+  let entities = 0
+  const { errors } = await processWithRateLimit(articles, async (article: { id: string }) => {
+    const linked = await extractArticleEntities(article.id)
+    if (linked === null) throw new Error('No content or extraction failed')
+    processed++
+    entities += linked
+  }, { concurrency: 3, batchDelay: 500 })
+
+  return {
+    processed,
+    entities,
+    errors: errors.map(({ item, error }) => `${item.id}: ${error.message}`)
+  }
+}
+
+/**
+ * Entities with published articles, most-mentioned first, with their published article count
+ */
+export async function listEntities(options: {
+  type?: EntityType
+  search?: string
+  organizationId?: string
+  limit?: number
+} = {}): Promise<EntitySummary[]> {
+  const entityWhere: Prisma.EntityWhereInput = {
+    ...(options.type ? { type: options.type } : {}),
+    ...(options.search ? {
+      OR: [
+        { name: { contains: options.search, mode: 'insensitive' } },
+        { aliases: { has: options.search } }
+      ]
+    } : {})
+  }
+
+  // Ranked by links to published articles, the same count articleCount shows
+  const counts = await prisma.articleEntity.groupBy({
+    by: ['entityId'],
+    where: {
+      entity: entityWhere,
+      article: {
+        status: 'published',
+        ...(options.organizationId ? { organizationId: options.organizationId } : {})
+      }
+    },
+    _count: { _all: true },
+    orderBy: [{ _count: { entityId: 'desc' } }, { entityId: 'asc' }],
+    take: Math.min(Math.max(1, options.limit || 100), 500)
+  })
+  const entities = await prisma.entity.findMany({
+    where: { id: { in: counts.map(row => row.entityId) } }
+  })
+  const articleCounts = new Map(counts.map(row => [row.entityId, row._count._all]))
+
+  return entities
+    .map(entity => ({
+      id: entity.id,
+      type: entity.type as EntityType,
+      name: entity.name,
+      slug: entity.slug,
+      aliases: entity.aliases,
+      articleCount: articleCounts.get(entity.id) || 0
+    }))
+    .sort((a, b) => b.articleCount - a.articleCount || a.name.localeCompare(b.name))
+}
+
+/**
+ * An entity with the organizations whose published articles mention it and the entities
+ * mentioned most often alongside it. null when it doesn't exist.
+ */
+export async function getEntityDetail(type: string, slug: string) {
+  if (!isEntityType(type)) return null
+
+  const entity = await prisma.entity.findUnique({ where: { type_slug: { type, slug } } })
+  if (!entity) return null
+
+  const byOrganization = await prisma.article.groupBy({
+    by: ['organizationId'],
+    where: entityArticleWhere(entity.id),
+    _count: { _all: true }
+  })
+  const organizations = await prisma.organization.findMany({
+    where: { id: { in: byOrganization.map(row => row.organizationId) } },
+    select: { id: true, name: true }
+  })
+
+  const coMentions = await prisma.articleEntity.groupBy({
+    by: ['entityId'],
+    where: {
+      entityId: { not: entity.id },
+      article: entityArticleWhere(entity.id)
+    },
+    _count: { _all: true },
+    orderBy: { _count: { entityId: 'desc' } },
+    take: 12
+  })
+  const related = await prisma.entity.findMany({
+    where: { id: { in: coMentions.map(row => row.entityId) } },
+    select: { id: true, type: true, name: true, slug: true }
+  })
+
+  return {
+    ...entity,
+    articleCount: byOrganization.reduce((sum, row) => sum + row._count._all, 0),
+    organizations: byOrganization
+      .map(row => ({
+        id: row.organizationId,
+        name: organizations.find(org => org.id === row.organizationId)?.name || row.organizationId,
+        articleCount: row._count._all
+      }))
+      .sort((a, b) => b.articleCount - a.articleCount),
+    related: coMentions.flatMap(row => {
+      const match = related.find(candidate => candidate.id === row.entityId)
+      return match ? [{ ...match, sharedArticles: row._count._all }] : []
+    })
+  }
+}
@@ -0,0 +1,281 @@
+import { JSDOM } from 'jsdom'
+
+const FEED_USER_AGENT = 'Mozilla/5.0 (compatible; ArticleBot/1.0)'
+const FEED_FETCH_TIMEOUT = 15000
+
+// MIME types advertised by <link rel="alternate"> for RSS, Atom and JSON Feed
+const FEED_MIME_TYPES = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/feed+json',
+  'application/json'
+]
+
+export type FeedFormat = 'rss' | 'atom' | 'json'
+
+export interface FeedEntry {
+  url: string
+  title: string | null
+  publishedAt: Date | null
+}
+
+export interface ParsedFeed {
+  format: FeedFormat
+  title: string | null
+  entries: FeedEntry[]
+}
+
+/**
+ * Find feed URLs advertised via <link rel="alternate"> on an HTML page
+ */
+export async function discoverFeedUrls(pageUrl: string): Promise<string[]> {
+  console.log(`📡 Looking for feeds advertised on ${pageUrl}`)
+
+  try {
+    const response = await fetch(pageUrl, {
+      headers: { 'User-Agent': FEED_USER_AGENT },
+      signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT)
+    })
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    const html = await response.text()
+    const document = new JSDOM(html).window.document
+    const feedUrls = new Set<string>()
+
+    document.querySelectorAll('link[rel~="alternate"][href]').forEach(link => {
+      const type = (link.getAttribute('type') || '').toLowerCase().trim()
+      const href = link.getAttribute('href') || ''
+      if (!FEED_MIME_TYPES.includes(type)) return
+
+      // Plain application/json alternates are usually REST API endpoints, not JSON Feeds
+      if (type === 'application/json' && !/feed/i.test(href)) return
+
+      // Comment feeds only list discussion, never articles
+      if (/comments?\/feed|\/comments\/?$/i.test(href)) return
+
+      try {
+        feedUrls.add(new URL(href, pageUrl).href)
+      } catch {
+        // Ignore malformed hrefs
+      }
+    })
+
+    console.log(`📡 Found ${feedUrls.size} advertised feeds on ${pageUrl}`)
+    return Array.from(feedUrls)
+  } catch (error) {
+    console.warn(`⚠️ Feed autodetection failed for ${pageUrl}:`, error instanceof Error ? error.message : String(error))
+    return []
+  }
+}
+
+/**
+ * Fetch and parse a single RSS 2.0, Atom or JSON Feed document
+ */
+export async function fetchFeed(feedUrl: string): Promise<ParsedFeed> {
+  const response = await fetch(feedUrl, {
+    headers: {
+      'User-Agent': FEED_USER_AGENT,
+      'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, */*;q=0.8'
+    },
+    signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT)
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  return parseFeed(await response.text(), feedUrl)
+}
+
+/**
+ * Parse feed content, detecting the format from the document itself
+ */
+export function parseFeed(body: string, feedUrl: string): ParsedFeed {
+  const trimmed = body.trim()
+
+  if (trimmed.startsWith('{')) {
+    return parseJsonFeed(trimmed, feedUrl)
+  }
+
+  const document = new JSDOM(trimmed, { contentType: 'text/xml' }).window.document
+  const root = document.documentElement
+  const rootName = root?.localName?.toLowerCase()
+
+  if (rootName === 'feed') {
+    return parseAtomFeed(root, feedUrl)
+  }
+
+  if (rootName === 'rss' || rootName === 'rdf') {
+    return parseRssFeed(root, feedUrl)
+  }
+
+  throw new Error(`Unrecognized feed format (root element: ${root?.tagName || 'none'})`)
+}
+
+/**
+ * Fetch every feed and merge entries, newest first, deduplicated by URL.
+ * A custom loader may return null to skip a feed (e.g. unchanged since the last crawl).
+ */
+export async function collectFeedEntries(
+  feedUrls: string[],
+  loadFeed: (feedUrl: string) => Promise<ParsedFeed | null> = fetchFeed
+): Promise<FeedEntry[]> {
+  const entriesByUrl = new Map<string, FeedEntry>()
+
+  for (const feedUrl of feedUrls) {
+    try {
+      const feed = await loadFeed(feedUrl)
+      if (!feed) continue
+      console.log(`📰 ${feed.format.toUpperCase()} feed ${feedUrl}: ${feed.entries.length} entries`)
+
+      for (const entry of feed.entries) {
+        if (!entriesByUrl.has(entry.url)) {
+          entriesByUrl.set(entry.url, entry)
+        }
+      }
+    } catch (error) {
+      console.warn(`⚠️ Failed to read feed ${feedUrl}:`, error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  return Array.from(entriesByUrl.values()).sort((a, b) =>
+    (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0)
+  )
+}
+
+/**
+ * Detect working feeds for an organization from its news page and homepage.
+ * Only feeds that parse and contain at least one entry are returned.
+ */
+export async function detectOrganizationFeeds(pageUrls: Array<string | null | undefined>): Promise<string[]> {
+  const candidates = new Set<string>()
+
+  for (const pageUrl of pageUrls) {
+    if (!pageUrl) continue
+    const feedUrls = await discoverFeedUrls(pageUrl)
+    feedUrls.forEach(feedUrl => candidates.add(feedUrl))
+  }
+
+  const workingFeeds: string[] = []
+  for (const feedUrl of candidates) {
+    try {
+      const feed = await fetchFeed(feedUrl)
+      if (feed.entries.length > 0) {
+        workingFeeds.push(feedUrl)
+      }
+    } catch (error) {
+      console.warn(`⚠️ Ignoring unreadable feed ${feedUrl}:`, error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  console.log(`✅ Verified ${workingFeeds.length}/${candidates.size} candidate feeds`)
+  return workingFeeds
+}
+
+function parseRssFeed(root: Element, feedUrl: string): ParsedFeed {
+  const channel = firstChild(root, 'channel')
+  // RSS 1.0 (RDF) places items next to the channel rather than inside it
+  const itemParent = root.localName === 'rss' ? channel ?? root : root
+  const entries = childElements(itemParent, 'item')
+    .map(item => {
+      const link = childText(item, 'link') || item.getAttribute('rdf:about') || guidPermalink(item)
+      return toEntry(link, childText(item, 'title'), childText(item, 'pubDate') || childText(item, 'date'), feedUrl)
+    })
+    .filter((entry): entry is FeedEntry => entry !== null)
+
+  return {
+    format: 'rss',
+    title: channel ? childText(channel, 'title') : null,
+    entries
+  }
+}
+
+function parseAtomFeed(root: Element, feedUrl: string): ParsedFeed {
+  const entries = childElements(root, 'entry')
+    .map(entry => {
+      const links = childElements(entry, 'link')
+      const link = links.find(l => (l.getAttribute('rel') || 'alternate') === 'alternate') || links[0]
+      return toEntry(
+        link?.getAttribute('href') || null,
+        childText(entry, 'title'),
+        childText(entry, 'published') || childText(entry, 'updated'),
+        feedUrl
+      )
+    })
+    .filter((entry): entry is FeedEntry => entry !== null)
+
+  return {
+    format: 'atom',
+    title: childText(root, 'title'),
+    entries
+  }
+}
+
+function parseJsonFeed(body: string, feedUrl: string): ParsedFeed {
+  const feed = JSON.parse(body)
+
+  if (!Array.isArray(feed.items)) {
+    throw new Error('JSON Feed has no items array')
+  }
+
+  const entries = feed.items
+    .map((item: any) => toEntry(
+      item.url || item.external_url || null,
+      item.title || null,
+      item.date_published || item.date_modified || null,
+      feedUrl
+    ))
+    .filter((entry: FeedEntry | null): entry is FeedEntry => entry !== null)
+
+  return {
+    format: 'json',
+    title: typeof feed.title === 'string' ? feed.title : null,
+    entries
+  }
+}
+
+function toEntry(link: string | null, title: string | null, date: string | null, feedUrl: string): FeedEntry | null {
+  if (!link) return null
+
+  try {
+    const url = new URL(link.trim(), feedUrl)
+    if (!['http:', 'https:'].includes(url.protocol)) return null
+
+    return {
+      url: url.href,
+      title: title?.trim() || null,
+      publishedAt: parseFeedDate(date)
+    }
+  } catch {
+    return null
+  }
+}
+
+function parseFeedDate(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value.trim())
+  return isNaN(date.getTime()) ? null : date
+}
+
+function guidPermalink(item: Element): string | null {
+  const guid = firstChild(item, 'guid')
+  if (!guid || guid.getAttribute('isPermaLink') === 'false') return null
+  return guid.textContent?.trim() || null
+}
+
+// Namespace-agnostic child lookups (RSS/Atom/RDF mix default and prefixed namespaces)
+function childElements(parent: Element, localName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === localName)
+}
+
+function firstChild(parent: Element, localName: string): Element | null {
+  return childElements(parent, localName)[0] ?? null
+}
+
+function childText(parent: Element, localName: string): string | null {
+  return firstChild(parent, localName)?.textContent?.trim() || null
+}
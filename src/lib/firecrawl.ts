@@ -1,3 +1,6 @@
+import { crawlSitemaps } from './sitemap'
+import { fetchArticleMetadata, localArticleFields, schemaWithoutLocalFields, confidentValue } from './articleMetadata'
+
 const FIRECRAWL_BASE = 'https://api.firecrawl.dev/v1'
 
 // Schema for structured article extraction (optimized for reliability)
@@ -51,7 +54,9 @@ const ArticleSchema = {
   required: ["title", "summary"]
 }
 
-// New function using Firecrawl JSON mode for structured extraction
+// New function using Firecrawl JSON mode for structured extraction.
+// Title, author and publish date come from the page's own metadata when present;
+// only the missing ones are part of the extraction schema.
 export async function firecrawlExtractStructured(url: string, organizationName?: string) {
   try {
     // Check if API key is available
@@ -69,7 +74,14 @@ export async function firecrawlExtractStructured(url: string, organizationName?:
     }
 
   console.log('🔥 Using Firecrawl JSON mode to extract structured data from:', url)
-  console.log('🔧 Sending request with schema:', JSON.stringify(ArticleSchema, null, 2))
+  
+  const localMetadata = await fetchArticleMetadata(url)
+  const localFields = localArticleFields(localMetadata)
+  const schema = schemaWithoutLocalFields(ArticleSchema, localFields)
+  if (Object.keys(localFields).length > 0) {
+    console.log(`🏷️ Using local metadata for: ${Object.keys(localFields).join(', ')}`)
+  }
+  console.log('🔧 Sending request with schema:', JSON.stringify(schema, null, 2))
   
   const r = await fetch(`${FIRECRAWL_BASE}/scrape`, {
     method: 'POST',
@@ -79,9 +91,9 @@ export async function firecrawlExtractStructured(url: string, organizationName?:
     },
     body: JSON.stringify({ 
       url: url,
-      formats: ['extract', 'markdown'],
+      formats: ['extract', 'markdown', 'rawHtml'],
       extract: {
-        schema: ArticleSchema
+        schema
       },
       onlyMainContent: true,
       waitFor: 2000,
@@ -108,8 +120,8 @@ export async function firecrawlExtractStructured(url: string, organizationName?:
   const result = await r.json()
   console.log('✅ Firecrawl structured extraction successful')
   
-  // The result has the structured data in extract property
-  const extractedData = result.data?.extract
+  // The result has the structured data in extract property; local metadata wins where present
+  const extractedData = result.data?.extract ? { ...result.data.extract, ...localFields } : null
   const rawMarkdown = result.data?.markdown || ''
   
   if (!extractedData || !extractedData.title) {
@@ -145,7 +157,7 @@ export async function firecrawlExtractStructured(url: string, organizationName?:
   console.log(`✅ Firecrawl extracted: "${extractedData.title}"`)
   console.log(`📊 Summary: ${extractedData.summary?.substring(0, 100)}...`)
   console.log(`👤 Author: ${extractedData.author || 'N/A'}`)
-  console.log(`📅 Published: ${extractedData.publishedAt || 'N/A'}`)
+  console.log(`📅 Published: ${extractedData.publish_date || 'N/A'}`)
   console.log(`🔑 Keywords: ${extractedData.keywords?.length || 0}`)
   console.log(`📝 Body markdown length: ${result.data?.markdown?.length || 0} characters`)
 
@@ -174,8 +186,12 @@ export async function firecrawlExtractStructured(url: string, organizationName?:
     content: sanitizeText(extractedData.body_markdown || result.data?.markdown || ''),
     summary: sanitizeText(extractedData.summary),
     keywords: extractedData.keywords || [],
-    ogImage: extractedData.main_image_url || null,
-    images: extractedData.images || []
+    ogImage: extractedData.main_image_url || confidentValue(localMetadata, 'image'),
+    images: extractedData.images || [],
+    // Kept for the page snapshot archive
+    rawHtml: result.data?.rawHtml || null,
+    statusCode: result.data?.metadata?.statusCode ?? null,
+    finalUrl: result.data?.metadata?.url || result.data?.metadata?.sourceURL || null
   }
 
   } catch (error) {
@@ -193,240 +209,21 @@ export async function firecrawlExtractStructured(url: string, organizationName?:
   }
 }
 
-export async function firecrawlSearch(query: string) {
+// Web search; `tbs` takes Google-style time filters (e.g. "qdr:m" for the past month)
+export async function firecrawlSearch(query: string, options: { limit?: number; tbs?: string } = {}) {
   const r = await fetch(`${FIRECRAWL_BASE}/search`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${process.env.FIRECRAWL_API_KEY}`,
     },
-    body: JSON.stringify({ query, scrapeOptions: { formats: [{ type: 'markdown' }] } }),
+    body: JSON.stringify({ query, limit: options.limit ?? 10, ...(options.tbs && { tbs: options.tbs }) }),
   })
   if (!r.ok) throw new Error(`Firecrawl search failed: ${r.status}`)
-  return r.json() as Promise<{ items: { url: string; title?: string; description?: string }[] }>
-}
-
-export async function firecrawlExtract(urls: string[]) {
-  // Check if API key is available
-  if (!process.env.FIRECRAWL_API_KEY) {
-    throw new Error('FIRECRAWL_API_KEY not configured')
-  }
-
-  console.log('🔥 Using Firecrawl to extract content from:', urls[0])
-  
-  const r = await fetch(`${FIRECRAWL_BASE}/scrape`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${process.env.FIRECRAWL_API_KEY}`,
-    },
-    body: JSON.stringify({ 
-      url: urls[0],
-      formats: ['markdown'],
-      onlyMainContent: true,
-      waitFor: 2000,
-      timeout: 30000,
-      actions: [],
-      extractorOptions: {
-        mode: 'markdown'
-      }
-    }),
-  })
-
-  if (!r.ok) {
-    const errorText = await r.text()
-    console.error('🚨 Firecrawl API Error:', r.status, errorText)
-    throw new Error(`Firecrawl extract failed: ${r.status} - ${errorText}`)
-  }
-
   const result = await r.json()
-  console.log('✅ Firecrawl extraction successful, content length:', result.data?.markdown?.length || 0)
-  
-  // Sanitize content to remove null bytes and problematic characters
-  const sanitizeText = (text: string | undefined | null): string => {
-    if (!text) return '';
-    return text
-      .replace(/\0/g, '') // Remove null bytes
-      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '') // Remove other control characters
-      .trim();
-  };
-
-  const sanitizedContent = sanitizeText(result.data?.markdown || '');
-
-  // Return format matching what the pipeline expects
-  return {
-    data: [{
-      markdown: sanitizedContent,
-      content: sanitizedContent, // Use markdown as content
-      text: sanitizedContent, // Also provide as text
-      title: sanitizeText(result.data?.metadata?.title || ''),
-      description: sanitizeText(result.data?.metadata?.description || '')
-    }]
-  }
-}
-
-// Enhanced HTTP fallback with better content extraction
-export async function enhancedHttpExtract(url: string) {
-  console.log('🌐 Using enhanced HTTP extraction for:', url)
-  
-  try {
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Accept-Encoding': 'gzip, deflate, br',
-        'Cache-Control': 'no-cache',
-        'Pragma': 'no-cache'
-      }
-    })
-
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-
-    const html = await response.text()
-    
-    // Extract title
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i)
-    const title = titleMatch ? titleMatch[1].trim() : ''
-
-    // Extract meta description
-    const descMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["'][^>]*>/i) ||
-                     html.match(/<meta[^>]*content=["']([^"']+)["'][^>]*name=["']description["'][^>]*>/i)
-    const description = descMatch ? descMatch[1].trim() : ''
-
-    // Extract og:image and other images
-    const ogImageMatch = html.match(/<meta[^>]*property=["']og:image["'][^>]*content=["']([^"']+)["'][^>]*>/i);
-    const ogImage = ogImageMatch?.[1] || null;
-    
-    // Extract all images from HTML with size information
-    const imageMatches = html.match(/<img[^>]*>/gi) || [];
-    const imagesWithSize = imageMatches
-      .map(imgTag => {
-        const srcMatch = imgTag.match(/src=["']([^"']+)["']/i);
-        const widthMatch = imgTag.match(/width=["']?(\d+)["']?/i);
-        const heightMatch = imgTag.match(/height=["']?(\d+)["']?/i);
-        const altMatch = imgTag.match(/alt=["']([^"']+)["']/i);
-        
-        const src = srcMatch?.[1];
-        const width = widthMatch ? parseInt(widthMatch[1]) : 0;
-        const height = heightMatch ? parseInt(heightMatch[1]) : 0;
-        const alt = altMatch?.[1] || '';
-        
-        // Calculate area (0 if no dimensions specified)
-        const area = width && height ? width * height : 0;
-        
-        return {
-          src,
-          width,
-          height, 
-          area,
-          alt: alt.toLowerCase()
-        };
-      })
-      .filter(img => img.src && img.src.startsWith('http')) // Only full URLs
-      .filter(img => {
-        // Filter out obvious icons and tiny images
-        if (img.area > 0 && img.area < 1000) return false; // Less than 32x32 pixels
-        if (img.alt.includes('icon') || img.alt.includes('logo') || img.alt.includes('button')) return false;
-        return true;
-      })
-      .sort((a, b) => {
-        // Sort by area (largest first), then by content quality indicators
-        if (a.area !== b.area) return b.area - a.area;
-        
-        // Prioritize images with content-related alt text
-        const aIsContent = a.alt.includes('photo') || a.alt.includes('image') || a.alt.includes('picture') || a.alt.includes('story');
-        const bIsContent = b.alt.includes('photo') || b.alt.includes('image') || b.alt.includes('picture') || b.alt.includes('story');
-        if (aIsContent && !bIsContent) return -1;
-        if (bIsContent && !aIsContent) return 1;
-        
-        // Prioritize images with better file extensions (jpg/png over gif/svg)
-        const aGoodExt = a.src?.match(/\.(jpe?g|png|webp)$/i);
-        const bGoodExt = b.src?.match(/\.(jpe?g|png|webp)$/i);
-        if (aGoodExt && !bGoodExt) return -1;
-        if (bGoodExt && !aGoodExt) return 1;
-        
-        return 0;
-      })
-      .slice(0, 10); // Take top 10
-    
-    const images = imagesWithSize.map(img => img.src).filter((src): src is string => !!src);
-
-    // Extract main content using multiple strategies
-    let content = ''
-    
-    // Strategy 1: Look for common article containers
-    const articleSelectors = [
-      /<article[^>]*>([\s\S]*?)<\/article>/gi,
-      /<div[^>]*class=["\'][^"']*content[^"']*["\'][^>]*>([\s\S]*?)<\/div>/gi,
-      /<div[^>]*class=["\'][^"']*article[^"']*["\'][^>]*>([\s\S]*?)<\/div>/gi,
-      /<div[^>]*class=["\'][^"']*post[^"']*["\'][^>]*>([\s\S]*?)<\/div>/gi,
-      /<main[^>]*>([\s\S]*?)<\/main>/gi
-    ]
-
-    for (const selector of articleSelectors) {
-      const matches = html.match(selector)
-      if (matches && matches[0].length > content.length) {
-        content = matches[0]
-        break
-      }
-    }
-
-    // Strategy 2: If no article found, extract paragraphs
-    if (!content || content.length < 200) {
-      const paragraphs = html.match(/<p[^>]*>[\s\S]*?<\/p>/gi) || []
-      content = paragraphs.slice(0, 10).join('\n')
-    }
-
-    // Clean up HTML tags and decode entities
-    content = content
-      .replace(/<script[\s\S]*?<\/script>/gi, '')
-      .replace(/<style[\s\S]*?<\/style>/gi, '')
-      .replace(/<nav[\s\S]*?<\/nav>/gi, '')
-      .replace(/<footer[\s\S]*?<\/footer>/gi, '')
-      .replace(/<aside[\s\S]*?<\/aside>/gi, '')
-      .replace(/<[^>]+>/g, ' ')
-      .replace(/&nbsp;/g, ' ')
-      .replace(/&amp;/g, '&')
-      .replace(/&lt;/g, '<')
-      .replace(/&gt;/g, '>')
-      .replace(/&quot;/g, '"')
-      .replace(/&#39;/g, "'")
-      .replace(/\s+/g, ' ')
-      .trim()
-
-    // Sanitize all content to remove problematic characters
-    const sanitizeText = (text: string): string => {
-      return text
-        .replace(/\0/g, '') // Remove null bytes
-        .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '') // Remove other control characters
-        .trim();
-    };
-
-    const sanitizedContent = sanitizeText(content);
-    const sanitizedTitle = sanitizeText(title);
-    const sanitizedDescription = sanitizeText(description);
-
-    console.log(`✅ Enhanced HTTP extraction completed: ${sanitizedContent.length} characters`)
-    console.log(`🖼️ Enhanced HTTP extracted ${images.length} images${ogImage ? ' + og:image' : ''} (sorted by size from ${imageMatches.length} total)`)
-    
-    return {
-      data: [{
-        markdown: sanitizedContent,
-        content: sanitizedContent,
-        title: sanitizedTitle,
-        description: sanitizedDescription,
-        ogImage: ogImage,
-        images: images
-      }]
-    }
-
-  } catch (error) {
-    console.error('🚨 Enhanced HTTP extraction failed:', error)
-    throw error
-  }
+  // v1 returns results under `data`; older responses used `items`
+  const items: { url: string; title?: string; description?: string }[] = result.data || result.items || []
+  return { items }
 }
 
 /**
@@ -512,6 +309,17 @@ function detectErrorPageInContent(title: string, summary: string, content: strin
 export async function discoverOrganizationNewsUrls(websiteUrl: string, organizationName: string): Promise<string[]> {
   console.log(`🗺️ Mapping website structure for ${organizationName}: ${websiteUrl}`)
 
+  // Step 0: Read the site's own sitemaps first - free and deterministic
+  try {
+    const sitemapResult = await crawlSitemaps(websiteUrl, { maxUrls: 50 })
+    if (sitemapResult.urls.length > 0) {
+      console.log(`📰 Found ${sitemapResult.urls.length} news URLs via sitemaps, skipping Firecrawl map`)
+      return sitemapResult.urls.map(entry => entry.url)
+    }
+  } catch (error) {
+    console.warn('⚠️ Sitemap discovery failed, falling back to Firecrawl map:', error)
+  }
+
   try {
     // Step 1: Map the entire website to get all URLs
     const mapResponse = await fetch(`${FIRECRAWL_BASE}/map`, {
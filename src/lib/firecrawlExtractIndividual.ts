@@ -1,4 +1,6 @@
 import { z } from 'zod'
+import { fetchArticleMetadata, localArticleFields, schemaWithoutLocalFields, LocalArticleFields } from './articleMetadata'
+import { ScrapedArticle } from './scraperProviders'
 
 const FIRECRAWL_BASE = 'https://api.firecrawl.dev/v1'
 
@@ -44,27 +46,29 @@ const ArticleExtractionSchema = {
   additionalProperties: false
 }
 
-export interface ExtractedArticle {
-  title: string
-  summary: string
-  content: string
-  keywords: string[]
-  organization_mentions: string[]
-  publish_date?: string
-  author?: string
-  url: string  // We'll add this from the source
+export interface ExtractJob {
+  url: string
+  jobId: string
+  localFields?: LocalArticleFields  // Metadata read from the page itself, preferred over the LLM's
 }
 
 export interface FirecrawlExtractResult {
   success: boolean
-  data?: ExtractedArticle[]
+  data?: ScrapedArticle[]
   error?: string
-  jobs?: { url: string, jobId: string }[]
+  jobs?: ExtractJob[]
+}
+
+// Local metadata wins over LLM output for the fields it was confident about
+function mergeLocalFields(article: any, localFields?: LocalArticleFields) {
+  return { ...article, ...localFields }
 }
 
 /**
  * Extract structured article data from URLs individually using Firecrawl's /extract endpoint
- * Each URL is processed as a separate job to ensure proper 1:1 mapping
+ * Each URL is processed as a separate job to ensure proper 1:1 mapping. Title, author and
+ * publish date are read from the page's own metadata first and only requested from the
+ * LLM when missing.
  */
 export async function extractArticlesFromUrls(urls: string[], organizationName?: string): Promise<FirecrawlExtractResult> {
   if (!process.env.FIRECRAWL_API_KEY) {
@@ -78,7 +82,7 @@ export async function extractArticlesFromUrls(urls: string[], organizationName?:
   console.log('📄 URLs to process:', urls.map((url, i) => `${i}: ${url}`).join('\n'))
   console.log('🔧 Schema being used:', JSON.stringify(ArticleExtractionSchema, null, 2))
 
-  const jobs: { url: string, jobId: string }[] = []
+  const jobs: ExtractJob[] = []
   const errors: string[] = []
 
   // Submit each URL as a separate extraction job
@@ -87,6 +91,11 @@ export async function extractArticlesFromUrls(urls: string[], organizationName?:
     console.log(`📤 Submitting job ${i + 1}/${urls.length}: ${url}`)
     
     try {
+      const localFields = localArticleFields(await fetchArticleMetadata(url))
+      if (Object.keys(localFields).length > 0) {
+        console.log(`🏷️ Local metadata for ${url}: ${Object.keys(localFields).join(', ')}`)
+      }
+      
       const response = await fetch(`${FIRECRAWL_BASE}/extract`, {
         method: 'POST',
         headers: {
@@ -95,7 +104,7 @@ export async function extractArticlesFromUrls(urls: string[], organizationName?:
         },
         body: JSON.stringify({
           urls: [url], // Single URL per job
-          schema: ArticleExtractionSchema,
+          schema: schemaWithoutLocalFields(ArticleExtractionSchema, localFields),
           prompt: organizationName 
             ? `Extract article information with special attention to mentions of "${organizationName}"`
             : "Extract article information focusing on news, stories, and content that would be relevant for social impact organizations",
@@ -116,7 +125,7 @@ export async function extractArticlesFromUrls(urls: string[], organizationName?:
       // Check if we got a job ID (async processing)
       if (result.id) {
         console.log(`✅ Job ${i + 1} queued with ID: ${result.id}`)
-        jobs.push({ url, jobId: result.id })
+        jobs.push({ url, jobId: result.id, localFields })
       } else if (result.success && result.data) {
         // Immediate result - this shouldn't happen with Extract but handle it
         console.log(`⚡ Job ${i + 1} completed immediately`)
@@ -124,7 +133,7 @@ export async function extractArticlesFromUrls(urls: string[], organizationName?:
         return {
           success: true,
           data: articles.map((article: any) => ({ 
-            ...article, 
+            ...mergeLocalFields(article, localFields), 
             url, 
             keywords: article.keywords || [], 
             organization_mentions: article.organization_mentions || [] 
@@ -168,17 +177,17 @@ export async function extractArticlesFromUrls(urls: string[], organizationName?:
 /**
  * Poll multiple extraction jobs and collect results
  */
-export async function pollAllExtractJobs(jobs: { url: string, jobId: string }[]): Promise<{ success: boolean, data: ExtractedArticle[], errors: string[] }> {
+export async function pollAllExtractJobs(jobs: ExtractJob[]): Promise<{ success: boolean, data: ScrapedArticle[], errors: string[] }> {
   console.log(`🔄 Polling ${jobs.length} extraction jobs...`)
   
-  const results: ExtractedArticle[] = []
+  const results: ScrapedArticle[] = []
   const errors: string[] = []
   
   // Poll each job with timeout
   const maxAttempts = 60 // 2 minutes
   const pollInterval = 2000 // 2 seconds
   
-  const jobPromises = jobs.map(async ({ url, jobId }) => {
+  const jobPromises = jobs.map(async ({ url, jobId, localFields }) => {
     console.log(`📊 Starting to poll job ${jobId} for ${url}`)
     
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -190,7 +199,7 @@ export async function pollAllExtractJobs(jobs: { url: string, jobId: string }[])
         if (jobStatus.success && jobStatus.data && jobStatus.data.length > 0) {
           console.log(`✅ Job ${jobId} completed: ${jobStatus.data.length} articles`)
           const articles = jobStatus.data.map((article: any) => ({
-            ...article,
+            ...mergeLocalFields(article, localFields),
             url,
             keywords: article.keywords || [],
             organization_mentions: article.organization_mentions || []
@@ -1,118 +1,105 @@
-import { openai } from '@ai-sdk/openai';
-import { generateObject } from 'ai';
 import { z } from 'zod';
+import { generateStructured } from './llm';
+import { searchWithProviders, getEnabledSearchProviders, SearchRunSummary, SearchQuery } from './searchProviders';
+import { OrganizationIdentity, describeOrganization, getOrganizationNames, getOrganizationFocusAreas } from './organizationIdentity';
 
 export interface DiscoveryResult {
   urls: string[];
   searchQueries: string[];
   totalFound: number;
+  providersByUrl: Record<string, string[]>;
+  resultsByProvider: Record<string, number>;
+}
+
+export interface OrganizationSearchResult extends SearchRunSummary {
+  searchQueries: string[];
+}
+
+// Generate AI-powered search queries for news about an organization
+export async function generateSearchQueries(organization: OrganizationIdentity, timeframe: number): Promise<string[]> {
+  const searchQueries = await generateStructured({
+    task: 'searchQueries',
+    model: 'gpt-4o-mini',
+    system: `You are a research assistant specialized in finding news articles about organizations. Generate search queries that will find news articles, press releases, and coverage about the given organization.`,
+    prompt: `Generate search queries to find news articles about "${organization.name}" from the last ${timeframe} days. Focus on:
+    
+    - Recent news and developments
+    - Impact stories and achievements  
+    - Community involvement
+    - Partnerships and collaborations
+    - Program launches and results
+    - Awards and recognition
+    
+    Coverage may refer to the organization by any of its names. Use the focus areas to keep queries specific to this organization rather than others with similar names.
+
+    ${describeOrganization(organization)}
+    Timeframe: Last ${timeframe} days`,
+    schema: z.object({
+      queries: z.array(z.string()).describe('Array of search queries to find news articles'),
+      newsSources: z.array(z.string()).describe('Suggested news sources to search'),
+      keywords: z.array(z.string()).describe('Key terms to include in searches')
+    }),
+  });
+
+  return searchQueries.object.queries;
+}
+
+/**
+ * Provider queries for an organization: the top generated queries anchored on the
+ * organization's name, plus one query per alias (up to 2) anchored on its main
+ * focus area so short acronyms don't match unrelated organizations.
+ */
+export function buildOrganizationQueries(
+  organization: OrganizationIdentity,
+  queries: string[],
+  since: Date
+): SearchQuery[] {
+  const aliases = getOrganizationNames(organization).slice(1, 3);
+  const focus = getOrganizationFocusAreas(organization)[0] || 'news';
+
+  // Top 3 queries keep usage within the free tiers of most providers
+  return [
+    ...queries.slice(0, 3).map(query => ({ query: `"${organization.name}" ${query}`, since })),
+    ...aliases.map(alias => ({ query: `"${alias}" ${focus}`, since }))
+  ];
+}
+
+// Search every enabled provider for news about an organization within the timeframe
+export async function searchOrganizationNews(
+  organization: OrganizationIdentity,
+  timeframe: number = 90,
+  providerIds?: string[]
+): Promise<OrganizationSearchResult> {
+  console.log('🤖 Generating search queries...');
+  const queries = await generateSearchQueries(organization, timeframe);
+  console.log(`✅ Generated ${queries.length} search queries`);
+
+  const providers = getEnabledSearchProviders(providerIds);
+  console.log(`🔍 Searching with ${providers.map(p => p.name).join(', ') || 'no providers'}...`);
+
+  const since = new Date(Date.now() - timeframe * 24 * 60 * 60 * 1000);
+  const summary = await searchWithProviders(buildOrganizationQueries(organization, queries, since), { providers });
+
+  console.log(`🔍 Search found ${summary.results.length} unique URLs (${Object.entries(summary.resultsByProvider).map(([id, count]) => `${id}: ${count}`).join(', ') || 'none'})`);
+
+  return { ...summary, searchQueries: queries };
 }
 
 export async function discoverUrlsForOrganization(
-  organizationName: string,
+  organization: OrganizationIdentity,
   timeframe: number = 90
 ): Promise<DiscoveryResult> {
-  console.log(`🔍 Starting URL discovery for: ${organizationName}`);
+  console.log(`🔍 Starting URL discovery for: ${organization.name}`);
   
   try {
-    // Step 1: Generate AI-powered search queries
-    console.log('🤖 Generating search queries...');
-    
-    const searchQueries = await generateObject({
-      model: openai('gpt-4o-mini'),
-      system: `You are a research assistant specialized in finding news articles about organizations. Generate search queries that will find news articles, press releases, and coverage about the given organization.`,
-      prompt: `Generate search queries to find news articles about "${organizationName}" from the last ${timeframe} days. Focus on:
-      
-      - Recent news and developments
-      - Impact stories and achievements  
-      - Community involvement
-      - Partnerships and collaborations
-      - Program launches and results
-      - Awards and recognition
-      
-      Organization: ${organizationName}
-      Timeframe: Last ${timeframe} days`,
-      schema: z.object({
-        queries: z.array(z.string()).describe('Array of search queries to find news articles'),
-        newsSources: z.array(z.string()).describe('Suggested news sources to search'),
-        keywords: z.array(z.string()).describe('Key terms to include in searches')
-      }),
-    });
-
-    console.log(`✅ Generated ${searchQueries.object.queries.length} search queries`);
-    
-    // Step 2: Search Google Custom Search API
-    const discoveredUrls: string[] = [];
-    
-    if (!process.env.GOOGLE_SEARCH_API_KEY || !process.env.GOOGLE_SEARCH_ENGINE_ID) {
-      throw new Error('Google Search API credentials not configured');
-    }
+    // Step 1 & 2: Generate queries and search all enabled providers
+    const search = await searchOrganizationNews(organization, timeframe);
+    const discoveredUrls: string[] = search.results.map(result => result.url);
+    const providersByUrl: Record<string, string[]> = Object.fromEntries(
+      search.results.map(result => [result.url, result.providers])
+    );
 
-    console.log('🔍 Searching Google Custom Search...');
-    
-    // Search with top 3 queries for different time periods (historical coverage)
-    for (const query of searchQueries.object.queries.slice(0, 3)) {
-      console.log(`   Searching: "${query}"`);
-      
-      // Search different time periods: 1 year, 3 years back for historical coverage
-      const timePeriods = ['y1', 'y3'];
-      
-      for (const period of timePeriods) {
-        const googleSearchUrl = `https://www.googleapis.com/customsearch/v1?` +
-          `key=${process.env.GOOGLE_SEARCH_API_KEY}&` +
-          `cx=${process.env.GOOGLE_SEARCH_ENGINE_ID}&` +
-          `q=${encodeURIComponent(`"${organizationName}" ${query}`)}&` +
-          `tbm=nws&` + // News search
-          `dateRestrict=${period}&` +
-          `num=10`; // Get 10 results per query/period combination
-        
-        try {
-          const response = await fetch(googleSearchUrl);
-          const data = await response.json();
-          
-          if (data.items) {
-            const urls = data.items.map((item: any) => item.link);
-            discoveredUrls.push(...urls);
-            console.log(`      Found ${urls.length} articles (${period})`);
-          }
-          
-          // Respect API rate limits
-          await new Promise(resolve => setTimeout(resolve, 100));
-          
-        } catch (error) {
-          console.error(`      Error searching ${period}:`, error);
-        }
-      }
-    }
-
-    // Step 3: Add organization-specific sources
-    console.log('🏢 Adding organization-specific sources...');
-    
-    // Add special handling for known organizations
-    if (organizationName.toLowerCase().includes('international justice mission') || 
-        organizationName.toLowerCase().includes('ijm')) {
-      const ijmUrls = [
-        'https://www.ijm.org/news',
-        'https://www.ijm.org/stories',
-        'https://www.ijm.org/impact',
-        'https://www.ijm.org/news/trafficking-survivors-find-freedom-through-new-program'
-      ];
-      discoveredUrls.push(...ijmUrls);
-      console.log(`   Added ${ijmUrls.length} IJM-specific URLs`);
-    }
-    
-    // Add general organization URLs if we don't have many results
-    if (discoveredUrls.length < 10) {
-      const orgUrls = [
-        `https://www.${organizationName.toLowerCase().replace(/\s+/g, '')}.org/news`,
-        `https://www.${organizationName.toLowerCase().replace(/\s+/g, '')}.org/impact`,
-        `https://www.${organizationName.toLowerCase().replace(/\s+/g, '')}.org/stories`
-      ];
-      discoveredUrls.push(...orgUrls);
-      console.log(`   Added ${orgUrls.length} fallback organization URLs`);
-    }
-
-    // Step 4: Clean and deduplicate URLs
+    // Step 3: Clean and deduplicate URLs
     const uniqueUrls = [...new Set(discoveredUrls)].filter(url => {
       try {
         new URL(url); // Validate URL format
@@ -126,8 +113,10 @@ export async function discoverUrlsForOrganization(
     
     return {
       urls: uniqueUrls,
-      searchQueries: searchQueries.object.queries,
-      totalFound: uniqueUrls.length
+      searchQueries: search.searchQueries,
+      totalFound: uniqueUrls.length,
+      providersByUrl,
+      resultsByProvider: search.resultsByProvider
     };
 
   } catch (error) {
@@ -1,7 +1,7 @@
 import axios from 'axios'
 import { JSDOM } from 'jsdom'
-import { openai } from './openai'
-import { z } from 'zod'
+import { getPrompt, runPrompt } from './prompts'
+import { rethrowIfBudgetExceeded } from './llmUsage'
 
 // Firecrawl configuration
 const FIRECRAWL_API_KEY = process.env.FIRECRAWL_API_KEY
@@ -18,11 +18,13 @@ export interface ExtractedImage {
 export interface ImageSelectionResult {
   selectedImageUrl: string
   reason: string
+  promptVersion: string | null  // null when no AI choice was made
 }
 
 export interface TitleFormattingResult {
   formattedTitle: string
   changes: string[]
+  promptVersion: string | null  // null for the basic clean-up fallback
 }
 
 /**
@@ -551,76 +553,45 @@ export async function selectBestImage(images: ExtractedImage[], articleTitle: st
   if (images.length === 1) {
     return {
       selectedImageUrl: images[0].url,
-      reason: 'Only one image available'
+      reason: 'Only one image available',
+      promptVersion: null
     }
   }
 
   try {
     console.log(`🤖 Using AI to select best image from ${images.length} options...`)
 
-    const imageDescriptions = images.slice(0, 10).map((img, index) => 
-      `${index + 1}. ${img.url} (${img.width}x${img.height}, alt: "${img.alt}")`
-    ).join('\n')
-
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o', // Use gpt-4o which supports JSON mode
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert at selecting the most representative image for news articles. 
-          Choose the image that best represents the article content and would be most engaging as a featured image.
-          
-          Consider:
-          - Image size and quality (larger is generally better)
-          - Alt text relevance to the article
-          - Avoid generic logos, ads, or decorative images
-          - Prefer images that directly relate to the article content
-          
-          Respond with ONLY a JSON object in this format:
-          {
-            "selectedIndex": 1,
-            "reason": "Brief explanation of why this image was chosen"
-          }`
-        },
-        {
-          role: 'user',
-          content: `Article Title: "${articleTitle}"
-          
-Article Summary: "${articleSummary}"
-
-Available Images:
-${imageDescriptions}
-
-Select the best image (respond with JSON only):`
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.3
+    const { object: result, promptVersion } = await runPrompt(getPrompt('imageSelection'), {
+      articleTitle,
+      articleSummary,
+      images: images.slice(0, 10)
     })
-
-    const result = JSON.parse(response.choices[0].message.content || '{}')
     const selectedIndex = result.selectedIndex - 1 // Convert to 0-based index
 
-    if (selectedIndex >= 0 && selectedIndex < images.length) {
+    if (selectedIndex >= 0 && selectedIndex < Math.min(images.length, 10)) {
       console.log(`✅ AI selected image ${selectedIndex + 1}: ${result.reason}`)
       return {
         selectedImageUrl: images[selectedIndex].url,
-        reason: result.reason
+        reason: result.reason,
+        promptVersion
       }
     }
 
     // Fallback to largest image
     return {
       selectedImageUrl: images[0].url,
-      reason: 'AI selection failed, using largest image'
+      reason: 'AI selection failed, using largest image',
+      promptVersion: null
     }
 
   } catch (error) {
+    rethrowIfBudgetExceeded(error)
     console.error('❌ AI image selection failed:', error)
     // Fallback to largest image
     return {
       selectedImageUrl: images[0].url,
-      reason: 'AI selection failed, using largest image'
+      reason: 'AI selection failed, using largest image',
+      promptVersion: null
     }
   }
 }
@@ -632,38 +603,7 @@ export async function formatArticleTitle(title: string): Promise<TitleFormatting
   try {
     console.log(`✏️ Formatting title: "${title}"`)
 
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o', // Use gpt-4o which supports JSON mode
-      messages: [
-        {
-          role: 'system',
-          content: `You are an expert editor specializing in news article titles. 
-          Your job is to clean up and improve article titles while preserving their meaning.
-          
-          Tasks:
-          1. Decode any HTML entities (e.g., &amp; → &, &quot; → ")
-          2. Fix spelling and grammar errors
-          3. Ensure proper capitalization
-          4. Shorten to 80 characters or less if needed (while preserving key information)
-          5. Remove redundant words or phrases
-          6. Make it engaging and clear
-          
-          Respond with ONLY a JSON object in this format:
-          {
-            "formattedTitle": "The cleaned up title",
-            "changes": ["List of changes made", "Another change"]
-          }`
-        },
-        {
-          role: 'user',
-          content: `Please format this title: "${title}"`
-        }
-      ],
-      response_format: { type: 'json_object' },
-      temperature: 0.2
-    })
-
-    const result = JSON.parse(response.choices[0].message.content || '{}')
+    const { object: result, promptVersion } = await runPrompt(getPrompt('titleFormatting'), { title })
     
     console.log(`✅ Title formatted: "${result.formattedTitle}"`)
     if (result.changes && result.changes.length > 0) {
@@ -672,10 +612,12 @@ export async function formatArticleTitle(title: string): Promise<TitleFormatting
 
     return {
       formattedTitle: result.formattedTitle || title,
-      changes: result.changes || []
+      changes: result.changes,
+      promptVersion
     }
 
   } catch (error) {
+    rethrowIfBudgetExceeded(error)
     console.error('❌ Title formatting failed:', error)
     // Fallback: basic HTML decoding
     const basicCleaned = title
@@ -688,7 +630,8 @@ export async function formatArticleTitle(title: string): Promise<TitleFormatting
 
     return {
       formattedTitle: basicCleaned,
-      changes: ['Basic HTML entity decoding', 'Length limited to 80 characters']
+      changes: ['Basic HTML entity decoding', 'Length limited to 80 characters'],
+      promptVersion: null
     }
   }
 }
@@ -0,0 +1,257 @@
+import { openai } from '@ai-sdk/openai'
+import { APICallError, generateObject } from 'ai'
+import { existsSync, readFileSync } from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { assertWithinBudget, getLlmContext, recordLlmCall } from './llmUsage'
+
+// LLM gateway: every model call in the app goes through generateStructured(), which
+// picks the provider (LLM_PROVIDER), resolves the model for the task (LLM_MODELS),
+// and applies a per-attempt timeout and retries with backoff. Calls are refused once a
+// monthly AI budget is reached, and every call is recorded with its usage and cost
+// (see llmUsage.ts).
+//
+// The "mock" provider never touches the network: it answers from registered fixtures,
+// from <LLM_FIXTURES_DIR>/<task>.json, or with a deterministic object derived from the
+// request's schema, so the pipeline can run end to end in tests.
+
+export type LlmProviderId = 'openai' | 'mock'
+
+export interface LlmUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LlmObjectRequest<T> {
+  task: string                  // Prompt name or call site, e.g. 'sentiment', 'searchQueries'
+  model: string                 // Default model for the task; LLM_MODELS can override it
+  system?: string
+  prompt: string
+  schema: z.ZodType<T>
+  temperature?: number
+  maxOutputTokens?: number
+  timeoutMs?: number
+  maxRetries?: number
+}
+
+export interface LlmObjectResult<T> {
+  object: T
+  provider: LlmProviderId
+  model: string
+  usage: LlmUsage
+  attempts: number
+  durationMs: number
+}
+
+interface LlmProvider {
+  id: LlmProviderId
+  generateObject<T>(request: LlmObjectRequest<T> & { abortSignal: AbortSignal }): Promise<{ object: T, usage: LlmUsage }>
+}
+
+const DEFAULT_TIMEOUT_MS = 60000
+const DEFAULT_MAX_RETRIES = 2
+const RETRY_BASE_DELAY_MS = 1000
+
+const LLM_PROVIDER_IDS: LlmProviderId[] = ['openai', 'mock']
+
+const openaiProvider: LlmProvider = {
+  id: 'openai',
+  async generateObject<T>(request: LlmObjectRequest<T> & { abortSignal: AbortSignal }) {
+    const result = await generateObject({
+      model: openai(request.model),
+      system: request.system,
+      prompt: request.prompt,
+      schema: request.schema,
+      abortSignal: request.abortSignal,
+      maxRetries: 0, // Retries are handled by the gateway
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.maxOutputTokens !== undefined && { maxOutputTokens: request.maxOutputTokens })
+    })
+
+    return {
+      object: result.object as T,
+      usage: {
+        inputTokens: result.usage.inputTokens || 0,
+        outputTokens: result.usage.outputTokens || 0
+      }
+    }
+  }
+}
+
+type LlmFixture = object | ((request: LlmObjectRequest<any>) => object)
+
+const fixtures = new Map<string, LlmFixture>()
+
+/**
+ * Answer for a task when the mock provider is active (tests, offline development)
+ */
+export function registerLlmFixture(task: string, fixture: LlmFixture) {
+  fixtures.set(task, fixture)
+}
+
+export function clearLlmFixtures() {
+  fixtures.clear()
+}
+
+function readFixtureFile(task: string): object | null {
+  const dir = process.env.LLM_FIXTURES_DIR
+  if (!dir) return null
+  const file = path.join(dir, `${task}.json`)
+  return existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : null
+}
+
+/**
+ * Deterministic value matching a zod schema: first enum option, midpoint of number
+ * ranges, empty arrays, and strings derived from the field name
+ */
+function mockFromSchema(schema: z.ZodTypeAny, key: string): any {
+  const def = schema._def
+
+  switch (def.typeName) {
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.ZodObject<any>).shape
+      return Object.fromEntries(Object.entries(shape).map(([field, value]) => [field, mockFromSchema(value as z.ZodTypeAny, field)]))
+    }
+    case z.ZodFirstPartyTypeKind.ZodString:
+      return def.checks?.some((check: any) => check.kind === 'url') ? `https://example.com/mock-${key}` : `mock ${key}`
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const min = def.checks?.find((check: any) => check.kind === 'min')?.value
+      const max = def.checks?.find((check: any) => check.kind === 'max')?.value
+      if (min !== undefined && max !== undefined) return Math.ceil((min + max) / 2)
+      return min ?? max ?? 0
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return false
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return def.values[0]
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return def.value
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return []
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return {}
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+      return mockFromSchema(def.options[0], key)
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return mockFromSchema(def.innerType, key)
+    case z.ZodFirstPartyTypeKind.ZodDefault:
+      return def.defaultValue()
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return mockFromSchema(def.schema, key)
+    default:
+      return null
+  }
+}
+
+// Rough token estimate for mock usage (~4 characters per token)
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+const mockProvider: LlmProvider = {
+  id: 'mock',
+  async generateObject(request) {
+    const fixture = fixtures.get(request.task) ?? readFixtureFile(request.task)
+    const raw = typeof fixture === 'function'
+      ? fixture(request)
+      : fixture ?? mockFromSchema(request.schema as unknown as z.ZodTypeAny, request.task)
+    const object = request.schema.parse(raw)
+
+    return {
+      object,
+      usage: {
+        inputTokens: estimateTokens(`${request.system || ''}${request.prompt}`),
+        outputTokens: estimateTokens(JSON.stringify(object))
+      }
+    }
+  }
+}
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  openai: openaiProvider,
+  mock: mockProvider
+}
+
+export function getLlmProviderId(): LlmProviderId {
+  const configured = (process.env.LLM_PROVIDER || 'openai').trim() as LlmProviderId
+  if (!LLM_PROVIDER_IDS.includes(configured)) {
+    throw new Error(`Unknown LLM_PROVIDER "${configured}" (expected ${LLM_PROVIDER_IDS.join(' or ')})`)
+  }
+  return configured
+}
+
+/**
+ * Model for a task: LLM_MODELS override (comma-separated task=model pairs, e.g.
+ * "sentiment=gpt-4o,urlFilter=gpt-4o-mini") or the caller's default
+ */
+export function resolveModel(task: string, defaultModel: string): string {
+  for (const pair of (process.env.LLM_MODELS || '').split(',')) {
+    const [name, model] = pair.split('=').map(part => part.trim())
+    if (name === task && model) return model
+  }
+  return defaultModel
+}
+
+// Rate limits, server errors, timeouts and network failures are worth another attempt;
+// bad requests and auth errors are not
+function isRetryable(error: unknown): boolean {
+  if (APICallError.isInstance(error)) return error.isRetryable
+  if (error instanceof z.ZodError) return false
+  return true
+}
+
+function nonNegativeInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '')
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed
+}
+
+/**
+ * Structured output from the configured provider. Throws after the last failed attempt,
+ * or LlmBudgetExceededError without calling the provider when a budget is reached.
+ */
+export async function generateStructured<T>(request: LlmObjectRequest<T>): Promise<LlmObjectResult<T>> {
+  const provider = PROVIDERS[getLlmProviderId()]
+  const model = resolveModel(request.task, request.model)
+  const timeoutMs = request.timeoutMs ?? nonNegativeInt(process.env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS)
+  const maxRetries = request.maxRetries ?? nonNegativeInt(process.env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES)
+
+  await assertWithinBudget(getLlmContext().organizationId)
+  const startedAt = Date.now()
+
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new Error(`LLM call timed out after ${timeoutMs}ms`)), timeoutMs)
+
+    try {
+      const { object, usage } = await provider.generateObject({ ...request, model, abortSignal: controller.signal })
+      const durationMs = Date.now() - startedAt
+      await recordLlmCall({ task: request.task, provider: provider.id, model, usage, durationMs, attempts: attempt, success: true })
+      return { object, provider: provider.id, model, usage, attempts: attempt, durationMs }
+    } catch (error) {
+      const message = controller.signal.aborted
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error)
+
+      if (attempt > maxRetries || !isRetryable(error)) {
+        await recordLlmCall({
+          task: request.task,
+          provider: provider.id,
+          model,
+          usage: { inputTokens: 0, outputTokens: 0 }, // Not reported for failed calls
+          durationMs: Date.now() - startedAt,
+          attempts: attempt,
+          success: false,
+          error: message
+        })
+        throw new Error(`LLM ${request.task} (${provider.id}/${model}) failed after ${attempt} attempt(s): ${message}`)
+      }
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)
+      console.warn(`⚠️ LLM ${request.task} attempt ${attempt} failed (${message}), retrying in ${delay}ms`)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import { createHash } from 'crypto'
+import { z } from 'zod'
+import { prisma } from './db'
+
+// Response cache for registry prompts marked `cache` (sentiment, validation): the output
+// for an exact input is stored under (prompt ref, model, content hash), so re-running
+// phase 2 on a session or re-scraping a URL returns the earlier result without a model
+// call (and without counting against AI budgets). A new prompt version or model override
+// naturally misses the cache.
+//
+// LLM_CACHE=off disables reads and writes; LLM_CACHE_TTL_HOURS sets how long entries
+// stay valid (default 30 days, 0 = until invalidated).
+
+const DEFAULT_TTL_HOURS = 24 * 30
+
+export interface CacheableRequest {
+  promptName: string
+  promptVersion: string         // Prompt ref, e.g. "sentiment@v1"
+  model: string                 // Resolved model, after LLM_MODELS overrides
+  system?: string
+  prompt: string                // Rendered user prompt
+  temperature?: number
+  maxOutputTokens?: number
+}
+
+export function isLlmCacheEnabled(): boolean {
+  return (process.env.LLM_CACHE || 'on').trim().toLowerCase() !== 'off'
+}
+
+function getTtlHours(): number {
+  const hours = parseFloat(process.env.LLM_CACHE_TTL_HOURS || '')
+  return isNaN(hours) || hours < 0 ? DEFAULT_TTL_HOURS : hours
+}
+
+/**
+ * Hash of everything that shapes the model's answer besides the prompt version and model
+ */
+export function hashLlmContent(request: CacheableRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.system || '', request.prompt, request.temperature ?? null, request.maxOutputTokens ?? null]))
+    .digest('hex')
+}
+
+function cacheKey(request: CacheableRequest) {
+  return {
+    promptVersion: request.promptVersion,
+    model: request.model,
+    contentHash: hashLlmContent(request)
+  }
+}
+
+/**
+ * Cached output for the request, or null on a miss. Expired entries and outputs that no
+ * longer match the schema are misses. Never throws.
+ */
+export async function readCachedOutput<T>(request: CacheableRequest, schema: z.ZodType<T>): Promise<T | null> {
+  if (!isLlmCacheEnabled()) return null
+
+  try {
+    const entry = await prisma.llmCacheEntry.findUnique({
+      where: { promptVersion_model_contentHash: cacheKey(request) }
+    })
+    if (!entry || (entry.expiresAt && entry.expiresAt < new Date())) return null
+
+    const parsed = schema.safeParse(entry.output)
+    if (!parsed.success) return null
+
+    await prisma.llmCacheEntry.update({
+      where: { id: entry.id },
+      data: { hitCount: { increment: 1 }, lastHitAt: new Date() }
+    })
+    return parsed.data
+  } catch (error) {
+    console.warn(`⚠️ LLM cache read failed for ${request.promptVersion}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+/**
+ * Store a model output for the request. Never throws.
+ */
+export async function writeCachedOutput(request: CacheableRequest, output: unknown) {
+  if (!isLlmCacheEnabled()) return
+
+  const ttlHours = getTtlHours()
+  const expiresAt = ttlHours > 0 ? new Date(Date.now() + ttlHours * 60 * 60 * 1000) : null
+  const key = cacheKey(request)
+
+  try {
+    await prisma.llmCacheEntry.upsert({
+      where: { promptVersion_model_contentHash: key },
+      create: { ...key, promptName: request.promptName, output: output as any, expiresAt },
+      update: { output: output as any, expiresAt, createdAt: new Date(), hitCount: 0, lastHitAt: null }
+    })
+  } catch (error) {
+    console.warn(`⚠️ LLM cache write failed for ${request.promptVersion}:`, error instanceof Error ? error.message : String(error))
+  }
+}
+
+export interface CacheInvalidation {
+  promptName?: string
+  promptVersion?: string        // Prompt ref, e.g. "sentiment@v1"
+  model?: string
+  expiredOnly?: boolean
+}
+
+/**
+ * Delete cache entries matching every given filter; no filter clears the whole cache
+ */
+export async function invalidateLlmCache(filter: CacheInvalidation = {}): Promise<number> {
+  const { count } = await prisma.llmCacheEntry.deleteMany({
+    where: {
+      ...(filter.promptName && { promptName: filter.promptName }),
+      ...(filter.promptVersion && { promptVersion: filter.promptVersion }),
+      ...(filter.model && { model: filter.model }),
+      ...(filter.expiredOnly && { expiresAt: { lt: new Date() } })
+    }
+  })
+  return count
+}
+
+/**
+ * Entries, hits and expired entries per prompt version and model
+ */
+export async function getLlmCacheStats() {
+  const [groups, expired] = await Promise.all([
+    prisma.llmCacheEntry.groupBy({
+      by: ['promptName', 'promptVersion', 'model'],
+      _count: { _all: true },
+      _sum: { hitCount: true },
+      _max: { lastHitAt: true },
+      orderBy: { promptVersion: 'asc' }
+    }),
+    prisma.llmCacheEntry.groupBy({
+      by: ['promptVersion', 'model'],
+      where: { expiresAt: { lt: new Date() } },
+      _count: { _all: true }
+    })
+  ])
+
+  return {
+    enabled: isLlmCacheEnabled(),
+    ttlHours: getTtlHours(),
+    entries: groups.map((group: any) => ({
+      promptName: group.promptName,
+      promptVersion: group.promptVersion,
+      model: group.model,
+      entries: group._count._all,
+      hits: group._sum.hitCount || 0,
+      lastHitAt: group._max.lastHitAt,
+      expired: expired.find((e: any) => e.promptVersion === group.promptVersion && e.model === group.model)?._count._all || 0
+    }))
+  }
+}
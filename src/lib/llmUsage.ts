@@ -0,0 +1,423 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import type { LlmProviderId, LlmUsage } from './llm'
+
+// AI usage accounting: every gateway call is stored as an LlmCall with its token usage
+// and estimated cost, attributed to the organization, discovery session and article of
+// the surrounding withLlmContext() scope.
+//
+// Monthly budgets (LlmBudget rows, per organization or global) cap the spend of the
+// current calendar month (UTC). Once one is reached the gateway refuses new calls with
+// LlmBudgetExceededError, which the pipelines treat as "pause" rather than "failed".
+//
+// LLM_USAGE_TRACKING=off disables both recording and budget checks (e.g. offline tests).
+
+export interface LlmContext {
+  organizationId?: string | null
+  discoverySessionId?: string | null
+  articleId?: string | null
+}
+
+interface LlmScope extends LlmContext {
+  callIds: string[]  // Calls recorded in this scope, linked once the article exists
+}
+
+const scopes = new AsyncLocalStorage<LlmScope>()
+
+/**
+ * Run fn with usage attribution: LLM calls made inside (at any depth) are recorded
+ * against these ids. Nested scopes inherit the ids they don't set themselves.
+ */
+export function withLlmContext<T>(context: LlmContext, fn: () => Promise<T>): Promise<T> {
+  const scope: LlmScope = { ...scopes.getStore(), callIds: [] }
+  for (const key of ['organizationId', 'discoverySessionId', 'articleId'] as const) {
+    if (context[key] !== undefined) scope[key] = context[key]
+  }
+  return scopes.run(scope, fn)
+}
+
+export function getLlmContext(): LlmContext {
+  const { callIds, ...context } = scopes.getStore() || { callIds: [] }
+  return context
+}
+
+/**
+ * Attribute the calls already made in the current scope (and any later ones) to an
+ * article - for pipelines that only create the Article after enriching it
+ */
+export async function attributeLlmCallsToArticle(articleId: string) {
+  const scope = scopes.getStore()
+  if (!scope) return
+
+  scope.articleId = articleId
+  if (scope.callIds.length === 0) return
+
+  try {
+    await prisma.llmCall.updateMany({ where: { id: { in: scope.callIds } }, data: { articleId } })
+  } catch (error) {
+    console.warn(`⚠️ Could not link LLM calls to article ${articleId}:`, error instanceof Error ? error.message : String(error))
+  }
+}
+
+function isTrackingEnabled(): boolean {
+  return (process.env.LLM_USAGE_TRACKING || 'on').trim().toLowerCase() !== 'off'
+}
+
+// USD per 1M tokens. Models are matched exactly, then by longest prefix so dated
+// snapshots (e.g. gpt-4o-2024-08-06) use their family's price.
+const MODEL_PRICES: Record<string, { input: number, output: number }> = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'o4-mini': { input: 1.1, output: 4.4 }
+}
+
+/**
+ * Price table with LLM_PRICES overrides: comma-separated model=input/output pairs in
+ * USD per 1M tokens, e.g. "gpt-4o=2.5/10,my-finetune=0.3/1.2"
+ */
+function getModelPrices(): Record<string, { input: number, output: number }> {
+  const prices = { ...MODEL_PRICES }
+  for (const pair of (process.env.LLM_PRICES || '').split(',')) {
+    const [model, rates] = pair.split('=').map(part => part.trim())
+    const [input, output] = (rates || '').split('/').map(rate => parseFloat(rate))
+    if (model && !isNaN(input) && !isNaN(output)) prices[model] = { input, output }
+  }
+  return prices
+}
+
+const warnedUnpricedModels = new Set<string>()
+
+export function estimateCostUsd(provider: LlmProviderId, model: string, usage: LlmUsage): number {
+  if (provider === 'mock') return 0
+
+  const prices = getModelPrices()
+  const family = prices[model] ? model : Object.keys(prices)
+    .filter(name => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0]
+
+  if (!family) {
+    if (!warnedUnpricedModels.has(model)) {
+      warnedUnpricedModels.add(model)
+      console.warn(`⚠️ No price for model "${model}" - its calls are recorded at $0 (set LLM_PRICES)`)
+    }
+    return 0
+  }
+
+  const price = prices[family]
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+export interface LlmCallRecord {
+  task: string
+  provider: LlmProviderId
+  model: string
+  usage: LlmUsage
+  durationMs: number
+  attempts: number
+  success: boolean
+  error?: string
+}
+
+/**
+ * Store one gateway call against the current context. Never throws - losing a usage
+ * row must not fail the pipeline step that made the call.
+ */
+export async function recordLlmCall(record: LlmCallRecord) {
+  if (!isTrackingEnabled()) return
+
+  const scope = scopes.getStore()
+  const costUsd = estimateCostUsd(record.provider, record.model, record.usage)
+
+  try {
+    const call = await prisma.llmCall.create({
+      data: {
+        task: record.task,
+        provider: record.provider,
+        model: record.model,
+        inputTokens: record.usage.inputTokens,
+        outputTokens: record.usage.outputTokens,
+        costUsd,
+        durationMs: record.durationMs,
+        attempts: record.attempts,
+        success: record.success,
+        error: record.error?.substring(0, 1000) || null,
+        organizationId: scope?.organizationId || null,
+        discoverySessionId: scope?.discoverySessionId || null,
+        articleId: scope?.articleId || null
+      },
+      select: { id: true }
+    })
+    scope?.callIds.push(call.id)
+    addCachedSpend(scope?.organizationId || null, costUsd)
+  } catch (error) {
+    console.warn(`⚠️ Could not record LLM usage for ${record.task}:`, error instanceof Error ? error.message : String(error))
+  }
+}
+
+// --- Budgets ---
+
+export interface BudgetStatus {
+  organizationId: string | null  // null for the global budget
+  limitUsd: number
+  spentUsd: number               // Current calendar month (UTC)
+  exceeded: boolean
+}
+
+export function describeExceededBudget(budget: BudgetStatus): string {
+  return `${budget.organizationId ? 'Organization' : 'Global'} monthly AI budget reached: $${budget.spentUsd.toFixed(2)} of $${budget.limitUsd.toFixed(2)} spent`
+}
+
+export class LlmBudgetExceededError extends Error {
+  constructor(public readonly budget: BudgetStatus) {
+    super(describeExceededBudget(budget))
+    this.name = 'LlmBudgetExceededError'
+  }
+}
+
+/**
+ * For fallback catch blocks: a budget stop must reach the job instead of being
+ * replaced by a fallback value
+ */
+export function rethrowIfBudgetExceeded(error: unknown) {
+  if (error instanceof LlmBudgetExceededError) throw error
+}
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+}
+
+// Budget and month-to-date spend per scope ('global' or organization id). Short-lived so
+// the gateway does not query on every call; recorded calls are added to the cached spend.
+const BUDGET_CACHE_MS = 30000
+const budgetCache = new Map<string, { status: BudgetStatus | null, fetchedAt: number }>()
+
+// LlmBudget.scope of the global budget; organization budgets use the organization id
+const GLOBAL_BUDGET_SCOPE = 'global'
+
+function budgetScope(organizationId: string | null): string {
+  return organizationId || GLOBAL_BUDGET_SCOPE
+}
+
+export function clearBudgetCache() {
+  budgetCache.clear()
+}
+
+function addCachedSpend(organizationId: string | null, costUsd: number) {
+  for (const key of organizationId ? [GLOBAL_BUDGET_SCOPE, organizationId] : [GLOBAL_BUDGET_SCOPE]) {
+    const status = budgetCache.get(key)?.status
+    if (status) {
+      status.spentUsd += costUsd
+      status.exceeded = status.spentUsd >= status.limitUsd
+    }
+  }
+}
+
+async function loadBudgetStatus(organizationId: string | null): Promise<BudgetStatus | null> {
+  const key = budgetScope(organizationId)
+  const cached = budgetCache.get(key)
+  if (cached && Date.now() - cached.fetchedAt < BUDGET_CACHE_MS) return cached.status
+
+  const budget = await prisma.llmBudget.findUnique({ where: { scope: budgetScope(organizationId) } })
+  let status: BudgetStatus | null = null
+
+  if (budget) {
+    const spent = await prisma.llmCall.aggregate({
+      where: { createdAt: { gte: startOfMonth() }, ...(organizationId && { organizationId }) },
+      _sum: { costUsd: true }
+    })
+    const spentUsd = spent._sum.costUsd || 0
+    status = { organizationId, limitUsd: budget.monthlyLimitUsd, spentUsd, exceeded: spentUsd >= budget.monthlyLimitUsd }
+  }
+
+  budgetCache.set(key, { status, fetchedAt: Date.now() })
+  return status
+}
+
+/**
+ * The global budget and the organization's budget, when they are set
+ */
+export async function getBudgetStatuses(organizationId?: string | null): Promise<BudgetStatus[]> {
+  const statuses = await Promise.all([
+    loadBudgetStatus(null),
+    organizationId ? loadBudgetStatus(organizationId) : Promise.resolve(null)
+  ])
+  return statuses.filter((status): status is BudgetStatus => status !== null)
+}
+
+/**
+ * First budget that blocks AI calls for the organization (or globally), or null.
+ * Budget lookups that fail are logged and treated as within budget.
+ */
+export async function getExceededBudget(organizationId?: string | null): Promise<BudgetStatus | null> {
+  if (!isTrackingEnabled()) return null
+
+  try {
+    const statuses = await getBudgetStatuses(organizationId)
+    return statuses.find(status => status.exceeded) || null
+  } catch (error) {
+    console.warn('⚠️ Could not check AI budgets:', error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+export async function assertWithinBudget(organizationId?: string | null) {
+  const exceeded = await getExceededBudget(organizationId)
+  if (exceeded) throw new LlmBudgetExceededError(exceeded)
+}
+
+// --- Dashboard aggregates ---
+
+export interface UsageFilter {
+  from: Date
+  to: Date
+  organizationId?: string
+}
+
+const usageSums = { _sum: { inputTokens: true, outputTokens: true, costUsd: true }, _count: { _all: true } } as const
+
+// The aggregate fields every usage groupBy selects (see usageSums)
+interface UsageGroup {
+  _count: { _all: number }
+  _sum: { inputTokens: number | null, outputTokens: number | null, costUsd: number | null }
+}
+
+interface UsageDay {
+  day: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  costUsd: number
+}
+
+function toTotals(group: UsageGroup) {
+  return {
+    calls: group._count._all,
+    inputTokens: group._sum.inputTokens || 0,
+    outputTokens: group._sum.outputTokens || 0,
+    costUsd: group._sum.costUsd || 0
+  }
+}
+
+/**
+ * Totals for the period, broken down by organization, task, model and day, plus the
+ * most expensive discovery sessions and articles
+ */
+export async function getUsageSummary(filter: UsageFilter) {
+  const where = {
+    createdAt: { gte: filter.from, lt: filter.to },
+    ...(filter.organizationId && { organizationId: filter.organizationId })
+  }
+  const byCost = { _sum: { costUsd: 'desc' } } as const
+
+  const [totals, failedCalls, byOrganization, byTask, byModel, bySession, byArticle, byDay] = await Promise.all([
+    prisma.llmCall.aggregate({ where, ...usageSums }),
+    prisma.llmCall.count({ where: { ...where, success: false } }),
+    prisma.llmCall.groupBy({ by: ['organizationId'], where, ...usageSums, orderBy: byCost }),
+    prisma.llmCall.groupBy({ by: ['task'], where, ...usageSums, orderBy: byCost }),
+    prisma.llmCall.groupBy({ by: ['provider', 'model'], where, ...usageSums, orderBy: byCost }),
+    prisma.llmCall.groupBy({ by: ['discoverySessionId'], where: { ...where, discoverySessionId: { not: null } }, ...usageSums, orderBy: byCost, take: 10 }),
+    prisma.llmCall.groupBy({ by: ['articleId'], where: { ...where, articleId: { not: null } }, ...usageSums, orderBy: byCost, take: 10 }),
+    // Daily totals are bucketed in SQL so the period's calls are never loaded one by one
+    prisma.$queryRaw<UsageDay[]>`
+      SELECT
+        to_char(date_trunc('day', "createdAt"), 'YYYY-MM-DD') AS "day",
+        COUNT(*)::int AS "calls",
+        COALESCE(SUM("inputTokens"), 0)::float8 AS "inputTokens",
+        COALESCE(SUM("outputTokens"), 0)::float8 AS "outputTokens",
+        COALESCE(SUM("costUsd"), 0)::float8 AS "costUsd"
+      FROM "public"."LlmCall"
+      WHERE "createdAt" >= ${filter.from} AND "createdAt" < ${filter.to}
+        ${filter.organizationId ? Prisma.sql`AND "organizationId" = ${filter.organizationId}` : Prisma.empty}
+      GROUP BY 1
+      ORDER BY 1
+    `
+  ])
+
+  const [organizations, sessions, articles] = await Promise.all([
+    prisma.organization.findMany({
+      where: { id: { in: byOrganization.flatMap(group => group.organizationId ? [group.organizationId] : []) } },
+      select: { id: true, name: true }
+    }),
+    prisma.discoverySession.findMany({
+      where: { id: { in: bySession.flatMap(group => group.discoverySessionId ? [group.discoverySessionId] : []) } },
+      select: { id: true, createdAt: true, trigger: true, organization: { select: { name: true } } }
+    }),
+    prisma.article.findMany({
+      where: { id: { in: byArticle.flatMap(group => group.articleId ? [group.articleId] : []) } },
+      select: { id: true, title: true, organization: { select: { name: true } } }
+    })
+  ])
+  const organizationNames = new Map(organizations.map(org => [org.id, org.name]))
+
+  return {
+    totals: { ...toTotals(totals), failedCalls },
+    byOrganization: byOrganization.map(group => ({
+      organizationId: group.organizationId,
+      organizationName: group.organizationId ? organizationNames.get(group.organizationId) || 'Deleted organization' : 'Unattributed',
+      ...toTotals(group)
+    })),
+    byTask: byTask.map(group => ({ task: group.task, ...toTotals(group) })),
+    byModel: byModel.map(group => ({ provider: group.provider, model: group.model, ...toTotals(group) })),
+    byDay,
+    topSessions: bySession.map(group => {
+      const session = sessions.find(s => s.id === group.discoverySessionId)
+      return {
+        discoverySessionId: group.discoverySessionId,
+        organizationName: session?.organization.name || null,
+        trigger: session?.trigger || null,
+        createdAt: session?.createdAt || null,
+        ...toTotals(group)
+      }
+    }),
+    topArticles: byArticle.map(group => {
+      const article = articles.find(a => a.id === group.articleId)
+      return {
+        articleId: group.articleId,
+        title: article?.title || null,
+        organizationName: article?.organization.name || null,
+        ...toTotals(group)
+      }
+    })
+  }
+}
+
+/**
+ * Every configured budget with its month-to-date spend (uncached, for the dashboard)
+ */
+export async function listBudgets(): Promise<Array<BudgetStatus & { id: string, organizationName: string | null }>> {
+  clearBudgetCache()
+  const budgets = await prisma.llmBudget.findMany({
+    include: { organization: { select: { name: true } } },
+    orderBy: { createdAt: 'asc' }
+  })
+
+  return Promise.all(budgets.map(async budget => ({
+    ...(await loadBudgetStatus(budget.organizationId))!,
+    id: budget.id,
+    organizationName: budget.organization?.name || null
+  })))
+}
+
+/**
+ * Set the monthly cap for an organization, or the global cap when organizationId is null
+ */
+export async function setBudget(organizationId: string | null, monthlyLimitUsd: number) {
+  const scope = budgetScope(organizationId)
+  const budget = await prisma.llmBudget.upsert({
+    where: { scope },
+    create: { scope, organizationId, monthlyLimitUsd },
+    update: { monthlyLimitUsd }
+  })
+
+  clearBudgetCache()
+  return budget
+}
+
+export async function removeBudget(id: string) {
+  await prisma.llmBudget.delete({ where: { id } })
+  clearBudgetCache()
+}
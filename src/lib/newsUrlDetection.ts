@@ -0,0 +1,319 @@
+import { JSDOM } from 'jsdom'
+import { prisma } from './db'
+
+const NEWS_PAGE_USER_AGENT = 'Mozilla/5.0 (compatible; ArticleBot/1.0)'
+const NEWS_PAGE_FETCH_TIMEOUT = 15000
+
+// How often a stored newsUrl is re-checked, and how long to wait before retrying
+// detection for organizations where nothing was found
+export const NEWS_URL_REVERIFY_INTERVAL_MS = 30 * 24 * 60 * 60 * 1000
+
+// Paths probed on every website, in addition to links found in the navigation
+const COMMON_NEWS_PATHS = [
+  '/news',
+  '/blog',
+  '/stories',
+  '/newsroom',
+  '/press',
+  '/press-releases',
+  '/media',
+  '/updates',
+  '/articles',
+  '/insights',
+  '/news-and-stories',
+  '/about/news'
+]
+
+// Link text or path segments that suggest a news listing page
+const NEWS_LINK_PATTERN = /\b(news|blog|stories|newsroom|press|media|updates|articles|insights|latest)\b/i
+
+const DATE_IN_PATH = /\/(19|20)\d{2}\/(0?[1-9]|1[0-2])\/|\/(19|20)\d{2}-\d{2}-\d{2}/
+const DATE_IN_TEXT = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2},?\s+(19|20)\d{2}\b|\b\d{1,2}\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+(19|20)\d{2}\b|\b(19|20)\d{2}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}\/(19|20)\d{2}\b/i
+
+// A candidate needs at least this many dated article links to be accepted
+const MIN_DATED_LINKS = 3
+// Confidence below which a stored newsUrl is considered dead on re-verification
+const MIN_VERIFIED_CONFIDENCE = 0.3
+const MAX_CANDIDATES = 12
+
+export interface NewsPageScore {
+  url: string
+  articleLinks: number  // Distinct same-site links that look like individual articles
+  datedLinks: number    // Article links with a date in the URL or next to the link
+  confidence: number    // 0-1
+}
+
+export interface NewsUrlCheckResult {
+  organizationId: string
+  action: 'detected' | 'verified' | 'replaced' | 'dead' | 'not_found'
+  newsUrl: string | null
+  confidence: number
+  candidates: NewsPageScore[]
+}
+
+async function fetchPage(url: string): Promise<{ url: string, html: string } | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { 'User-Agent': NEWS_PAGE_USER_AGENT, 'Accept': 'text/html' },
+      signal: AbortSignal.timeout(NEWS_PAGE_FETCH_TIMEOUT)
+    })
+
+    if (!response.ok || !(response.headers.get('content-type') || '').includes('html')) {
+      return null
+    }
+
+    const finalUrl = new URL(response.url || url)
+    finalUrl.hash = ''
+    return { url: finalUrl.toString(), html: await response.text() }
+  } catch {
+    return null
+  }
+}
+
+function siteHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^www\./, '')
+}
+
+function withProtocol(website: string): string {
+  return /^https?:\/\//i.test(website) ? website : `https://${website}`
+}
+
+/**
+ * Same-site links from the homepage whose text or path suggests a news listing
+ */
+function findNavigationCandidates(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl)
+  const document = new JSDOM(html).window.document
+  const candidates: string[] = []
+
+  // Navigation links first - they are the site's own idea of where news lives
+  const anchors = [
+    ...Array.from(document.querySelectorAll('nav a[href], header a[href]')),
+    ...Array.from(document.querySelectorAll('a[href]'))
+  ]
+
+  for (const anchor of anchors) {
+    const text = (anchor.textContent || '').trim()
+    let url: URL
+    try {
+      url = new URL(anchor.getAttribute('href') || '', base)
+    } catch {
+      continue
+    }
+
+    if (siteHost(url) !== siteHost(base) || url.pathname === '/' || text.length > 40) continue
+    // Listing pages sit near the top of the site, not deep in it
+    if (url.pathname.split('/').filter(Boolean).length > 2) continue
+    if (!NEWS_LINK_PATTERN.test(text) && !NEWS_LINK_PATTERN.test(url.pathname.replace(/[-_]/g, ' '))) continue
+
+    url.hash = ''
+    url.search = ''
+    candidates.push(url.toString())
+  }
+
+  return Array.from(new Set(candidates))
+}
+
+/**
+ * Score a page as a news listing by counting the dated article links it contains.
+ * Links in the site navigation, header and footer are ignored.
+ */
+export function scoreNewsPage(html: string, pageUrl: string): NewsPageScore {
+  const page = new URL(pageUrl)
+  const document = new JSDOM(html).window.document
+  const articleLinks = new Set<string>()
+  const datedLinks = new Set<string>()
+
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    if (anchor.closest('nav, header, footer')) return
+
+    let url: URL
+    try {
+      url = new URL(anchor.getAttribute('href') || '', page)
+    } catch {
+      return
+    }
+
+    if (siteHost(url) !== siteHost(page)) return
+    url.hash = ''
+    const path = url.pathname.replace(/\/$/, '')
+    if (!path || path === page.pathname.replace(/\/$/, '')) return
+
+    // Article slugs are multi-word (this-is-a-title) or carry an id/date
+    const slug = path.split('/').pop() || ''
+    const looksLikeArticle = /[a-z0-9]+(-[a-z0-9]+){2,}/i.test(slug) || DATE_IN_PATH.test(path + '/') || /\d{3,}/.test(slug)
+    if (!looksLikeArticle) return
+
+    const key = url.origin + path
+    articleLinks.add(key)
+
+    if (DATE_IN_PATH.test(path + '/')) {
+      datedLinks.add(key)
+      return
+    }
+
+    const container = anchor.closest('article, li, [class*="post"], [class*="card"], [class*="item"], [class*="entry"]')
+      || anchor.parentElement?.parentElement
+    // Strip tags with spaces so adjacent elements don't run together ("StoryMarch 3, 2025")
+    const text = (container?.innerHTML || '').replace(/<[^>]+>/g, ' ')
+    if (container?.querySelector('time') || (text.length < 1000 && DATE_IN_TEXT.test(text))) {
+      datedLinks.add(key)
+    }
+  })
+
+  const confidence =
+    Math.min(1, datedLinks.size / 8) * 0.7 +
+    Math.min(1, articleLinks.size / 15) * 0.2 +
+    (NEWS_LINK_PATTERN.test(page.pathname.replace(/[-_]/g, ' ')) ? 0.1 : 0)
+
+  return {
+    url: pageUrl,
+    articleLinks: articleLinks.size,
+    datedLinks: datedLinks.size,
+    confidence: Math.round(confidence * 100) / 100
+  }
+}
+
+/**
+ * Find an organization's news listing page: probe common paths and the news-like
+ * links in the homepage navigation, score each candidate and return the best one
+ * with at least MIN_DATED_LINKS dated article links.
+ */
+export async function detectNewsUrl(website: string): Promise<{ newsUrl: string | null, confidence: number, candidates: NewsPageScore[] }> {
+  const siteUrl = withProtocol(website.trim())
+  let origin: string
+  try {
+    origin = new URL(siteUrl).origin
+  } catch {
+    // A malformed website means no news page can be found; it must not fail the check
+    console.warn(`⚠️ Cannot detect news page: invalid website URL "${website}"`)
+    return { newsUrl: null, confidence: 0, candidates: [] }
+  }
+  console.log(`🧭 Detecting news page for ${siteUrl}`)
+
+  const homepage = await fetchPage(siteUrl)
+  if (homepage) origin = new URL(homepage.url).origin
+
+  const candidateUrls = Array.from(new Set([
+    ...(homepage ? findNavigationCandidates(homepage.html, homepage.url) : []),
+    ...COMMON_NEWS_PATHS.map(path => `${origin}${path}`)
+  ])).slice(0, MAX_CANDIDATES)
+
+  const candidates: NewsPageScore[] = []
+  const scoredUrls = new Set<string>()
+
+  for (const candidateUrl of candidateUrls) {
+    const page = await fetchPage(candidateUrl)
+    // Redirects to the homepage or an already scored page add nothing
+    if (!page || new URL(page.url).pathname === '/' || scoredUrls.has(page.url)) continue
+    scoredUrls.add(page.url)
+
+    const score = scoreNewsPage(page.html, page.url)
+    console.log(`   ${page.url}: ${score.datedLinks} dated / ${score.articleLinks} article links (confidence ${score.confidence})`)
+    candidates.push(score)
+  }
+
+  candidates.sort((a, b) => b.confidence - a.confidence || b.datedLinks - a.datedLinks)
+  const best = candidates.find(candidate => candidate.datedLinks >= MIN_DATED_LINKS)
+
+  return {
+    newsUrl: best?.url || null,
+    confidence: best?.confidence || 0,
+    candidates
+  }
+}
+
+/**
+ * Check that a stored newsUrl still loads and still lists dated articles
+ */
+export async function verifyNewsUrl(newsUrl: string): Promise<NewsPageScore> {
+  const page = await fetchPage(newsUrl)
+  if (!page) {
+    return { url: newsUrl, articleLinks: 0, datedLinks: 0, confidence: 0 }
+  }
+  return { ...scoreNewsPage(page.html, page.url), url: newsUrl }
+}
+
+/**
+ * Detect a newsUrl for an organization without one, or re-verify the stored one.
+ * A dead newsUrl is replaced when detection finds a working page, otherwise it is
+ * kept and flagged as dead for an editor to fix.
+ */
+export async function checkOrganizationNewsUrl(organization: {
+  id: string
+  name: string
+  website: string | null
+  newsUrl: string | null
+}): Promise<NewsUrlCheckResult> {
+  const now = new Date()
+
+  if (organization.newsUrl) {
+    const verification = await verifyNewsUrl(organization.newsUrl)
+
+    if (verification.confidence >= MIN_VERIFIED_CONFIDENCE) {
+      await prisma.organization.update({
+        where: { id: organization.id },
+        data: { newsUrlConfidence: verification.confidence, newsUrlVerifiedAt: now, newsUrlStatus: 'verified' }
+      })
+      console.log(`✅ ${organization.name}: news page verified (confidence ${verification.confidence})`)
+      return { organizationId: organization.id, action: 'verified', newsUrl: organization.newsUrl, confidence: verification.confidence, candidates: [verification] }
+    }
+
+    console.warn(`💀 ${organization.name}: news page ${organization.newsUrl} looks dead (confidence ${verification.confidence})`)
+  }
+
+  const detection = organization.website
+    ? await detectNewsUrl(organization.website)
+    : { newsUrl: null, confidence: 0, candidates: [] }
+
+  if (detection.newsUrl) {
+    // Detection can still pick the stored page when it scores just under the verify threshold
+    const unchanged = detection.newsUrl === organization.newsUrl
+    await prisma.organization.update({
+      where: { id: organization.id },
+      data: {
+        newsUrl: detection.newsUrl,
+        newsUrlConfidence: detection.confidence,
+        newsUrlVerifiedAt: now,
+        newsUrlStatus: unchanged ? 'verified' : 'detected'
+      }
+    })
+    console.log(`📰 ${organization.name}: news page set to ${detection.newsUrl} (confidence ${detection.confidence})`)
+    return {
+      organizationId: organization.id,
+      action: unchanged ? 'verified' : organization.newsUrl ? 'replaced' : 'detected',
+      newsUrl: detection.newsUrl,
+      confidence: detection.confidence,
+      candidates: detection.candidates
+    }
+  }
+
+  const status = organization.newsUrl ? 'dead' : 'not_found'
+  await prisma.organization.update({
+    where: { id: organization.id },
+    data: { newsUrlConfidence: 0, newsUrlVerifiedAt: now, newsUrlStatus: status }
+  })
+  if (!organization.newsUrl) {
+    console.log(`🤷 ${organization.name}: no news page found`)
+  }
+
+  return { organizationId: organization.id, action: status, newsUrl: organization.newsUrl, confidence: 0, candidates: detection.candidates }
+}
+
+/**
+ * Organizations due for detection or re-verification: those with a website whose
+ * newsUrl has never been checked or was last checked before the re-verify interval
+ */
+export async function findOrganizationsDueForNewsUrlCheck(limit = 50) {
+  const cutoff = new Date(Date.now() - NEWS_URL_REVERIFY_INTERVAL_MS)
+
+  return prisma.organization.findMany({
+    where: {
+      OR: [{ website: { not: null } }, { newsUrl: { not: null } }],
+      AND: [{ OR: [{ newsUrlVerifiedAt: null }, { newsUrlVerifiedAt: { lt: cutoff } }] }]
+    },
+    select: { id: true, name: true, website: true, newsUrl: true },
+    orderBy: { newsUrlVerifiedAt: { sort: 'asc', nulls: 'first' } },
+    take: limit
+  })
+}
@@ -1,12 +1,16 @@
-import { openai } from './openai';
 import { z } from 'zod';
+import { generateStructured } from './llm';
+import { PaginationOptions, walkPaginatedListing } from './pagination';
 
 /**
- * Extract individual article URLs from a news/press page using AI
+ * Extract individual article URLs from a news/press page using AI. Pagination
+ * (next/numbered links, /page/N/, load more endpoints) is followed up to
+ * `options.maxPages` pages, stopping early at the `options.since` date cutoff.
  */
 export async function extractArticleUrlsFromNewsPage(
   newsPageUrl: string,
-  organizationName: string
+  organizationName: string,
+  options: PaginationOptions = {}
 ): Promise<string[]> {
   console.log(`📄 Fetching news page: ${newsPageUrl}`);
   
@@ -25,10 +29,37 @@ export async function extractArticleUrlsFromNewsPage(
     const html = await response.text();
     console.log(`📊 Fetched ${html.length} characters from ${newsPageUrl}`);
 
-    // Step 2: Use AI to extract individual article URLs
-    const aiResponse = await openai('gpt-4o-mini').generateObject({
-      system: `You are an expert at extracting article URLs from news/press pages. 
-      
+    // Step 2: Extract article URLs from every listing page
+    const { items, pages } = await walkPaginatedListing({
+      startUrl: newsPageUrl,
+      firstPageHtml: html,
+      extractItems: async page => page.html ? extractArticleUrlsFromHtml(page.html, page.url, organizationName) : [],
+      getUrl: url => url,
+      ...options
+    });
+
+    console.log(`📑 ${pages.length} listing pages yielded ${pages.map(p => p.newUrls).join(' + ')} article URLs`);
+    return items;
+
+  } catch (error) {
+    console.error(`❌ Error extracting URLs from ${newsPageUrl}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Use AI to pick the individual article URLs out of one listing page's HTML
+ */
+async function extractArticleUrlsFromHtml(
+  html: string,
+  newsPageUrl: string,
+  organizationName: string
+): Promise<string[]> {
+  const aiResponse = await generateStructured({
+    task: 'newsUrlExtraction',
+    model: 'gpt-4o-mini',
+    system: `You are an expert at extracting article URLs from news/press pages. 
+    
 Your task is to find individual article URLs from the HTML content of a news or press page.
 
 WHAT TO EXTRACT:
@@ -41,7 +72,7 @@ WHAT TO IGNORE:
 - Navigation links (About, Contact, etc.)
 - Social media links
 - Category/tag pages
-- Archive pages with query parameters (?page=, ?category=)
+- Pagination and archive links (?page=, /page/2/, ?category=) - pagination is followed separately
 - Image URLs
 - JavaScript/CSS files
 - The news page URL itself
@@ -53,8 +84,8 @@ REQUIREMENTS:
 - Maximum 50 URLs to avoid overwhelming the system
 
 Return the URLs as a clean array.`,
-      
-      prompt: `Extract individual article URLs from this ${organizationName} news/press page:
+    
+    prompt: `Extract individual article URLs from this ${organizationName} news/press page:
 
 Base URL: ${newsPageUrl}
 Organization: ${organizationName}
@@ -63,63 +94,58 @@ HTML Content:
 ${html.substring(0, 12000)}${html.length > 12000 ? '\n\n[Content truncated...]' : ''}
 
 Find all individual article/story/press release URLs from this page.`,
-      
-      schema: z.object({
-        articleUrls: z.array(z.string().url()).describe('Array of individual article URLs found on the page'),
-        totalFound: z.number().describe('Total number of article URLs found'),
-        reasoning: z.string().describe('Brief explanation of what types of links were found')
-      }),
-    });
-
-    const result = aiResponse.object;
-    console.log(`🔍 AI found ${result.totalFound} article URLs`);
-    console.log(`💡 AI reasoning: ${result.reasoning}`);
-
-    // Step 3: Clean and validate URLs
-    const cleanUrls = result.articleUrls
-      .filter(url => {
-        try {
-          const parsedUrl = new URL(url);
-          // Basic validation - must be http/https
-          if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
-            return false;
-          }
-          // Avoid common non-article paths
-          const path = parsedUrl.pathname.toLowerCase();
-          if (path.includes('/category/') || 
-              path.includes('/tag/') || 
-              path.includes('/page/') ||
-              path.includes('/archive/') ||
-              path === '/' || 
-              path === newsPageUrl) {
-            return false;
-          }
-          return true;
-        } catch {
+    
+    schema: z.object({
+      articleUrls: z.array(z.string().url()).describe('Array of individual article URLs found on the page'),
+      totalFound: z.number().describe('Total number of article URLs found'),
+      reasoning: z.string().describe('Brief explanation of what types of links were found')
+    }),
+  });
+
+  const result = aiResponse.object;
+  console.log(`🔍 AI found ${result.totalFound} article URLs`);
+  console.log(`💡 AI reasoning: ${result.reasoning}`);
+
+  // Clean and validate URLs
+  const cleanUrls = result.articleUrls
+    .filter(url => {
+      try {
+        const parsedUrl = new URL(url);
+        // Basic validation - must be http/https
+        if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
           return false;
         }
-      })
-      .slice(0, 50); // Limit to 50 URLs
-
-    console.log(`✅ Returning ${cleanUrls.length} clean article URLs`);
-    
-    // Log a sample of URLs for debugging
-    if (cleanUrls.length > 0) {
-      console.log(`📋 Sample URLs:`);
-      cleanUrls.slice(0, 3).forEach((url, i) => {
-        console.log(`   ${i + 1}. ${url}`);
-      });
-      if (cleanUrls.length > 3) {
-        console.log(`   ... and ${cleanUrls.length - 3} more`);
+        // Avoid common non-article paths
+        const path = parsedUrl.pathname.toLowerCase();
+        if (path.includes('/category/') || 
+            path.includes('/tag/') || 
+            path.includes('/page/') ||
+            path.includes('/archive/') ||
+            path === '/' || 
+            path === newsPageUrl) {
+          return false;
+        }
+        return true;
+      } catch {
+        return false;
       }
-    }
+    })
+    .slice(0, 50); // Limit to 50 URLs
 
-    return cleanUrls;
-
-  } catch (error) {
-    console.error(`❌ Error extracting URLs from ${newsPageUrl}:`, error);
-    throw error;
+  console.log(`✅ Returning ${cleanUrls.length} clean article URLs`);
+  
+  // Log a sample of URLs for debugging
+  if (cleanUrls.length > 0) {
+    console.log(`📋 Sample URLs:`);
+    cleanUrls.slice(0, 3).forEach((url, i) => {
+      console.log(`   ${i + 1}. ${url}`);
+    });
+    if (cleanUrls.length > 3) {
+      console.log(`   ... and ${cleanUrls.length - 3} more`);
+    }
   }
+
+  return cleanUrls;
 }
 
 /**
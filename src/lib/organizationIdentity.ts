@@ -0,0 +1,80 @@
+// How an organization is referred to in the wild: its name plus aliases/acronyms
+// and a few descriptors. Used to build search queries, give the LLM enough context
+// to recognise the org (e.g. "IJM" is International Justice Mission), and for the
+// keyword fallbacks when the LLM is unavailable.
+
+export interface OrganizationIdentity {
+  name: string
+  altNames?: string[] | null
+  tagline?: string | null
+  categories?: string[] | null
+  impactAreas?: string[] | null
+}
+
+// Prisma select for the identity fields, spread into existing organization selects
+export const organizationIdentitySelect = {
+  name: true,
+  altNames: true,
+  tagline: true,
+  categories: true,
+  impactAreas: true
+} as const
+
+/**
+ * The organization's name followed by its aliases, deduplicated case-insensitively
+ */
+export function getOrganizationNames(organization: OrganizationIdentity): string[] {
+  const seen = new Set<string>()
+  const names: string[] = []
+
+  for (const name of [organization.name, ...(organization.altNames || [])]) {
+    const trimmed = name?.trim()
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue
+    seen.add(trimmed.toLowerCase())
+    names.push(trimmed)
+  }
+
+  return names
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Names/aliases that appear in the text as whole words. Short all-caps acronyms
+ * ("IJM", "FOCUS") are matched case-sensitively so they don't hit ordinary words.
+ */
+export function findOrganizationMentions(text: string, organization: OrganizationIdentity): string[] {
+  return getOrganizationNames(organization).filter(name => {
+    const isAcronym = name.length <= 6 && name === name.toUpperCase() && /[A-Z]/.test(name)
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(name)}($|[^\\p{L}\\p{N}])`, isAcronym ? 'u' : 'iu')
+    return pattern.test(text)
+  })
+}
+
+/**
+ * Readable impact areas ("atrisk-youth" -> "atrisk youth") merged with categories
+ */
+export function getOrganizationFocusAreas(organization: OrganizationIdentity): string[] {
+  const areas = [
+    ...(organization.categories || []),
+    ...(organization.impactAreas || []).map(area => area.replace(/-/g, ' '))
+  ]
+  return Array.from(new Set(areas.map(area => area.trim()).filter(Boolean)))
+}
+
+/**
+ * Prompt snippet describing the organization, empty lines omitted
+ */
+export function describeOrganization(organization: OrganizationIdentity): string {
+  const aliases = getOrganizationNames(organization).slice(1)
+  const focusAreas = getOrganizationFocusAreas(organization)
+
+  return [
+    `Organization: ${organization.name}`,
+    aliases.length > 0 ? `Also known as: ${aliases.join(', ')}` : null,
+    organization.tagline ? `Tagline: ${organization.tagline}` : null,
+    focusAreas.length > 0 ? `Focus areas: ${focusAreas.join(', ')}` : null
+  ].filter(Boolean).join('\n')
+}
@@ -0,0 +1,354 @@
+import { JSDOM } from 'jsdom'
+
+const LISTING_USER_AGENT = 'Mozilla/5.0 (compatible; ArticleBot/1.0)'
+const LISTING_FETCH_TIMEOUT = 15000
+
+// Listing pages walked per news/seed page when the caller does not say otherwise: only the
+// first page, so callers that never asked for pagination crawl exactly what they did before
+export const DEFAULT_MAX_LISTING_PAGES = 1
+export const MAX_LISTING_PAGES = 20
+
+// Link text used for "next page" links, matched against the whole (trimmed) text
+const NEXT_LINK_TEXT = /^(next|next page|older|older posts|older entries|older stories|older news|previous entries|more posts|more stories|more news|›|»|→|next\s*[›»→]|[›»→]\s*next)$/i
+const LOAD_MORE_TEXT = /\b(load|show|view|see) more\b|\bmore (stories|news|posts|articles)\b/i
+const LOAD_MORE_URL_ATTRIBUTES = ['data-url', 'data-href', 'data-endpoint', 'data-next-url', 'data-next', 'data-ajax-url', 'data-api', 'data-source']
+const LOAD_MORE_PAGE_ATTRIBUTES = ['data-next-page', 'data-page', 'data-paged', 'data-current-page']
+const PAGE_QUERY_PARAMS = ['page', 'paged', 'pg', 'p', 'pagenum']
+const WORDPRESS_PAGE_PATH = /\/page\/(\d+)\/?$/
+
+const MONTH_DATE = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+\d{1,2},?\s+(19|20)\d{2}\b|\b\d{1,2}\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+(19|20)\d{2}\b|\b(19|20)\d{2}-\d{2}-\d{2}\b/gi
+
+export type PaginationMethod = 'rel_next' | 'next_link' | 'numbered' | 'wordpress' | 'load_more'
+
+export interface PaginationOptions {
+  maxPages?: number     // Listing pages to walk, including the first one
+  since?: Date | null   // Stop once a page only lists items older than this
+}
+
+export interface ListingPage {
+  url: string
+  html: string | null   // null when the first page could not be fetched directly
+  pageNumber: number    // 1-based
+}
+
+// A type alias rather than an interface so it stays assignable to Prisma JSON input
+export type ListingPageYield = {
+  listingUrl: string
+  page: number
+  url: string
+  method: PaginationMethod | 'first'
+  urlsFound: number
+  newUrls: number               // Not already found on an earlier page of the same listing
+  newestDate: string | null     // Newest item date found on the page, when any
+  stoppedBy?: 'no_next_page' | 'max_pages' | 'date_cutoff' | 'no_new_urls' | 'fetch_failed' | 'loop'
+}
+
+/**
+ * Clamp a requested page depth to [1, MAX_LISTING_PAGES], falling back to the default
+ */
+export function resolveMaxPages(maxPages: unknown): number {
+  const value = Number(maxPages)
+  if (!Number.isFinite(value) || value < 1) return DEFAULT_MAX_LISTING_PAGES
+  return Math.min(MAX_LISTING_PAGES, Math.floor(value))
+}
+
+function sameSite(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '')
+}
+
+function resolveUrl(href: string | null, base: URL): URL | null {
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return null
+  try {
+    const url = new URL(href, base)
+    url.hash = ''
+    return ['http:', 'https:'].includes(url.protocol) ? url : null
+  } catch {
+    return null
+  }
+}
+
+function pageNumberOf(url: URL): number | null {
+  const pathMatch = url.pathname.match(WORDPRESS_PAGE_PATH)
+  if (pathMatch) return parseInt(pathMatch[1], 10)
+  for (const param of PAGE_QUERY_PARAMS) {
+    const value = url.searchParams.get(param)
+    if (value && /^\d+$/.test(value)) return parseInt(value, 10)
+  }
+  return null
+}
+
+function withPageNumber(url: URL, pageNumber: number): URL | null {
+  const next = new URL(url.toString())
+  if (WORDPRESS_PAGE_PATH.test(next.pathname)) {
+    next.pathname = next.pathname.replace(WORDPRESS_PAGE_PATH, `/page/${pageNumber}/`)
+    return next
+  }
+  const param = PAGE_QUERY_PARAMS.find(p => /^\d+$/.test(next.searchParams.get(p) || ''))
+  if (!param) return null
+  next.searchParams.set(param, String(pageNumber))
+  return next
+}
+
+/**
+ * Find the link to the page after `pageNumber` of a listing. Tried in order:
+ * rel="next", "next"/"older" link text, numbered pagination (including WordPress
+ * /page/N/ links), "load more" buttons that carry an endpoint, and finally
+ * incrementing a /page/N/ path or page query parameter of the current URL.
+ */
+export function findNextPage(html: string, pageUrl: string, pageNumber: number): { url: string, method: PaginationMethod } | null {
+  const base = new URL(pageUrl)
+  const document = new JSDOM(html).window.document
+  const isNew = (url: URL | null): url is URL => !!url && sameSite(url, base) && url.toString() !== base.toString()
+
+  const relNext = resolveUrl(document.querySelector('link[rel~="next"], a[rel~="next"]')?.getAttribute('href') || null, base)
+  if (isNew(relNext)) return { url: relNext.toString(), method: 'rel_next' }
+
+  const anchors = Array.from(document.querySelectorAll('a[href]'))
+
+  for (const anchor of anchors) {
+    const label = ((anchor.textContent || '').trim() || anchor.getAttribute('aria-label') || '').replace(/\s+/g, ' ')
+    if (!NEXT_LINK_TEXT.test(label) && !/^next( page)?$/i.test(anchor.getAttribute('aria-label') || '')) continue
+    const url = resolveUrl(anchor.getAttribute('href'), base)
+    if (isNew(url)) return { url: url.toString(), method: 'next_link' }
+  }
+
+  for (const anchor of anchors) {
+    const url = resolveUrl(anchor.getAttribute('href'), base)
+    if (!isNew(url) || pageNumberOf(url) !== pageNumber + 1) continue
+    return { url: url.toString(), method: WORDPRESS_PAGE_PATH.test(url.pathname) ? 'wordpress' : 'numbered' }
+  }
+
+  const loadMoreButtons = Array.from(document.querySelectorAll('button, a, [data-action], [class*="load-more"], [class*="loadmore"]'))
+    .filter(element => LOAD_MORE_TEXT.test(element.textContent || '') || /load-?more/i.test(element.getAttribute('class') || ''))
+
+  for (const button of loadMoreButtons) {
+    const endpoint = LOAD_MORE_URL_ATTRIBUTES.map(attr => resolveUrl(button.getAttribute(attr), base)).find(Boolean)
+      || (button.tagName === 'A' ? resolveUrl(button.getAttribute('href'), base) : null)
+    const pageAttribute = LOAD_MORE_PAGE_ATTRIBUTES.map(attr => button.getAttribute(attr)).find(value => value && /^\d+$/.test(value))
+
+    let url = endpoint && endpoint.toString() !== base.toString() ? endpoint : null
+    if (pageAttribute) {
+      // data-page usually holds the page already shown, data-next-page the one to load
+      const nextNumber = button.hasAttribute('data-next-page') ? parseInt(pageAttribute, 10) : Math.max(parseInt(pageAttribute, 10) + 1, pageNumber + 1)
+      const target = new URL((endpoint || base).toString())
+      url = withPageNumber(target, nextNumber)
+      if (!url) {
+        target.searchParams.set('page', String(nextNumber))
+        url = target
+      }
+    }
+    if (isNew(url)) return { url: url.toString(), method: 'load_more' }
+  }
+
+  // Already on a paginated URL (e.g. reached via load more): keep counting
+  if (pageNumberOf(base) === pageNumber) {
+    const url = withPageNumber(base, pageNumber + 1)
+    if (url) return { url: url.toString(), method: WORDPRESS_PAGE_PATH.test(url.pathname) ? 'wordpress' : 'load_more' }
+  }
+
+  // WordPress themes with infinite scroll usually still serve /page/N/
+  if (pageNumber === 1 && /wp-content|wp-json/.test(html) && !WORDPRESS_PAGE_PATH.test(base.pathname)) {
+    const url = new URL(base.toString())
+    url.search = ''
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/page/2/`
+    return { url: url.toString(), method: 'wordpress' }
+  }
+
+  return null
+}
+
+/**
+ * Same-site links in a listing page's content, ignoring the site navigation,
+ * header and footer
+ */
+export function extractListingLinks(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl)
+  const document = new JSDOM(html).window.document
+  const links = new Set<string>()
+
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    if (anchor.closest('nav, header, footer')) return
+    const url = resolveUrl(anchor.getAttribute('href'), base)
+    if (url && sameSite(url, base) && url.pathname !== '/' && pageNumberOf(url) === null) {
+      links.add(url.toString())
+    }
+  })
+
+  return Array.from(links)
+}
+
+/**
+ * Dates of the items on a listing page, from <time> elements, dates in link
+ * paths and dates written out in the text
+ */
+export function findListingDates(html: string): Date[] {
+  const document = new JSDOM(html).window.document
+  const maxTime = Date.now() + 24 * 60 * 60 * 1000
+  const dates: Date[] = []
+  const add = (value: string | null | undefined) => {
+    const time = value ? Date.parse(value) : NaN
+    if (!isNaN(time) && time > Date.UTC(1995, 0, 1) && time < maxTime) dates.push(new Date(time))
+  }
+
+  document.querySelectorAll('nav, header, footer, script, style').forEach(element => element.remove())
+  document.querySelectorAll('time').forEach(time => add(time.getAttribute('datetime') || time.textContent))
+
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    const match = (anchor.getAttribute('href') || '').match(/\/((?:19|20)\d{2})\/(0?[1-9]|1[0-2])\//)
+    if (match) add(`${match[1]}-${match[2].padStart(2, '0')}-01`)
+  })
+
+  // Tags are replaced with spaces so adjacent elements don't run together
+  const text = (document.body?.innerHTML || '').replace(/<[^>]+>/g, ' ')
+  for (const match of text.matchAll(MONTH_DATE)) {
+    add(match[0].replace(/(\d)(st|nd|rd|th)\b/i, '$1'))
+  }
+
+  return dates
+}
+
+// Turn a "load more" JSON response into HTML the listing helpers understand:
+// embedded HTML fragments are kept, url/link fields become anchors, date fields
+// become <time> elements and next-page fields become a rel="next" link.
+function jsonToListingHtml(json: unknown): string {
+  const parts: string[] = []
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+
+  const visit = (value: unknown, key: string, depth: number) => {
+    if (depth > 6 || value === null || value === undefined) return
+    if (Array.isArray(value)) {
+      value.forEach(item => visit(item, key, depth + 1))
+    } else if (typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey, depth + 1))
+    } else if (typeof value === 'string') {
+      const lowerKey = key.toLowerCase()
+      if (/^(next|next_?url|next_?page_?url|next_?link)$/.test(lowerKey) && /^(https?:)?\/\//.test(value)) {
+        parts.push(`<a rel="next" href="${escape(value)}">next</a>`)
+      } else if (/<a\s/i.test(value)) {
+        parts.push(value)
+      } else if (/^(url|link|permalink|href|canonical_?url)$/.test(lowerKey)) {
+        parts.push(`<a href="${escape(value)}">${escape(value)}</a>`)
+      } else if (/date|published|created/.test(lowerKey)) {
+        parts.push(`<time datetime="${escape(value)}"></time>`)
+      }
+    }
+  }
+
+  visit(json, '', 0)
+  return `<html><body>${parts.join('\n')}</body></html>`
+}
+
+/**
+ * Fetch a listing page. JSON responses (load more endpoints) are converted to
+ * HTML so they can be handled like any other listing page.
+ */
+export async function fetchListingPage(url: string): Promise<{ url: string, html: string } | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': LISTING_USER_AGENT,
+        'Accept': 'text/html,application/json;q=0.9,*/*;q=0.8'
+      },
+      signal: AbortSignal.timeout(LISTING_FETCH_TIMEOUT)
+    })
+
+    if (!response.ok) return null
+
+    const body = await response.text()
+    const contentType = response.headers.get('content-type') || ''
+    if (contentType.includes('json') || /^\s*[[{]/.test(body)) {
+      try {
+        return { url: response.url || url, html: jsonToListingHtml(JSON.parse(body)) }
+      } catch {
+        if (contentType.includes('json')) return null
+      }
+    }
+
+    return { url: response.url || url, html: body }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Walk a paginated listing from its first page, extracting items from every page
+ * until there is no next page, `maxPages` is reached, a page only lists items
+ * older than `since`, or a page adds nothing new. Returns the items (deduped by
+ * URL, in page order) and what each page yielded.
+ */
+export async function walkPaginatedListing<T>(params: {
+  startUrl: string
+  firstPageHtml: string | null
+  extractItems: (page: ListingPage) => Promise<T[]>
+  getUrl: (item: T) => string
+} & PaginationOptions): Promise<{ items: T[], pages: ListingPageYield[] }> {
+  const { startUrl, extractItems, getUrl, since } = params
+  const maxPages = resolveMaxPages(params.maxPages)
+
+  const items: T[] = []
+  const pages: ListingPageYield[] = []
+  const seenItemUrls = new Set<string>()
+  const visitedPages = new Set<string>([startUrl])
+
+  let page: ListingPage = { url: startUrl, html: params.firstPageHtml, pageNumber: 1 }
+  let method: ListingPageYield['method'] = 'first'
+
+  while (true) {
+    const pageItems = await extractItems(page)
+    const newItems = pageItems.filter(item => !seenItemUrls.has(getUrl(item)) && seenItemUrls.add(getUrl(item)))
+    items.push(...newItems)
+
+    const dates = page.html ? findListingDates(page.html) : []
+    const newest = dates.length > 0 ? new Date(Math.max(...dates.map(d => d.getTime()))) : null
+
+    const pageYield: ListingPageYield = {
+      listingUrl: startUrl,
+      page: page.pageNumber,
+      url: page.url,
+      method,
+      urlsFound: pageItems.length,
+      newUrls: newItems.length,
+      newestDate: newest?.toISOString() || null
+    }
+    pages.push(pageYield)
+
+    console.log(`📑 Page ${page.pageNumber} of ${startUrl}: ${newItems.length} new of ${pageItems.length} URLs${newest ? ` (newest ${newest.toISOString().slice(0, 10)})` : ''}`)
+
+    if (page.pageNumber >= maxPages) {
+      pageYield.stoppedBy = 'max_pages'
+      break
+    }
+    if (since && newest && newest < since) {
+      pageYield.stoppedBy = 'date_cutoff'
+      break
+    }
+    if (page.pageNumber > 1 && newItems.length === 0) {
+      // Servers often ignore unknown page parameters and return page 1 again
+      pageYield.stoppedBy = 'no_new_urls'
+      break
+    }
+
+    const next = page.html ? findNextPage(page.html, page.url, page.pageNumber) : null
+    if (!next) {
+      pageYield.stoppedBy = 'no_next_page'
+      break
+    }
+    if (visitedPages.has(next.url)) {
+      pageYield.stoppedBy = 'loop'
+      break
+    }
+    visitedPages.add(next.url)
+
+    const fetched = await fetchListingPage(next.url)
+    if (!fetched) {
+      console.log(`📑 Could not fetch page ${page.pageNumber + 1} (${next.url}), stopping`)
+      pageYield.stoppedBy = 'fetch_failed'
+      break
+    }
+
+    page = { url: fetched.url, html: fetched.html, pageNumber: page.pageNumber + 1 }
+    method = next.method
+  }
+
+  return { items, pages }
+}
@@ -0,0 +1,266 @@
+import { prisma } from './db'
+import { organizationIdentitySelect, OrganizationIdentity } from './organizationIdentity'
+import { getPrompt, runPrompt, PromptName, PromptRegistry, PromptVars, PromptOutput } from './prompts'
+import { SENTIMENT_LABELS } from './sentimentLabels'
+import { assertWithinBudget, LlmBudgetExceededError, rethrowIfBudgetExceeded } from './llmUsage'
+import { getValidationExamples } from './editorialFeedback'
+import { processWithRateLimit } from '@/utils/concurrency'
+import { getRejectionReasons } from '@/ai-functions/validateArticleContent'
+
+// A/B evaluation of prompt versions against editor-labeled articles (PromptLabel rows).
+// Each evaluable prompt knows how to build its input from an article, how to derive a
+// label from an already reviewed article, and how to score an output against a label.
+
+export const DEFAULT_EVALUATION_LIMIT = 50
+export const MAX_EVALUATION_LIMIT = 200
+
+interface LabeledArticle {
+  id: string
+  organizationId: string
+  url: string
+  title: string
+  summary: string | null
+  content: string | null
+  publishedAt: Date | null
+  status: string
+  organizationSentiment: string | null
+  inspirationRating: string | null
+  ogImage: string | null
+  images: string[]
+  organization: OrganizationIdentity
+}
+
+interface PromptEvaluator<N extends PromptName> {
+  // Prompt input for the article; null when the article/label can't be evaluated
+  buildVars(article: LabeledArticle, expected: any): PromptVars<PromptRegistry[N]> | null | Promise<PromptVars<PromptRegistry[N]> | null>
+  // Label taken from the article's reviewed values; null when there is nothing to label from
+  labelFromArticle(article: LabeledArticle): any | null
+  // 0 (wrong) to 1 (matches the label)
+  score(output: PromptOutput<PromptRegistry[N]>, expected: any, vars: PromptVars<PromptRegistry[N]>): number
+}
+
+function normalizeTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+// Word-set overlap, 1 for titles equal up to case and punctuation
+function titleSimilarity(a: string, b: string): number {
+  const wordsA = new Set(normalizeTitle(a).split(' ').filter(Boolean))
+  const wordsB = new Set(normalizeTitle(b).split(' ').filter(Boolean))
+  if (wordsA.size === 0 && wordsB.size === 0) return 1
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length
+  return shared / (wordsA.size + wordsB.size - shared)
+}
+
+const EVALUATORS: { [N in Exclude<PromptName, 'urlFilter'>]: PromptEvaluator<N> } = {
+  // expected: sentiment score -1..3
+  sentiment: {
+    buildVars: (article) => article.content
+      ? { content: article.content, organization: article.organization, title: article.title }
+      : null,
+    labelFromArticle: (article) => {
+      const entry = Object.entries(SENTIMENT_LABELS).find(([, label]) => label === article.organizationSentiment)
+      return entry ? parseInt(entry[0]) : null
+    },
+    score: (output, expected) => output.sentimentScore === expected ? 1 : 0
+  },
+  // expected: { isValid?: boolean, contentType?: string, organizationRelevance?: string }
+  // Editor decisions are loaded as in validateArticleContent, so versions with and
+  // without few-shot examples are compared on the inputs production gives them
+  validation: {
+    buildVars: async (article) => article.content
+      ? {
+          title: article.title,
+          summary: article.summary || '',
+          content: article.content,
+          organizationName: article.organization.name,
+          organization: article.organization,
+          publishedAt: article.publishedAt?.toISOString() || null,
+          url: article.url,
+          examples: await getValidationExamples(article.organizationId, { excludeUrl: article.url })
+        }
+      : null,
+    // Published articles were accepted by an editor, rejected ones were not
+    labelFromArticle: (article) =>
+      article.status === 'published' ? { isValid: true } : article.status === 'rejected' ? { isValid: false } : null,
+    score: (output, expected) => {
+      const checks: boolean[] = []
+      if (typeof expected.isValid === 'boolean') checks.push((getRejectionReasons(output).length === 0) === expected.isValid)
+      if (expected.contentType) checks.push(output.contentType === expected.contentType)
+      if (expected.organizationRelevance) checks.push(output.organizationRelevance === expected.organizationRelevance)
+      return checks.length > 0 ? checks.filter(Boolean).length / checks.length : 0
+    }
+  },
+  // expected: 'low' | 'medium' | 'high'
+  inspiration: {
+    buildVars: (article) => article.content
+      ? { title: article.title, summary: article.summary || '', content: article.content }
+      : null,
+    labelFromArticle: (article) => article.inspirationRating,
+    score: (output, expected) => output.rating === expected ? 1 : 0
+  },
+  // expected: { input: string, title: string } - the stored title is already formatted,
+  // so the raw input has to be part of the label
+  titleFormatting: {
+    buildVars: (_article, expected) => expected?.input ? { title: expected.input } : null,
+    labelFromArticle: () => null,
+    score: (output, expected) => titleSimilarity(output.formattedTitle, expected.title)
+  },
+  // expected: URL of the right featured image, one of article.images
+  imageSelection: {
+    buildVars: (article) => article.images.length > 1
+      ? { articleTitle: article.title, articleSummary: article.summary || '', images: article.images.slice(0, 10).map(url => ({ url })) }
+      : null,
+    labelFromArticle: (article) => article.ogImage && article.images.includes(article.ogImage) ? article.ogImage : null,
+    score: (output, expected, vars) => vars.images[output.selectedIndex - 1]?.url === expected ? 1 : 0
+  },
+  // expected: names of the entities the article should yield, e.g. ["Kenya", "Jane Doe"]
+  entities: {
+    buildVars: (article) => article.content
+      ? { title: article.title, content: article.content, organization: article.organization }
+      : null,
+    labelFromArticle: () => null,
+    // F1 of extracted vs. expected names, compared case- and punctuation-insensitively
+    score: (output, expected) => {
+      if (!Array.isArray(expected)) return 0
+      const wanted = new Set(expected.map((name: string) => normalizeTitle(name)))
+      const found = new Set(output.entities.map(entity => normalizeTitle(entity.name)))
+      if (wanted.size === 0 && found.size === 0) return 1
+      const matched = Array.from(found).filter(name => wanted.has(name)).length
+      return matched === 0 ? 0 : (2 * matched) / (wanted.size + found.size)
+    }
+  }
+}
+
+export type EvaluablePromptName = keyof typeof EVALUATORS
+
+export function isEvaluablePrompt(name: unknown): name is EvaluablePromptName {
+  return typeof name === 'string' && name in EVALUATORS
+}
+
+const labeledArticleSelect = {
+  id: true,
+  organizationId: true,
+  url: true,
+  title: true,
+  summary: true,
+  content: true,
+  publishedAt: true,
+  status: true,
+  organizationSentiment: true,
+  inspirationRating: true,
+  ogImage: true,
+  images: true,
+  organization: { select: organizationIdentitySelect }
+} as const
+
+/**
+ * Store (or replace) labels for articles. Without an explicit expected value the label
+ * is taken from the article's reviewed fields; articles without one are skipped.
+ */
+export async function labelArticles(
+  promptName: EvaluablePromptName,
+  articleIds: string[],
+  options: { expected?: any, note?: string } = {}
+): Promise<{ labeled: number, skipped: string[] }> {
+  const articles: LabeledArticle[] = await prisma.article.findMany({
+    where: { id: { in: articleIds } },
+    select: labeledArticleSelect
+  })
+  const evaluator = EVALUATORS[promptName]
+
+  let labeled = 0
+  const skipped: string[] = articleIds.filter(id => !articles.some(article => article.id === id))
+
+  for (const article of articles) {
+    const expected = options.expected ?? evaluator.labelFromArticle(article)
+    if (expected === null || expected === undefined) {
+      skipped.push(article.id)
+      continue
+    }
+
+    await prisma.promptLabel.upsert({
+      where: { articleId_promptName: { articleId: article.id, promptName } },
+      create: { articleId: article.id, promptName, expected, note: options.note || null },
+      update: { expected, note: options.note || null }
+    })
+    labeled++
+  }
+
+  return { labeled, skipped }
+}
+
+async function runVersion<N extends EvaluablePromptName>(
+  name: N,
+  version: string,
+  vars: any,
+  expected: any
+): Promise<{ output?: any, score: number, error?: string }> {
+  try {
+    const { object } = await runPrompt(getPrompt(name, version), vars)
+    return { output: object, score: (EVALUATORS[name] as PromptEvaluator<any>).score(object, expected, vars) }
+  } catch (error) {
+    rethrowIfBudgetExceeded(error)
+    return { score: 0, error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Run both versions of a PromptEvaluation over the prompt's labeled articles and store
+ * the mean score of each, plus every per-article output for side-by-side review.
+ */
+export async function runPromptEvaluation(evaluationId: string) {
+  const evaluation = await prisma.promptEvaluation.findUniqueOrThrow({ where: { id: evaluationId } })
+  const name = evaluation.promptName as EvaluablePromptName
+  const evaluator = EVALUATORS[name] as PromptEvaluator<any>
+
+  // Resolve both versions up front so a typo fails the run instead of scoring 0
+  getPrompt(name, evaluation.versionA)
+  getPrompt(name, evaluation.versionB)
+  await assertWithinBudget()
+
+  await prisma.promptEvaluation.update({ where: { id: evaluationId }, data: { status: 'running' } })
+
+  const labels = await prisma.promptLabel.findMany({
+    where: { promptName: name },
+    include: { article: { select: labeledArticleSelect } },
+    orderBy: { createdAt: 'desc' },
+    take: Math.min(evaluation.limit || DEFAULT_EVALUATION_LIMIT, MAX_EVALUATION_LIMIT)
+  })
+
+  const examples = (await Promise.all(
+    labels.map(async (label: any) => ({ label, vars: await evaluator.buildVars(label.article, label.expected) }))
+  )).filter((example: any) => example.vars !== null)
+
+  console.log(`🧪 Evaluating ${name}@${evaluation.versionA} vs @${evaluation.versionB} on ${examples.length} labeled articles`)
+
+  const { results, errors } = await processWithRateLimit(examples, async ({ label, vars }: any) => {
+    const [a, b] = await Promise.all([
+      runVersion(name, evaluation.versionA, vars, label.expected),
+      runVersion(name, evaluation.versionB, vars, label.expected)
+    ])
+    return { labelId: label.id, articleId: label.articleId, title: label.article.title, expected: label.expected, a, b }
+  }, { concurrency: 2, batchDelay: 500 })
+
+  // Scores over a partial set would not be comparable with other evaluations
+  const budgetFailure = errors.find(({ error }) => error instanceof LlmBudgetExceededError)
+  if (budgetFailure) throw budgetFailure.error
+
+  const mean = (scores: number[]) => scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null
+  const scoreA = mean(results.map(result => result.a.score))
+  const scoreB = mean(results.map(result => result.b.score))
+
+  console.log(`🧪 ${name}: ${evaluation.versionA}=${scoreA?.toFixed(3) ?? 'n/a'} ${evaluation.versionB}=${scoreB?.toFixed(3) ?? 'n/a'}`)
+
+  return prisma.promptEvaluation.update({
+    where: { id: evaluationId },
+    data: {
+      status: 'completed',
+      exampleCount: results.length,
+      scoreA,
+      scoreB,
+      results: results as any,
+      completedAt: new Date()
+    }
+  })
+}
@@ -0,0 +1,192 @@
+import { z } from 'zod'
+import { generateStructured, getLlmProviderId, LlmObjectResult, resolveModel } from './llm'
+import { readCachedOutput, writeCachedOutput } from './llmCache'
+import { sentimentPrompts } from '@/prompts/sentiment'
+import { validationPrompts } from '@/prompts/validation'
+import { inspirationPrompts } from '@/prompts/inspiration'
+import { titleFormattingPrompts } from '@/prompts/titleFormatting'
+import { imageSelectionPrompts } from '@/prompts/imageSelection'
+import { urlFilterPrompts } from '@/prompts/urlFilter'
+import { entitiesPrompts } from '@/prompts/entities'
+
+// Prompt registry: every AI prompt is a named, versioned definition (system text, user
+// template, output schema and model settings) in src/prompts/<name>.ts. Callers resolve
+// the active version here and record the "<name>@<version>" ref with the result, so a
+// prompt change never silently rewrites the meaning of stored enrichment values.
+//
+// Editing a published version changes stored results' meaning - add a new version instead.
+
+export const PROMPT_NAMES = ['sentiment', 'validation', 'inspiration', 'titleFormatting', 'imageSelection', 'urlFilter', 'entities'] as const
+export type PromptName = typeof PROMPT_NAMES[number]
+
+export interface PromptDefinition<TVars = any, TOutput = any> {
+  name: PromptName
+  version: string               // 'v1', 'v2', ...
+  description: string           // What changed in this version
+  model: string
+  temperature?: number
+  maxOutputTokens?: number
+  cache?: boolean               // Reuse outputs for identical input (see llmCache.ts)
+  system: string
+  render: (vars: TVars) => string
+  schema: z.ZodType<TOutput>
+}
+
+export type PromptVars<P> = P extends PromptDefinition<infer V, any> ? V : never
+export type PromptOutput<P> = P extends PromptDefinition<any, infer O> ? O : never
+
+export interface PromptRegistry {
+  sentiment: typeof sentimentPrompts[number]
+  validation: typeof validationPrompts[number]
+  inspiration: typeof inspirationPrompts[number]
+  titleFormatting: typeof titleFormattingPrompts[number]
+  imageSelection: typeof imageSelectionPrompts[number]
+  urlFilter: typeof urlFilterPrompts[number]
+  entities: typeof entitiesPrompts[number]
+}
+
+const PROMPTS: { [N in PromptName]: PromptRegistry[N][] } = {
+  sentiment: sentimentPrompts,
+  validation: validationPrompts,
+  inspiration: inspirationPrompts,
+  titleFormatting: titleFormattingPrompts,
+  imageSelection: imageSelectionPrompts,
+  urlFilter: urlFilterPrompts,
+  entities: entitiesPrompts
+}
+
+// Versions used in production unless overridden by PROMPT_VERSIONS
+const DEFAULT_PROMPT_VERSIONS: Record<PromptName, string> = {
+  sentiment: 'v1',
+  validation: 'v2',
+  inspiration: 'v1',
+  titleFormatting: 'v1',
+  imageSelection: 'v1',
+  urlFilter: 'v1',
+  entities: 'v1'
+}
+
+const warnedOverrides = new Set<string>()
+
+export function isPromptName(value: unknown): value is PromptName {
+  return typeof value === 'string' && (PROMPT_NAMES as readonly string[]).includes(value)
+}
+
+/**
+ * Active versions, from DEFAULT_PROMPT_VERSIONS overridden by the PROMPT_VERSIONS env var
+ * (comma-separated name=version pairs, e.g. "sentiment=v2,validation=v1")
+ */
+export function getActivePromptVersions(): Record<PromptName, string> {
+  const versions = { ...DEFAULT_PROMPT_VERSIONS }
+
+  for (const pair of (process.env.PROMPT_VERSIONS || '').split(',')) {
+    const [name, version] = pair.split('=').map(part => part.trim())
+    if (!name || !version) continue
+    if (!isPromptName(name) || !PROMPTS[name].some(prompt => prompt.version === version)) {
+      if (!warnedOverrides.has(pair)) {
+        console.warn(`⚠️ Ignoring unknown prompt version in PROMPT_VERSIONS: ${pair}`)
+        warnedOverrides.add(pair)
+      }
+      continue
+    }
+    versions[name] = version
+  }
+
+  return versions
+}
+
+/**
+ * A prompt definition by name; the active version unless one is given
+ */
+export function getPrompt<N extends PromptName>(name: N, version?: string): PromptRegistry[N] {
+  const wanted = version || getActivePromptVersions()[name]
+  const prompt = PROMPTS[name].find(candidate => candidate.version === wanted)
+  if (!prompt) {
+    throw new Error(`Unknown prompt version ${name}@${wanted}`)
+  }
+  return prompt
+}
+
+// Identifier stored alongside results, e.g. "sentiment@v1"
+export function promptRef(prompt: { name: string, version: string }): string {
+  return `${prompt.name}@${prompt.version}`
+}
+
+export function listPrompts() {
+  const active = getActivePromptVersions()
+  return PROMPT_NAMES.map(name => ({
+    name,
+    activeVersion: active[name],
+    versions: PROMPTS[name].map(prompt => ({
+      version: prompt.version,
+      description: prompt.description,
+      model: prompt.model
+    }))
+  }))
+}
+
+/**
+ * Run a prompt through the LLM gateway (the prompt name is the gateway task). Throws when
+ * the model call fails or the output doesn't match the prompt's schema; callers decide on fallbacks.
+ * Prompts marked `cache` return a stored output for identical input without a model call.
+ */
+export async function runPrompt<P extends PromptDefinition>(
+  prompt: P,
+  vars: PromptVars<P>
+): Promise<LlmObjectResult<PromptOutput<P>> & { promptVersion: string, cached: boolean }> {
+  const startedAt = Date.now()
+  const request = {
+    task: prompt.name,
+    model: prompt.model,
+    system: prompt.system,
+    prompt: prompt.render(vars),
+    schema: prompt.schema as z.ZodType<PromptOutput<P>>,
+    temperature: prompt.temperature,
+    maxOutputTokens: prompt.maxOutputTokens
+  }
+  const promptVersion = promptRef(prompt)
+
+  // The mock provider is already free and deterministic, and its outputs must not leak
+  // into the cache used with a real provider
+  const cacheKey = prompt.cache && getLlmProviderId() !== 'mock'
+    ? { ...request, promptName: prompt.name, promptVersion, model: resolveModel(prompt.name, prompt.model) }
+    : null
+
+  if (cacheKey) {
+    const cached = await readCachedOutput(cacheKey, request.schema)
+    if (cached) {
+      return {
+        object: cached,
+        provider: getLlmProviderId(),
+        model: cacheKey.model,
+        usage: { inputTokens: 0, outputTokens: 0 },
+        attempts: 0,
+        durationMs: Date.now() - startedAt,
+        promptVersion,
+        cached: true
+      }
+    }
+  }
+
+  const result = await generateStructured<PromptOutput<P>>(request)
+
+  if (cacheKey) {
+    await writeCachedOutput(cacheKey, result.object)
+  }
+
+  return { ...result, promptVersion, cached: false }
+}
+
+/**
+ * Article.promptVersions with the given prompt refs set; null refs (fallback results) are skipped
+ */
+export function mergePromptVersions(
+  existing: unknown,
+  refs: Partial<Record<PromptName, string | null | undefined>>
+): Record<string, string> {
+  const merged: Record<string, string> = existing && typeof existing === 'object' ? { ...(existing as Record<string, string>) } : {}
+  for (const [name, ref] of Object.entries(refs)) {
+    if (ref) merged[name] = ref
+  }
+  return merged
+}
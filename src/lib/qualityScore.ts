@@ -0,0 +1,229 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { SENTIMENT_LABELS } from './sentimentLabels'
+
+// Unified article quality score: the enrichment signals scattered across Article
+// (sentiment labels, relevance, inspiration, content type, validation) mapped onto 0..1
+// and combined as a weighted average, stored as Article.qualityScore (0-100) with the
+// per-component breakdown in Article.qualityComponents so a score can be explained.
+//
+// Signals an article doesn't have are left out and the remaining weights renormalized,
+// so an article without an inspiration rating isn't penalized for it. Weights come from
+// DEFAULT_QUALITY_WEIGHTS overridden by QUALITY_WEIGHTS (comma-separated name=weight
+// pairs, e.g. "inspirationRating=3,contentType=0"; 0 disables a component). Stored scores
+// don't follow weight changes until recomputed (POST /api/admin/quality-score).
+//
+// Articles created before the score existed are scored by `npm run backfill:quality-scores`,
+// run once after the add_article_quality_score migration is deployed.
+
+export const QUALITY_COMPONENTS = [
+  'sentimentScore',
+  'organizationSentiment',
+  'organizationRelevance',
+  'inspirationRating',
+  'contentType',
+  'validation'
+] as const
+export type QualityComponent = typeof QUALITY_COMPONENTS[number]
+
+export const DEFAULT_QUALITY_WEIGHTS: Record<QualityComponent, number> = {
+  sentimentScore: 3,
+  organizationSentiment: 1,
+  organizationRelevance: 2,
+  inspirationRating: 2,
+  contentType: 1,
+  validation: 2
+}
+
+// Value of each signal on a 0..1 scale
+const COMPONENT_VALUES: Record<Exclude<QualityComponent, 'validation'>, Record<string, number>> = {
+  sentimentScore: { '-1': 0, '0': 0.1, '1': 0.4, '2': 0.75, '3': 1 },
+  organizationSentiment: { positive: 1, neutral: 0.5, negative: 0 },
+  organizationRelevance: { high: 1, medium: 0.6, low: 0.2 },
+  inspirationRating: { high: 1, medium: 0.6, low: 0.25 },
+  contentType: { news: 1, press_release: 0.8, blog: 0.7, blog_post: 0.7, podcast: 0.6, event: 0.6, other: 0.4, list_view: 0 }
+}
+
+// Fields the score reads; select these when loading articles to score
+export const QUALITY_SIGNAL_FIELDS = {
+  organizationSentiment: true,
+  organizationRelevance: true,
+  inspirationRating: true,
+  contentType: true,
+  status: true
+} as const
+
+export interface QualitySignals {
+  organizationSentiment?: string | null
+  organizationRelevance?: string | null
+  inspirationRating?: string | null
+  contentType?: string | null
+  status?: string | null
+}
+
+export interface QualityScoreComponent {
+  component: QualityComponent
+  signal: string                // Raw field value the component was scored from
+  value: number                 // 0..1
+  weight: number
+  points: number                // Contribution to the 0-100 score
+}
+
+export interface QualityScore {
+  score: number | null          // null when the article has no scorable signals
+  components: QualityScoreComponent[]
+}
+
+const warnedWeights = new Set<string>()
+
+function isQualityComponent(value: string): value is QualityComponent {
+  return (QUALITY_COMPONENTS as readonly string[]).includes(value)
+}
+
+export function getQualityWeights(): Record<QualityComponent, number> {
+  const weights = { ...DEFAULT_QUALITY_WEIGHTS }
+
+  for (const pair of (process.env.QUALITY_WEIGHTS || '').split(',')) {
+    const [name, value] = pair.split('=').map(part => part.trim())
+    if (!name || !value) continue
+    const weight = parseFloat(value)
+    if (!isQualityComponent(name) || isNaN(weight) || weight < 0) {
+      if (!warnedWeights.has(pair)) {
+        console.warn(`⚠️ Ignoring invalid quality weight in QUALITY_WEIGHTS: ${pair}`)
+        warnedWeights.add(pair)
+      }
+      continue
+    }
+    weights[name] = weight
+  }
+
+  return weights
+}
+
+// Raw signal per component. organizationSentiment holds either a -1..3 score label
+// (Phase 3, bulk scrape, re-enrichment) or the validator's positive/neutral/negative;
+// labels are scored as sentimentScore so the same signal isn't counted twice.
+function readSignals(article: QualitySignals): Partial<Record<QualityComponent, string>> {
+  const signals: Partial<Record<QualityComponent, string>> = {}
+  const sentimentLabel = Object.entries(SENTIMENT_LABELS).find(([, label]) => label === article.organizationSentiment)
+
+  if (sentimentLabel) {
+    signals.sentimentScore = sentimentLabel[0]
+  } else if (article.organizationSentiment) {
+    signals.organizationSentiment = article.organizationSentiment.toLowerCase()
+  }
+  if (article.organizationRelevance) signals.organizationRelevance = article.organizationRelevance.toLowerCase()
+  if (article.inspirationRating) signals.inspirationRating = article.inspirationRating.toLowerCase()
+  if (article.contentType) signals.contentType = article.contentType.toLowerCase()
+  if (article.status === 'rejected') signals.validation = 'rejected'
+
+  return signals
+}
+
+export function computeQualityScore(article: QualitySignals): QualityScore {
+  const weights = getQualityWeights()
+  const scored: Omit<QualityScoreComponent, 'points'>[] = []
+
+  for (const [component, signal] of Object.entries(readSignals(article)) as [QualityComponent, string][]) {
+    const value = component === 'validation' ? 0 : COMPONENT_VALUES[component][signal]
+    if (value === undefined || weights[component] === 0) continue
+    scored.push({ component, signal, value, weight: weights[component] })
+  }
+
+  const totalWeight = scored.reduce((sum, component) => sum + component.weight, 0)
+  if (totalWeight === 0) return { score: null, components: [] }
+
+  const components = scored.map(component => ({
+    ...component,
+    points: Math.round(component.value * component.weight / totalWeight * 1000) / 10
+  }))
+  const score = Math.round(scored.reduce((sum, component) => sum + component.value * component.weight, 0) / totalWeight * 1000) / 10
+
+  return { score, components }
+}
+
+/**
+ * Article update data for the score of the given signals
+ */
+export function qualityScoreData(article: QualitySignals) {
+  const { score, components } = computeQualityScore(article)
+  return { qualityScore: score, qualityComponents: components as unknown as Prisma.InputJsonValue }
+}
+
+/**
+ * Recompute and store one article's score after its signals changed. Never throws;
+ * returns the new score (null when it couldn't be computed).
+ */
+export async function refreshQualityScore(articleId: string): Promise<number | null> {
+  try {
+    const article = await prisma.article.findUnique({ where: { id: articleId }, select: QUALITY_SIGNAL_FIELDS })
+    if (!article) return null
+
+    const data = qualityScoreData(article)
+    await prisma.article.update({ where: { id: articleId }, data })
+    return data.qualityScore
+  } catch (error) {
+    console.warn(`⚠️ Quality score update failed for article ${articleId}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+/**
+ * Recompute stored scores, e.g. after changing QUALITY_WEIGHTS, or only score articles
+ * that were never scored (unscoredOnly). Returns the number of articles updated.
+ */
+export async function recomputeQualityScores(options: { organizationId?: string, unscoredOnly?: boolean } = {}): Promise<number> {
+  const BATCH_SIZE = 200
+  let cursor: string | undefined
+  let updated = 0
+
+  while (true) {
+    const articles = await prisma.article.findMany({
+      where: {
+        ...(options.organizationId ? { organizationId: options.organizationId } : {}),
+        ...(options.unscoredOnly ? { qualityComponents: { equals: Prisma.DbNull } } : {}),
+        // Keyset paging rather than a Prisma cursor: with unscoredOnly the last article of a
+        // batch no longer matches the filter once scored
+        ...(cursor ? { id: { gt: cursor } } : {})
+      },
+      select: { id: true, ...QUALITY_SIGNAL_FIELDS },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE
+    })
+    if (articles.length === 0) break
+
+    for (const article of articles) {
+      await prisma.article.update({ where: { id: article.id }, data: qualityScoreData(article) })
+    }
+
+    updated += articles.length
+    cursor = articles[articles.length - 1].id
+    console.log(`📈 Recomputed quality scores for ${updated} articles`)
+  }
+
+  return updated
+}
+
+/**
+ * The active scoring model: component weights and signal values
+ */
+export function describeQualityModel() {
+  const weights = getQualityWeights()
+  return QUALITY_COMPONENTS.map(component => ({
+    component,
+    weight: weights[component],
+    values: component === 'validation' ? { rejected: 0 } : COMPONENT_VALUES[component]
+  }))
+}
+
+/**
+ * Sort and threshold query params shared by the article list APIs: sort=quality orders by
+ * score (highest first, unscored last); minQuality=<0-100> drops lower and unscored articles
+ */
+export function parseQualityParams(searchParams: URLSearchParams) {
+  const minQuality = searchParams.get('minQuality') ? parseFloat(searchParams.get('minQuality')!) : null
+  return {
+    sortByQuality: searchParams.get('sort') === 'quality',
+    minQuality: minQuality !== null && !isNaN(minQuality) ? minQuality : null
+  }
+}
@@ -0,0 +1,318 @@
+import { JSDOM } from 'jsdom'
+
+// Readability-style main content extraction: strip boilerplate, score the
+// remaining blocks by text density, keep the best container (plus related
+// siblings) and convert it to markdown with links and images preserved.
+
+const REMOVED_ELEMENTS = 'script, style, noscript, iframe, object, embed, form, button, input, select, textarea, svg, canvas, template, nav, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"], [aria-hidden="true"], [hidden]'
+
+// class/id hints (same idea as Mozilla Readability's regexes)
+const UNLIKELY_CANDIDATE = /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|legends|menu|related|remark|replies|rss|shoutbox|sidebar|skyscraper|social|sponsor|supplemental|ad-break|agegate|pagination|pager|popup|newsletter|subscribe|share|promo|signup|modal|donate/i
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow|post|entry|story/i
+const POSITIVE_HINT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i
+const NEGATIVE_HINT = /-ad-|hidden|^hid$|banner|combx|comment|com-|contact|foot|footer|footnote|gdpr|masthead|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget|newsletter|subscribe|byline|author/i
+
+// Containers publishers use for the article body, tried before scoring
+const ARTICLE_BODY_SELECTORS = [
+  '[itemprop="articleBody"]',
+  '.entry-content',
+  '.post-content',
+  '.article-content',
+  '.article-body',
+  '.article__body',
+  '.story-body',
+  '.post-body',
+  '.rich-text',
+  'article',
+  '[role="main"]',
+  'main'
+]
+
+const MIN_PARAGRAPH_LENGTH = 25
+const MIN_CONTENT_LENGTH = 200
+
+export interface ReadableContent {
+  title: string | null
+  content: string       // Markdown
+  textContent: string
+  length: number        // Characters of plain text
+  excerpt: string | null
+  images: string[]
+  linkCount: number
+}
+
+function classWeight(element: Element): number {
+  const hints = `${element.getAttribute('class') || ''} ${element.id || ''}`
+  let weight = 0
+  if (NEGATIVE_HINT.test(hints)) weight -= 25
+  if (POSITIVE_HINT.test(hints)) weight += 25
+  return weight
+}
+
+function textOf(element: Element): string {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim()
+}
+
+function linkDensity(element: Element): number {
+  const length = textOf(element).length
+  if (length === 0) return 0
+  const linkLength = Array.from(element.querySelectorAll('a')).reduce((sum, a) => sum + textOf(a).length, 0)
+  return linkLength / length
+}
+
+function paragraphText(element: Element): number {
+  return Array.from(element.querySelectorAll('p')).reduce((sum, p) => sum + textOf(p).length, 0)
+}
+
+function removeBoilerplate(document: Document) {
+  document.querySelectorAll(REMOVED_ELEMENTS).forEach(element => element.remove())
+
+  // Site headers, but not an article's own header (title, byline)
+  document.querySelectorAll('header').forEach(header => {
+    if (!header.closest('article')) header.remove()
+  })
+
+  document.querySelectorAll('body *').forEach(element => {
+    if (!element.isConnected || ['A', 'ARTICLE', 'MAIN'].includes(element.tagName)) return
+    const hints = `${element.getAttribute('class') || ''} ${element.id || ''}`
+    if (UNLIKELY_CANDIDATE.test(hints) && !MAYBE_CANDIDATE.test(hints) && !element.querySelector('article, main')) {
+      element.remove()
+    }
+  })
+}
+
+// A container the site marks as the article body, when it holds enough text
+function findMarkedArticleBody(document: Document): Element | null {
+  for (const selector of ARTICLE_BODY_SELECTORS) {
+    const best = Array.from(document.querySelectorAll(selector))
+      .sort((a, b) => paragraphText(b) - paragraphText(a))[0]
+    if (best && paragraphText(best) >= MIN_CONTENT_LENGTH * 2) return best
+  }
+  return null
+}
+
+// Score paragraph parents/grandparents by text length and commas, penalize link-heavy blocks
+function findTopCandidate(document: Document): Element | null {
+  const scores = new Map<Element, number>()
+
+  const initialScore = (element: Element): number => {
+    const tagBonus: Record<string, number> = { DIV: 5, SECTION: 5, ARTICLE: 10, PRE: 3, TD: 3, BLOCKQUOTE: 3, FORM: -3, UL: -3, OL: -3, TH: -5 }
+    return (tagBonus[element.tagName] || 0) + classWeight(element)
+  }
+
+  document.querySelectorAll('p, pre, td, blockquote').forEach(block => {
+    const text = textOf(block)
+    if (text.length < MIN_PARAGRAPH_LENGTH) return
+
+    const score = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100))
+    const parent = block.parentElement
+    const grandparent = parent?.parentElement
+
+    if (parent && parent.tagName !== 'BODY') {
+      scores.set(parent, (scores.get(parent) ?? initialScore(parent)) + score)
+    }
+    if (grandparent && grandparent.tagName !== 'BODY' && grandparent.tagName !== 'HTML') {
+      scores.set(grandparent, (scores.get(grandparent) ?? initialScore(grandparent)) + score / 2)
+    }
+  })
+
+  let top: Element | null = null
+  let topScore = 0
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element))
+    scores.set(element, adjusted)
+    if (adjusted > topScore) {
+      top = element
+      topScore = adjusted
+    }
+  })
+
+  if (!top) return null
+
+  // Pull in siblings that belong to the same article (split bodies, lead paragraphs)
+  const container = (top as Element).ownerDocument.createElement('div')
+  const parent = (top as Element).parentElement
+  const siblings = parent ? Array.from(parent.children) : [top as Element]
+  const threshold = Math.max(10, topScore * 0.2)
+
+  for (const sibling of siblings) {
+    const siblingScore = scores.get(sibling) ?? 0
+    const text = textOf(sibling)
+    const isGoodParagraph = sibling.tagName === 'P' && text.length > 80 && linkDensity(sibling) < 0.25
+    if (sibling === top || siblingScore >= threshold || isGoodParagraph) {
+      container.appendChild(sibling.cloneNode(true))
+    }
+  }
+
+  return container
+}
+
+// Drop link lists, share bars and empty blocks left inside the chosen container
+function cleanContainer(container: Element) {
+  container.querySelectorAll('div, section, ul, ol, table').forEach(element => {
+    if (!element.isConnected) return
+    const text = textOf(element)
+    const images = element.querySelectorAll('img').length
+    if (images === 0 && text.length < 200 && linkDensity(element) > 0.5) {
+      element.remove()
+    } else if (classWeight(element) < 0 && paragraphText(element) < 100 && images === 0) {
+      element.remove()
+    }
+  })
+  container.querySelectorAll('p, span, div').forEach(element => {
+    if (element.isConnected && !textOf(element) && !element.querySelector('img')) element.remove()
+  })
+}
+
+function resolve(url: string | null | undefined, baseUrl: string): string | null {
+  if (!url || url.startsWith('data:') || url.startsWith('#') || /^javascript:/i.test(url)) return null
+  try {
+    const resolved = new URL(url, baseUrl)
+    return ['http:', 'https:', 'mailto:'].includes(resolved.protocol) ? resolved.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function imageSource(img: Element, baseUrl: string): string | null {
+  const srcset = img.getAttribute('srcset') || img.getAttribute('data-srcset')
+  const fromSrcset = srcset?.split(',').map(entry => entry.trim().split(/\s+/)[0]).filter(Boolean).pop()
+  return resolve(img.getAttribute('data-src') || img.getAttribute('data-lazy-src') || img.getAttribute('src') || fromSrcset, baseUrl)
+}
+
+/**
+ * Convert an element tree to markdown; images are collected into `images`
+ */
+function toMarkdown(node: Node, baseUrl: string, images: string[], listDepth = 0): string {
+  if (node.nodeType === 3) {
+    return (node.textContent || '').replace(/\s+/g, ' ')
+  }
+  if (node.nodeType !== 1) return ''
+
+  const element = node as Element
+  const tag = element.tagName
+  const children = () => Array.from(element.childNodes).map(child => toMarkdown(child, baseUrl, images, listDepth)).join('')
+  const inline = () => children().replace(/\s+/g, ' ').trim()
+
+  switch (tag) {
+    case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6': {
+      const text = inline()
+      return text ? `\n\n${'#'.repeat(parseInt(tag[1], 10))} ${text}\n\n` : ''
+    }
+    case 'P':
+      return `\n\n${inline()}\n\n`
+    case 'BR':
+      return '  \n'
+    case 'HR':
+      return '\n\n---\n\n'
+    case 'STRONG': case 'B': {
+      const text = inline()
+      return text ? `**${text}** ` : ''
+    }
+    case 'EM': case 'I': {
+      const text = inline()
+      return text ? `*${text}* ` : ''
+    }
+    case 'CODE':
+      return element.closest('pre') ? (element.textContent || '') : `\`${element.textContent || ''}\``
+    case 'PRE':
+      return `\n\n\`\`\`\n${(element.textContent || '').replace(/\n+$/, '')}\n\`\`\`\n\n`
+    case 'A': {
+      const text = inline()
+      const href = resolve(element.getAttribute('href'), baseUrl)
+      if (!text) return children()
+      return href ? `[${text}](${href}) ` : `${text} `
+    }
+    case 'IMG': {
+      const src = imageSource(element, baseUrl)
+      const width = parseInt(element.getAttribute('width') || '0', 10)
+      if (!src || (width > 0 && width < 50)) return ''
+      images.push(src)
+      return `\n\n![${(element.getAttribute('alt') || '').replace(/[[\]]/g, '')}](${src})\n\n`
+    }
+    case 'FIGCAPTION': {
+      const text = inline()
+      return text ? `\n*${text}*\n\n` : ''
+    }
+    case 'BLOCKQUOTE': {
+      const text = children().replace(/\n{3,}/g, '\n\n').trim()
+      return text ? `\n\n${text.split('\n').map(line => `> ${line}`).join('\n')}\n\n` : ''
+    }
+    case 'UL': case 'OL': {
+      const items = Array.from(element.children).filter(child => child.tagName === 'LI')
+      const lines = items.map((item, index) => {
+        const marker = tag === 'OL' ? `${index + 1}.` : '-'
+        const text = Array.from(item.childNodes)
+          .map(child => toMarkdown(child, baseUrl, images, listDepth + 1))
+          .join('')
+          .replace(/\n{2,}/g, '\n')
+          .trim()
+        return `${'  '.repeat(listDepth)}${marker} ${text}`
+      })
+      return `\n\n${lines.join('\n')}\n\n`
+    }
+    case 'TABLE': {
+      const rows = Array.from(element.querySelectorAll('tr')).map(row =>
+        `| ${Array.from(row.children).map(cell => textOf(cell).replace(/\|/g, '\\|')).join(' | ')} |`
+      )
+      if (rows.length === 0) return ''
+      const columns = (rows[0].match(/ \| /g) || []).length + 1
+      rows.splice(1, 0, `|${' --- |'.repeat(columns)}`)
+      return `\n\n${rows.join('\n')}\n\n`
+    }
+    default: {
+      const isBlock = /^(DIV|SECTION|ARTICLE|MAIN|FIGURE|HEADER|DL|DT|DD|ADDRESS|DETAILS|SUMMARY)$/.test(tag)
+      return isBlock ? `\n\n${children()}\n\n` : children()
+    }
+  }
+}
+
+function tidyMarkdown(markdown: string): string {
+  return markdown
+    .split('\n')
+    // Keep two-space line breaks and nested list indentation, drop other stray whitespace
+    .map(line => line.replace(/[ \t]+$/, match => (match === '  ' ? match : '')))
+    .map(line => (/^\s*(-|\d+\.) /.test(line) ? line : line.trimStart()))
+    .join('\n')
+    .replace(/ +([.,;:!?)])/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Extract the main content of an article page as markdown. Returns null when no
+ * block of article-like text is found (listing pages, error pages, app shells).
+ */
+export function extractReadableContent(html: string, pageUrl: string): ReadableContent | null {
+  const document = new JSDOM(html, { url: pageUrl }).window.document
+  const h1 = document.querySelector('article h1, main h1, h1')
+  const title = (h1 && textOf(h1)) || textOf(document.querySelector('title') || document.createElement('title')) || null
+
+  removeBoilerplate(document)
+
+  const container = findMarkedArticleBody(document) || findTopCandidate(document)
+  if (!container) return null
+
+  cleanContainer(container)
+  // The title is stored separately, don't repeat it as the first line of the body
+  container.querySelectorAll('h1').forEach(heading => {
+    if (title && textOf(heading) === title) heading.remove()
+  })
+
+  const textContent = textOf(container)
+  if (textContent.length < MIN_CONTENT_LENGTH) return null
+
+  const images: string[] = []
+  const content = tidyMarkdown(toMarkdown(container, pageUrl, images))
+  const firstParagraph = Array.from(container.querySelectorAll('p')).map(textOf).find(text => text.length >= 80)
+
+  return {
+    title,
+    content,
+    textContent,
+    length: textContent.length,
+    excerpt: firstParagraph ? firstParagraph.slice(0, 300) : null,
+    images: Array.from(new Set(images)),
+    linkCount: container.querySelectorAll('a[href]').length
+  }
+}
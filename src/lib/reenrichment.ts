@@ -0,0 +1,400 @@
+import type { Article, Prisma } from '@prisma/client'
+import { prisma } from './db'
+import { organizationIdentitySelect, OrganizationIdentity } from './organizationIdentity'
+import { getLegacySentiment, getOrganizationRelevance, getOrganizationSentiment } from './sentimentLabels'
+import { loadSnapshot } from './snapshotStore'
+import { mergePromptVersions, PromptName } from './prompts'
+import { qualityScoreData } from './qualityScore'
+import { LlmBudgetExceededError, rethrowIfBudgetExceeded, withLlmContext } from './llmUsage'
+import { processWithRateLimit } from '@/utils/concurrency'
+import { analyzeSentimentScale } from '@/ai-functions/analyzeSentimentScale'
+import { validateArticleContent } from '@/ai-functions/validateArticleContent'
+import { analyzeInspiration } from '@/ai-functions/analyzeInspiration'
+
+// Re-enrichment: re-run AI enrichers over existing articles after their prompts change.
+// Nothing is written to the article directly - every field whose value would change is
+// stored as a pending ReenrichmentChange that editors accept or reject in bulk.
+
+export const ENRICHER_IDS = ['sentiment', 'validation', 'inspiration'] as const
+export type EnricherId = typeof ENRICHER_IDS[number]
+
+// Article fields a filter can ask to be missing (null or empty)
+export const REENRICHABLE_FIELDS = [
+  'sentiment', 'organizationSentiment', 'organizationRelevance', 'contentType', 'validationReasons', 'inspirationRating'
+] as const
+
+export const DEFAULT_REENRICHMENT_CONCURRENCY = 3
+export const MAX_REENRICHMENT_CONCURRENCY = 10
+
+export interface ReenrichmentFilter {
+  organizationId?: string
+  status?: string[]               // Article statuses, e.g. ['published', 'draft']
+  publishedAfter?: string         // ISO dates
+  publishedBefore?: string
+  createdAfter?: string
+  createdBefore?: string
+  missingFields?: string[]        // Only articles where any of these is empty (see REENRICHABLE_FIELDS)
+  articleIds?: string[]
+  limit?: number
+}
+
+// Article fields an enricher can propose a new value for
+const ENRICHED_FIELDS = [...REENRICHABLE_FIELDS, 'status'] as const
+type EnrichedField = typeof ENRICHED_FIELDS[number]
+type EnrichedValues = Partial<Pick<Article, EnrichedField>>
+
+type EnrichableArticle = Article & { organization: OrganizationIdentity }
+
+interface EnricherOutput {
+  values: EnrichedValues          // Article field -> new value
+  reasoning?: string
+  promptVersion: string | null
+}
+
+interface Enricher {
+  id: EnricherId
+  name: string
+  prompt: PromptName              // Registry prompt whose ref is recorded in Article.promptVersions
+  fields: EnrichedField[]
+  run(article: EnrichableArticle, content: string): Promise<EnricherOutput>
+}
+
+function isEnrichedField(value: string): value is EnrichedField {
+  return (ENRICHED_FIELDS as readonly string[]).includes(value)
+}
+
+// The ai-functions fall back to defaults instead of throwing; a fallback is not a new result
+function assertNotFallback(failed: boolean, enricher: string) {
+  if (failed) throw new Error(`${enricher} analysis failed (fallback result)`)
+}
+
+const ENRICHERS: Record<EnricherId, Enricher> = {
+  sentiment: {
+    id: 'sentiment',
+    name: 'Organization sentiment (analyzeSentimentScale)',
+    prompt: 'sentiment',
+    fields: ['sentiment', 'organizationSentiment', 'organizationRelevance'],
+    async run(article, content) {
+      const result = await analyzeSentimentScale(content, article.organization, article.title)
+      assertNotFallback(result.promptVersion === null, 'Sentiment')
+      return {
+        values: {
+          sentiment: getLegacySentiment(result.sentimentScore),
+          organizationSentiment: getOrganizationSentiment(result.sentimentScore),
+          organizationRelevance: getOrganizationRelevance(result.sentimentScore)
+        },
+        reasoning: `Score ${result.sentimentScore}: ${result.reasoning}`,
+        promptVersion: result.promptVersion
+      }
+    }
+  },
+  validation: {
+    id: 'validation',
+    name: 'Content validation (validateArticleContent)',
+    prompt: 'validation',
+    fields: ['contentType', 'validationReasons', 'status'],
+    async run(article, content) {
+      const result = await validateArticleContent({
+        title: article.title,
+        summary: article.summary || '',
+        content,
+        organizationName: article.organization.name,
+        organization: article.organization,
+        publishedAt: article.publishedAt?.toISOString() || null,
+        url: article.url,
+        organizationId: article.organizationId
+      })
+      assertNotFallback(result.fallback, 'Validation')
+
+      const values: EnrichedValues = {
+        contentType: result.contentType,
+        validationReasons: result.reasons
+      }
+      // Only ever propose rejecting; accepting a rejected article stays an editorial call
+      if (!result.isValid) values.status = 'rejected'
+
+      return { values, reasoning: result.reasons.join('; '), promptVersion: result.promptVersion }
+    }
+  },
+  inspiration: {
+    id: 'inspiration',
+    name: 'Inspiration rating (analyzeInspiration)',
+    prompt: 'inspiration',
+    fields: ['inspirationRating'],
+    async run(article, content) {
+      const result = await analyzeInspiration({ title: article.title, summary: article.summary || '', content })
+      assertNotFallback(result.promptVersion === null, 'Inspiration')
+      return { values: { inspirationRating: result.rating }, reasoning: result.reasoning, promptVersion: result.promptVersion }
+    }
+  }
+}
+
+export function isEnricherId(value: unknown): value is EnricherId {
+  return typeof value === 'string' && (ENRICHER_IDS as readonly string[]).includes(value)
+}
+
+export function listEnrichers() {
+  return ENRICHER_IDS.map(id => ({ id, name: ENRICHERS[id].name, fields: ENRICHERS[id].fields }))
+}
+
+function parseDate(value?: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * Prisma where clause for a re-enrichment filter
+ */
+export function buildArticleWhere(filter: ReenrichmentFilter): Prisma.ArticleWhereInput {
+  const where: Prisma.ArticleWhereInput = {}
+
+  if (filter.organizationId) where.organizationId = filter.organizationId
+  if (filter.status && filter.status.length > 0) where.status = { in: filter.status }
+  if (filter.articleIds && filter.articleIds.length > 0) where.id = { in: filter.articleIds }
+
+  const publishedAfter = parseDate(filter.publishedAfter)
+  const publishedBefore = parseDate(filter.publishedBefore)
+  if (publishedAfter || publishedBefore) {
+    where.publishedAt = { ...(publishedAfter && { gte: publishedAfter }), ...(publishedBefore && { lte: publishedBefore }) }
+  }
+
+  const createdAfter = parseDate(filter.createdAfter)
+  const createdBefore = parseDate(filter.createdBefore)
+  if (createdAfter || createdBefore) {
+    where.createdAt = { ...(createdAfter && { gte: createdAfter }), ...(createdBefore && { lte: createdBefore }) }
+  }
+
+  const missingFields = (filter.missingFields || []).filter(field => (REENRICHABLE_FIELDS as readonly string[]).includes(field))
+  if (missingFields.length > 0) {
+    where.OR = missingFields.map(field =>
+      field === 'validationReasons' ? { validationReasons: { isEmpty: true } } : { [field]: null }
+    )
+  }
+
+  return where
+}
+
+export async function countMatchingArticles(filter: ReenrichmentFilter): Promise<number> {
+  const count = await prisma.article.count({ where: buildArticleWhere(filter) })
+  return filter.limit ? Math.min(count, filter.limit) : count
+}
+
+/**
+ * Ids of the articles a run covers, oldest first so repeated runs make steady progress
+ */
+export async function selectArticleIds(filter: ReenrichmentFilter): Promise<string[]> {
+  const articles = await prisma.article.findMany({
+    where: buildArticleWhere(filter),
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+    ...(filter.limit && { take: filter.limit })
+  })
+  return articles.map((article: { id: string }) => article.id)
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+/**
+ * Re-run the enrichers over a batch of articles and record a pending change for every
+ * field whose value differs. Each enricher's changes are stored as soon as it finishes,
+ * so an AI budget running out mid-article keeps what was already paid for. Safe to retry:
+ * enrichers that already have changes for an article in this run are skipped, so a retried
+ * batch never records the same changes twice. Returns per-batch counts; the caller stores
+ * run totals with recordRunProgress.
+ * Articles skipped because an AI budget ran out are neither processed nor errors -
+ * budgetExceeded tells the job to pause.
+ */
+export async function reenrichArticles(
+  runId: string,
+  articleIds: string[],
+  enricherIds: EnricherId[],
+  concurrency: number = DEFAULT_REENRICHMENT_CONCURRENCY
+): Promise<{ processed: number, changed: number, errors: string[], budgetExceeded: string | null }> {
+  const enrichers = enricherIds.map(id => ENRICHERS[id])
+  const alreadyChanged = await prisma.reenrichmentChange.findMany({
+    where: { runId, articleId: { in: articleIds } },
+    distinct: ['articleId', 'enricher'],
+    select: { articleId: true, enricher: true }
+  })
+  const doneEnrichers = new Map<string, Set<string>>()
+  for (const change of alreadyChanged) {
+    const done = doneEnrichers.get(change.articleId) || new Set<string>()
+    done.add(change.enricher)
+    doneEnrichers.set(change.articleId, done)
+  }
+  const pendingEnrichers = (articleId: string) => enrichers.filter(enricher => !doneEnrichers.get(articleId)?.has(enricher.id))
+
+  const articles = await prisma.article.findMany({
+    where: { id: { in: articleIds.filter(id => pendingEnrichers(id).length > 0) } },
+    include: { organization: { select: organizationIdentitySelect } }
+  })
+  const skipped = articleIds.length - articles.length
+
+  let changed = 0
+  const errors: string[] = []
+
+  const { errors: failures } = await processWithRateLimit(articles, async (article: EnrichableArticle) => {
+    // AI calls are billed to the article and its organization
+    await withLlmContext({ organizationId: article.organizationId, articleId: article.id }, async () => {
+      // Re-process what we stored; fall back to the archived markdown when content is empty
+      let content = article.content || ''
+      if (!content && article.snapshotId) {
+        content = (await loadSnapshot(article.snapshotId))?.markdown || ''
+      }
+      if (!content) throw new Error('No content or snapshot to re-enrich from')
+
+      let changedFields = 0
+      for (const enricher of pendingEnrichers(article.id)) {
+        const changes: Prisma.ReenrichmentChangeCreateManyInput[] = []
+        try {
+          const output = await enricher.run(article, content)
+          for (const field of Object.keys(output.values) as EnrichedField[]) {
+            const newValue = output.values[field]
+            if (sameValue(article[field], newValue)) continue
+            changes.push({
+              runId,
+              articleId: article.id,
+              enricher: enricher.id,
+              field,
+              oldValue: article[field] ?? undefined,
+              newValue: newValue ?? undefined,
+              reasoning: output.reasoning?.substring(0, 2000) || null,
+              promptVersion: output.promptVersion
+            })
+          }
+        } catch (error) {
+          rethrowIfBudgetExceeded(error)
+          errors.push(`${article.id} (${enricher.id}): ${error instanceof Error ? error.message : String(error)}`)
+        }
+
+        if (changes.length > 0) {
+          await prisma.reenrichmentChange.createMany({ data: changes })
+          changedFields += changes.length
+        }
+      }
+
+      if (changedFields > 0) changed++
+      console.log(`🔁 Re-enriched "${article.title}": ${changedFields} changed fields`)
+    })
+  }, { concurrency: Math.min(Math.max(1, concurrency), MAX_REENRICHMENT_CONCURRENCY), batchDelay: 500 })
+
+  const budgetFailures = failures.filter(({ error }) => error instanceof LlmBudgetExceededError)
+  errors.push(...failures
+    .filter(failure => !budgetFailures.includes(failure))
+    .map(({ item, error }) => `${item.id}: ${error.message}`))
+  // Articles skipped as fully changed were processed by an earlier attempt of this batch
+  const processed = skipped + articles.length - budgetFailures.length
+
+  return { processed, changed, errors, budgetExceeded: budgetFailures[0]?.error.message || null }
+}
+
+/**
+ * Store a run's progress. Totals are set rather than incremented, and changedArticles is
+ * counted from the stored changes, so recording the same batch twice doesn't inflate them.
+ * Returns the number of articles with changes so far.
+ */
+export async function recordRunProgress(
+  runId: string,
+  totals: { processed: number, errorCount: number },
+  newErrors: string[]
+): Promise<number> {
+  const [run, changedArticles] = await Promise.all([
+    prisma.reenrichmentRun.findUniqueOrThrow({ where: { id: runId }, select: { errors: true } }),
+    prisma.reenrichmentChange.findMany({ where: { runId }, distinct: ['articleId'], select: { articleId: true } })
+  ])
+
+  await prisma.reenrichmentRun.update({
+    where: { id: runId },
+    data: {
+      processedArticles: totals.processed,
+      changedArticles: changedArticles.length,
+      errorCount: totals.errorCount,
+      errors: Array.from(new Set([...run.errors, ...newErrors.slice(0, 50)]))
+    }
+  })
+
+  return changedArticles.length
+}
+
+/**
+ * Accept or reject pending changes. Accepting writes the new values to the articles,
+ * unless the article field was edited since the run (then the change is marked stale).
+ */
+export async function reviewChanges(
+  changeIds: string[],
+  decision: 'accept' | 'reject'
+): Promise<{ accepted: number, rejected: number, stale: number }> {
+  const changes = await prisma.reenrichmentChange.findMany({
+    where: { id: { in: changeIds }, status: 'pending' },
+    orderBy: { createdAt: 'asc' }
+  })
+  const reviewedAt = new Date()
+
+  if (decision === 'reject') {
+    await prisma.reenrichmentChange.updateMany({
+      where: { id: { in: changes.map(change => change.id) } },
+      data: { status: 'rejected', reviewedAt }
+    })
+    return { accepted: 0, rejected: changes.length, stale: 0 }
+  }
+
+  const byArticle = new Map<string, typeof changes>()
+  for (const change of changes) {
+    byArticle.set(change.articleId, [...(byArticle.get(change.articleId) || []), change])
+  }
+
+  let accepted = 0
+  let stale = 0
+
+  for (const [articleId, articleChanges] of byArticle) {
+    const article = await prisma.article.findUnique({ where: { id: articleId } })
+    if (!article) continue
+
+    // Stored change values were produced by an enricher for that field, so they have its type
+    const values: Record<string, unknown> = {}
+    const current = (field: EnrichedField) => field in values ? values[field] : article[field]
+    const promptVersions: Partial<Record<PromptName, string | null>> = {}
+    const acceptedIds: string[] = []
+    const staleIds: string[] = []
+
+    for (const change of articleChanges) {
+      // A later change to a field an earlier change just updated is stale too
+      if (!isEnrichedField(change.field) || !isEnricherId(change.enricher) || !sameValue(current(change.field), change.oldValue)) {
+        staleIds.push(change.id)
+        continue
+      }
+      values[change.field] = change.newValue ?? null
+      promptVersions[ENRICHERS[change.enricher].prompt] = change.promptVersion
+      acceptedIds.push(change.id)
+    }
+
+    if (acceptedIds.length > 0) {
+      const updated = { ...article, ...values as EnrichedValues }
+      const data: Prisma.ArticleUpdateInput = {
+        ...values as EnrichedValues,
+        promptVersions: mergePromptVersions(article.promptVersions, promptVersions),
+        ...qualityScoreData(updated)
+      }
+      await prisma.article.update({ where: { id: articleId }, data })
+      await prisma.reenrichmentChange.updateMany({
+        where: { id: { in: acceptedIds } },
+        data: { status: 'accepted', reviewedAt }
+      })
+    }
+    if (staleIds.length > 0) {
+      await prisma.reenrichmentChange.updateMany({
+        where: { id: { in: staleIds } },
+        data: { status: 'stale', reviewedAt }
+      })
+    }
+
+    accepted += acceptedIds.length
+    stale += staleIds.length
+  }
+
+  console.log(`📝 Reviewed re-enrichment changes: ${accepted} accepted, ${stale} stale`)
+  return { accepted, rejected: 0, stale }
+}
@@ -0,0 +1,24 @@
+// Structured reasons editors pick when rejecting an article (see editorialFeedback.ts).
+// Kept free of server imports so the admin UI can use the same list.
+
+export const REJECT_REASONS = {
+  not_about_organization: 'Not about the organization',
+  passing_mention: 'Only a passing mention',
+  negative_coverage: 'Negative coverage',
+  off_mission: 'Not a fit for our mission',
+  list_or_index_page: 'List or index page, not an article',
+  duplicate: 'Duplicate of another article',
+  outdated: 'Too old',
+  low_quality: 'Poor content or extraction',
+  other: 'Other'
+} as const
+export type RejectReason = keyof typeof REJECT_REASONS
+
+export function isRejectReason(value: unknown): value is RejectReason {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REJECT_REASONS, value)
+}
+
+export function describeRejectReason(reason: string | null | undefined, note?: string | null): string {
+  const label = reason && isRejectReason(reason) ? REJECT_REASONS[reason] : 'Rejected'
+  return note ? `${label}: ${note}` : label
+}
@@ -0,0 +1,346 @@
+import { firecrawlExtractStructured } from './firecrawl'
+import { extractArticlesFromUrls, pollAllExtractJobs } from './firecrawlExtractIndividual'
+import { extractArticleMetadata } from './articleMetadata'
+import { extractReadableContent } from './readability'
+
+// Article scraping behind one interface. Each provider is an adapter that turns a URL
+// into a ScrapedArticle; scrapeWithProviders tries them in order for every URL and only
+// moves on to the next provider for failures another provider might get past.
+
+export type ScraperProviderId = 'firecrawl-scrape' | 'firecrawl-extract' | 'local'
+
+export interface ScrapedArticle {
+  url: string
+  title: string
+  summary: string
+  content: string                 // Article body as markdown
+  keywords: string[]
+  organization_mentions: string[]
+  publish_date?: string
+  author?: string
+  main_image?: string
+  provider?: ScraperProviderId    // Which provider produced it
+  capture?: PageCapture           // The fetch itself, for the snapshot archive
+}
+
+export interface PageCapture {
+  finalUrl?: string | null
+  html?: string | null
+  httpStatus?: number | null
+  headers?: Record<string, string> | null
+}
+
+export type ScrapeErrorKind =
+  | 'not_configured'   // Missing or rejected API key
+  | 'quota_exceeded'   // Out of credits
+  | 'rate_limited'
+  | 'blocked'          // The site refused the request (403, bot protection)
+  | 'not_found'        // The page doesn't exist (404/410)
+  | 'error_page'       // The page loaded but is an error or soft-404 page
+  | 'timeout'
+  | 'no_content'       // No article content on the page
+  | 'server_error'
+  | 'unknown'
+
+export interface ScrapeError {
+  provider: ScraperProviderId
+  kind: ScrapeErrorKind
+  message: string
+  status?: number
+}
+
+export type ScrapeResult =
+  | { success: true, article: ScrapedArticle }
+  | { success: false, error: ScrapeError }
+
+export interface ScrapeContext {
+  organizationName?: string
+}
+
+export interface ScraperProvider {
+  id: ScraperProviderId
+  name: string
+  engine: 'firecrawl' | 'local'   // The Organization.extractionEngine value that selects it
+  isConfigured(): boolean
+  scrape(url: string, context: ScrapeContext): Promise<ScrapeResult>
+}
+
+// A type alias rather than an interface so attempts can be stored as Prisma JSON
+export type ScrapeAttempt = {
+  provider: ScraperProviderId
+  success: boolean
+  kind?: ScrapeErrorKind
+  error?: string
+  durationMs: number
+}
+
+export interface ScrapeRunSummary {
+  data: ScrapedArticle[]
+  attempts: Record<string, ScrapeAttempt[]>  // url -> providers tried, in order
+  articlesByProvider: Record<string, number>
+  skippedProviders: Record<string, string>   // provider id -> reason it was skipped
+  errors: string[]
+}
+
+// The page itself is the problem, so the remaining providers would fail the same way
+const FINAL_ERROR_KINDS: ScrapeErrorKind[] = ['not_found', 'error_page']
+
+// These repeat for every URL, so the provider is skipped for the rest of the run
+const PROVIDER_DISABLING_KINDS: ScrapeErrorKind[] = ['not_configured', 'quota_exceeded', 'rate_limited']
+
+// A 429 from an API provider applies to our whole account; a 429 during local extraction
+// comes from the one site being fetched, so it must not stop local extraction of the others
+function disablesProvider(provider: ScraperProviderId, kind: ScrapeErrorKind): boolean {
+  if (provider === 'local' && kind === 'rate_limited') return false
+  return PROVIDER_DISABLING_KINDS.includes(kind)
+}
+
+const SCRAPE_CONCURRENCY = 3
+const LOCAL_FETCH_TIMEOUT = 20000
+
+/**
+ * Classify a provider failure from its HTTP status and/or error message. Firecrawl errors
+ * carry the status in the message ("Firecrawl API failed: 429 - ...", "HTTP 404: ...").
+ */
+export function classifyScrapeError(message: string, status?: number): ScrapeErrorKind {
+  const code = status ?? parseInt(message.match(/\b([45]\d\d)(?: -|:)/)?.[1] || '')
+  const text = message.toLowerCase()
+
+  if (text.includes('not configured')) return 'not_configured'
+  if (code === 402 || /insufficient credits|payment required|quota/.test(text)) return 'quota_exceeded'
+  if (code === 429 || /rate limit|too many requests/.test(text)) return 'rate_limited'
+  if (code === 404 || code === 410) return 'not_found'
+  if (code === 401 || code === 403 || /forbidden|access denied|captcha|blocked/.test(text)) return 'blocked'
+  if (code === 408 || code === 504 || /timed? ?out|aborted/.test(text)) return 'timeout'
+  if (text.includes('error page')) return 'error_page'
+  if (/no article content|no title|no content/.test(text)) return 'no_content'
+  if (code >= 500) return 'server_error'
+  return 'unknown'
+}
+
+function failure(provider: ScraperProviderId, message: string, status?: number): ScrapeResult {
+  let kind = classifyScrapeError(message, status)
+  // A 401 from Firecrawl itself means a bad API key, not a blocked site
+  if (kind === 'blocked' && provider !== 'local' && /\b401 - /.test(message)) kind = 'not_configured'
+  return { success: false, error: { provider, kind, message, status } }
+}
+
+// Sentences naming the organization, the stand-in for the LLM's organization_mentions
+function findMentionSentences(text: string, organizationName?: string): string[] {
+  if (!organizationName) return []
+  const name = organizationName.toLowerCase()
+  return (text.match(/[^.!?\n]+[.!?]/g) || [])
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.toLowerCase().includes(name))
+    .slice(0, 5)
+}
+
+// Firecrawl v1 /scrape: markdown plus schema extraction in a single synchronous request
+export const firecrawlScrapeProvider: ScraperProvider = {
+  id: 'firecrawl-scrape',
+  name: 'Firecrawl scrape',
+  engine: 'firecrawl',
+  isConfigured: () => !!process.env.FIRECRAWL_API_KEY,
+  async scrape(url, context) {
+    const result = await firecrawlExtractStructured(url, context.organizationName)
+    // A successful extraction always has a title; checking it also narrows it to a string
+    if (!result.success || !result.title) return failure('firecrawl-scrape', result.error || 'Firecrawl scrape failed')
+
+    const content = result.content || result.data?.content || ''
+    if (!content) return failure('firecrawl-scrape', 'Firecrawl returned no article content')
+
+    return {
+      success: true,
+      article: {
+        url,
+        title: result.title,
+        summary: result.summary || '',
+        content,
+        keywords: result.keywords || [],
+        organization_mentions: findMentionSentences(content, context.organizationName),
+        publish_date: result.data?.publish_date || undefined,
+        author: result.data?.author || undefined,
+        main_image: result.ogImage || undefined,
+        provider: 'firecrawl-scrape',
+        capture: { finalUrl: result.finalUrl, html: result.rawHtml, httpStatus: result.statusCode }
+      }
+    }
+  }
+}
+
+// Firecrawl /extract: an async LLM extraction job per URL, polled until it completes
+export const firecrawlExtractProvider: ScraperProvider = {
+  id: 'firecrawl-extract',
+  name: 'Firecrawl extract',
+  engine: 'firecrawl',
+  isConfigured: () => !!process.env.FIRECRAWL_API_KEY,
+  async scrape(url, context) {
+    const submitted = await extractArticlesFromUrls([url], context.organizationName)
+    if (!submitted.success) return failure('firecrawl-extract', submitted.error || 'Extract job submission failed')
+
+    let article = submitted.data?.[0]
+    if (!article && submitted.jobs && submitted.jobs.length > 0) {
+      const polled = await pollAllExtractJobs(submitted.jobs)
+      article = polled.data[0]
+      if (!article) return failure('firecrawl-extract', polled.errors[0] || 'Extract job returned no article')
+    }
+    if (!article) return failure('firecrawl-extract', 'Extract job returned no article')
+
+    return { success: true, article: { ...article, provider: 'firecrawl-extract' } }
+  }
+}
+
+// Plain HTTP fetch with local metadata and readability extraction - no API calls
+export const localScraperProvider: ScraperProvider = {
+  id: 'local',
+  name: 'Local extractor',
+  engine: 'local',
+  isConfigured: () => true,
+  async scrape(url, context) {
+    console.log(`📰 Local extraction for: ${url}`)
+
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          'Accept': 'text/html,application/xhtml+xml',
+          'Accept-Language': 'en-US,en;q=0.9'
+        },
+        signal: AbortSignal.timeout(LOCAL_FETCH_TIMEOUT)
+      })
+
+      if (!response.ok) {
+        return failure('local', `HTTP ${response.status}: ${response.statusText}`, response.status)
+      }
+
+      const html = await response.text()
+      const pageUrl = response.url || url
+      const headers: Record<string, string> = {}
+      response.headers.forEach((value, name) => { headers[name] = value })
+      const readable = extractReadableContent(html, pageUrl)
+      if (!readable) return failure('local', 'Local extraction found no article content')
+
+      const metadata = extractArticleMetadata(html, pageUrl)
+      const title = metadata.title?.value || readable.title
+      if (!title) return failure('local', 'Local extraction found no title')
+
+      console.log(`✅ Local extraction: "${title}" (${readable.length} characters, ${readable.images.length} images)`)
+
+      return {
+        success: true,
+        article: {
+          url,
+          title,
+          summary: metadata.description?.value || readable.excerpt || '',
+          content: readable.content,
+          keywords: metadata.keywords,
+          organization_mentions: findMentionSentences(readable.textContent, context.organizationName),
+          publish_date: metadata.publishedAt?.value,
+          author: metadata.author?.value,
+          main_image: metadata.image?.value || readable.images[0],
+          provider: 'local',
+          capture: { finalUrl: pageUrl, html, httpStatus: response.status, headers }
+        }
+      }
+    } catch (error) {
+      return failure('local', error instanceof Error ? error.message : String(error))
+    }
+  }
+}
+
+// Fallback order: cheapest reliable Firecrawl call first, then the slower extract job, then local
+export const SCRAPER_PROVIDERS: ScraperProvider[] = [
+  firecrawlScrapeProvider,
+  firecrawlExtractProvider,
+  localScraperProvider
+]
+
+/**
+ * Providers enabled for this deployment: SCRAPER_PROVIDERS="firecrawl-scrape,local" picks
+ * (and orders) them explicitly; otherwise the full SCRAPER_PROVIDERS chain is used.
+ */
+export function getEnabledScraperProviders(providerIds?: string[]): ScraperProvider[] {
+  const ids = providerIds && providerIds.length > 0
+    ? providerIds
+    : process.env.SCRAPER_PROVIDERS?.split(',').map(id => id.trim()).filter(Boolean)
+
+  if (ids && ids.length > 0) {
+    return ids
+      .map(id => SCRAPER_PROVIDERS.find(provider => provider.id === id))
+      .filter((provider): provider is ScraperProvider => !!provider)
+  }
+
+  return SCRAPER_PROVIDERS
+}
+
+/**
+ * Scrape every URL, trying providers in order until one produces an article. Every
+ * attempt is recorded per URL so callers can store which provider produced each row.
+ */
+export async function scrapeWithProviders(
+  urls: string[],
+  options: { providers?: ScraperProvider[], organizationName?: string } = {}
+): Promise<ScrapeRunSummary> {
+  const providers = options.providers || getEnabledScraperProviders()
+  const context: ScrapeContext = { organizationName: options.organizationName }
+  const summary: ScrapeRunSummary = {
+    data: [],
+    attempts: {},
+    articlesByProvider: {},
+    skippedProviders: {},
+    errors: []
+  }
+
+  for (const provider of providers) {
+    if (!provider.isConfigured()) {
+      summary.skippedProviders[provider.id] = 'not configured'
+    }
+  }
+
+  const scrapeUrl = async (url: string) => {
+    const attempts: ScrapeAttempt[] = []
+    summary.attempts[url] = attempts
+
+    for (const provider of providers) {
+      if (summary.skippedProviders[provider.id]) continue
+
+      const startTime = Date.now()
+      const result = await provider.scrape(url, context)
+      const durationMs = Date.now() - startTime
+
+      if (result.success) {
+        attempts.push({ provider: provider.id, success: true, durationMs })
+        summary.data.push(result.article)
+        summary.articlesByProvider[provider.id] = (summary.articlesByProvider[provider.id] || 0) + 1
+        return
+      }
+
+      const { kind, message } = result.error
+      attempts.push({ provider: provider.id, success: false, kind, error: message, durationMs })
+      console.warn(`⚠️ ${provider.name} failed for ${url} (${kind}): ${message}`)
+
+      if (disablesProvider(provider.id, kind)) {
+        console.warn(`🚦 ${provider.name} skipped for the rest of this run (${kind})`)
+        summary.skippedProviders[provider.id] = kind.replace('_', ' ')
+      }
+      if (FINAL_ERROR_KINDS.includes(kind)) break
+    }
+
+    const lastFailure = attempts[attempts.length - 1]
+    summary.errors.push(lastFailure
+      ? `${url}: ${lastFailure.error} (${lastFailure.provider})`
+      : `${url}: No scraper provider available`)
+  }
+
+  // A few URLs at a time - the extract provider spends most of its time polling
+  const queue = [...urls]
+  await Promise.all(Array.from({ length: Math.min(SCRAPE_CONCURRENCY, queue.length) }, async () => {
+    let url: string | undefined
+    while ((url = queue.shift())) {
+      await scrapeUrl(url)
+    }
+  }))
+
+  console.log(`🎯 Scraped ${summary.data.length}/${urls.length} URLs:`, summary.articlesByProvider)
+  return summary
+}
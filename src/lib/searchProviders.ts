@@ -0,0 +1,358 @@
+import { readFileSync } from 'fs'
+import { prisma } from './db'
+import { firecrawlSearch } from './firecrawl'
+import { normalizeUrl, canonicalUrlKey } from './canonicalUrl'
+
+// Pluggable web/news search used by discovery. Each provider is an adapter behind
+// the same interface; searchWithProviders fans queries out to every configured
+// provider that still has quota today and merges the results by canonical URL.
+
+export interface SearchQuery {
+  query: string
+  since?: Date | null   // Only results published after this date, where the provider supports it
+  limit?: number        // Max results per provider for this query
+}
+
+export interface SearchResult {
+  url: string
+  title: string | null
+  snippet: string | null
+  publishedAt: Date | null
+  provider: string
+  rank: number          // 1-based position in the provider's result list
+}
+
+export interface SearchProvider {
+  id: string
+  name: string
+  dailyQuota: number    // Requests per UTC day
+  isConfigured(): boolean
+  search(query: SearchQuery): Promise<SearchResult[]>
+}
+
+export interface MergedSearchResult {
+  url: string
+  title: string | null
+  snippet: string | null
+  publishedAt: Date | null
+  providers: string[]   // Providers that returned this URL, best-ranked first
+  score: number         // Reciprocal rank fusion across providers and queries
+}
+
+export interface SearchRunSummary {
+  results: MergedSearchResult[]
+  requestsByProvider: Record<string, number>
+  resultsByProvider: Record<string, number>
+  skippedProviders: Record<string, string>  // provider id -> reason (not configured, quota exhausted)
+  errors: string[]
+}
+
+// Reciprocal rank fusion constant - dampens the advantage of the very top ranks
+const RRF_K = 60
+
+const DEFAULT_RESULT_LIMIT = 10
+
+function quotaFromEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '')
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function daysSince(date: Date): number {
+  return Math.max(1, Math.ceil((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000)))
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Google Custom Search JSON API (100 free queries/day)
+export const googleSearchProvider: SearchProvider = {
+  id: 'google',
+  name: 'Google Custom Search',
+  dailyQuota: quotaFromEnv('GOOGLE_SEARCH_DAILY_QUOTA', 100),
+
+  isConfigured() {
+    return !!(process.env.GOOGLE_SEARCH_API_KEY && process.env.GOOGLE_SEARCH_ENGINE_ID)
+  },
+
+  async search({ query, since, limit = DEFAULT_RESULT_LIMIT }) {
+    const params = new URLSearchParams({
+      key: process.env.GOOGLE_SEARCH_API_KEY!,
+      cx: process.env.GOOGLE_SEARCH_ENGINE_ID!,
+      q: query,
+      num: Math.min(limit, 10).toString()
+    })
+    if (since) {
+      params.set('dateRestrict', `d${daysSince(since)}`)
+    }
+
+    const response = await fetch(`https://www.googleapis.com/customsearch/v1?${params}`)
+    if (!response.ok) {
+      throw new Error(`Google Custom Search failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    return (data.items || []).map((item: any, index: number) => ({
+      url: item.link,
+      title: item.title || null,
+      snippet: item.snippet || null,
+      publishedAt: parseDate(item.pagemap?.metatags?.[0]?.['article:published_time']),
+      provider: 'google',
+      rank: index + 1
+    }))
+  }
+}
+
+// Firecrawl /search (shares credits with scraping)
+export const firecrawlSearchProvider: SearchProvider = {
+  id: 'firecrawl',
+  name: 'Firecrawl Search',
+  dailyQuota: quotaFromEnv('FIRECRAWL_SEARCH_DAILY_QUOTA', 50),
+
+  isConfigured() {
+    return !!process.env.FIRECRAWL_API_KEY
+  },
+
+  async search({ query, since, limit = DEFAULT_RESULT_LIMIT }) {
+    let tbs: string | undefined
+    if (since) {
+      const days = daysSince(since)
+      tbs = days <= 1 ? 'qdr:d' : days <= 7 ? 'qdr:w' : days <= 31 ? 'qdr:m' : 'qdr:y'
+    }
+
+    const { items } = await firecrawlSearch(query, { limit, tbs })
+    return items.map((item, index) => ({
+      url: item.url,
+      title: item.title || null,
+      snippet: item.description || null,
+      publishedAt: null,
+      provider: 'firecrawl',
+      rank: index + 1
+    }))
+  }
+}
+
+// NewsAPI.ai (Event Registry) getArticles - news and press releases, 31-day window on the free tier
+export const newsApiAiProvider: SearchProvider = {
+  id: 'newsapiai',
+  name: 'NewsAPI.ai',
+  dailyQuota: quotaFromEnv('NEWSAPI_AI_DAILY_QUOTA', 200),
+
+  isConfigured() {
+    return !!process.env.NEWSAPI_AI_API_KEY
+  },
+
+  async search({ query, since, limit = DEFAULT_RESULT_LIMIT }) {
+    const response = await fetch('https://eventregistry.org/api/v1/article/getArticles', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        action: 'getArticles',
+        keyword: query,
+        ignoreSourceGroupUri: 'paywall/paywalled_sources',
+        articlesPage: 1,
+        articlesCount: Math.min(limit, 100),
+        articlesSortBy: 'date',
+        articlesSortByAsc: false,
+        dataType: ['news', 'pr'],
+        forceMaxDataTimeWindow: 31,
+        resultType: 'articles',
+        ...(since && { dateStart: since.toISOString().slice(0, 10) }),
+        apiKey: process.env.NEWSAPI_AI_API_KEY
+      })
+    })
+    if (!response.ok) {
+      throw new Error(`NewsAPI.ai search failed: ${response.status}`)
+    }
+
+    const data = await response.json()
+    if (data.error) {
+      throw new Error(`NewsAPI.ai search failed: ${data.error}`)
+    }
+
+    return (data.articles?.results || []).map((article: any, index: number) => ({
+      url: article.url,
+      title: article.title || null,
+      snippet: typeof article.body === 'string' ? article.body.slice(0, 300) : null,
+      publishedAt: parseDate(article.dateTimePub || article.dateTime),
+      provider: 'newsapiai',
+      rank: index + 1
+    }))
+  }
+}
+
+type FixtureEntry = { url: string, title?: string, snippet?: string, publishedAt?: string }
+
+/**
+ * Offline provider returning canned results, for tests and local development.
+ * Fixtures map a case-insensitive substring of the query (or "*" for any query)
+ * to results. Without explicit fixtures, reads the JSON file at SEARCH_FIXTURE_FILE.
+ */
+export function createFixtureSearchProvider(fixtures?: Record<string, FixtureEntry[]>): SearchProvider {
+  const loadFixtures = (): Record<string, FixtureEntry[]> => {
+    if (fixtures) return fixtures
+    if (!process.env.SEARCH_FIXTURE_FILE) return {}
+    return JSON.parse(readFileSync(process.env.SEARCH_FIXTURE_FILE, 'utf8'))
+  }
+
+  return {
+    id: 'fixture',
+    name: 'Fixture Search',
+    dailyQuota: Number.MAX_SAFE_INTEGER,
+
+    isConfigured() {
+      return !!fixtures || !!process.env.SEARCH_FIXTURE_FILE
+    },
+
+    async search({ query, since, limit = DEFAULT_RESULT_LIMIT }) {
+      const lowerQuery = query.toLowerCase()
+      const entries = Object.entries(loadFixtures())
+        .filter(([pattern]) => pattern === '*' || lowerQuery.includes(pattern.toLowerCase()))
+        .flatMap(([, results]) => results)
+
+      return entries
+        .map(entry => ({ ...entry, published: parseDate(entry.publishedAt) }))
+        .filter(entry => !since || !entry.published || entry.published >= since)
+        .slice(0, limit)
+        .map((entry, index) => ({
+          url: entry.url,
+          title: entry.title || null,
+          snippet: entry.snippet || null,
+          publishedAt: entry.published,
+          provider: 'fixture',
+          rank: index + 1
+        }))
+    }
+  }
+}
+
+export const SEARCH_PROVIDERS: SearchProvider[] = [
+  googleSearchProvider,
+  newsApiAiProvider,
+  firecrawlSearchProvider,
+  createFixtureSearchProvider()
+]
+
+/**
+ * Providers enabled for this deployment: SEARCH_PROVIDERS="google,newsapiai" picks
+ * (and orders) them explicitly; otherwise every configured real provider is used.
+ */
+export function getEnabledSearchProviders(providerIds?: string[]): SearchProvider[] {
+  const ids = providerIds && providerIds.length > 0
+    ? providerIds
+    : process.env.SEARCH_PROVIDERS?.split(',').map(id => id.trim()).filter(Boolean)
+
+  if (ids && ids.length > 0) {
+    return ids
+      .map(id => SEARCH_PROVIDERS.find(provider => provider.id === id))
+      .filter((provider): provider is SearchProvider => !!provider)
+  }
+
+  return SEARCH_PROVIDERS.filter(provider => provider.id !== 'fixture')
+}
+
+/**
+ * Count one request against a provider's daily quota. Returns false (without
+ * making the request) once the quota for the current UTC day is used up.
+ */
+async function reserveQuota(provider: SearchProvider): Promise<boolean> {
+  if (provider.dailyQuota === Number.MAX_SAFE_INTEGER) return true
+
+  const day = new Date().toISOString().slice(0, 10)
+  const usage = await prisma.searchProviderUsage.upsert({
+    where: { provider_day: { provider: provider.id, day } },
+    create: { provider: provider.id, day, requests: 1 },
+    update: { requests: { increment: 1 } }
+  })
+
+  return usage.requests <= provider.dailyQuota
+}
+
+/**
+ * Run every query against every enabled provider (quota permitting) and merge
+ * results by canonical URL. Results found by several providers or queries rank higher.
+ */
+export async function searchWithProviders(
+  queries: SearchQuery[],
+  options: { providers?: SearchProvider[] } = {}
+): Promise<SearchRunSummary> {
+  const providers = options.providers || getEnabledSearchProviders()
+  const merged = new Map<string, MergedSearchResult & { bestRank: Record<string, number> }>()
+  const summary: SearchRunSummary = {
+    results: [],
+    requestsByProvider: {},
+    resultsByProvider: {},
+    skippedProviders: {},
+    errors: []
+  }
+
+  for (const provider of providers) {
+    if (!provider.isConfigured()) {
+      summary.skippedProviders[provider.id] = 'not configured'
+      continue
+    }
+
+    for (const query of queries) {
+      if (!(await reserveQuota(provider))) {
+        console.warn(`🚦 ${provider.name} daily quota (${provider.dailyQuota}) reached, skipping remaining queries`)
+        summary.skippedProviders[provider.id] = 'daily quota exhausted'
+        break
+      }
+
+      summary.requestsByProvider[provider.id] = (summary.requestsByProvider[provider.id] || 0) + 1
+
+      try {
+        const results = await provider.search(query)
+        console.log(`   🔍 ${provider.name}: ${results.length} results for "${query.query}"`)
+        summary.resultsByProvider[provider.id] = (summary.resultsByProvider[provider.id] || 0) + results.length
+
+        for (const result of results) {
+          if (!result.url) continue
+          const url = normalizeUrl(result.url)
+          const key = canonicalUrlKey(url)
+          const existing = merged.get(key)
+
+          if (!existing) {
+            merged.set(key, {
+              url,
+              title: result.title,
+              snippet: result.snippet,
+              publishedAt: result.publishedAt,
+              providers: [provider.id],
+              score: 1 / (RRF_K + result.rank),
+              bestRank: { [provider.id]: result.rank }
+            })
+            continue
+          }
+
+          existing.score += 1 / (RRF_K + result.rank)
+          existing.title = existing.title || result.title
+          existing.snippet = existing.snippet || result.snippet
+          existing.publishedAt = existing.publishedAt || result.publishedAt
+          existing.bestRank[provider.id] = Math.min(existing.bestRank[provider.id] ?? Infinity, result.rank)
+          if (!existing.providers.includes(provider.id)) {
+            existing.providers.push(provider.id)
+          }
+        }
+      } catch (error) {
+        const message = `${provider.name} search failed for "${query.query}": ${error instanceof Error ? error.message : String(error)}`
+        console.error(`   ❌ ${message}`)
+        summary.errors.push(message)
+      }
+
+      // Respect API rate limits
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+  }
+
+  summary.results = Array.from(merged.values())
+    .map(({ bestRank, ...result }) => ({
+      ...result,
+      providers: [...result.providers].sort((a, b) => bestRank[a] - bestRank[b])
+    }))
+    .sort((a, b) => b.score - a.score)
+
+  return summary
+}
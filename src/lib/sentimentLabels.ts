@@ -0,0 +1,35 @@
+// Article fields derived from the -1..3 organization sentiment score (see analyzeSentimentScale).
+// Shared by Phase 3 finalization and re-enrichment so both write identical values.
+
+// Same labels as the Phase 2 UI
+export const SENTIMENT_LABELS = {
+  '-1': 'Negative',
+  '0': 'Not Mentioned',
+  '1': 'Brief Mention',
+  '2': 'Main Focus',
+  '3': 'Social Impact'
+}
+
+// User-friendly organization sentiment label
+export function getOrganizationSentiment(score: number | null): string {
+  if (score === null || score === undefined) return 'Not Mentioned'
+  return SENTIMENT_LABELS[score.toString() as keyof typeof SENTIMENT_LABELS] || 'Not Mentioned'
+}
+
+export function getOrganizationRelevance(score: number | null): string {
+  if (score === null || score === undefined) return 'low'
+  if (score === -1) return 'medium'  // -1: Mentioned negatively (still relevant)
+  if (score === 0) return 'low'      // 0: Not mentioned
+  if (score === 1) return 'medium'   // 1: Mentioned but not main focus
+  if (score === 2) return 'high'     // 2: Main focus (informational)
+  if (score === 3) return 'high'     // 3: Main focus (inspiring)
+  return 'low' // fallback
+}
+
+// Legacy sentiment field (based on organization sentiment)
+export function getLegacySentiment(score: number | null): string {
+  if (score === null || score === undefined) return 'neu'
+  if (score === -1) return 'neg'  // -1: Organization mentioned negatively
+  if (score === 3) return 'pos'   // 3: Inspiring social impact content
+  return 'neu' // 0, 1, 2: Not negative, not inspiring
+}
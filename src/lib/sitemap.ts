@@ -0,0 +1,252 @@
+import { gunzipSync } from 'zlib'
+
+const SITEMAP_USER_AGENT = 'Mozilla/5.0 (compatible; ArticleBot/1.0)'
+const SITEMAP_FETCH_TIMEOUT = 30000
+
+// Locations tried when robots.txt does not declare any sitemap
+const DEFAULT_SITEMAP_PATHS = ['/sitemap.xml', '/sitemap_index.xml', '/sitemap-index.xml', '/wp-sitemap.xml']
+
+// Path patterns that typically hold articles, used when no patterns are given
+export const DEFAULT_ARTICLE_PATH_PATTERNS = [
+  /\/news\//i,
+  /\/blog\//i,
+  /\/stories\//i,
+  /\/story\//i,
+  /\/press\//i,
+  /\/press-releases?\//i,
+  /\/articles?\//i,
+  /\/updates\//i,
+  /\/media\//i,
+  /\/\d{4}\/\d{2}\//
+]
+
+export interface SitemapUrl {
+  url: string
+  lastmod: Date | null
+}
+
+interface ParsedSitemap {
+  type: 'index' | 'urlset'
+  entries: SitemapUrl[]
+}
+
+export interface SitemapCrawlOptions {
+  includePatterns?: RegExp[]   // URL must match at least one (defaults to DEFAULT_ARTICLE_PATH_PATTERNS)
+  excludePatterns?: RegExp[]   // URL must match none
+  since?: Date | null          // Only URLs with lastmod on/after this date
+  until?: Date | null          // Only URLs with lastmod on/before this date
+  includeUndated?: boolean     // Keep URLs without lastmod when a window is set (default false)
+  maxSitemaps?: number         // Safety cap on sitemap documents fetched
+  maxUrls?: number             // Cap on URLs returned
+}
+
+export interface SitemapCrawlResult {
+  sitemapsFetched: string[]
+  totalListed: number
+  urls: SitemapUrl[]
+}
+
+/**
+ * Read sitemap locations from robots.txt, falling back to conventional paths
+ */
+export async function findSitemapUrls(siteUrl: string): Promise<string[]> {
+  const origin = new URL(siteUrl).origin
+  const sitemaps = new Set<string>()
+
+  try {
+    const response = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': SITEMAP_USER_AGENT },
+      signal: AbortSignal.timeout(SITEMAP_FETCH_TIMEOUT)
+    })
+
+    if (response.ok) {
+      const robots = await response.text()
+      for (const line of robots.split(/\r?\n/)) {
+        const match = line.match(/^\s*sitemap\s*:\s*(\S+)/i)
+        if (match) {
+          try {
+            sitemaps.add(new URL(match[1], origin).href)
+          } catch {
+            // Ignore malformed sitemap declarations
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.warn(`⚠️ Could not read robots.txt for ${origin}:`, error instanceof Error ? error.message : String(error))
+  }
+
+  if (sitemaps.size > 0) {
+    console.log(`🤖 robots.txt declares ${sitemaps.size} sitemaps for ${origin}`)
+    return Array.from(sitemaps)
+  }
+
+  return DEFAULT_SITEMAP_PATHS.map(path => `${origin}${path}`)
+}
+
+/**
+ * Fetch a sitemap or sitemap index, transparently handling gzip
+ */
+export async function fetchSitemap(sitemapUrl: string): Promise<ParsedSitemap> {
+  const response = await fetch(sitemapUrl, {
+    headers: {
+      'User-Agent': SITEMAP_USER_AGENT,
+      'Accept': 'application/xml, text/xml, application/x-gzip;q=0.9, */*;q=0.8'
+    },
+    signal: AbortSignal.timeout(SITEMAP_FETCH_TIMEOUT)
+  })
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  // fetch already decodes Content-Encoding: gzip, but .xml.gz files are served as gzip payloads
+  const isGzip = buffer.length > 2 && buffer[0] === 0x1f && buffer[1] === 0x8b
+  const xml = (isGzip ? gunzipSync(buffer) : buffer).toString('utf-8')
+
+  return parseSitemap(xml)
+}
+
+/**
+ * Parse sitemap XML. Regex-based rather than DOM-based because sitemaps can
+ * list 50,000 URLs and only <loc>/<lastmod> are needed.
+ */
+export function parseSitemap(xml: string): ParsedSitemap {
+  const isIndex = /<sitemapindex[\s>]/i.test(xml)
+  const blockPattern = isIndex ? /<sitemap[\s>][\s\S]*?<\/sitemap>/gi : /<url[\s>][\s\S]*?<\/url>/gi
+  const entries: SitemapUrl[] = []
+
+  for (const match of xml.matchAll(blockPattern)) {
+    const loc = readTag(match[0], 'loc')
+    if (!loc) continue
+
+    const lastmodText = readTag(match[0], 'lastmod')
+    const lastmod = lastmodText ? new Date(lastmodText) : null
+
+    entries.push({
+      url: loc,
+      lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : null
+    })
+  }
+
+  return { type: isIndex ? 'index' : 'urlset', entries }
+}
+
+/**
+ * Walk robots.txt → sitemap indexes → child sitemaps and return article URLs
+ * that match the path patterns and fall inside the lastmod window
+ */
+export async function crawlSitemaps(siteUrl: string, options: SitemapCrawlOptions = {}): Promise<SitemapCrawlResult> {
+  const {
+    includePatterns = DEFAULT_ARTICLE_PATH_PATTERNS,
+    excludePatterns = [],
+    since = null,
+    until = null,
+    includeUndated = false,
+    maxSitemaps = 50,
+    maxUrls = 1000
+  } = options
+
+  console.log(`🗺️ Crawling sitemaps for ${siteUrl}`)
+
+  const queue = await findSitemapUrls(siteUrl)
+  const visited = new Set<string>()
+  const sitemapsFetched: string[] = []
+  const urls = new Map<string, SitemapUrl>()
+  let totalListed = 0
+
+  const inWindow = (lastmod: Date | null) => {
+    if (!since && !until) return true
+    if (!lastmod) return includeUndated
+    if (since && lastmod < since) return false
+    if (until && lastmod > until) return false
+    return true
+  }
+
+  while (queue.length > 0 && visited.size < maxSitemaps) {
+    const sitemapUrl = queue.shift()!
+    if (visited.has(sitemapUrl)) continue
+    visited.add(sitemapUrl)
+
+    let sitemap: ParsedSitemap
+    try {
+      sitemap = await fetchSitemap(sitemapUrl)
+    } catch (error) {
+      console.warn(`⚠️ Skipping sitemap ${sitemapUrl}:`, error instanceof Error ? error.message : String(error))
+      continue
+    }
+
+    sitemapsFetched.push(sitemapUrl)
+
+    if (sitemap.type === 'index') {
+      // A child sitemap last modified before the window cannot contain newer posts
+      const children = sitemap.entries.filter(child => !since || !child.lastmod || child.lastmod >= since)
+      console.log(`📚 Sitemap index ${sitemapUrl}: ${children.length}/${sitemap.entries.length} child sitemaps in window`)
+      queue.push(...children.map(child => child.url))
+      continue
+    }
+
+    totalListed += sitemap.entries.length
+
+    for (const entry of sitemap.entries) {
+      if (urls.size >= maxUrls) break
+      if (!inWindow(entry.lastmod)) continue
+
+      let path: string
+      try {
+        path = new URL(entry.url).pathname
+      } catch {
+        continue
+      }
+
+      if (!includePatterns.some(pattern => pattern.test(path))) continue
+      if (excludePatterns.some(pattern => pattern.test(path))) continue
+
+      urls.set(entry.url, entry)
+    }
+
+    console.log(`🗺️ ${sitemapUrl}: ${sitemap.entries.length} URLs listed, ${urls.size} matched so far`)
+    if (urls.size >= maxUrls) break
+  }
+
+  const sortedUrls = Array.from(urls.values()).sort((a, b) =>
+    (b.lastmod?.getTime() ?? 0) - (a.lastmod?.getTime() ?? 0)
+  )
+
+  console.log(`✅ Sitemap crawl complete: ${sortedUrls.length} article URLs from ${sitemapsFetched.length} sitemaps`)
+
+  return { sitemapsFetched, totalListed, urls: sortedUrls }
+}
+
+/**
+ * Compile user-supplied pattern strings, ignoring invalid expressions
+ */
+export function compilePathPatterns(patterns: unknown): RegExp[] | undefined {
+  if (!Array.isArray(patterns) || patterns.length === 0) return undefined
+
+  const compiled = patterns.flatMap(pattern => {
+    if (typeof pattern !== 'string' || !pattern.trim()) return []
+    try {
+      return [new RegExp(pattern, 'i')]
+    } catch {
+      console.warn(`⚠️ Ignoring invalid path pattern: ${pattern}`)
+      return []
+    }
+  })
+
+  return compiled.length > 0 ? compiled : undefined
+}
+
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<(?:\\w+:)?${tag}>\\s*(?:<!\\[CDATA\\[)?([\\s\\S]*?)(?:\\]\\]>)?\\s*</(?:\\w+:)?${tag}>`, 'i'))
+  if (!match) return null
+
+  return match[1]
+    .trim()
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+}
@@ -0,0 +1,216 @@
+import { createHash, createHmac } from 'crypto'
+import { existsSync } from 'fs'
+import { mkdir, readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { gunzipSync, gzipSync } from 'zlib'
+import type { PageSnapshot } from '@prisma/client'
+import { prisma } from './db'
+
+// Archive of every scraped page. Raw HTML and extracted markdown are stored gzipped in a
+// content-addressed blob store (keyed by the sha256 of the uncompressed text, so identical
+// pages are stored once); a PageSnapshot row records the URL, HTTP status, headers and
+// fetch time and is linked from ScrapedContent and Article.
+//
+// SNAPSHOT_STORE picks the backend: "fs" (default, under SNAPSHOT_DIR), "s3" for any
+// S3-compatible bucket (AWS, R2, MinIO, Supabase Storage) or "off".
+
+export type SnapshotStorage = 'fs' | 's3'
+
+export interface SnapshotInput {
+  url: string
+  finalUrl?: string | null        // After redirects
+  html?: string | null
+  markdown?: string | null
+  httpStatus?: number | null
+  headers?: Record<string, string> | null
+  provider?: string | null        // Scraper provider that fetched the page
+}
+
+export interface LoadedSnapshot {
+  snapshot: PageSnapshot
+  html: string | null
+  markdown: string | null
+}
+
+interface BlobStore {
+  id: SnapshotStorage
+  has(key: string): Promise<boolean>
+  put(key: string, body: Buffer): Promise<void>
+  get(key: string): Promise<Buffer | null>
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function blobKey(kind: 'html' | 'markdown', hash: string): string {
+  return `${kind}/${hash.slice(0, 2)}/${hash}.gz`
+}
+
+const fsBlobStore = (): BlobStore => {
+  const root = process.env.SNAPSHOT_DIR || join(process.cwd(), '.snapshots')
+
+  return {
+    id: 'fs',
+    async has(key) {
+      return existsSync(join(root, key))
+    },
+    async put(key, body) {
+      const path = join(root, key)
+      await mkdir(dirname(path), { recursive: true })
+      await writeFile(path, body)
+    },
+    async get(key) {
+      const path = join(root, key)
+      return existsSync(path) ? readFile(path) : null
+    }
+  }
+}
+
+// Minimal AWS Signature V4 client for path-style S3 requests
+const s3BlobStore = (): BlobStore => {
+  const endpoint = (process.env.SNAPSHOT_S3_ENDPOINT || 'https://s3.amazonaws.com').replace(/\/+$/, '')
+  const bucket = process.env.SNAPSHOT_S3_BUCKET
+  const region = process.env.SNAPSHOT_S3_REGION || 'us-east-1'
+  const accessKeyId = process.env.SNAPSHOT_S3_ACCESS_KEY_ID
+  const secretAccessKey = process.env.SNAPSHOT_S3_SECRET_ACCESS_KEY
+
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('SNAPSHOT_S3_BUCKET, SNAPSHOT_S3_ACCESS_KEY_ID and SNAPSHOT_S3_SECRET_ACCESS_KEY are required for SNAPSHOT_STORE=s3')
+  }
+
+  const request = async (method: 'GET' | 'HEAD' | 'PUT', key: string, body?: Buffer) => {
+    const url = new URL(`${endpoint}/${bucket}/${key}`)
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '')
+    const dateStamp = amzDate.slice(0, 8)
+    const payloadHash = sha256(body || '')
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    }
+    if (body) headers['content-type'] = 'application/gzip'
+
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      '',
+      signedHeaders.map(name => `${name}:${headers[name]}\n`).join(''),
+      signedHeaders.join(';'),
+      payloadHash
+    ].join('\n')
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+    const signingKey = [dateStamp, region, 's3', 'aws4_request']
+      .reduce<Buffer | string>((key, part) => createHmac('sha256', key).update(part).digest(), `AWS4${secretAccessKey}`)
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+    const { host, ...requestHeaders } = headers
+    return fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`
+      },
+      body: body ? new Uint8Array(body) : undefined
+    })
+  }
+
+  return {
+    id: 's3',
+    async has(key) {
+      const response = await request('HEAD', key)
+      return response.ok
+    },
+    async put(key, body) {
+      const response = await request('PUT', key, body)
+      if (!response.ok) throw new Error(`S3 PUT ${key} failed: ${response.status} - ${await response.text()}`)
+    },
+    async get(key) {
+      const response = await request('GET', key)
+      if (response.status === 404) return null
+      if (!response.ok) throw new Error(`S3 GET ${key} failed: ${response.status}`)
+      return Buffer.from(await response.arrayBuffer())
+    }
+  }
+}
+
+function configuredStorage(): SnapshotStorage | null {
+  const setting = (process.env.SNAPSHOT_STORE || 'fs').toLowerCase()
+  if (setting === 'off') return null
+  return setting === 's3' ? 's3' : 'fs'
+}
+
+function getBlobStore(storage: SnapshotStorage): BlobStore {
+  return storage === 's3' ? s3BlobStore() : fsBlobStore()
+}
+
+async function putText(store: BlobStore, kind: 'html' | 'markdown', text: string): Promise<string> {
+  const hash = sha256(text)
+  const key = blobKey(kind, hash)
+  if (!(await store.has(key))) {
+    await store.put(key, gzipSync(text))
+  }
+  return hash
+}
+
+async function getText(store: BlobStore, kind: 'html' | 'markdown', hash: string | null): Promise<string | null> {
+  if (!hash) return null
+  const body = await store.get(blobKey(kind, hash))
+  return body ? gunzipSync(body).toString('utf-8') : null
+}
+
+/**
+ * Archive one fetch of a page. Returns the PageSnapshot id, or null when snapshots are
+ * turned off or the store is unavailable - archiving never fails the scrape itself.
+ */
+export async function saveSnapshot(input: SnapshotInput): Promise<string | null> {
+  const storage = configuredStorage()
+  if (!storage || (!input.html && !input.markdown)) return null
+
+  try {
+    const store = getBlobStore(storage)
+    const htmlHash = input.html ? await putText(store, 'html', input.html) : null
+    const markdownHash = input.markdown ? await putText(store, 'markdown', input.markdown) : null
+
+    const snapshot = await prisma.pageSnapshot.create({
+      data: {
+        url: input.url,
+        finalUrl: input.finalUrl && input.finalUrl !== input.url ? input.finalUrl : null,
+        httpStatus: input.httpStatus ?? null,
+        headers: input.headers || undefined,
+        htmlHash,
+        markdownHash,
+        htmlBytes: input.html ? Buffer.byteLength(input.html) : null,
+        markdownBytes: input.markdown ? Buffer.byteLength(input.markdown) : null,
+        storage,
+        provider: input.provider || null
+      }
+    })
+
+    console.log(`🗄️ Snapshot ${snapshot.id} for ${input.url} (${storage}${htmlHash ? ', html' : ''}${markdownHash ? ', markdown' : ''})`)
+    return snapshot.id
+  } catch (error) {
+    console.warn(`⚠️ Failed to save snapshot for ${input.url}:`, error instanceof Error ? error.message : String(error))
+    return null
+  }
+}
+
+/**
+ * Load a snapshot row with its HTML and markdown bodies, from whichever store wrote them
+ */
+export async function loadSnapshot(id: string): Promise<LoadedSnapshot | null> {
+  const snapshot = await prisma.pageSnapshot.findUnique({ where: { id } })
+  if (!snapshot) return null
+
+  const store = getBlobStore(snapshot.storage === 's3' ? 's3' : 'fs')
+  const [html, markdown] = await Promise.all([
+    getText(store, 'html', snapshot.htmlHash),
+    getText(store, 'markdown', snapshot.markdownHash)
+  ])
+
+  return { snapshot, html, markdown }
+}
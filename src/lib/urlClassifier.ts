@@ -0,0 +1,186 @@
+// Rules-based article URL classifier. Scores how likely a URL is an individual
+// article/post (vs navigation, listing, social or asset links) so the obvious
+// cases are decided locally and only ambiguous URLs are sent to the LLM.
+
+// At or above: kept without asking the LLM. At or below: dropped without asking.
+export const ARTICLE_SCORE_THRESHOLD = 0.7
+export const NON_ARTICLE_SCORE_THRESHOLD = 0.25
+
+export type UrlVerdict = 'article' | 'non_article' | 'ambiguous'
+
+export interface UrlClassification {
+  url: string
+  score: number        // 0-1 likelihood the URL is an individual article
+  verdict: UrlVerdict
+  reasons: string[]
+}
+
+const SOCIAL_DOMAINS = [
+  'facebook.com', 'fb.com', 'twitter.com', 'x.com', 'instagram.com', 'linkedin.com', 'youtube.com',
+  'youtu.be', 'tiktok.com', 'pinterest.com', 'vimeo.com', 'flickr.com', 'threads.net', 'wa.me',
+  'whatsapp.com', 't.me', 'reddit.com', 'snapchat.com', 'bsky.app', 'mastodon.social'
+]
+
+const ASSET_EXTENSION = /\.(jpe?g|png|gif|svg|webp|ico|bmp|tiff?|css|js|mjs|json|xml|rss|atom|zip|gz|mp3|mp4|m4a|mov|avi|wav|woff2?|ttf|eot|docx?|xlsx?|pptx?|csv|txt)$/i
+
+// First path segments that are never articles
+const NON_CONTENT_SEGMENTS = new Set([
+  'about', 'about-us', 'contact', 'contact-us', 'donate', 'give', 'giving', 'donation', 'donations', 'support-us',
+  'privacy', 'privacy-policy', 'terms', 'terms-of-use', 'terms-of-service', 'cookie-policy', 'legal', 'accessibility',
+  'careers', 'jobs', 'login', 'log-in', 'signin', 'sign-in', 'register', 'signup', 'sign-up', 'account', 'my-account',
+  'cart', 'checkout', 'shop', 'store', 'search', 'subscribe', 'newsletter', 'unsubscribe', 'faq', 'faqs', 'sitemap',
+  'team', 'staff', 'leadership', 'board', 'our-team', 'volunteer', 'partners', 'financials', 'wp-admin', 'wp-login.php',
+  'wp-json', 'feed', 'cdn-cgi'
+])
+
+// Path segments of listing/archive pages anywhere in the path
+const LISTING_SEGMENTS = new Set(['tag', 'tags', 'category', 'categories', 'topic', 'topics', 'author', 'authors', 'page', 'archive', 'archives', 'search', 'feed'])
+
+// Listing sections whose children are articles on most CMSes (WordPress, Drupal, Squarespace, Ghost, HubSpot...)
+const ARTICLE_SECTIONS = new Set([
+  'news', 'blog', 'blogs', 'stories', 'story', 'articles', 'article', 'post', 'posts', 'press', 'press-releases',
+  'press-release', 'newsroom', 'media', 'updates', 'insights', 'features', 'perspectives', 'resources', 'impact',
+  'news-and-stories', 'latest', 'announcements', 'releases', 'journal', 'magazine'
+])
+
+const DATE_IN_PATH = /\/(19|20)\d{2}\/(0?[1-9]|1[0-2])(\/(0?[1-9]|[12]\d|3[01]))?\/|\/(19|20)\d{2}-\d{2}-\d{2}(\/|-|$)/
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  const host = hostname.toLowerCase().replace(/^www\./, '')
+  return domains.some(domain => host === domain || host.endsWith(`.${domain}`))
+}
+
+function verdictFor(score: number): UrlVerdict {
+  if (score >= ARTICLE_SCORE_THRESHOLD) return 'article'
+  if (score <= NON_ARTICLE_SCORE_THRESHOLD) return 'non_article'
+  return 'ambiguous'
+}
+
+/**
+ * Score a URL as an individual article. `listingUrl` is the page it was found on,
+ * which is never an article itself.
+ */
+export function classifyArticleUrl(url: string, listingUrl?: string): UrlClassification {
+  const reasons: string[] = []
+  const result = (score: number): UrlClassification => {
+    const rounded = Math.round(Math.max(0, Math.min(1, score)) * 100) / 100
+    return { url, score: rounded, verdict: verdictFor(rounded), reasons }
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    reasons.push('invalid URL')
+    return result(0)
+  }
+
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    reasons.push('not http(s)')
+    return result(0)
+  }
+  if (matchesDomain(parsed.hostname, SOCIAL_DOMAINS) || /\/(share|sharer|intent\/tweet)(\.php)?\/?$/i.test(parsed.pathname)) {
+    reasons.push('social/share link')
+    return result(0)
+  }
+
+  const path = parsed.pathname.replace(/\/+$/, '').toLowerCase()
+  if (ASSET_EXTENSION.test(path)) {
+    reasons.push('asset file')
+    return result(0)
+  }
+  // WordPress ?p=123 permalinks live on the homepage path
+  if (/^\?(p|page_id)=\d+/.test(parsed.search)) {
+    reasons.push('CMS article id')
+    return result(0.75)
+  }
+  if (!path) {
+    reasons.push('homepage')
+    return result(0)
+  }
+  if (listingUrl) {
+    try {
+      const listing = new URL(listingUrl)
+      if (listing.hostname.replace(/^www\./, '') === parsed.hostname.replace(/^www\./, '') &&
+          listing.pathname.replace(/\/+$/, '').toLowerCase() === path) {
+        reasons.push('listing page itself')
+        return result(0)
+      }
+    } catch {
+      // Ignore an unparseable listing URL
+    }
+  }
+
+  const segments = path.split('/').filter(Boolean)
+  const slug = segments[segments.length - 1].replace(/\.(html?|php|aspx?)$/, '')
+
+  if (NON_CONTENT_SEGMENTS.has(segments[0])) {
+    reasons.push(`non-content section /${segments[0]}`)
+    return result(segments.length > 2 ? 0.2 : 0.05)
+  }
+  if (segments.some(segment => LISTING_SEGMENTS.has(segment)) || /[?&](page|paged|s|q|category|tag)=/.test(parsed.search)) {
+    reasons.push('listing/archive page')
+    return result(0.1)
+  }
+
+  let score = 0.3
+  const slugWords = slug.split(/[-_]+/).filter(Boolean)
+
+  if (DATE_IN_PATH.test(path + '/')) {
+    score += 0.4
+    reasons.push('date in path')
+  }
+
+  // Drupal /node/123
+  if (segments[0] === 'node' && /^\d+$/.test(segments[1] || '')) {
+    score += 0.4
+    reasons.push('CMS article id')
+  }
+
+  if (segments.length >= 2 && ARTICLE_SECTIONS.has(segments[segments.length - 2])) {
+    score += 0.3
+    reasons.push(`article under /${segments[segments.length - 2]}/`)
+  } else if (segments.length >= 2 && segments.slice(0, -1).some(segment => ARTICLE_SECTIONS.has(segment))) {
+    score += 0.15
+    reasons.push('inside an article section')
+  }
+
+  if (slugWords.length >= 4) {
+    score += 0.25
+    reasons.push('long descriptive slug')
+  } else if (slugWords.length === 3) {
+    score += 0.1
+  } else if (segments.length === 1) {
+    // Short top-level pages (/programs, /our-work) are almost always navigation
+    score -= 0.2
+    reasons.push('short top-level path')
+  }
+
+  if (/\d{4,}/.test(slug) && slugWords.length >= 2) {
+    score += 0.1
+    reasons.push('id in slug')
+  }
+
+  if (ARTICLE_SECTIONS.has(slug)) {
+    score -= 0.3
+    reasons.push('section index page')
+  }
+
+  return result(score)
+}
+
+/**
+ * Classify a list of URLs and split them by verdict
+ */
+export function triageUrls(urls: string[], listingUrl?: string): {
+  articles: UrlClassification[]
+  nonArticles: UrlClassification[]
+  ambiguous: UrlClassification[]
+} {
+  const classifications = urls.map(url => classifyArticleUrl(url, listingUrl))
+  return {
+    articles: classifications.filter(c => c.verdict === 'article'),
+    nonArticles: classifications.filter(c => c.verdict === 'non_article'),
+    ambiguous: classifications.filter(c => c.verdict === 'ambiguous')
+  }
+}
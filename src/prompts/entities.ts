@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+import { OrganizationIdentity, describeOrganization } from '@/lib/organizationIdentity'
+
+// Named entities in an article: people, places, partner organizations and programs (used by extractEntities)
+
+export interface EntitiesPromptVars {
+  title: string
+  content: string
+  organization: OrganizationIdentity
+}
+
+export const entitiesSchema = z.object({
+  entities: z.array(z.object({
+    name: z.string().describe('Canonical full name, e.g. "Democratic Republic of the Congo", not "DRC"'),
+    type: z.enum(['person', 'place', 'organization', 'program']),
+    aliases: z.array(z.string()).describe('Other names or abbreviations used for it in the article'),
+    mentions: z.number().int().min(1).describe('How many times it is mentioned'),
+    context: z.string().describe('One short phrase on its role in the story, e.g. "program director", "partner church"')
+  }))
+})
+
+export type EntitiesPromptOutput = z.infer<typeof entitiesSchema>
+
+const entitiesV1: PromptDefinition<EntitiesPromptVars, EntitiesPromptOutput> = {
+  name: 'entities',
+  version: 'v1',
+  description: 'People, places, partner organizations and programs with canonical names',
+  model: 'gpt-4o-mini',
+  temperature: 0,
+  cache: true,
+  system: 'You are an information extraction system for nonprofit impact stories. Extract only entities that are actually named in the text. Always respond with valid JSON only.',
+  schema: entitiesSchema,
+  render: ({ title, content, organization }) => `Extract the named entities from this article published about "${organization.name}".
+
+ORGANIZATION THE ARTICLE IS ABOUT (do not extract it or its aliases):
+${describeOrganization(organization)}
+
+ENTITY TYPES:
+- PERSON: Named individuals (staff, beneficiaries, partners, officials). Skip anonymous people ("a mother of three") and authors of the article.
+- PLACE: Countries, regions, states, cities and named communities. Use the country or city name, not a street address.
+- ORGANIZATION: Partner nonprofits, churches, companies, agencies, universities and funders other than the organization above.
+- PROGRAM: Named programs, initiatives, campaigns, projects or funds (e.g. "Safe Families for Children").
+
+NAMING RULES:
+- Use the canonical full name so the same entity gets the same name across articles ("United States", not "U.S." or "America"; "World Health Organization", not "WHO")
+- Put abbreviations and other spellings used in the article in aliases
+- Use a person's full name as written; don't add titles like "Dr." or "Pastor"
+- Each entity appears once; count its mentions instead
+- Return an empty list when nothing is named
+
+Title: ${title}
+
+Content:
+${content.substring(0, 6000)}
+
+Extract the entities:`
+}
+
+export const entitiesPrompts = [entitiesV1]
@@ -0,0 +1,44 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+
+// Featured image choice among the extracted candidates (used by selectBestImage)
+
+export interface ImageSelectionPromptVars {
+  articleTitle: string
+  articleSummary: string
+  images: { url: string, width?: number, height?: number, alt?: string }[]  // At most 10, largest first
+}
+
+export const imageSelectionSchema = z.object({
+  selectedIndex: z.number().int().min(1).describe('1-based index of the chosen image'),
+  reason: z.string().describe('Brief explanation of why this image was chosen')
+})
+
+export type ImageSelectionPromptOutput = z.infer<typeof imageSelectionSchema>
+
+const imageSelectionV1: PromptDefinition<ImageSelectionPromptVars, ImageSelectionPromptOutput> = {
+  name: 'imageSelection',
+  version: 'v1',
+  description: 'Pick the most representative, content-related image; avoid logos and ads',
+  model: 'gpt-4o',
+  temperature: 0.3,
+  schema: imageSelectionSchema,
+  system: `You are an expert at selecting the most representative image for news articles.
+          Choose the image that best represents the article content and would be most engaging as a featured image.
+
+          Consider:
+          - Image size and quality (larger is generally better)
+          - Alt text relevance to the article
+          - Avoid generic logos, ads, or decorative images
+          - Prefer images that directly relate to the article content`,
+  render: ({ articleTitle, articleSummary, images }) => `Article Title: "${articleTitle}"
+
+Article Summary: "${articleSummary}"
+
+Available Images:
+${images.map((img, index) => `${index + 1}. ${img.url} (${img.width ?? '?'}x${img.height ?? '?'}, alt: "${img.alt ?? ''}")`).join('\n')}
+
+Select the best image:`
+}
+
+export const imageSelectionPrompts = [imageSelectionV1]
@@ -0,0 +1,54 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+
+// Inspiration / transformation potential rating (used by analyzeInspiration)
+
+export interface InspirationPromptVars {
+  title: string
+  summary: string
+  content: string
+}
+
+export const inspirationSchema = z.object({
+  rating: z.enum(['low', 'medium', 'high']),
+  reasoning: z.string().describe('Brief explanation of why this rating was assigned')
+})
+
+export type InspirationPromptOutput = z.infer<typeof inspirationSchema>
+
+const inspirationV1: PromptDefinition<InspirationPromptVars, InspirationPromptOutput> = {
+  name: 'inspiration',
+  version: 'v1',
+  description: 'Three-level rating on personal transformation stories vs. basic information',
+  model: 'gpt-4o-mini',
+  schema: inspirationSchema,
+  system: `You are an expert at analyzing nonprofit and impact stories for transformation potential. You help faith-based investors identify which articles contain meaningful stories of change versus basic informational content.`,
+  render: (article) => `Analyze this article for inspirational and transformational content. Consider:
+
+TRANSFORMATIONAL INDICATORS (HIGH rating):
+- Personal stories of lives changed or transformed
+- Specific examples of people overcoming challenges
+- Measurable impact on communities or individuals
+- Stories of hope, breakthrough moments, or dramatic positive change
+- Evidence of spiritual, emotional, or material transformation
+
+MODERATELY INSPIRING (MEDIUM rating):
+- General positive impact or progress
+- Organizational achievements or milestones
+- Community improvements without specific personal stories
+- Educational or awareness content with some emotional resonance
+
+BASIC INFORMATION (LOW rating):
+- Press releases, announcements, or administrative updates
+- Financial reports or operational information
+- General news without personal impact stories
+- Purely factual content without emotional or transformation elements
+
+Title: ${article.title}
+Summary: ${article.summary}
+Content Preview: ${article.content.substring(0, 3000)}
+
+Rate the inspiration level:`
+}
+
+export const inspirationPrompts = [inspirationV1]
@@ -0,0 +1,69 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+import { OrganizationIdentity, describeOrganization, getOrganizationNames } from '@/lib/organizationIdentity'
+
+// Organization sentiment on the -1..3 scale (used by analyzeSentimentScale)
+
+export interface SentimentPromptVars {
+  content: string
+  organization: OrganizationIdentity
+  title?: string
+}
+
+export const sentimentAnalysisSchema = z.object({
+  sentimentScore: z.number().int().min(-1).max(3).describe('Sentiment score from -1 to 3'),
+  reasoning: z.string().describe('Detailed explanation for the sentiment score'),
+  organizationMentions: z.array(z.string()).describe('Direct quotes or mentions of the organization'),
+  mainFocus: z.string().describe('What is the main focus/topic of the article'),
+  socialImpactIndicators: z.array(z.string()).describe('Evidence of social impact content if applicable')
+})
+
+export type SentimentPromptOutput = z.infer<typeof sentimentAnalysisSchema>
+
+const sentimentV1: PromptDefinition<SentimentPromptVars, SentimentPromptOutput> = {
+  name: 'sentiment',
+  version: 'v1',
+  description: 'Original -1..3 organization sentiment scale with strict scoring rules',
+  model: 'gpt-4o-mini',
+  temperature: 0.1,
+  cache: true,
+  system: 'You are an expert content analyst specializing in organizational sentiment analysis and social impact assessment. Always respond with valid JSON only.',
+  schema: sentimentAnalysisSchema,
+  render: ({ content, organization, title }) => `
+You are analyzing an article about "${organization.name}" to determine organizational sentiment and relevance.
+
+ORGANIZATION:
+${describeOrganization(organization)}
+
+SENTIMENT SCALE:
+-1: Organization is mentioned NEGATIVELY (criticism, scandal, negative impact, problems caused by org)
+ 0: Organization is NOT MENTIONED or only mentioned in passing/context
+ 1: Organization is mentioned but NOT the main focus (brief mention, quoted source, etc.)
+ 2: Organization IS the main focus and article is INFORMATIONAL (facts, updates, general news about org)
+ 3: Organization IS the main focus and article is about their SOCIAL IMPACT (inspiring stories, impact work, positive change they're creating)
+
+ARTICLE TITLE: ${title || 'N/A'}
+
+ARTICLE CONTENT:
+${content}
+
+ANALYSIS INSTRUCTIONS:
+1. Look for direct mentions of the organization in the content by any of its names (${getOrganizationNames(organization).map(name => `"${name}"`).join(', ')}) - a mention of an alias counts as a mention of the organization
+2. Determine if mentions are positive, negative, or neutral
+3. Assess if the organization is the main subject or just mentioned in passing
+4. For score 3: Look for evidence of social impact, positive change, inspiring stories, beneficiaries helped, etc.
+5. For score 2: Informational content about the org (leadership changes, financial reports, general updates)
+6. For score 1: Brief mentions, quotes from org representatives, or context mentions
+7. For score 0: No meaningful mention of the organization
+8. For score -1: Negative coverage, criticism, scandals, or problems
+
+Be STRICT with scoring:
+- Only use 3 if there's clear evidence of INSPIRING SOCIAL IMPACT content
+- Only use 2 if the org is clearly the MAIN FOCUS but it's informational
+- Use 1 for mentions that aren't the main focus
+- Use 0 if there's truly no meaningful mention
+- Use -1 only for genuinely negative coverage
+`
+}
+
+export const sentimentPrompts = [sentimentV1]
@@ -0,0 +1,37 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+
+// Title clean-up (used by formatArticleTitle)
+
+export interface TitleFormattingPromptVars {
+  title: string
+}
+
+export const titleFormattingSchema = z.object({
+  formattedTitle: z.string().describe('The cleaned up title'),
+  changes: z.array(z.string()).describe('List of changes made')
+})
+
+export type TitleFormattingPromptOutput = z.infer<typeof titleFormattingSchema>
+
+const titleFormattingV1: PromptDefinition<TitleFormattingPromptVars, TitleFormattingPromptOutput> = {
+  name: 'titleFormatting',
+  version: 'v1',
+  description: 'Decode entities, fix spelling/capitalization, shorten to 80 characters',
+  model: 'gpt-4o',
+  temperature: 0.2,
+  schema: titleFormattingSchema,
+  system: `You are an expert editor specializing in news article titles.
+          Your job is to clean up and improve article titles while preserving their meaning.
+
+          Tasks:
+          1. Decode any HTML entities (e.g., &amp; → &, &quot; → ")
+          2. Fix spelling and grammar errors
+          3. Ensure proper capitalization
+          4. Shorten to 80 characters or less if needed (while preserving key information)
+          5. Remove redundant words or phrases
+          6. Make it engaging and clear`,
+  render: ({ title }) => `Please format this title: "${title}"`
+}
+
+export const titleFormattingPrompts = [titleFormattingV1]
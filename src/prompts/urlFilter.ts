@@ -0,0 +1,58 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+
+// Content-page filter for crawled URLs the rules-based classifier finds ambiguous
+// (used by discovery's filterUrlsWithAI)
+
+export interface UrlFilterPromptVars {
+  organizationName: string
+  baseUrl: string
+  urls: string[]
+}
+
+export const urlFilterSchema = z.object({
+  urls: z.array(z.string()).describe('The URLs that are content pages, copied exactly')
+})
+
+export type UrlFilterPromptOutput = z.infer<typeof urlFilterSchema>
+
+const urlFilterV1: PromptDefinition<UrlFilterPromptVars, UrlFilterPromptOutput> = {
+  name: 'urlFilter',
+  version: 'v1',
+  description: 'Keep articles, posts, devotionals and teaching; drop navigation, listings and legal pages',
+  model: 'gpt-4o',
+  temperature: 0.1,
+  maxOutputTokens: 2000,
+  schema: urlFilterSchema,
+  system: 'You are a content classification expert. Return only valid JSON.',
+  render: ({ organizationName, baseUrl, urls }) => `
+You are analyzing URLs from a news/blog website for "${organizationName}" (${baseUrl}).
+
+Your task: Return ONLY the URLs that appear to be actual CONTENT pages (articles, blog posts, news stories).
+
+EXCLUDE these types of URLs:
+- Navigation/menu links (about, contact, home, etc.)
+- Category/tag pages (/category/, /tags/, /topics/)
+- Social media links (facebook, twitter, instagram, youtube)
+- Archive/listing pages (/archive/, /page/, pagination)
+- Search/filter pages
+- Privacy/legal pages
+- Donation/giving pages
+- Newsletter/subscription pages
+- Generic directory pages
+
+INCLUDE these types of URLs:
+- Individual blog posts or articles
+- News stories
+- Devotionals or spiritual content
+- Teaching/sermon content
+- Specific dated content
+
+Return the content URLs in the "urls" list:
+
+URLs to analyze:
+${urls.map(url => `- ${url}`).join('\n')}
+`
+}
+
+export const urlFilterPrompts = [urlFilterV1]
@@ -0,0 +1,110 @@
+import { z } from 'zod'
+import type { PromptDefinition } from '@/lib/prompts'
+import { OrganizationIdentity, describeOrganization } from '@/lib/organizationIdentity'
+import type { ValidationExample } from '@/lib/editorialFeedback'
+
+// Catalog validation: organization sentiment, content type and relevance (used by validateArticleContent)
+
+export interface ValidationPromptVars {
+  title: string
+  summary: string
+  content: string
+  organizationName: string
+  organization?: OrganizationIdentity
+  publishedAt?: string | null
+  url: string
+  examples?: ValidationExample[]  // Recent editor decisions, used from v2 (see src/lib/editorialFeedback.ts)
+}
+
+export const validationSchema = z.object({
+  organizationSentiment: z.enum(['positive', 'neutral', 'negative']),
+  contentType: z.enum(['news', 'blog', 'press_release', 'podcast', 'event', 'list_view', 'other']),
+  organizationRelevance: z.enum(['high', 'medium', 'low']),
+  reasoning: z.string().describe('Detailed explanation of the validation decision'),
+  specificIssues: z.array(z.string()).describe('Specific problems found, if any')
+})
+
+export type ValidationPromptOutput = z.infer<typeof validationSchema>
+
+const validationV1: PromptDefinition<ValidationPromptVars, ValidationPromptOutput> = {
+  name: 'validation',
+  version: 'v1',
+  description: 'Reject only negative or low-relevance coverage; accept all content types and dates',
+  model: 'gpt-4o-mini',
+  cache: true,
+  schema: validationSchema,
+  system: `You are an expert content analyst for faith-based impact investing. Your job is to validate whether articles should be catalogued based on simple, focused criteria.
+
+VALIDATION CRITERIA:
+
+1. ORGANIZATION SENTIMENT: How does this article portray the organization?
+   - POSITIVE: Highlights achievements, positive impact, good news about the organization
+   - NEUTRAL: Factual reporting without positive or negative bias
+   - NEGATIVE: Criticism, scandals, negative events, or unfavorable coverage
+
+2. CONTENT TYPE: What type of content is this?
+   - NEWS: Actual news articles about events, developments, impact stories
+   - BLOG: Opinion pieces, thought leadership, personal perspectives, blog posts
+   - PRESS_RELEASE: Official announcements or promotional content
+   - PODCAST: Audio content, podcast episodes, interview transcriptions
+   - EVENT: Event announcements, conference coverage, webinar information
+   - LIST_VIEW: Directory, list of articles, index pages, navigation pages
+   - OTHER: Documentation, technical specs, administrative content
+
+3. ORGANIZATION RELEVANCE: How much is this article actually about the organization?
+   - HIGH: Organization is main subject, significant coverage (>30% of content)
+   - MEDIUM: Organization mentioned substantially but not main focus (10-30%)
+   - LOW: Brief mention, passing reference, or tangential connection (<10%)
+
+REJECTION CRITERIA (VERY LIMITED):
+- Negative sentiment toward the organization (criticism, scandals, unfavorable coverage)
+- Low organization relevance (content is not actually about the organization)
+
+ACCEPT EVERYTHING ELSE:
+- All content types (news, blog, press releases, podcasts, events, etc.)
+- All publish dates (old articles are valuable for historical context)
+- All organization relevance levels except "low" (medium and high are both acceptable)`,
+  render: (input) => `Analyze this article for the organization "${input.organizationName}":
+
+${describeOrganization(input.organization || { name: input.organizationName })}
+
+The article may refer to the organization by any of the names above - treat them all as the same organization when judging relevance and sentiment.
+
+URL: ${input.url}
+Title: ${input.title}
+Summary: ${input.summary}
+Published: ${input.publishedAt || 'Unknown'}
+
+Content Preview:
+${input.content.substring(0, 4000)}
+
+Validate this article:`
+}
+
+function renderExamples(examples: ValidationExample[]): string {
+  return examples.map(example => {
+    const decision = example.outcome === 'accepted'
+      ? 'ACCEPTED'
+      : `REJECTED (${example.reason || 'no reason given'})`
+    return `- ${decision} for ${example.organization}: "${example.title}" (${example.url})${example.summary ? `\n  ${example.summary}` : ''}`
+  }).join('\n')
+}
+
+// v1 plus recent editor accept/reject decisions as few-shot examples
+const validationV2: PromptDefinition<ValidationPromptVars, ValidationPromptOutput> = {
+  ...validationV1,
+  version: 'v2',
+  description: 'v1 criteria calibrated with recent editor accept/reject decisions as examples',
+  render: (input) => {
+    const article = validationV1.render(input)
+    if (!input.examples || input.examples.length === 0) return article
+
+    return `EDITOR DECISIONS: recent articles our editors accepted or rejected. Use them to calibrate what counts as relevant and acceptable coverage - they are examples, not the article to validate.
+
+${renderExamples(input.examples)}
+
+${article}`
+  }
+}
+
+export const validationPrompts = [validationV1, validationV2]
@@ -0,0 +1,139 @@
+/**
+ * Minimal 5-field cron support (minute hour day-of-month month day-of-week, UTC)
+ * used for per-organization discovery schedules
+ */
+
+const CRON_PRESETS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7]   // day of week (0 and 7 are both Sunday)
+]
+
+interface ParsedCron {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  domRestricted: boolean
+  dowRestricted: boolean
+}
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron step: ${part}`)
+    }
+
+    let start = min
+    let end = max
+    if (rangePart !== '*') {
+      const [from, to] = rangePart.split('-').map(Number)
+      start = from
+      end = to === undefined ? (stepPart === undefined ? from : max) : to
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field: ${part}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+export function parseCron(expression: string): ParsedCron {
+  const normalized = CRON_PRESETS[expression.trim().toLowerCase()] || expression.trim()
+  const fields = normalized.split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields: "${expression}"`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i][0], FIELD_RANGES[i][1])
+  )
+
+  // Treat 7 as Sunday
+  if (daysOfWeek.has(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*'
+  }
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  if (!cron.months.has(date.getUTCMonth() + 1)) return false
+
+  const domMatch = cron.daysOfMonth.has(date.getUTCDate())
+  const dowMatch = cron.daysOfWeek.has(date.getUTCDay())
+
+  // Standard cron: when both day fields are restricted, either may match
+  if (cron.domRestricted && cron.dowRestricted) return domMatch || dowMatch
+  if (cron.domRestricted) return domMatch
+  if (cron.dowRestricted) return dowMatch
+  return true
+}
+
+/**
+ * Most recent time at or before `before` that the schedule fired,
+ * or null if it did not fire within the lookback window
+ */
+export function previousCronOccurrence(
+  expression: string,
+  before: Date = new Date(),
+  lookbackMinutes: number = 32 * 24 * 60
+): Date | null {
+  const cron = parseCron(expression)
+  const earliest = before.getTime() - lookbackMinutes * 60 * 1000
+  const candidate = new Date(before)
+  candidate.setUTCSeconds(0, 0)
+
+  // Walk backwards, skipping whole days/hours that cannot match
+  while (candidate.getTime() >= earliest) {
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCHours(0, 0, 0, 0)
+      candidate.setUTCMinutes(-1)
+    } else if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCMinutes(0, 0, 0)
+      candidate.setUTCMinutes(-1)
+    } else if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() - 1)
+    } else {
+      return new Date(candidate)
+    }
+  }
+
+  return null
+}